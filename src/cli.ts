@@ -15,12 +15,26 @@ import { retroCommand } from './commands/retro.js';
 import { velocityCommand } from './commands/velocity.js';
 import { contextBuildCommand } from './commands/context-build.js';
 import { contextInjectCommand } from './commands/context-inject.js';
+import { contextSymbolsCommand } from './commands/context-symbols.js';
+import { adrNewCommand } from './commands/adr-new.js';
+import { pitfallAddCommand } from './commands/pitfall-add.js';
 import { promptOptimizeCommand } from './commands/prompt-optimize.js';
 import { promptDebugCommand } from './commands/prompt-debug.js';
+import { promptTemplateCommand } from './commands/prompt-template.js';
+import { promptOutcomeCommand } from './commands/prompt-outcome.js';
 import { lintAiCommand } from './commands/lint-ai.js';
 import { sessionLogCommand } from './commands/session-log.js';
 import { handoffPrepCommand } from './commands/handoff-prep.js';
 import { sessionResumeCommand } from './commands/session-resume.js';
+import { ticketListCommand } from './commands/ticket-list.js';
+import { ticketShowCommand } from './commands/ticket-show.js';
+import { ticketStartCommand } from './commands/ticket-start.js';
+import { ticketDoneCommand } from './commands/ticket-done.js';
+import { ticketBlockCommand } from './commands/ticket-block.js';
+import { backlogGraphCommand } from './commands/backlog-graph.js';
+import { sprintPlanCommand } from './commands/sprint-plan.js';
+import { sprintCurrentCommand } from './commands/sprint-current.js';
+import { sprintCloseCommand } from './commands/sprint-close.js';
 
 const program = new Command();
 
@@ -37,14 +51,28 @@ program.addCommand(addSpecCommand);
 program.addCommand(reviewSpecCommand);
 program.addCommand(genBacklogCommand);
 program.addCommand(genPromptCommand);
+program.addCommand(ticketListCommand);
+program.addCommand(ticketShowCommand);
+program.addCommand(ticketStartCommand);
+program.addCommand(ticketDoneCommand);
+program.addCommand(ticketBlockCommand);
+program.addCommand(backlogGraphCommand);
+program.addCommand(sprintPlanCommand);
+program.addCommand(sprintCurrentCommand);
+program.addCommand(sprintCloseCommand);
 program.addCommand(testCommand);
 program.addCommand(briefCommand);
 program.addCommand(retroCommand);
 program.addCommand(velocityCommand);
 program.addCommand(contextBuildCommand);
 program.addCommand(contextInjectCommand);
+program.addCommand(contextSymbolsCommand);
+program.addCommand(adrNewCommand);
+program.addCommand(pitfallAddCommand);
 program.addCommand(promptOptimizeCommand);
 program.addCommand(promptDebugCommand);
+program.addCommand(promptTemplateCommand);
+program.addCommand(promptOutcomeCommand);
 program.addCommand(lintAiCommand);
 program.addCommand(sessionLogCommand);
 program.addCommand(handoffPrepCommand);
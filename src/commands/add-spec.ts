@@ -4,6 +4,8 @@ import inquirer from 'inquirer';
 import ora from 'ora';
 import { getSherpaDir, ensureDir, writeMarkdown, fileExists } from '../utils/fs.js';
 import { formatDate } from '../utils/ids.js';
+import { stringifyFrontmatter } from '../utils/frontmatter.js';
+import { SpecMetadata } from '../types/index.js';
 import * as path from 'path';
 
 export const addSpecCommand = new Command('add:spec')
@@ -46,7 +48,7 @@ export const addSpecCommand = new Command('add:spec')
         return;
       }
       
-      const specContent = generateSpecTemplate(specData, options.template);
+      const specContent = generateSpecTemplate(specData, specData.template || options.template);
       await writeMarkdown(specPath, specContent);
       
       spinner.succeed('Specification created successfully!');
@@ -109,6 +111,18 @@ async function gatherSpecInfo(options: any): Promise<any> {
       message: 'Estimated effort (hours):',
       default: '8',
       validate: input => !isNaN(parseInt(input)) && parseInt(input) > 0
+    },
+    {
+      type: 'input',
+      name: 'owner',
+      message: 'Owner:',
+      default: 'unassigned'
+    },
+    {
+      type: 'input',
+      name: 'target_date',
+      message: 'Target date (YYYY-MM-DD, optional):',
+      validate: input => input.length === 0 || /^\d{4}-\d{2}-\d{2}$/.test(input) || 'Use the YYYY-MM-DD format'
     }
   ]);
   
@@ -117,14 +131,21 @@ async function gatherSpecInfo(options: any): Promise<any> {
 
 function generateSpecTemplate(specData: any, templateType: string): string {
   const date = formatDate();
+  const metadata: SpecMetadata = {
+    title: specData.title,
+    status: 'draft',
+    priority: (specData.priority || 'medium').toLowerCase() as SpecMetadata['priority'],
+    effort: parseInt(specData.effort || '8'),
+    type: templateType,
+    owner: specData.owner || 'unassigned',
+    created: date,
+    target_date: specData.target_date || undefined,
+    links: [],
+    dependencies: []
+  };
+  
   const baseTemplate = `# ${specData.title}
 
-**Status**: Draft  
-**Priority**: ${specData.priority || 'Medium'}  
-**Effort**: ${specData.effort || '8'} hours  
-**Created**: ${date}  
-**Type**: ${templateType}
-
 ## Overview
 Brief description of what this specification covers and why it's needed.
 
@@ -222,7 +243,7 @@ _Use this section for review feedback and decisions_
 ---
 *Specification created with Sherpa OS - ${date}*`;
 
-  return baseTemplate;
+  return stringifyFrontmatter(metadata, baseTemplate);
 }
 
 function getTemplateSpecificSections(templateType: string): string {
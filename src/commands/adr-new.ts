@@ -0,0 +1,86 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { getSherpaRoot, ensureDir, fileExists, readMarkdown, writeMarkdown } from '../utils/fs.js';
+import { formatDate } from '../utils/ids.js';
+import { ADR_STATUSES, AdrFormat, parseAdr, renderAdr, markAdrSuperseded, nextAdrNumber, adrFilename } from '../utils/adr.js';
+
+export const adrNewCommand = new Command('adr:new')
+  .description('Create a numbered architectural decision record in docs/adr')
+  .argument('<title>', 'Decision title')
+  .option('-s, --status <status>', `Initial status (${ADR_STATUSES.join(', ')})`, 'proposed')
+  .option('--supersedes <adr>', 'Number or file name of the record this one replaces')
+  .option('-f, --format <format>', 'Record layout (nygard, madr); defaults to the layout of the latest record')
+  .action(async (title: string, options) => {
+    try {
+      const status = options.status.toLowerCase();
+      if (!ADR_STATUSES.includes(status)) {
+        console.log(chalk.red(`❌ Unknown status: ${options.status}. Use one of: ${ADR_STATUSES.join(', ')}`));
+        return;
+      }
+      if (options.format && !['nygard', 'madr'].includes(options.format)) {
+        console.log(chalk.red(`❌ Unknown format: ${options.format}. Use nygard or madr`));
+        return;
+      }
+
+      const adrDir = path.join(getSherpaRoot(), 'docs', 'adr');
+      await ensureDir(adrDir);
+      const existing = (await fs.readdir(adrDir)).filter(file => file.endsWith('.md')).sort();
+
+      let superseded: { file: string; title: string; content: string } | undefined;
+      if (options.supersedes) {
+        const reference = String(options.supersedes).replace(/\.md$/, '');
+        const number = /^\d+$/.test(reference) ? parseInt(reference, 10) : null;
+        const file = existing.find(candidate => candidate.replace(/\.md$/, '') === reference
+          || (number !== null && parseInt(candidate.match(/^(\d+)-/)?.[1] || '', 10) === number));
+        if (!file) {
+          console.log(chalk.red(`❌ No record matching "${options.supersedes}" in ${path.relative(process.cwd(), adrDir) || adrDir}`));
+          return;
+        }
+        const content = await readMarkdown(path.join(adrDir, file));
+        const adr = parseAdr(content, file, new Date().toISOString());
+        superseded = { file, title: adr.number !== null ? `${adr.number}. ${adr.title}` : adr.title, content };
+      }
+
+      const number = nextAdrNumber(existing);
+      const filename = adrFilename(number, title);
+      const filePath = path.join(adrDir, filename);
+      if (await fileExists(filePath)) {
+        console.log(chalk.yellow(`⚠️  File already exists: ${filename}`));
+        return;
+      }
+
+      const latest = existing.filter(file => /^\d+-/.test(file)).pop();
+      const format: AdrFormat = options.format
+        || (latest && (await readMarkdown(path.join(adrDir, latest))).startsWith('---') ? 'madr' : 'nygard');
+
+      await writeMarkdown(filePath, renderAdr({
+        number,
+        title,
+        status,
+        date: formatDate(),
+        format,
+        supersedes: superseded ? { title: superseded.title, file: superseded.file } : undefined
+      }));
+
+      console.log(chalk.green(`✅ ADR ${number} created: ${title}`));
+      console.log(chalk.blue(`📄 File: ${filePath}`));
+
+      if (superseded) {
+        const updated = markAdrSuperseded(superseded.content, { title: `${number}. ${title}`, file: filename });
+        if (updated !== superseded.content) {
+          await writeMarkdown(path.join(adrDir, superseded.file), updated);
+          console.log(chalk.yellow(`🔁 Marked ${superseded.file} as superseded`));
+        } else {
+          console.log(chalk.yellow(`⚠️  Could not find a status in ${superseded.file}; it is still superseded through the link in the new record`));
+        }
+      }
+
+      console.log(chalk.gray('\n💡 Fill in the context, decision and consequences, then run `sherpa context:build` so prompts pick it up'));
+
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
\ No newline at end of file
@@ -0,0 +1,149 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { getSherpaDir, writeMarkdown, fileExists } from '../utils/fs.js';
+import { BacklogManager, getStatusIcon } from '../utils/backlog.js';
+import {
+  DependencyGraph,
+  CriticalPath,
+  GraphFormat,
+  GRAPH_FORMATS,
+  buildDependencyGraph,
+  computeCriticalPath,
+  getPrerequisites,
+  toMermaid,
+  toDot
+} from '../utils/backlog-graph.js';
+
+export const backlogGraphCommand = new Command('backlog:graph')
+  .description('Show ticket dependencies and the critical path')
+  .option('-f, --format <format>', `Output format (${GRAPH_FORMATS.join(', ')})`, 'tree')
+  .option('-o, --output <file>', 'Write the graph to a file instead of the terminal')
+  .option('--check', 'Only validate dependencies (exits non-zero on problems)')
+  .action(async (options) => {
+    try {
+      if (!await fileExists(getSherpaDir())) {
+        console.log(chalk.red('❌ Sherpa OS not initialized. Run `sherpa init` first.'));
+        return;
+      }
+
+      const format = options.format as GraphFormat;
+      if (!GRAPH_FORMATS.includes(format)) {
+        console.log(chalk.red(`❌ Unknown format: ${options.format}. Use one of: ${GRAPH_FORMATS.join(', ')}`));
+        return;
+      }
+
+      const items = await new BacklogManager().loadBacklog();
+      if (items.tickets.length === 0) {
+        console.log(chalk.yellow('⚠️  No tickets found. Run `sherpa gen:backlog` first.'));
+        return;
+      }
+
+      const graph = buildDependencyGraph(items);
+      const criticalPath = computeCriticalPath(graph);
+
+      if (options.check) {
+        printIssues(graph);
+        if (graph.issues.length > 0) {
+          process.exit(1);
+        }
+        console.log(chalk.green('✅ No dependency problems found'));
+        return;
+      }
+
+      if (format !== 'tree') {
+        const output = format === 'mermaid' ? toMermaid(graph, criticalPath) : toDot(graph, criticalPath);
+        if (options.output) {
+          await writeMarkdown(options.output, output);
+          console.log(chalk.green(`✅ ${format === 'mermaid' ? 'Mermaid' : 'Graphviz DOT'} graph written to ${options.output}`));
+        } else {
+          console.log(output);
+        }
+        // stderr keeps piped exports clean
+        if (graph.issues.length > 0) {
+          console.error(chalk.yellow(`⚠️  ${graph.issues.length} dependency problems - run \`sherpa backlog:graph --check\` for details`));
+        }
+        return;
+      }
+
+      console.log(chalk.blue('\n🕸️  Backlog Dependency Tree\n'));
+      printTree(graph);
+      printCriticalPath(criticalPath);
+      printIssues(graph);
+
+      console.log(chalk.gray('\n💡 Next steps:'));
+      console.log(chalk.gray('   1. Add `depends_on` or `blocks` lists to ticket, story or epic YAML files'));
+      console.log(chalk.gray('   2. Export with `sherpa backlog:graph --format mermaid -o backlog.mmd`'));
+
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
+
+function printTree(graph: DependencyGraph): void {
+  const required = new Set<string>();
+  for (const id of graph.nodes.keys()) {
+    getPrerequisites(graph, id, false).forEach(prerequisite => required.add(prerequisite));
+  }
+
+  // Start from the items nothing else waits on; cycles leave no such item, so fall back to all
+  let roots = Array.from(graph.nodes.keys()).filter(id => !required.has(id));
+  if (roots.length === 0) {
+    roots = Array.from(graph.nodes.keys());
+  }
+
+  const printed = new Set<string>();
+  const print = (id: string, prefix: string, isLast: boolean, isChild: boolean, depth: number) => {
+    const node = graph.nodes.get(id);
+    if (!node) return;
+
+    const branch = depth === 0 ? '' : `${prefix}${isLast ? '└─ ' : '├─ '}`;
+    const relation = depth === 0 ? '' : chalk.gray(isChild ? '' : 'needs ');
+    const icon = node.kind === 'ticket' && node.status ? getStatusIcon(node.status) : node.kind === 'epic' ? '🎯' : '📖';
+    const hours = node.kind === 'ticket' ? chalk.gray(` (${node.hours}h)`) : '';
+
+    if (printed.has(id)) {
+      console.log(`${branch}${relation}${icon} ${chalk.cyan(node.id)} ${chalk.gray('(see above)')}`);
+      return;
+    }
+    printed.add(id);
+    console.log(`${branch}${relation}${icon} ${chalk.cyan(node.id)} ${node.title}${hours}`);
+
+    const next = [
+      ...node.children.map(childId => ({ id: childId, isChild: true })),
+      ...node.dependsOn.map(dependencyId => ({ id: dependencyId, isChild: false }))
+    ];
+    const childPrefix = depth === 0 ? '' : `${prefix}${isLast ? '   ' : '│  '}`;
+    next.forEach((entry, index) => print(entry.id, childPrefix, index === next.length - 1, entry.isChild, depth + 1));
+  };
+
+  roots.forEach(id => {
+    print(id, '', true, true, 0);
+    console.log('');
+  });
+}
+
+function printCriticalPath(criticalPath: CriticalPath | null): void {
+  if (!criticalPath) {
+    console.log(chalk.yellow('⚠️  Critical path unavailable until dependency cycles are resolved'));
+    return;
+  }
+
+  if (criticalPath.path.length === 0) {
+    return;
+  }
+
+  console.log(chalk.bold(`🔥 Critical Path (${criticalPath.hours}h)`));
+  criticalPath.path.forEach((node, index) => {
+    console.log(`   ${index + 1}. ${chalk.cyan(node.id)} ${node.title} ${chalk.gray(`(${node.hours}h)`)}`);
+  });
+}
+
+function printIssues(graph: DependencyGraph): void {
+  if (graph.issues.length === 0) {
+    return;
+  }
+
+  console.log(chalk.red(`\n❌ Dependency problems (${graph.issues.length})`));
+  graph.issues.forEach(issue => console.log(chalk.red(`   • ${issue.message}`)));
+}
\ No newline at end of file
@@ -5,6 +5,7 @@ import ora from 'ora';
 import { getSherpaDir, ensureDir, writeMarkdown, readJson, writeJson, fileExists } from '../utils/fs.js';
 import { SessionManager } from '../utils/session.js';
 import { formatDate } from '../utils/ids.js';
+import { getLatestTestResult } from '../utils/test-results.js';
 import { Brief } from '../types/index.js';
 import * as path from 'path';
 
@@ -115,14 +116,17 @@ async function generateAutoBrief(date: string): Promise<Brief> {
     nextActions.push('Continue current development work');
   }
   
+  // Prefer the last recorded `sherpa test` run over what was logged by hand
+  const testResult = await getLatestTestResult();
+  
   return {
     date,
     progress,
     blockers,
     next_actions: nextActions,
     test_status: {
-      coverage_percent: 75, // Would be calculated from actual test results
-      tests_passing: recentProgress?.testStatus === 'complete'
+      coverage_percent: testResult?.coverage?.lines ?? 0,
+      tests_passing: testResult ? testResult.success : recentProgress?.testStatus === 'complete'
     }
   };
 }
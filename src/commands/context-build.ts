@@ -3,10 +3,12 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { ContextManager } from '../utils/context.js';
 import { getSherpaRoot } from '../utils/fs.js';
+import { isActiveDecision } from '../utils/adr.js';
 
 export const contextBuildCommand = new Command('context:build')
   .description('Extract and build compressed context from codebase')
   .option('-v, --verbose', 'Show detailed progress')
+  .option('--force', 'Rebuild context from scratch, ignoring the file cache')
   .action(async (options) => {
     const spinner = ora('Building context from codebase...').start();
     
@@ -15,13 +17,25 @@ export const contextBuildCommand = new Command('context:build')
       const contextManager = new ContextManager();
       
       spinner.text = 'Analyzing source files...';
-      const context = await contextManager.buildContext(projectRoot);
+      const context = await contextManager.buildContext(projectRoot, { force: options.force });
       
       spinner.succeed('Context built successfully!');
       
       console.log(chalk.green('\n✅ Context Summary:'));
+      if (context.buildStats) {
+        const { files, parsed, reused, removed } = context.buildStats;
+        console.log(`📄 Source files: ${files} (${parsed} parsed, ${reused} unchanged${removed > 0 ? `, ${removed} removed` : ''})`);
+      }
       console.log(`📁 Patterns extracted: ${context.patterns.length}`);
-      console.log(`🏗️  Architectural decisions: ${context.decisions.length}`);
+      const graph = await contextManager.getImportGraph();
+      const symbols = await contextManager.getSymbolIndex();
+      if (graph) {
+        const edges = Object.values(graph.modules).reduce((sum, node) => sum + node.imports.length, 0);
+        console.log(`🔣 Symbols indexed: ${symbols.length} (${Object.keys(graph.modules).length} modules, ${edges} internal imports)`);
+      }
+      const activeDecisions = context.decisions.filter(isActiveDecision);
+      const retired = context.decisions.length - activeDecisions.length;
+      console.log(`🏗️  Architectural decisions: ${activeDecisions.length}${retired > 0 ? ` (${retired} superseded or deprecated, left out of prompts)` : ''}`);
       console.log(`⚠️  Common pitfalls tracked: ${context.pitfalls.length}`);
       console.log(`🔍 Codebase fingerprint: ${context.codebaseFingerprint}`);
       
@@ -35,8 +49,8 @@ export const contextBuildCommand = new Command('context:build')
           });
           
         console.log(chalk.blue('\n🏛️  Key Decisions:'));
-        context.decisions.slice(0, 3).forEach(decision => {
-          console.log(`  • ${decision.title}`);
+        activeDecisions.slice(0, 3).forEach(decision => {
+          console.log(`  • ${decision.title}${decision.status && decision.status !== 'accepted' ? chalk.gray(` (${decision.status})`) : ''}`);
         });
       }
       
@@ -1,7 +1,10 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
+import inquirer from 'inquirer';
 import { ContextManager } from '../utils/context.js';
-import { writeMarkdown } from '../utils/fs.js';
+import { writeMarkdown, getSherpaRoot } from '../utils/fs.js';
+import { isActiveDecision } from '../utils/adr.js';
+import { describePitfallHistory } from '../utils/pitfalls.js';
 import * as path from 'path';
 
 export const contextInjectCommand = new Command('context:inject')
@@ -12,12 +15,36 @@ export const contextInjectCommand = new Command('context:inject')
   .action(async (options) => {
     try {
       const contextManager = new ContextManager();
-      const context = await contextManager.getCompressedContext();
+      let context = await contextManager.getCompressedContext();
       
       if (!context) {
         console.log(chalk.yellow('⚠️  No context found. Run `sherpa context:build` first.'));
         return;
       }
+
+      const freshness = await contextManager.checkFreshness(getSherpaRoot());
+      if (freshness.stale) {
+        const changedCount = freshness.changed.length + freshness.added.length + freshness.removed.length;
+        // Progress goes to stderr so piping the injection stays clean
+        console.error(chalk.yellow(`⚠️  Context is stale: ${changedCount > 0 ? `${changedCount} source files changed` : 'the codebase changed'} since the last build`));
+
+        let rebuild = false;
+        if (process.stdin.isTTY) {
+          ({ rebuild } = await inquirer.prompt([{
+            type: 'confirm',
+            name: 'rebuild',
+            message: `Rebuild context for the ${changedCount} changed files now?`,
+            default: true
+          }]));
+        }
+
+        if (rebuild) {
+          context = await contextManager.buildContext(getSherpaRoot());
+          console.error(chalk.green(`✅ Context rebuilt (${context.buildStats?.parsed ?? 0} files re-parsed)`));
+        } else {
+          console.error(chalk.gray('💡 Run `sherpa context:build` to refresh it'));
+        }
+      }
       
       let relevantContext;
       
@@ -27,7 +54,7 @@ export const contextInjectCommand = new Command('context:inject')
       } else {
         relevantContext = {
           patterns: context.patterns.slice(0, 10), // Top 10 patterns
-          decisions: context.decisions
+          decisions: context.decisions.filter(isActiveDecision)
         };
       }
       
@@ -80,7 +107,7 @@ ${relevantContext.decisions.map(decision =>
 ${context.pitfalls.map((pitfall: any) => 
   `### ${pitfall.pattern}
 - **Problem**: ${pitfall.description}
-- **Solution**: ${pitfall.solution}
+- **Solution**: ${pitfall.solution}${pitfall.frequency > 0 ? `\n- **Seen**: ${describePitfallHistory(pitfall)}` : ''}
 `).join('\n')}
 
 ## Context Rules
@@ -0,0 +1,63 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { ContextManager } from '../utils/context.js';
+import { SYMBOL_KINDS, SymbolKind } from '../utils/code-index.js';
+
+export const contextSymbolsCommand = new Command('context:symbols')
+  .description('Look up exported functions, classes and types in the symbol index')
+  .argument('<query>', 'Symbol name or part of one')
+  .option('-k, --kind <kind>', `Only show one kind (${SYMBOL_KINDS.join(', ')})`)
+  .option('-l, --limit <count>', 'Maximum results to show', '20')
+  .option('--json', 'Output results as JSON')
+  .action(async (query: string, options) => {
+    try {
+      if (options.kind && !SYMBOL_KINDS.includes(options.kind)) {
+        console.log(chalk.red(`❌ Unknown kind: ${options.kind}. Use one of: ${SYMBOL_KINDS.join(', ')}`));
+        return;
+      }
+
+      const limit = parseInt(options.limit, 10);
+      if (isNaN(limit) || limit < 1) {
+        console.log(chalk.red('❌ --limit must be a positive number'));
+        return;
+      }
+
+      const contextManager = new ContextManager();
+      const graph = await contextManager.getImportGraph();
+      if (!graph) {
+        console.log(chalk.yellow('⚠️  No symbol index found. Run `sherpa context:build` first.'));
+        return;
+      }
+
+      const symbols = await contextManager.searchSymbols(query, { kind: options.kind as SymbolKind | undefined, limit });
+
+      if (options.json) {
+        console.log(JSON.stringify(symbols.map(symbol => ({
+          ...symbol,
+          importedBy: graph.modules[symbol.file]?.importedBy || []
+        })), null, 2));
+        return;
+      }
+
+      if (symbols.length === 0) {
+        console.log(chalk.yellow(`No symbols matching "${query}"`));
+        console.log(chalk.gray('💡 The index only covers exported symbols - rebuild with `sherpa context:build` after adding code'));
+        return;
+      }
+
+      console.log(chalk.blue(`🔎 ${symbols.length} symbol${symbols.length === 1 ? '' : 's'} matching "${query}":\n`));
+      symbols.forEach(symbol => {
+        const importedBy = graph.modules[symbol.file]?.importedBy || [];
+        console.log(`${chalk.cyan(symbol.kind.padEnd(9))} ${chalk.bold(symbol.name)}  ${chalk.gray(`${symbol.file}:${symbol.line}`)}`);
+        console.log(`          ${symbol.signature}`);
+        if (importedBy.length > 0) {
+          const shown = importedBy.slice(0, 3).join(', ');
+          console.log(chalk.gray(`          used by ${importedBy.length} module${importedBy.length === 1 ? '' : 's'}: ${shown}${importedBy.length > 3 ? ', …' : ''}`));
+        }
+      });
+
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
\ No newline at end of file
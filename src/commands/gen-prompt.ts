@@ -3,19 +3,32 @@ import chalk from 'chalk';
 import inquirer from 'inquirer';
 import ora from 'ora';
 import { promises as fs } from 'fs';
-import { getSherpaDir, ensureDir, writeMarkdown, readYaml, fileExists } from '../utils/fs.js';
+import { getSherpaDir, getSherpaRoot, ensureDir, writeMarkdown, readYaml, fileExists } from '../utils/fs.js';
 import { PromptManager } from '../utils/prompts.js';
-import { ContextManager } from '../utils/context.js';
+import { BudgetReport, PromptSection } from '../utils/prompt-budget.js';
+import { ContextManager, CommonPitfall } from '../utils/context.js';
+import { CodeSymbol } from '../utils/code-index.js';
+import { describePitfallHistory } from '../utils/pitfalls.js';
 import { SessionManager } from '../utils/session.js';
+import { BacklogManager } from '../utils/backlog.js';
+import { buildDependencyGraph, getUnfinishedDependencies } from '../utils/backlog-graph.js';
+import { walkProjectFiles } from '../utils/project-files.js';
+import { rankFilesForTicket, RankedFile, SessionFileHint } from '../utils/files-map.js';
 import { Ticket } from '../types/index.js';
 import * as path from 'path';
 
+const MAX_MAPPED_FILES = 15;
+const MAX_RELEVANT_SYMBOLS = 8;
+const MAX_SEEN_PITFALLS = 5;
+
 export const genPromptCommand = new Command('gen:prompt')
   .description('Generate AI prompts from backlog')
   .option('-t, --ticket <ticket>', 'Specific ticket ID to generate prompt for')
   .option('-o, --output <file>', 'Output file for the prompt')
   .option('--context', 'Include full context injection')
-  .option('--template <template>', 'Prompt template to use')
+  .option('--template <template>', 'Prompt template id to use (see `sherpa prompt:template list`)')
+  .option('-m, --model <model>', 'Target model, used to pick the token budget')
+  .option('-b, --budget <tokens>', 'Token budget for the whole prompt (overrides the model budget)')
   .action(async (options) => {
     try {
       const backlogDir = path.join(getSherpaDir(), 'backlog');
@@ -43,6 +56,12 @@ export const genPromptCommand = new Command('gen:prompt')
           return;
         }
         ticketToProcess = await readYaml<Ticket>(ticketPath);
+        
+        const graph = buildDependencyGraph(await new BacklogManager().loadBacklog());
+        const waitingOn = getUnfinishedDependencies(graph, ticketToProcess.ticket_id);
+        if (waitingOn.length > 0) {
+          console.log(chalk.yellow(`⚠️  ${ticketToProcess.ticket_id} is waiting on unfinished work: ${waitingOn.map(node => node.id).join(', ')}`));
+        }
       } else {
         // Let user select a ticket
         const selectedTicket = await selectTicket(backlogDir);
@@ -66,34 +85,67 @@ export const genPromptCommand = new Command('gen:prompt')
       spinner.text = 'Building context...';
       
       // Get or build context if requested
-      let contextContent = '';
+      let contextSections: PromptSection[] = [];
       if (options.context) {
         let context = await contextManager.getCompressedContext();
         if (!context) {
           spinner.text = 'Building codebase context...';
-          context = await contextManager.buildContext(process.cwd());
+          context = await contextManager.buildContext(getSherpaRoot());
+        } else {
+          const freshness = await contextManager.checkFreshness(getSherpaRoot());
+          if (freshness.stale) {
+            spinner.stop();
+            const changedCount = freshness.changed.length + freshness.added.length + freshness.removed.length;
+            console.log(chalk.yellow(`⚠️  Context is stale: ${changedCount > 0 ? `${changedCount} source files changed` : 'the codebase changed'} since the last build`));
+
+            let rebuild = false;
+            if (process.stdin.isTTY) {
+              ({ rebuild } = await inquirer.prompt([{
+                type: 'confirm',
+                name: 'rebuild',
+                message: `Rebuild context for the ${changedCount} changed files now?`,
+                default: true
+              }]));
+            }
+
+            if (rebuild) {
+              spinner.start('Rebuilding changed files...');
+              context = await contextManager.buildContext(getSherpaRoot());
+            } else {
+              console.log(chalk.gray('💡 Using the stale context - run `sherpa context:build` to refresh it'));
+              spinner.start('Building context...');
+            }
+          }
         }
         
         const relevantContext = await contextManager.searchSimilarContext(
           `${ticketToProcess.title} ${ticketToProcess.outcome}`
         );
         
-        contextContent = generateContextSection(context, relevantContext);
+        const relevantSymbols = await findTicketSymbols(contextManager, ticketToProcess);
+        contextSections = generateContextSections(context, relevantContext, relevantSymbols);
       }
       
       spinner.text = 'Generating prompt...';
       
-      // Generate the prompt using the intelligent prompt system
-      const generatedPrompt = await promptManager.generatePrompt(ticketToProcess);
-      
-      // Combine with context if requested
-      let finalPrompt = generatedPrompt;
-      if (contextContent) {
-        finalPrompt = `${contextContent}\n\n---\n\n${generatedPrompt}`;
+      // Generate the prompt using the intelligent prompt system, fitted to the token budget
+      const budget = options.budget !== undefined ? parseInt(options.budget, 10) : undefined;
+      if (budget !== undefined && (isNaN(budget) || budget < 1)) {
+        spinner.fail('Invalid token budget');
+        console.log(chalk.red('❌ --budget must be a positive number of tokens'));
+        return;
       }
+      const generated = await promptManager.generateBudgetedPrompt(ticketToProcess, undefined, {
+        model: options.model,
+        templateId: options.template,
+        budget,
+        leadingSections: contextSections
+      });
+      const finalPrompt = generated.content;
       
       // Add files map
-      const filesMap = await generateFilesMap(ticketToProcess);
+      spinner.text = 'Ranking relevant files...';
+      const filesMap = await generateFilesMap(ticketToProcess, contextManager, sessionManager);
       
       // Save the prompt
       const outputPath = options.output || 
@@ -124,10 +176,19 @@ export const genPromptCommand = new Command('gen:prompt')
       console.log(chalk.green(`\n✅ Prompt Generated: ${ticketToProcess.title}`));
       console.log(chalk.blue(`📄 Prompt: ${outputPath}`));
       console.log(chalk.blue(`📁 Files Map: ${filesMapPath}`));
+      console.log(chalk.blue(`🧩 Template: ${generated.templateId}`) + chalk.gray(` - ${generated.templateReason}`));
+      generated.templateIssues.forEach(issue => {
+        const color = issue.severity === 'error' ? chalk.red : chalk.yellow;
+        console.log(color(`   ${issue.severity}: ${issue.message}`));
+      });
+      filesMap.relevant_files.slice(0, 5).forEach((file: RankedFile) => {
+        console.log(chalk.gray(`   ${String(file.score).padStart(5)}  ${file.path} - ${file.reason}`));
+      });
       
-      if (contextContent) {
+      if (contextSections.length > 0) {
         console.log(chalk.blue(`🧠 Context included from codebase analysis`));
       }
+      printBudgetReport(generated.budget);
       
       console.log(chalk.gray('\n💡 Usage:'));
       console.log(chalk.gray('   1. Copy the prompt to your AI coding assistant'));
@@ -135,6 +196,7 @@ export const genPromptCommand = new Command('gen:prompt')
       console.log(chalk.gray('   3. Implement the ticket requirements'));
       console.log(chalk.gray('   4. Use `sherpa session:log` to track progress'));
       console.log(chalk.gray('   5. Use `sherpa lint:ai` to check for AI anti-patterns'));
+      console.log(chalk.gray(`   6. Record how it went: \`sherpa prompt:outcome ${generated.versionId} --outcome success\``));
       
       // Show preview of the prompt
       console.log(chalk.blue('\n📝 Prompt Preview:'));
@@ -160,6 +222,20 @@ export const genPromptCommand = new Command('gen:prompt')
     }
   });
 
+function printBudgetReport(report: BudgetReport): void {
+  const color = report.overBudget ? chalk.red : chalk.blue;
+  console.log(color(`📏 Tokens: ~${report.totalTokens} of ${report.budget} (model: ${report.model})`));
+  report.sections
+    .filter(section => section.originalTokens > 0)
+    .forEach(section => {
+      const change = section.action === 'kept' ? '' : chalk.yellow(`  ${section.action} from ${section.originalTokens}`);
+      console.log(chalk.gray(`   ${section.id.padEnd(26)} ${String(section.tokens).padStart(6)}`) + change);
+    });
+  if (report.overBudget) {
+    console.log(chalk.yellow('⚠️  The ticket and template alone exceed the budget - raise it with --budget or prompts.budgets in .sherpa/config.yml'));
+  }
+}
+
 async function selectTicket(backlogDir: string): Promise<Ticket | null> {
   const ticketsDir = path.join(backlogDir, 'tickets');
   
@@ -168,31 +244,26 @@ async function selectTicket(backlogDir: string): Promise<Ticket | null> {
     return null;
   }
   
-  const ticketFiles = await fs.readdir(ticketsDir);
-  const ymlFiles = ticketFiles.filter(f => f.endsWith('.yml'));
+  const items = await new BacklogManager().loadBacklog();
   
-  if (ymlFiles.length === 0) {
-    console.log(chalk.yellow('⚠️  No ticket files found.'));
+  if (items.tickets.length === 0) {
+    console.log(chalk.yellow('⚠️  No valid tickets found.'));
     return null;
   }
   
-  // Load ticket summaries
-  const ticketChoices = [];
-  for (const file of ymlFiles.slice(0, 20)) { // Limit to 20 for UI
-    const ticketPath = path.join(ticketsDir, file);
-    try {
-      const ticket = await readYaml<Ticket>(ticketPath);
-      ticketChoices.push({
-        name: `${ticket.ticket_id}: ${ticket.title} (${ticket.timebox_hours}h)`,
-        value: ticket
-      });
-    } catch (error) {
-      // Skip invalid files
-    }
-  }
+  // Tickets still waiting on other work are listed last and can't be picked
+  const graph = buildDependencyGraph(items);
+  const ticketChoices = items.tickets.map(ticket => {
+    const waitingOn = getUnfinishedDependencies(graph, ticket.ticket_id);
+    return {
+      name: `${ticket.ticket_id}: ${ticket.title} (${ticket.timebox_hours}h)`,
+      value: ticket,
+      disabled: waitingOn.length > 0 ? `waiting on ${waitingOn.map(node => node.id).join(', ')}` : false
+    };
+  }).sort((a, b) => Number(Boolean(a.disabled)) - Number(Boolean(b.disabled)));
   
-  if (ticketChoices.length === 0) {
-    console.log(chalk.yellow('⚠️  No valid tickets found.'));
+  if (ticketChoices.every(choice => choice.disabled)) {
+    console.log(chalk.yellow('⚠️  Every ticket is waiting on unfinished dependencies. Run `sherpa backlog:graph` to see why.'));
     return null;
   }
   
@@ -200,103 +271,143 @@ async function selectTicket(backlogDir: string): Promise<Ticket | null> {
     type: 'list',
     name: 'selectedTicket',
     message: 'Select a ticket to generate prompt for:',
-    choices: ticketChoices,
+    choices: ticketChoices.slice(0, 20), // Limit to 20 for UI
     pageSize: 15
   }]);
   
   return selectedTicket;
 }
 
-function generateContextSection(context: any, relevantContext: { patterns: any[], decisions: any[] }): string {
-  return `# 🧠 Codebase Context
+/**
+ * Looks up indexed symbols named like the ticket's keywords, so the prompt can point at
+ * existing APIs instead of letting the assistant invent new ones.
+ */
+async function findTicketSymbols(contextManager: ContextManager, ticket: Ticket): Promise<CodeSymbol[]> {
+  const keywords = `${ticket.title} ${ticket.outcome}`
+    .split(/[^A-Za-z0-9_]+/)
+    .filter(word => word.length >= 4)
+    .map(word => word.toLowerCase())
+    .filter((word, index, words) => words.indexOf(word) === index);
+
+  const symbols: CodeSymbol[] = [];
+  for (const keyword of keywords) {
+    for (const symbol of await contextManager.searchSymbols(keyword, { limit: 2 })) {
+      if (!symbols.some(existing => existing.file === symbol.file && existing.name === symbol.name)) {
+        symbols.push(symbol);
+      }
+    }
+  }
+
+  return symbols.slice(0, MAX_RELEVANT_SYMBOLS);
+}
+
+/**
+ * The context injection as separate budget sections, so a tight budget loses the generic
+ * reminders and pattern examples before the decisions and APIs the ticket depends on.
+ */
+function generateContextSections(context: any, relevantContext: { patterns: any[], decisions: any[] }, symbols: CodeSymbol[] = []): PromptSection[] {
+  const seenPitfalls = (context.pitfalls || [])
+    .filter((pitfall: CommonPitfall) => pitfall.frequency > 0)
+    .slice(0, MAX_SEEN_PITFALLS);
+
+  const sections: PromptSection[] = [
+    { id: 'context:summary', priority: 85, content: `# 🧠 Codebase Context
 
 ## Project Summary
-${context.summary}
+${context.summary}` }
+  ];
 
-## Key Patterns to Follow
+  if (relevantContext.patterns.length > 0) {
+    sections.push({ id: 'context:patterns', priority: 58, content: `## Key Patterns to Follow
 ${relevantContext.patterns.slice(0, 3).map((pattern: any) => 
   `### ${pattern.name}
 - **Usage**: ${pattern.frequency} times across ${pattern.files.length} files
 - **Description**: ${pattern.description}
 - **Example**: \`${pattern.example}\``
-).join('\n\n')}
+).join('\n\n')}` });
+  }
 
-## Architectural Constraints
+  if (relevantContext.decisions.length > 0) {
+    sections.push({ id: 'context:decisions', priority: 78, content: `## Architectural Constraints
 ${relevantContext.decisions.map((decision: any) => 
   `### ${decision.title}
 - **Decision**: ${decision.decision}
 - **Rationale**: ${decision.rationale}`
-).join('\n\n')}
+).join('\n\n')}` });
+  }
+
+  if (symbols.length > 0) {
+    sections.push({ id: 'context:apis', priority: 75, content: `## Relevant Existing APIs
+Reuse these before writing new code:
+${symbols.map(symbol => `- \`${symbol.signature}\` (${symbol.file}:${symbol.line})`).join('\n')}` });
+  }
+
+  if (seenPitfalls.length > 0) {
+    sections.push({ id: 'context:seen-pitfalls', priority: 72, content: `## Mistakes AI Assistants Keep Making Here
+${seenPitfalls.map((pitfall: CommonPitfall) => `- **${pitfall.pattern}**: ${pitfall.solution} (seen ${describePitfallHistory(pitfall)})`).join('\n')}` });
+  }
 
-## Important Reminders
+  sections.push({ id: 'context:reminders', priority: 20, content: `## Important Reminders
 - Follow the established patterns shown above
 - Include comprehensive error handling (AI commonly misses this)
 - Add TypeScript types for all new code
 - Write tests that match the acceptance criteria
-- Avoid over-abstraction - keep it concrete initially`;
+- Avoid over-abstraction - keep it concrete initially` });
+
+  return sections;
 }
 
-async function generateFilesMap(ticket: Ticket): Promise<any> {
-  const projectRoot = process.cwd();
-  const relevantFiles: string[] = [];
-  
-  // Add commonly relevant files based on ticket content
-  const commonFiles = [
-    'package.json',
-    'tsconfig.json',
-    'README.md'
-  ];
-  
-  for (const file of commonFiles) {
-    const filePath = path.join(projectRoot, file);
-    if (await fileExists(filePath)) {
-      relevantFiles.push(file);
-    }
-  }
-  
-  // Add files based on ticket components
-  if (ticket.ui_components && ticket.ui_components.length > 0) {
-    // Look for component files
-    try {
-      const srcDir = path.join(projectRoot, 'src');
-      if (await fileExists(srcDir)) {
-        relevantFiles.push('src/components/**/*.{ts,tsx,js,jsx}');
-      }
-    } catch (error) {
-      // Ignore if src doesn't exist
-    }
-  }
-  
-  if (ticket.apidiff && ticket.apidiff.length > 0) {
-    // Look for API/backend files
-    try {
-      const apiPaths = [
-        'src/api/**/*.{ts,js}',
-        'src/routes/**/*.{ts,js}',
-        'src/controllers/**/*.{ts,js}',
-        'api/**/*.{ts,js}'
-      ];
-      relevantFiles.push(...apiPaths);
-    } catch (error) {
-      // Ignore
-    }
-  }
-  
-  if (ticket.test_plan && (ticket.test_plan.unit.length > 0 || ticket.test_plan.e2e.length > 0)) {
-    relevantFiles.push('tests/**/*.{test,spec}.{ts,js}');
-    relevantFiles.push('**/*.{test,spec}.{ts,js}');
-  }
-  
+async function generateFilesMap(ticket: Ticket, contextManager: ContextManager, sessionManager: SessionManager): Promise<any> {
+  const projectRoot = getSherpaRoot();
+  const toProjectPath = (file: string) =>
+    (path.isAbsolute(file) ? path.relative(projectRoot, file) : path.normalize(file)).split(path.sep).join('/');
+
+  const files = (await walkProjectFiles(projectRoot)).map(toProjectPath);
+  const { symbols, graph } = await contextManager.indexProject(projectRoot);
+
+  // Files recorded by earlier sessions on this ticket or on tickets it is linked to
+  const relatedIds = await findRelatedTicketIds(ticket.ticket_id);
+  const current = await sessionManager.getCurrentSession();
+  const sessions = [...await sessionManager.listSessionHistory(), ...(current ? [current] : [])];
+  const sessionFiles: SessionFileHint[] = sessions
+    .filter(session => session.currentTicket && (session.currentTicket === ticket.ticket_id || relatedIds.has(session.currentTicket)))
+    .flatMap(session => session.workingFiles.map(file => ({
+      file: toProjectPath(file),
+      ticketId: session.currentTicket as string,
+      sameTicket: session.currentTicket === ticket.ticket_id
+    })));
+
+  const rankedFiles = rankFilesForTicket({ ticket, files, symbols, graph, sessionFiles }, MAX_MAPPED_FILES);
+
   return {
     ticket_id: ticket.ticket_id,
     title: ticket.title,
-    relevant_files: relevantFiles,
-    priority_files: relevantFiles.slice(0, 5), // Most important files first
+    relevant_files: rankedFiles,
+    priority_files: rankedFiles.slice(0, 5).map(file => file.path), // Most important files first
     generated_at: new Date().toISOString(),
     instructions: {
       usage: "Include these files in your AI assistant's context for better code generation",
       priority: "Start with priority_files, then add others as needed",
-      patterns: "Use glob patterns to include multiple files at once"
+      scoring: "Scores combine ticket keywords in paths and exported identifiers, files from earlier sessions and import neighbours; each reason says why a file is listed"
     }
   };
+}
+
+async function findRelatedTicketIds(ticketId: string): Promise<Set<string>> {
+  const graph = buildDependencyGraph(await new BacklogManager().loadBacklog());
+  const node = graph.nodes.get(ticketId);
+  const related = new Set<string>();
+  if (!node) return related;
+
+  node.dependsOn.forEach(id => related.add(id));
+  for (const other of graph.nodes.values()) {
+    if (other.dependsOn.includes(ticketId)) related.add(other.id);
+  }
+  // Tickets in the same story or epic
+  for (const parentId of node.parents) {
+    graph.nodes.get(parentId)?.children.forEach(id => related.add(id));
+  }
+  related.delete(ticketId);
+
+  return related;
 }
\ No newline at end of file
@@ -1,22 +1,60 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { AILinter } from '../utils/ai-linter.js';
-import { writeMarkdown } from '../utils/fs.js';
+import { promises as fs } from 'fs';
+import { AILinter, AILintIssue } from '../utils/ai-linter.js';
+import { getSherpaRoot, writeMarkdown } from '../utils/fs.js';
+import { LINT_SEVERITIES, LintConfig, loadLintConfig } from '../utils/lint-config.js';
+import { createUnifiedDiff } from '../utils/lint-fixes.js';
+import { loadLintPlugins } from '../utils/lint-plugins.js';
+import { LINT_REPORT_FORMATS, LintReportFormat, LintReportRule, SEVERITY_LEVELS, countIssuesAtOrAbove, describeLintRules, formatLintReport } from '../utils/lint-report.js';
+import { SUPPRESSION_RULES } from '../utils/lint-suppressions.js';
 import * as path from 'path';
 
+type Log = (message?: string) => void;
+
 export const lintAiCommand = new Command('lint:ai')
   .description('Lint code for AI-specific anti-patterns and issues')
   .option('-f, --file <file>', 'Lint specific file instead of entire project')
-  .option('-o, --output <file>', 'Save results to file')
+  .option('-o, --output <file>', 'Save the report to a file (Markdown unless --format is given)')
+  .option('--format <format>', `Report format (${LINT_REPORT_FORMATS.join(', ')})`)
   .option('--severity <level>', 'Minimum severity level (error, warning, info)', 'warning')
-  .option('--fix', 'Automatically fix issues where possible (coming soon)')
+  .option('--fix', 'Apply the fixes rules offer')
+  .option('--fix-dry-run', 'Show the fixes as a unified diff without changing any file')
+  .option('--fix-severity <level>', 'Only fix issues at or above this severity (error, warning, info)', 'info')
+  .option('--list-rules', 'List built-in and plugin rules with their configured severity')
+  .option('--max-severity <level>', 'Exit with code 1 when issues at or above this severity are found (error, warning, info)')
   .action(async (options) => {
+    if (options.format && !LINT_REPORT_FORMATS.includes(options.format)) {
+      console.log(chalk.red(`❌ Unknown format: ${options.format}. Use one of: ${LINT_REPORT_FORMATS.join(', ')}`));
+      process.exit(1);
+    }
+    for (const severity of [options.maxSeverity, options.fixSeverity]) {
+      if (severity && !LINT_SEVERITIES.includes(severity)) {
+        console.log(chalk.red(`❌ Unknown severity: ${severity}. Use one of: ${LINT_SEVERITIES.join(', ')}`));
+        process.exit(1);
+      }
+    }
+
+    const format: LintReportFormat = options.format || 'text';
+    // A report printed to stdout has to stay parseable, so progress and notices go to stderr
+    const log: Log = format !== 'text' && !options.output ? console.error : console.log;
     const spinner = ora('Analyzing code for AI-specific issues...').start();
     
     try {
-      const linter = new AILinter();
-      let results: Record<string, any[]>;
+      const projectRoot = getSherpaRoot();
+      const config = await loadLintConfig(projectRoot);
+      const builtInIds = [...new AILinter().getRules(), ...SUPPRESSION_RULES].map(rule => rule.id);
+      const plugins = await loadLintPlugins(projectRoot, config, builtInIds);
+      const linter = new AILinter(config, projectRoot, plugins.rules);
+
+      if (options.listRules) {
+        spinner.stop();
+        printPluginErrors(plugins.errors, console.log);
+        printRules(describeRules(linter, config), config);
+        return;
+      }
+      let results: Record<string, AILintIssue[]>;
       
       if (options.file) {
         spinner.text = `Analyzing ${options.file}...`;
@@ -28,29 +66,42 @@ export const lintAiCommand = new Command('lint:ai')
       }
       
       spinner.stop();
+
+      printPluginErrors(plugins.errors, log);
+      for (const ruleId of linter.getUnknownRules()) {
+        log(chalk.yellow(`⚠️  Unknown rule in lint config: ${ruleId}`));
+      }
       
       // Filter by severity
       const minSeverity = options.severity;
-      const severityLevels = { error: 3, warning: 2, info: 1 };
-      const minLevel = severityLevels[minSeverity as keyof typeof severityLevels] || 2;
+      const minLevel = SEVERITY_LEVELS[minSeverity as keyof typeof SEVERITY_LEVELS] || 2;
+      const shown = (issue: AILintIssue) => SEVERITY_LEVELS[issue.severity] >= minLevel;
+
+      // What gets fixed is separate from what is shown, so info-level fixes apply by default
+      if (options.fix || options.fixDryRun) {
+        const fixable = (issue: AILintIssue) => SEVERITY_LEVELS[issue.severity] >= SEVERITY_LEVELS[options.fixSeverity as keyof typeof SEVERITY_LEVELS];
+        results = await fixResults(linter, results, projectRoot, fixable, !options.fix, log);
+      }
       
-      const filteredResults: Record<string, any[]> = {};
+      const filteredResults: Record<string, AILintIssue[]> = {};
       for (const [file, issues] of Object.entries(results)) {
-        const filtered = issues.filter(issue => 
-          severityLevels[issue.severity as keyof typeof severityLevels] >= minLevel
-        );
+        const filtered = issues.filter(shown);
         if (filtered.length > 0) {
           filteredResults[file] = filtered;
         }
       }
-      
-      const output = linter.formatResults(filteredResults);
-      console.log(output);
+
+      const reportInput = { results: filteredResults, rules: describeRules(linter, config), projectRoot };
+      if (format === 'text') {
+        console.log(linter.formatResults(filteredResults));
+      } else if (!options.output) {
+        console.log(formatLintReport(format, reportInput));
+      }
       
       if (options.output) {
-        const reportContent = generateMarkdownReport(filteredResults);
-        await writeMarkdown(options.output, reportContent);
-        console.log(chalk.gray(`\n📝 Report saved to: ${options.output}`));
+        // Without --format the saved report stays Markdown, next to the text printed above
+        await writeMarkdown(options.output, formatLintReport(format === 'text' ? 'markdown' : format, reportInput));
+        log(chalk.gray(`\n📝 Report saved to: ${options.output}`));
       }
       
       // Summary statistics
@@ -58,14 +109,19 @@ export const lintAiCommand = new Command('lint:ai')
       const totalFiles = Object.keys(filteredResults).length;
       
       if (totalIssues > 0) {
-        console.log(chalk.yellow(`\n⚠️  Found ${totalIssues} AI-specific issues across ${totalFiles} files.`));
-        console.log(chalk.blue('💡 These patterns are commonly generated by AI and should be reviewed.'));
+        log(chalk.yellow(`\n⚠️  Found ${totalIssues} AI-specific issues across ${totalFiles} files.`));
+        log(chalk.blue('💡 These patterns are commonly generated by AI and should be reviewed.'));
       } else {
-        console.log(chalk.green('\n✅ No AI-specific issues detected!'));
+        log(chalk.green('\n✅ No AI-specific issues detected!'));
       }
-      
-      if (options.fix) {
-        console.log(chalk.gray('\n🔧 Auto-fix feature coming soon...'));
+
+      // Counted before --severity hides anything, so a quieter report can't pass a stricter gate
+      if (options.maxSeverity) {
+        const failing = countIssuesAtOrAbove(results, options.maxSeverity);
+        if (failing > 0) {
+          log(chalk.red(`❌ ${failing} issues at or above ${options.maxSeverity}`));
+          process.exit(1);
+        }
       }
       
     } catch (error) {
@@ -75,69 +131,102 @@ export const lintAiCommand = new Command('lint:ai')
     }
   });
 
-function generateMarkdownReport(results: Record<string, any[]>): string {
-  const timestamp = new Date().toISOString();
-  let totalIssues = 0;
-  
-  let report = `# AI Code Quality Report
-*Generated: ${timestamp}*
-
-## Summary
-`;
-
-  // Count issues by severity
-  const severityCounts = { error: 0, warning: 0, info: 0 };
-  for (const issues of Object.values(results)) {
-    for (const issue of issues) {
-      severityCounts[issue.severity as keyof typeof severityCounts]++;
-      totalIssues++;
-    }
-  }
+/**
+ * Fixes the files that have fixable issues. A dry run prints each change as a unified
+ * diff and leaves the results alone; otherwise files are rewritten and the results become
+ * what is left after fixing.
+ */
+async function fixResults(
+  linter: AILinter,
+  results: Record<string, AILintIssue[]>,
+  projectRoot: string,
+  shouldFix: (issue: AILintIssue) => boolean,
+  dryRun: boolean,
+  log: Log
+): Promise<Record<string, AILintIssue[]>> {
+  const remaining: Record<string, AILintIssue[]> = {};
+  let fixedIssues = 0;
+  let fixedFiles = 0;
 
-  report += `
-- **Total Issues**: ${totalIssues}
-- **Files Affected**: ${Object.keys(results).length}
-- **Errors**: ${severityCounts.error}
-- **Warnings**: ${severityCounts.warning}
-- **Info**: ${severityCounts.info}
+  for (const [file, issues] of Object.entries(results)) {
+    if (!issues.some(issue => issue.fix && shouldFix(issue))) {
+      remaining[file] = issues;
+      continue;
+    }
 
-## Issues by File
-`;
+    const result = await linter.fixFile(path.resolve(file), shouldFix);
+    const relativePath = path.relative(projectRoot, path.resolve(file)).split(path.sep).join('/');
+    if (result.error) {
+      log(chalk.yellow(`⚠️  ${relativePath}: ${result.error}`));
+    }
 
-  for (const [file, issues] of Object.entries(results)) {
-    report += `\n### ${file}\n`;
-    
-    issues.forEach(issue => {
-      const icon = issue.severity === 'error' ? '❌' : 
-                  issue.severity === 'warning' ? '⚠️' : 'ℹ️';
-      report += `\n${icon} **Line ${issue.line}**: ${issue.message}\n`;
-      if (issue.suggestion) {
-        report += `   💡 *Suggestion*: ${issue.suggestion}\n`;
+    if (result.output !== result.source) {
+      fixedIssues += result.fixed.length;
+      fixedFiles++;
+      if (dryRun) {
+        printDiff(createUnifiedDiff(result.source, result.output, relativePath), log);
+      } else {
+        await fs.writeFile(path.resolve(file), result.output, 'utf-8');
       }
-    });
+    }
+
+    const left = dryRun ? issues : result.remaining;
+    if (left.length > 0) {
+      remaining[file] = left;
+    }
   }
 
-  report += `\n## Common AI Patterns Detected
+  if (fixedIssues === 0) {
+    log(chalk.gray('🔧 No fixable issues'));
+  } else if (dryRun) {
+    log(chalk.blue(`🔧 ${fixedIssues} issues could be fixed in ${fixedFiles} files (dry run, nothing written)\n`));
+  } else {
+    log(chalk.green(`🔧 Fixed ${fixedIssues} issues in ${fixedFiles} files\n`));
+  }
 
-This report identifies code patterns that are commonly generated by AI tools and may indicate:
+  return remaining;
+}
 
-1. **Over-abstraction**: Unnecessary interfaces, generics, or design patterns
-2. **Missing error handling**: Async functions without proper try-catch blocks
-3. **Security issues**: Hardcoded secrets or credentials
-4. **Type safety**: Usage of 'any' type instead of specific types
-5. **Performance issues**: Inefficient array operations or loops
+function printDiff(diff: string, log: Log): void {
+  for (const line of diff.trimEnd().split('\n')) {
+    const color = line.startsWith('+++') || line.startsWith('---') ? chalk.bold
+      : line.startsWith('@@') ? chalk.cyan
+      : line.startsWith('+') ? chalk.green
+      : line.startsWith('-') ? chalk.red
+      : (text: string) => text;
+    log(color(line));
+  }
+  log();
+}
 
-## Recommendations
+function printPluginErrors(errors: string[], log: Log): void {
+  for (const error of errors) {
+    log(chalk.yellow(`⚠️  Skipped lint plugin ${error}`));
+  }
+}
 
-- Review flagged patterns to ensure they align with your codebase standards
-- Consider simplifying over-abstracted code
-- Add proper error handling to async functions
-- Move sensitive data to environment variables
-- Use specific TypeScript types instead of 'any'
-- Optimize performance-critical code sections
+function describeRules(linter: AILinter, config: LintConfig): LintReportRule[] {
+  return describeLintRules([...linter.getRules(), ...SUPPRESSION_RULES.map(rule => ({ ...rule, category: 'suppressions' }))], config);
+}
 
----
-*Generated by Sherpa OS AI Linter*`;
+/**
+ * Lists every rule with the severity from lint.yml's top-level `rules`; per-path
+ * overrides can still change it for matching files.
+ */
+function printRules(allRules: LintReportRule[], config: LintConfig): void {
+  const severityColor = { error: chalk.red, warning: chalk.yellow, info: chalk.blue };
 
-  return report;
+  console.log(chalk.blue(`\n📏 Lint Rules (${allRules.length})\n`));
+  for (const rule of allRules) {
+    const status = rule.enabled === false ? chalk.gray('off') : severityColor[rule.severity](rule.severity);
+    const source = rule.source ? chalk.magenta(` [${rule.source}]`) : '';
+
+    console.log(`${chalk.cyan(rule.id)} ${status} ${chalk.gray(`(${rule.category})`)}${source}`);
+    console.log(chalk.gray(`   ${rule.description}`));
+  }
+
+  if (config.overrides?.length) {
+    console.log(chalk.gray(`\n${config.overrides.length} path override(s) in the lint config may change these for matching files`));
+  }
+  console.log(chalk.gray('\n💡 Add rules in .sherpa/rules/*.js or list npm packages under plugins in .sherpa/lint.yml'));
 }
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { getSherpaDir, fileExists } from '../utils/fs.js';
+import { ContextManager, CommonPitfall } from '../utils/context.js';
+import { slugify } from '../utils/pitfalls.js';
+
+export const pitfallAddCommand = new Command('pitfall:add')
+  .description('Add a mistake AI assistants keep making to the pitfalls catalogue')
+  .argument('[pattern]', 'Short name of the mistake, e.g. "Mocks the module under test"')
+  .option('-d, --description <text>', 'What goes wrong')
+  .option('-s, --solution <text>', 'What to do instead')
+  .option('-k, --keywords <list>', 'Comma-separated words that identify this mistake in AI failure feedback')
+  .option('-e, --example <text>', 'An example of the mistake')
+  .action(async (patternArg: string | undefined, options) => {
+    try {
+      if (!await fileExists(getSherpaDir())) {
+        console.log(chalk.red('❌ Sherpa OS not initialized. Run `sherpa init` first.'));
+        return;
+      }
+
+      const answers = await inquirer.prompt([
+        {
+          type: 'input',
+          name: 'pattern',
+          message: 'Mistake (short name):',
+          when: () => !patternArg,
+          validate: (input: string) => input.trim().length > 0
+        },
+        {
+          type: 'input',
+          name: 'description',
+          message: 'What goes wrong:',
+          when: () => !options.description,
+          validate: (input: string) => input.trim().length > 0
+        },
+        {
+          type: 'input',
+          name: 'solution',
+          message: 'What to do instead:',
+          when: () => !options.solution,
+          validate: (input: string) => input.trim().length > 0
+        },
+        {
+          type: 'input',
+          name: 'keywords',
+          message: 'Keywords to spot it in AI failure feedback (comma-separated, optional):',
+          when: () => !options.keywords && !(patternArg && options.description && options.solution)
+        }
+      ]);
+
+      const pattern = String(patternArg || answers.pattern).trim();
+      const keywords = String(options.keywords || answers.keywords || '')
+        .split(',')
+        .map(keyword => keyword.trim())
+        .filter(Boolean);
+
+      const contextManager = new ContextManager();
+      const pitfalls = await contextManager.loadPitfalls();
+      const id = slugify(pattern);
+      const existing = pitfalls.find(pitfall => pitfall.id === id || pitfall.pattern.toLowerCase() === pattern.toLowerCase());
+      if (existing) {
+        console.log(chalk.yellow(`⚠️  Pitfall already exists: ${existing.pattern} (${existing.id})`));
+        console.log(chalk.gray('   Edit .sherpa/context/pitfalls.md to change it.'));
+        return;
+      }
+
+      const pitfall: CommonPitfall = {
+        id,
+        pattern,
+        description: String(options.description || answers.description).trim(),
+        solution: String(options.solution || answers.solution).trim(),
+        frequency: options.example ? 1 : 0,
+        examples: options.example ? [options.example] : [],
+        keywords,
+        lastSeen: options.example ? new Date().toISOString() : undefined
+      };
+
+      await contextManager.savePitfalls([...pitfalls, pitfall]);
+
+      console.log(chalk.green(`✅ Pitfall added: ${pitfall.pattern}`));
+      console.log(chalk.blue(`📄 Catalogue: .sherpa/context/pitfalls.md (${pitfalls.length + 1} pitfalls)`));
+      if (keywords.length === 0) {
+        console.log(chalk.gray('💡 Add keywords so failed AI interactions logged with `sherpa session:log` match it reliably'));
+      }
+
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
\ No newline at end of file
@@ -110,6 +110,14 @@ async function interactiveDebug(promptManager: PromptManager): Promise<void> {
       }
     ]);
     
-    console.log(chalk.green('✅ Feedback recorded! This will help improve future prompts.'));
+    const latest = (await promptManager.listPromptVersions())
+      .find(version => version.templateId === selectedTemplate && !version.metadata.recordedAt);
+    if (!latest) {
+      console.log(chalk.yellow(`⚠️  No ${selectedTemplate} prompts are waiting for an outcome.`));
+      return;
+    }
+
+    await promptManager.recordPromptOutcome(latest.id, outcome, feedback || '');
+    console.log(chalk.green(`✅ Feedback recorded for ${latest.id}! This will help improve future prompts.`));
   }
 }
\ No newline at end of file
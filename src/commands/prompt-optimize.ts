@@ -9,11 +9,16 @@ export const promptOptimizeCommand = new Command('prompt:optimize')
     try {
       const promptManager = new PromptManager();
       const performance = await promptManager.analyzePromptPerformance();
+      const awaiting = (await promptManager.listPromptVersions()).filter(version => !version.metadata.recordedAt).length;
       
       if (performance.length === 0) {
-        console.log(chalk.yellow('⚠️  No prompt performance data found. Use prompts first to collect data.'));
+        console.log(chalk.yellow('⚠️  No prompt performance data found. Record how prompts worked out with `sherpa prompt:outcome`.'));
         return;
       }
+
+      if (awaiting > 0) {
+        console.log(chalk.gray(`💡 ${awaiting} prompts have no outcome yet and aren't counted - record them with \`sherpa prompt:outcome\`\n`));
+      }
       
       console.log(chalk.blue('📊 Prompt Performance Analysis\n'));
       
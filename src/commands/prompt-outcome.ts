@@ -0,0 +1,163 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { getSherpaDir, fileExists } from '../utils/fs.js';
+import { PromptManager, PromptOutcome, PromptVersion } from '../utils/prompts.js';
+import { SessionManager, SessionState } from '../utils/session.js';
+
+const OUTCOMES: PromptOutcome[] = ['success', 'partial', 'failure'];
+const MAX_LISTED_VERSIONS = 10;
+
+export const promptOutcomeCommand = new Command('prompt:outcome')
+  .description('Record how a generated prompt worked out')
+  .argument('[version]', 'Prompt version id (pick from recent prompts if omitted)')
+  .option('-o, --outcome <outcome>', `How it went (${OUTCOMES.join(', ')})`)
+  .option('-f, --feedback <text>', 'What went wrong or needed changing')
+  .option('-t, --ticket <ticket>', 'Only show prompts generated for this ticket')
+  .option('-l, --list', 'List recent prompt versions without recording anything')
+  .option('-a, --all', 'Include prompts that already have an outcome')
+  .action(async (versionArg: string | undefined, options) => {
+    try {
+      if (!await fileExists(getSherpaDir())) {
+        console.log(chalk.red('❌ Sherpa OS not initialized. Run `sherpa init` first.'));
+        return;
+      }
+
+      if (options.outcome && !OUTCOMES.includes(options.outcome)) {
+        console.log(chalk.red(`❌ Unknown outcome: ${options.outcome}. Use one of: ${OUTCOMES.join(', ')}`));
+        return;
+      }
+
+      const promptManager = new PromptManager();
+      const sessionManager = new SessionManager();
+      const session = await sessionManager.getCurrentSession();
+      const allVersions = await promptManager.listPromptVersions();
+      const versions = filterVersions(allVersions, options.ticket, session, options.all);
+
+      if (options.list) {
+        printVersions(versions, options.ticket, session);
+        return;
+      }
+
+      let versionId = versionArg;
+      if (versionId) {
+        const existing = allVersions.find(version => version.id === versionId);
+        if (existing?.metadata.recordedAt) {
+          console.log(chalk.red(`❌ ${versionId} already has an outcome: ${existing.metadata.outcome}`));
+          return;
+        }
+      } else {
+        const awaiting = versions.filter(version => !version.metadata.recordedAt);
+        if (awaiting.length === 0) {
+          console.log(chalk.yellow('⚠️  No prompts are waiting for an outcome.'));
+          console.log(chalk.gray('💡 Generate one with `sherpa gen:prompt`, or use --all to see recorded ones'));
+          return;
+        }
+        ({ versionId } = await inquirer.prompt([{
+          type: 'list',
+          name: 'versionId',
+          message: 'Which prompt?',
+          choices: awaiting.map(version => ({ name: describeVersion(version), value: version.id }))
+        }]));
+      }
+
+      const answers = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'outcome',
+          message: 'How did the prompt perform?',
+          when: () => !options.outcome,
+          choices: [
+            { name: '✅ Success - worked as expected', value: 'success' },
+            { name: '⚠️ Partial - worked but needed modifications', value: 'partial' },
+            { name: '❌ Failure - did not work', value: 'failure' }
+          ]
+        },
+        {
+          type: 'input',
+          name: 'feedback',
+          message: 'What went wrong or needed changing?',
+          when: (current) => options.feedback === undefined && (options.outcome || current.outcome) !== 'success'
+        }
+      ]);
+
+      const outcome: PromptOutcome = options.outcome || answers.outcome;
+      const feedback = String(options.feedback ?? answers.feedback ?? '').trim();
+
+      const version = await promptManager.recordPromptOutcome(String(versionId), outcome, feedback);
+      if (!version) {
+        console.log(chalk.red(`❌ Prompt version not found: ${versionId}`));
+        console.log(chalk.gray('💡 List recent prompts with `sherpa prompt:outcome --list`'));
+        return;
+      }
+
+      console.log(chalk.green(`✅ Recorded ${outcome} for ${version.id} (${version.templateId}, ${version.metadata.usedFor})`));
+
+      // Copy the outcome into the session so handoffs and pitfall learning see it
+      if (session) {
+        await sessionManager.logAIInteraction(
+          `Prompt for ${version.metadata.usedFor}: ${firstLine(version.content)}`,
+          '',
+          outcome,
+          feedback,
+          version.templateId,
+          version.metadata.model,
+          version.id
+        );
+        console.log(chalk.blue(`📝 Logged to session ${session.id}`));
+      } else {
+        console.log(chalk.gray('   No active session - the outcome was only recorded for the template'));
+      }
+
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Narrows versions to a ticket when one is given, otherwise to the current session's
+ * ticket and anything generated since the session started.
+ */
+function filterVersions(versions: PromptVersion[], ticket: string | undefined, session: SessionState | null, all: boolean): PromptVersion[] {
+  const relevant = versions.filter(version => {
+    if (ticket) {
+      return version.metadata.usedFor === ticket;
+    }
+    if (session) {
+      return version.metadata.usedFor === session.currentTicket || version.metadata.createdAt >= session.startTime;
+    }
+    return true;
+  });
+
+  return relevant
+    .filter(version => all || !version.metadata.recordedAt)
+    .slice(0, MAX_LISTED_VERSIONS);
+}
+
+function printVersions(versions: PromptVersion[], ticket: string | undefined, session: SessionState | null): void {
+  const scope = ticket ? `ticket ${ticket}` : session ? `session ${session.id}` : 'all tickets';
+  if (versions.length === 0) {
+    console.log(chalk.yellow(`⚠️  No prompt versions found for ${scope}.`));
+    return;
+  }
+
+  console.log(chalk.blue(`\n📝 Recent Prompts (${scope})\n`));
+  for (const version of versions) {
+    console.log(`${chalk.cyan(version.id)}  ${describeVersion(version)}`);
+    if (version.metadata.feedback) {
+      console.log(chalk.gray(`   ${version.metadata.feedback}`));
+    }
+  }
+  console.log(chalk.gray('\n💡 Record one with `sherpa prompt:outcome <version> --outcome success`'));
+}
+
+function describeVersion(version: PromptVersion): string {
+  const outcome = version.metadata.recordedAt ? version.metadata.outcome : 'pending';
+  const color = outcome === 'success' ? chalk.green : outcome === 'failure' ? chalk.red : chalk.yellow;
+  return `${version.metadata.usedFor} - ${version.templateId} - ${version.metadata.createdAt.slice(0, 16).replace('T', ' ')} ${color(`[${outcome}]`)}`;
+}
+
+function firstLine(content: string): string {
+  return (content.split('\n').find(line => line.trim() !== '') || '').replace(/^#+\s*/, '').slice(0, 80);
+}
\ No newline at end of file
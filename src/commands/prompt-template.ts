@@ -0,0 +1,263 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { getSherpaDir, fileExists } from '../utils/fs.js';
+import { PromptManager, PromptTemplate } from '../utils/prompts.js';
+import {
+  TEMPLATE_CATEGORIES,
+  TEMPLATE_VARIABLES,
+  TemplateIssue,
+  extractTemplateVariables,
+  parseTemplateMarkdown,
+  renderTemplateMarkdown,
+  validateTemplate
+} from '../utils/prompt-templates.js';
+
+const ACTIONS = ['list', 'new', 'edit', 'validate'];
+
+export const promptTemplateCommand = new Command('prompt:template')
+  .description('List, create, edit and validate prompt templates')
+  .argument('<action>', `What to do (${ACTIONS.join(', ')})`)
+  .argument('[id]', 'Template id (required for new and edit)')
+  .option('-c, --category <category>', `Category for a new template (${TEMPLATE_CATEGORIES.join(', ')})`, 'feature')
+  .option('-n, --name <name>', 'Display name for a new template')
+  .option('-m, --model <model>', 'Model a new template is written for', 'any')
+  .option('-e, --extends <id>', 'Make a new template fill in the {{#block}} sections of a base template')
+  .option('--from <id>', 'Start a new template from a copy of an existing one')
+  .action(async (action: string, id: string | undefined, options) => {
+    try {
+      if (!await fileExists(getSherpaDir())) {
+        console.log(chalk.red('❌ Sherpa OS not initialized. Run `sherpa init` first.'));
+        return;
+      }
+
+      if (!ACTIONS.includes(action)) {
+        console.log(chalk.red(`❌ Unknown action: ${action}. Use one of: ${ACTIONS.join(', ')}`));
+        return;
+      }
+
+      const promptManager = new PromptManager();
+      await promptManager.initializePrompts();
+
+      if (action === 'list') {
+        await listTemplates(promptManager);
+      } else if (action === 'validate') {
+        const valid = await validateTemplates(promptManager, id);
+        if (!valid) {
+          process.exit(1);
+        }
+      } else if (!id) {
+        console.log(chalk.red(`❌ Template id required: sherpa prompt:template ${action} <id>`));
+      } else if (action === 'new') {
+        await newTemplate(promptManager, id, options);
+      } else {
+        await editTemplate(promptManager, id);
+      }
+
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
+
+async function listTemplates(promptManager: PromptManager): Promise<void> {
+  const library = await promptManager.loadTemplateLibrary();
+  const templates = library.templates;
+  if (templates.length === 0) {
+    console.log(chalk.yellow('⚠️  No prompt templates found.'));
+    return;
+  }
+
+  const performance = new Map((await promptManager.analyzePromptPerformance()).map(perf => [perf.templateId, perf]));
+
+  console.log(chalk.blue(`\n📝 Prompt Templates (${templates.length})\n`));
+  for (const template of templates) {
+    const perf = performance.get(template.id);
+    const issues = validateTemplate(template, library);
+    const errors = issues.filter(issue => issue.severity === 'error').length;
+    const kind = template.abstract ? ' (base template)' : template.extends ? ` (extends ${template.extends})` : '';
+    const usage = perf && perf.totalUses > 0
+      ? `${(perf.averageRating * 100).toFixed(0)}% success over ${perf.totalUses} uses`
+      : 'not used yet';
+
+    console.log(`${chalk.cyan(template.id.padEnd(28))} ${template.category.padEnd(9)} ${chalk.gray(`model: ${template.aiModel || 'any'}`)}`);
+    console.log(chalk.gray(`   ${template.name}${kind} - ${template.file} - ${usage}`));
+    if (issues.length > 0) {
+      const color = errors > 0 ? chalk.red : chalk.yellow;
+      console.log(color(`   ${issues.length} issue(s) - run \`sherpa prompt:template validate ${template.id}\``));
+    }
+  }
+
+  console.log(chalk.gray(`\n🧱 Partials: ${Object.keys(library.partials).map(name => `{{> ${name}}}`).join(', ')}`));
+  console.log(chalk.gray('💡 Use one with `sherpa gen:prompt --template <id>`'));
+}
+
+async function validateTemplates(promptManager: PromptManager, id?: string): Promise<boolean> {
+  const library = await promptManager.loadTemplateLibrary();
+  const templates = library.templates;
+  const selected = id ? templates.filter(template => template.id === id) : templates;
+  if (id && selected.length === 0) {
+    console.log(chalk.red(`❌ Template not found: ${id}`));
+    return false;
+  }
+
+  let errors = 0;
+  for (const template of selected) {
+    const issues = validateTemplate(template, library);
+    errors += issues.filter(issue => issue.severity === 'error').length;
+    if (issues.length === 0) {
+      console.log(chalk.green(`✅ ${template.id} (${template.file})`));
+    } else {
+      console.log(chalk.yellow(`⚠️  ${template.id} (${template.file})`));
+      printIssues(issues);
+    }
+  }
+
+  if (errors > 0) {
+    console.log(chalk.red(`\n❌ ${errors} error(s) in prompt templates`));
+    console.log(chalk.gray(`💡 Known variables: ${Object.keys(TEMPLATE_VARIABLES).join(', ')}`));
+    return false;
+  }
+  return true;
+}
+
+async function newTemplate(
+  promptManager: PromptManager,
+  id: string,
+  options: { category: string; name?: string; model: string; extends?: string; from?: string }
+): Promise<void> {
+  const library = await promptManager.loadTemplateLibrary();
+  if (library.templates.some(template => template.id === id)) {
+    console.log(chalk.red(`❌ Template already exists: ${id}. Use \`sherpa prompt:template edit ${id}\` to change it.`));
+    return;
+  }
+
+  let parent = options.extends;
+  const name = options.name || id.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+  let body = parent
+    ? `{{#block title}}${name}{{/block}}
+
+{{#block task}}
+## Task
+**Feature**: {{FEATURE_NAME}}
+**Outcome**: {{EXPECTED_OUTCOME}}
+
+**Acceptance Criteria**:
+{{#each ACCEPTANCE_CRITERIA}}
+- [ ] {{this}}
+{{/each}}
+{{/block}}`
+    : `# ${name}
+
+{{> context}}
+
+## Task
+**Feature**: {{FEATURE_NAME}}
+**Outcome**: {{EXPECTED_OUTCOME}}
+
+**Acceptance Criteria**:
+{{ACCEPTANCE_CRITERIA}}
+
+{{> standards}}
+
+{{> pitfalls}}`;
+
+  if (options.from) {
+    const source = library.templates.find(template => template.id === options.from);
+    if (!source) {
+      console.log(chalk.red(`❌ Template not found: ${options.from}`));
+      return;
+    }
+    body = source.template;
+    parent = parent || source.extends;
+  }
+
+  const template: PromptTemplate = {
+    id,
+    name,
+    category: options.category as PromptTemplate['category'],
+    template: body,
+    variables: extractTemplateVariables(body),
+    successRate: 0,
+    usageCount: 0,
+    lastUsed: '',
+    aiModel: options.model,
+    ...(parent ? { extends: parent } : {})
+  };
+
+  const errors = validateTemplate(template, library).filter(issue => issue.severity === 'error');
+  if (errors.length > 0) {
+    console.log(chalk.red(`❌ Cannot create template ${id}:`));
+    printIssues(errors);
+    return;
+  }
+
+  const templatePath = await promptManager.saveTemplate(template);
+  console.log(chalk.green(`✅ Template created: ${template.name}`));
+  console.log(chalk.blue(`📄 ${path.relative(process.cwd(), templatePath)}`));
+  console.log(chalk.gray(`💡 Edit it with \`sherpa prompt:template edit ${id}\``));
+}
+
+async function editTemplate(promptManager: PromptManager, id: string): Promise<void> {
+  const library = await promptManager.loadTemplateLibrary();
+  const template = library.templates.find(candidate => candidate.id === id);
+  if (!template) {
+    console.log(chalk.red(`❌ Template not found: ${id}. Create it with \`sherpa prompt:template new ${id}\``));
+    return;
+  }
+
+  let content = renderTemplateMarkdown(template);
+  let edited: PromptTemplate;
+
+  for (;;) {
+    ({ content } = await inquirer.prompt([{
+      type: 'editor',
+      name: 'content',
+      message: `Edit ${template.id}`,
+      default: content,
+      postfix: '.md'
+    }]));
+
+    edited = parseTemplateMarkdown(content, `${id}.md`);
+    const issues = validateTemplate(edited, library);
+    if (edited.id !== id) {
+      issues.unshift({ severity: 'error', message: `id cannot change from "${id}" - create a new template instead` });
+    }
+    if (!issues.some(issue => issue.severity === 'error')) {
+      printIssues(issues);
+      break;
+    }
+
+    printIssues(issues);
+    const { retry } = await inquirer.prompt([{
+      type: 'confirm',
+      name: 'retry',
+      message: 'The template has errors. Edit it again?',
+      default: true
+    }]);
+    if (!retry) {
+      console.log(chalk.yellow('⚠️  Template not saved.'));
+      return;
+    }
+  }
+
+  const templatePath = await promptManager.saveTemplate(edited);
+
+  // A legacy JSON template is replaced by the Markdown one; keep the original as a backup
+  if (template.file?.endsWith('.json')) {
+    const legacyPath = path.join(promptManager.getTemplatesPath(), template.file);
+    await fs.rename(legacyPath, `${legacyPath}.bak`);
+    console.log(chalk.gray(`   Converted ${template.file} to Markdown (original kept as ${template.file}.bak)`));
+  }
+
+  console.log(chalk.green(`✅ Template saved: ${path.relative(process.cwd(), templatePath)}`));
+}
+
+function printIssues(issues: TemplateIssue[]): void {
+  issues.forEach(issue => {
+    const color = issue.severity === 'error' ? chalk.red : chalk.yellow;
+    console.log(color(`   ${issue.severity}: ${issue.message}`));
+  });
+}
\ No newline at end of file
@@ -1,8 +1,140 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { promises as fs } from 'fs';
+import { getSherpaDir, readMarkdown, writeMarkdown, fileExists } from '../utils/fs.js';
+import { formatDate } from '../utils/ids.js';
+import { reviewSpecification, appendClarifications, SpecIssue, Clarification } from '../utils/specs.js';
+import * as path from 'path';
 
 export const reviewSpecCommand = new Command('review:spec')
   .description('Review and clarify specifications')
-  .action(async () => {
-    console.log(chalk.yellow('🚧 Command coming soon - review:spec'));
-  });
\ No newline at end of file
+  .argument('[spec]', 'Spec file in .sherpa/specs/ to review')
+  .option('--check', 'Only report issues, skip the clarifying questions')
+  .action(async (spec: string | undefined, options) => {
+    try {
+      const specsDir = path.join(getSherpaDir(), 'specs');
+
+      if (!await fileExists(getSherpaDir())) {
+        console.log(chalk.red('❌ Sherpa OS not initialized. Run `sherpa init` first.'));
+        return;
+      }
+
+      if (!await fileExists(specsDir)) {
+        console.log(chalk.yellow('⚠️  No specs directory found. Create specs first with `sherpa add:spec`.'));
+        return;
+      }
+
+      const specFile = spec ? (spec.endsWith('.md') ? spec : `${spec}.md`) : await selectSpec(specsDir);
+      if (!specFile) {
+        return;
+      }
+
+      const specPath = path.join(specsDir, specFile);
+      if (!await fileExists(specPath)) {
+        console.log(chalk.red(`❌ Spec file not found: ${specFile}`));
+        return;
+      }
+
+      const content = await readMarkdown(specPath);
+      const issues = reviewSpecification(content, specFile);
+
+      printIssues(specFile, issues);
+
+      if (options.check) {
+        if (issues.some(issue => issue.severity === 'error')) {
+          process.exit(1);
+        }
+        return;
+      }
+
+      const questions = issues.filter(issue => issue.question);
+      if (questions.length === 0) {
+        console.log(chalk.green('\n✅ No clarifying questions - this spec is ready for `sherpa gen:backlog`.'));
+        return;
+      }
+
+      console.log(chalk.blue(`\n💬 ${questions.length} clarifying questions (leave an answer empty to skip)\n`));
+
+      const clarifications: Clarification[] = [];
+      for (const issue of questions) {
+        const { answer } = await inquirer.prompt([{
+          type: 'input',
+          name: 'answer',
+          message: `[${issue.section}] ${issue.question}`
+        }]);
+
+        if (answer.trim()) {
+          clarifications.push({ question: issue.question || issue.message, answer: answer.trim() });
+        }
+      }
+
+      if (clarifications.length === 0) {
+        console.log(chalk.yellow('\n⚠️  No answers given - spec left unchanged.'));
+        return;
+      }
+
+      // Re-read in case the spec was edited while the questions were open
+      const latest = await readMarkdown(specPath);
+      await writeMarkdown(specPath, appendClarifications(latest, clarifications, formatDate()));
+
+      console.log(chalk.green(`\n✅ Saved ${clarifications.length} clarifications to ${specFile}`));
+      console.log(chalk.gray('\n💡 Next steps:'));
+      console.log(chalk.gray('   1. Fold the answers into the relevant spec sections'));
+      console.log(chalk.gray(`   2. Run \`sherpa review:spec ${specFile} --check\` again`));
+      console.log(chalk.gray('   3. Run `sherpa gen:backlog` to create tickets'));
+
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
+
+async function selectSpec(specsDir: string): Promise<string | null> {
+  const files = (await fs.readdir(specsDir)).filter(f => f.endsWith('.md'));
+
+  if (files.length === 0) {
+    console.log(chalk.yellow('⚠️  No specification files found. Create specs first with `sherpa add:spec`.'));
+    return null;
+  }
+
+  if (files.length === 1) {
+    return files[0] || null;
+  }
+
+  const { selectedSpec } = await inquirer.prompt([{
+    type: 'list',
+    name: 'selectedSpec',
+    message: 'Select a spec to review:',
+    choices: files,
+    pageSize: 15
+  }]);
+
+  return selectedSpec;
+}
+
+function printIssues(specFile: string, issues: SpecIssue[]): void {
+  console.log(chalk.blue(`\n🔍 Spec Review: ${specFile}`));
+
+  if (issues.length === 0) {
+    console.log(chalk.green('✅ No issues found!'));
+    return;
+  }
+
+  const icons = { error: '❌', warning: '⚠️ ', info: 'ℹ️ ' };
+  const sections = Array.from(new Set(issues.map(issue => issue.section)));
+
+  for (const section of sections) {
+    console.log(chalk.bold(`\n📄 ${section}`));
+    issues
+      .filter(issue => issue.section === section)
+      .forEach(issue => {
+        const line = issue.line ? chalk.gray(` (line ${issue.line})`) : '';
+        console.log(`  ${icons[issue.severity]} ${issue.message}${line}`);
+      });
+  }
+
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+  const warnings = issues.filter(issue => issue.severity === 'warning').length;
+  console.log(chalk.gray(`\n📊 ${errors} errors, ${warnings} warnings, ${issues.length - errors - warnings} open questions`));
+}
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { getSherpaDir, fileExists } from '../utils/fs.js';
+import { BacklogManager, getTicketStatus } from '../utils/backlog.js';
+import { SprintManager } from '../utils/sprints.js';
+
+export const sprintCloseCommand = new Command('sprint:close')
+  .description('Close the active sprint and roll unfinished tickets over')
+  .option('-y, --yes', 'Close without asking for confirmation')
+  .action(async (options) => {
+    try {
+      if (!await fileExists(getSherpaDir())) {
+        console.log(chalk.red('❌ Sherpa OS not initialized. Run `sherpa init` first.'));
+        return;
+      }
+
+      const sprintManager = new SprintManager();
+      const current = await sprintManager.getCurrentSprint();
+      if (!current) {
+        console.log(chalk.yellow('⚠️  No active sprint. Plan one with `sherpa sprint:plan`.'));
+        return;
+      }
+
+      if (!options.yes) {
+        const tickets = await new BacklogManager().listTickets();
+        const unfinished = tickets.filter(t => current.committed.includes(t.ticket_id) && getTicketStatus(t) !== 'done');
+        const { confirm } = await inquirer.prompt([{
+          type: 'confirm',
+          name: 'confirm',
+          message: unfinished.length > 0
+            ? `Close ${current.name}? ${unfinished.length} unfinished tickets will roll over.`
+            : `Close ${current.name}?`,
+          default: true
+        }]);
+        if (!confirm) {
+          console.log(chalk.yellow('❌ Sprint left open.'));
+          return;
+        }
+      }
+
+      const sprint = await sprintManager.closeSprint();
+      const committedCount = sprint.committed.length;
+      const deliveredCount = sprint.delivered?.length || 0;
+      const deliveredHours = sprint.delivered_hours || 0;
+      const percent = sprint.committed_hours > 0 ? Math.round((deliveredHours / sprint.committed_hours) * 100) : 0;
+
+      console.log(chalk.green(`\n✅ ${sprint.name} closed`));
+      console.log(`📋 Committed: ${committedCount} tickets (${sprint.committed_hours}h)`);
+      console.log(`🎯 Delivered: ${deliveredCount} tickets (${deliveredHours}h, ${percent}%)`);
+
+      if (sprint.rolled_over && sprint.rolled_over.length > 0) {
+        console.log(chalk.yellow(`\n↪️  Rolled over (${sprint.rolled_over.length}) - first in line for the next sprint`));
+        sprint.rolled_over.forEach(id => console.log(chalk.gray(`   ${id}`)));
+      }
+
+      console.log(chalk.gray('\n💡 Next steps:'));
+      console.log(chalk.gray('   1. Run `sherpa retro` to reflect on the sprint'));
+      console.log(chalk.gray('   2. Plan the next one with `sherpa sprint:plan`'));
+
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { getSherpaDir, fileExists } from '../utils/fs.js';
+import { formatDate } from '../utils/ids.js';
+import { BacklogManager, getTicketStatus, getStatusIcon } from '../utils/backlog.js';
+import { SprintManager } from '../utils/sprints.js';
+
+export const sprintCurrentCommand = new Command('sprint:current')
+  .description('Show progress of the active sprint')
+  .action(async () => {
+    try {
+      if (!await fileExists(getSherpaDir())) {
+        console.log(chalk.red('❌ Sherpa OS not initialized. Run `sherpa init` first.'));
+        return;
+      }
+
+      const sprint = await new SprintManager().getCurrentSprint();
+      if (!sprint) {
+        console.log(chalk.yellow('⚠️  No active sprint. Plan one with `sherpa sprint:plan`.'));
+        return;
+      }
+
+      const tickets = new Map((await new BacklogManager().listTickets()).map(ticket => [ticket.ticket_id, ticket]));
+      const msPerDay = 24 * 60 * 60 * 1000;
+      const daysLeft = Math.round((Date.parse(sprint.end_date) - Date.parse(formatDate())) / msPerDay) + 1;
+
+      console.log(chalk.blue(`\n🏃 ${sprint.name} (${sprint.start_date} → ${sprint.end_date})`));
+      if (sprint.goal) {
+        console.log(chalk.gray(`🎯 Goal: ${sprint.goal}`));
+      }
+      console.log(chalk.gray(daysLeft > 0 ? `📅 ${daysLeft} days left` : `📅 Ended ${-daysLeft + 1} days ago - run \`sherpa sprint:close\``));
+      console.log('');
+
+      let doneHours = 0;
+      for (const ticketId of sprint.committed) {
+        const ticket = tickets.get(ticketId);
+        if (!ticket) {
+          console.log(chalk.gray(`   ❔ ${ticketId} (ticket file missing)`));
+          continue;
+        }
+
+        const status = getTicketStatus(ticket);
+        if (status === 'done') {
+          doneHours += Number(ticket.timebox_hours) || 0;
+        }
+        console.log(`   ${getStatusIcon(status)} ${chalk.cyan(ticket.ticket_id)}  ${ticket.title} ${chalk.gray(`(${ticket.timebox_hours}h, ${status})`)}`);
+      }
+
+      const percent = sprint.committed_hours > 0 ? Math.round((doneHours / sprint.committed_hours) * 100) : 0;
+      const filled = Math.round(percent / 5);
+      console.log(`\n📊 ${'█'.repeat(filled)}${'░'.repeat(20 - filled)} ${percent}% (${doneHours}h of ${sprint.committed_hours}h done)`);
+
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { getSherpaDir, fileExists } from '../utils/fs.js';
+import { SprintManager } from '../utils/sprints.js';
+
+export const sprintPlanCommand = new Command('sprint:plan')
+  .description('Plan a sprint from the backlog up to a capacity in hours')
+  .option('-c, --capacity <hours>', 'Sprint capacity in hours')
+  .option('-d, --days <days>', 'Sprint length in days', '14')
+  .option('-n, --name <name>', 'Sprint name')
+  .option('-g, --goal <goal>', 'Sprint goal')
+  .option('--dry-run', 'Show the plan without saving it')
+  .action(async (options) => {
+    try {
+      if (!await fileExists(getSherpaDir())) {
+        console.log(chalk.red('❌ Sherpa OS not initialized. Run `sherpa init` first.'));
+        return;
+      }
+
+      const sprintManager = new SprintManager();
+      const current = await sprintManager.getCurrentSprint();
+      if (current) {
+        console.log(chalk.yellow(`⚠️  ${current.name} is still active. Close it with \`sherpa sprint:close\` first.`));
+        return;
+      }
+
+      let capacity = options.capacity;
+      if (!capacity) {
+        const answer = await inquirer.prompt([{
+          type: 'input',
+          name: 'capacity',
+          message: 'Sprint capacity (hours):',
+          default: '40',
+          validate: (input: string) => parseFloat(input) > 0 || 'Enter a positive number of hours'
+        }]);
+        capacity = answer.capacity;
+      }
+
+      const capacityHours = parseFloat(capacity);
+      const days = parseInt(options.days);
+      if (!(capacityHours > 0) || !(days > 0)) {
+        console.log(chalk.red('❌ Capacity and days must be positive numbers.'));
+        return;
+      }
+
+      const { sprint, selection } = await sprintManager.planSprint({
+        capacityHours,
+        days,
+        name: options.name,
+        goal: options.goal,
+        dryRun: options.dryRun
+      });
+
+      if (selection.selected.length === 0 && selection.skipped.length === 0) {
+        console.log(chalk.yellow('⚠️  No open tickets to plan. Run `sherpa gen:backlog` first.'));
+      }
+
+      console.log(chalk.blue(`\n🏃 ${sprint.name} (${sprint.start_date} → ${sprint.end_date})`));
+      if (sprint.goal) {
+        console.log(chalk.gray(`🎯 Goal: ${sprint.goal}`));
+      }
+
+      console.log(chalk.bold(`\n📋 Committed (${selection.hours}h of ${capacityHours}h)`));
+      selection.selected.forEach(({ ticket, priority, carriedOver }) => {
+        const tags = [priority, `${ticket.timebox_hours}h`, ...(carriedOver ? ['rolled over'] : [])].join(', ');
+        console.log(`   ${chalk.cyan(ticket.ticket_id)}  ${ticket.title} ${chalk.gray(`(${tags})`)}`);
+      });
+
+      if (selection.skipped.length > 0) {
+        console.log(chalk.bold(`\n⏭️  Not planned (${selection.skipped.length})`));
+        selection.skipped.forEach(({ candidate, reason }) => {
+          console.log(chalk.gray(`   ${candidate.ticket.ticket_id}  ${candidate.ticket.title} (${reason})`));
+        });
+      }
+
+      if (options.dryRun) {
+        console.log(chalk.yellow('\n🔍 Dry run - sprint not saved'));
+        return;
+      }
+
+      console.log(chalk.green(`\n✅ Sprint saved: .sherpa/sprints/${sprint.sprint_id}.yml`));
+      console.log(chalk.gray('\n💡 Next steps:'));
+      console.log(chalk.gray('   1. Pick up work with `sherpa ticket:start <ticket-id>`'));
+      console.log(chalk.gray('   2. Track progress with `sherpa sprint:current`'));
+      console.log(chalk.gray('   3. Run `sherpa sprint:close` at the end of the sprint'));
+
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
\ No newline at end of file
@@ -3,44 +3,82 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import { fileExists } from '../utils/fs.js';
+import { fileExists, ensureDir } from '../utils/fs.js';
+import {
+  TestRunner,
+  TestRunResult,
+  parseJestJsonReport,
+  parseCoverageSummary,
+  parseJUnitXml,
+  parseCoveragePyJson,
+  checkCoverageGate,
+  readCoverageTarget,
+  readFreshJson,
+  readFreshText,
+  saveTestResult,
+  getTestResultsDir
+} from '../utils/test-results.js';
+import { promises as fs } from 'fs';
 import * as path from 'path';
 
+const PYTHON_PROJECT_FILES = ['pyproject.toml', 'pytest.ini', 'setup.cfg', 'tox.ini', 'conftest.py'];
+const PYTHON_DEPENDENCY_FILES = ['pyproject.toml', 'setup.cfg', 'requirements.txt', 'requirements-dev.txt', 'requirements/dev.txt'];
+// Many systems only ship python3, and on some `python` is still Python 2
+const PYTHON_INTERPRETERS = ['python3', 'python'];
+
 const execAsync = promisify(exec);
 
 export const testCommand = new Command('test')
   .description('Run tests and collect coverage')
-  .option('--coverage', 'Run with coverage report', true)
+  .option('--no-coverage', 'Run without collecting coverage')
   .option('--watch', 'Run tests in watch mode')
   .option('--filter <pattern>', 'Run tests matching pattern')
   .action(async (options) => {
     try {
       const packageJsonPath = path.join(process.cwd(), 'package.json');
-      
-      if (!await fileExists(packageJsonPath)) {
-        console.log(chalk.red('❌ No package.json found. Are you in the right directory?'));
+      const python = await detectPytest();
+
+      if (!python && !await fileExists(packageJsonPath)) {
+        console.log(chalk.red('❌ No package.json or pyproject.toml found. Are you in the right directory?'));
         return;
       }
-      
+
+      const canSave = await fileExists(path.dirname(getTestResultsDir()));
+      const reportPath = path.join(getTestResultsDir(), 'report.json');
+      const junitPath = path.join(getTestResultsDir(), 'junit.xml');
+      const coveragePyPath = path.join(getTestResultsDir(), 'coverage.json');
+      if (canSave) {
+        await ensureDir(getTestResultsDir());
+      }
+
       // Determine test command
+      let runner: TestRunner = 'npm';
       let testCommand = 'npm test';
-      
+
       // Check if we have specific test runners
       if (await fileExists('vitest.config.ts') || await fileExists('vitest.config.js')) {
+        runner = 'vitest';
         testCommand = 'npx vitest run';
         if (options.coverage) {
-          testCommand += ' --coverage';
+          testCommand += ' --coverage --coverage.reporter=text --coverage.reporter=json-summary --coverage.reportOnFailure';
+        }
+        if (canSave) {
+          testCommand += ` --reporter=default --reporter=json --outputFile.json="${reportPath}"`;
         }
         if (options.watch) {
           testCommand = 'npx vitest';
         }
         if (options.filter) {
-          testCommand += ` --reporter=verbose --grep="${options.filter}"`;
+          testCommand += ` -t "${options.filter}"`;
         }
       } else if (await fileExists('jest.config.js') || await fileExists('jest.config.ts')) {
+        runner = 'jest';
         testCommand = 'npx jest';
         if (options.coverage) {
-          testCommand += ' --coverage';
+          testCommand += ' --coverage --coverageReporters=text --coverageReporters=json-summary';
+        }
+        if (canSave) {
+          testCommand += ` --json --outputFile="${reportPath}"`;
         }
         if (options.watch) {
           testCommand += ' --watch';
@@ -48,53 +86,188 @@ export const testCommand = new Command('test')
         if (options.filter) {
           testCommand += ` --testNamePattern="${options.filter}"`;
         }
+      } else if (python) {
+        runner = 'pytest';
+        testCommand = `${python.interpreter} -m pytest`;
+        // --cov needs the pytest-cov plugin; pytest rejects the flag without it
+        if (options.coverage && python.hasPytestCov) {
+          testCommand += ` --cov --cov-report=term --cov-report=json:"${coveragePyPath}"`;
+        }
+        if (canSave) {
+          testCommand += ` --junitxml="${junitPath}"`;
+        }
+        if (options.watch) {
+          console.log(chalk.yellow('⚠️  pytest has no watch mode; running once (try pytest-watch for watching)'));
+          options.watch = false;
+        }
+        if (options.filter) {
+          testCommand += ` -k "${options.filter}"`;
+        }
       }
-      
+
       console.log(chalk.blue(`🧪 Running tests with: ${testCommand}`));
-      
+
       const spinner = ora('Running tests...').start();
-      
+      const startedAt = Date.now();
+
+      let exitedCleanly = true;
+      let output = { stdout: '', stderr: '' };
       try {
-        const { stdout, stderr } = await execAsync(testCommand, {
+        output = await execAsync(testCommand, {
           cwd: process.cwd(),
           maxBuffer: 1024 * 1024 * 10 // 10MB buffer
         });
-        
-        spinner.succeed('Tests completed!');
-        
-        console.log(stdout);
-        if (stderr) {
-          console.log(chalk.yellow('\nWarnings/Info:'));
-          console.log(stderr);
-        }
-        
-        // Parse test results for summary
-        if (stdout.includes('✓') || stdout.includes('PASS')) {
-          console.log(chalk.green('\n✅ Tests passed!'));
-        }
-        
-        if (options.coverage && stdout.includes('%')) {
-          console.log(chalk.blue('\n📊 Coverage Report Generated'));
-          console.log(chalk.gray('   Check coverage/ directory for detailed report'));
-        }
-        
       } catch (error: any) {
+        exitedCleanly = false;
+        output = { stdout: error.stdout || '', stderr: error.stderr || `${error.message || error}` };
+      }
+
+      if (options.watch) {
+        spinner.stop();
+        console.log(output.stdout);
+        return;
+      }
+
+      // Runner reports are the source of truth; the exit code is the fallback
+      let parsed: ReturnType<typeof parseJestJsonReport> | null = null;
+      let coverage = null;
+      if (runner === 'pytest') {
+        const junit = await readFreshText(junitPath, startedAt);
+        parsed = junit ? parseJUnitXml(junit) : null;
+        coverage = options.coverage ? parseCoveragePyJson(await readFreshJson(coveragePyPath, startedAt)) : null;
+      } else {
+        const report = await readFreshJson(reportPath, startedAt);
+        parsed = report ? parseJestJsonReport(report) : null;
+        coverage = options.coverage
+          ? parseCoverageSummary(await readFreshJson(path.join(process.cwd(), 'coverage', 'coverage-summary.json'), startedAt))
+          : null;
+      }
+      const gate = checkCoverageGate(coverage, canSave ? await readCoverageTarget() : null);
+
+      const result: TestRunResult = {
+        runner,
+        command: testCommand,
+        timestamp: new Date(startedAt).toISOString(),
+        durationMs: Date.now() - startedAt,
+        success: exitedCleanly && (!parsed || parsed.tests.failed === 0),
+        tests: parsed ? parsed.tests : null,
+        failures: parsed ? parsed.failures : [],
+        coverage,
+        gate
+      };
+
+      if (result.success) {
+        spinner.succeed('Tests completed!');
+      } else {
         spinner.fail('Tests failed');
-        
-        console.log(chalk.red('\n❌ Test Failures:'));
-        console.log(error.stdout || '');
-        console.log(error.stderr || '');
-        
+      }
+
+      console.log(output.stdout);
+      if (output.stderr) {
+        console.log(chalk.yellow('\nWarnings/Info:'));
+        console.log(output.stderr);
+      }
+
+      printResult(result);
+
+      if (canSave) {
+        const resultPath = await saveTestResult(result);
+        console.log(chalk.gray(`\n💾 Result saved: ${path.relative(process.cwd(), resultPath)}`));
+      }
+
+      if (!result.success) {
         console.log(chalk.gray('\n💡 Tips:'));
         console.log(chalk.gray('   - Check test files for syntax errors'));
         console.log(chalk.gray('   - Ensure all dependencies are installed'));
         console.log(chalk.gray('   - Run tests individually to isolate issues'));
-        
         process.exit(1);
       }
-      
+
+      if (gate && !gate.passed) {
+        process.exit(1);
+      }
+
     } catch (error) {
       console.error(chalk.red(`Error: ${error}`));
       process.exit(1);
     }
-  });
\ No newline at end of file
+  });
+
+function printResult(result: TestRunResult): void {
+  if (result.tests) {
+    const { total, passed, failed, skipped } = result.tests;
+    console.log(chalk.blue('\n📋 Test Summary'));
+    console.log(`   ${chalk.green(`${passed} passed`)}, ${failed > 0 ? chalk.red(`${failed} failed`) : `${failed} failed`}, ${chalk.gray(`${skipped} skipped`)} (${total} total)`);
+  }
+
+  if (result.failures.length > 0) {
+    console.log(chalk.red('\n❌ Failing Tests:'));
+    result.failures.forEach(failure => {
+      console.log(chalk.red(`   • ${failure.name}`));
+      console.log(chalk.gray(`     ${path.relative(process.cwd(), failure.file) || failure.file}${failure.message ? `: ${failure.message}` : ''}`));
+    });
+  } else if (result.success) {
+    console.log(chalk.green('\n✅ Tests passed!'));
+  }
+
+  if (result.coverage) {
+    const { lines, branches, functions, statements } = result.coverage;
+    console.log(chalk.blue('\n📊 Coverage'));
+    console.log(`   Lines: ${lines}%  Branches: ${branches}%  Functions: ${functions === null ? 'n/a' : `${functions}%`}  Statements: ${statements}%`);
+  }
+
+  if (result.gate) {
+    if (result.gate.passed) {
+      console.log(chalk.green(`\n✅ Coverage gate passed: ${result.gate.actual}% lines ≥ ${result.gate.target}% target`));
+    } else {
+      console.log(chalk.red(`\n🚫 Coverage gate failed: ${result.gate.actual}% line coverage is below the ${result.gate.target}% target`));
+      console.log(chalk.gray('   The target comes from **Coverage Target** in .sherpa/standards/testing-standards.md'));
+    }
+  }
+}
+
+/**
+ * A Python project is one with pytest configuration or a pyproject.toml. pytest-cov is
+ * looked up in the dependency files so coverage flags are only passed when it is installed,
+ * and the interpreter is the first of python3 and python that runs.
+ */
+async function detectPytest(): Promise<{ hasPytestCov: boolean; interpreter: string } | null> {
+  const cwd = process.cwd();
+  let isPython = false;
+
+  for (const file of PYTHON_PROJECT_FILES) {
+    if (!await fileExists(path.join(cwd, file))) continue;
+    const content = await fs.readFile(path.join(cwd, file), 'utf-8');
+    // setup.cfg and tox.ini only count when they configure pytest
+    if (file === 'pyproject.toml' || file === 'pytest.ini' || file === 'conftest.py' || /\[(tool:)?pytest\]/.test(content)) {
+      isPython = true;
+      break;
+    }
+  }
+
+  if (!isPython) {
+    return null;
+  }
+
+  let hasPytestCov = false;
+  for (const file of PYTHON_DEPENDENCY_FILES) {
+    if (await fileExists(path.join(cwd, file)) && /pytest[-_]cov/i.test(await fs.readFile(path.join(cwd, file), 'utf-8'))) {
+      hasPytestCov = true;
+      break;
+    }
+  }
+
+  return { hasPytestCov, interpreter: await findPythonInterpreter() };
+}
+
+async function findPythonInterpreter(): Promise<string> {
+  for (const interpreter of PYTHON_INTERPRETERS) {
+    try {
+      await execAsync(`${interpreter} --version`);
+      return interpreter;
+    } catch (error) {
+      // Not installed under this name; try the next one
+    }
+  }
+  throw new Error(`No Python interpreter found (tried ${PYTHON_INTERPRETERS.join(', ')})`);
+}
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { getSherpaDir, fileExists } from '../utils/fs.js';
+import { BacklogManager } from '../utils/backlog.js';
+
+export const ticketBlockCommand = new Command('ticket:block')
+  .description('Mark a ticket as blocked')
+  .argument('<ticket-id>', 'Ticket ID (a unique part of the ID is enough)')
+  .option('-r, --reason <reason>', 'Why the ticket is blocked')
+  .action(async (ticketId: string, options) => {
+    try {
+      if (!await fileExists(getSherpaDir())) {
+        console.log(chalk.red('❌ Sherpa OS not initialized. Run `sherpa init` first.'));
+        return;
+      }
+
+      let reason = options.reason;
+      if (!reason) {
+        const answers = await inquirer.prompt([{
+          type: 'input',
+          name: 'reason',
+          message: 'What is blocking this ticket?',
+          validate: input => input.length > 0
+        }]);
+        reason = answers.reason;
+      }
+
+      const backlogManager = new BacklogManager();
+      const ticket = await backlogManager.transitionTicket(ticketId, 'blocked', reason);
+
+      console.log(chalk.red(`🚫 Blocked ${ticket.ticket_id}: ${ticket.title}`));
+      console.log(chalk.gray(`   Reason: ${reason}`));
+      console.log(chalk.gray(`\n💡 Run \`sherpa ticket:start ${ticket.ticket_id}\` once the blocker is resolved.`));
+
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { getSherpaDir, fileExists } from '../utils/fs.js';
+import { BacklogManager } from '../utils/backlog.js';
+
+export const ticketDoneCommand = new Command('ticket:done')
+  .description('Mark a ticket as done (or ready for review)')
+  .argument('<ticket-id>', 'Ticket ID (a unique part of the ID is enough)')
+  .option('-n, --note <note>', 'Note to record with the transition')
+  .option('--review', 'Move the ticket to in review instead of done')
+  .action(async (ticketId: string, options) => {
+    try {
+      if (!await fileExists(getSherpaDir())) {
+        console.log(chalk.red('❌ Sherpa OS not initialized. Run `sherpa init` first.'));
+        return;
+      }
+
+      const backlogManager = new BacklogManager();
+      const target = options.review ? 'in_review' : 'done';
+      const ticket = await backlogManager.transitionTicket(ticketId, target, options.note);
+
+      if (options.review) {
+        console.log(chalk.green(`👀 ${ticket.ticket_id} is ready for review: ${ticket.title}`));
+      } else {
+        console.log(chalk.green(`✅ Completed ${ticket.ticket_id}: ${ticket.title}`));
+      }
+
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
\ No newline at end of file
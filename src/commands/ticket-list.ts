@@ -0,0 +1,60 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { getSherpaDir, fileExists } from '../utils/fs.js';
+import { BacklogManager, TICKET_STATUSES, getTicketStatus, getStatusIcon } from '../utils/backlog.js';
+import { TicketStatus } from '../types/index.js';
+
+export const ticketListCommand = new Command('ticket:list')
+  .description('List backlog tickets and their status')
+  .option('-s, --status <status>', `Only show tickets with this status (${TICKET_STATUSES.join(', ')})`)
+  .option('--owner <owner>', 'Only show tickets assigned to this owner')
+  .action(async (options) => {
+    try {
+      if (!await fileExists(getSherpaDir())) {
+        console.log(chalk.red('❌ Sherpa OS not initialized. Run `sherpa init` first.'));
+        return;
+      }
+
+      if (options.status && !TICKET_STATUSES.includes(options.status)) {
+        console.log(chalk.red(`❌ Unknown status: ${options.status}. Use one of: ${TICKET_STATUSES.join(', ')}`));
+        return;
+      }
+
+      const backlogManager = new BacklogManager();
+      let tickets = await backlogManager.listTickets();
+
+      if (tickets.length === 0) {
+        console.log(chalk.yellow('⚠️  No tickets found. Run `sherpa gen:backlog` first.'));
+        return;
+      }
+
+      if (options.status) {
+        tickets = tickets.filter(t => getTicketStatus(t) === options.status);
+      }
+      if (options.owner) {
+        tickets = tickets.filter(t => t.owner === options.owner);
+      }
+
+      console.log(chalk.blue(`\n🎫 Tickets (${tickets.length})\n`));
+
+      // Group by status so in-flight work is listed first
+      const order: TicketStatus[] = ['in_progress', 'in_review', 'blocked', 'todo', 'done'];
+      for (const status of order) {
+        const group = tickets.filter(t => getTicketStatus(t) === status);
+        if (group.length === 0) continue;
+
+        console.log(chalk.bold(`${getStatusIcon(status)} ${status} (${group.length})`));
+        group.forEach(ticket => {
+          console.log(`   ${chalk.cyan(ticket.ticket_id)}  ${ticket.title} ${chalk.gray(`(${ticket.timebox_hours}h, ${ticket.owner})`)}`);
+        });
+        console.log('');
+      }
+
+      const done = tickets.filter(t => getTicketStatus(t) === 'done').length;
+      console.log(chalk.gray(`📊 ${done}/${tickets.length} done`));
+
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
\ No newline at end of file
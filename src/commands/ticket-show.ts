@@ -0,0 +1,62 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { getSherpaDir, fileExists } from '../utils/fs.js';
+import { BacklogManager, getTicketStatus, getStatusIcon } from '../utils/backlog.js';
+
+export const ticketShowCommand = new Command('ticket:show')
+  .description('Show ticket details and status history')
+  .argument('<ticket-id>', 'Ticket ID (a unique part of the ID is enough)')
+  .action(async (ticketId: string) => {
+    try {
+      if (!await fileExists(getSherpaDir())) {
+        console.log(chalk.red('❌ Sherpa OS not initialized. Run `sherpa init` first.'));
+        return;
+      }
+
+      const backlogManager = new BacklogManager();
+      const ticket = await backlogManager.getTicket(ticketId);
+
+      if (!ticket) {
+        console.log(chalk.red(`❌ Ticket not found: ${ticketId}`));
+        return;
+      }
+
+      const status = getTicketStatus(ticket);
+
+      console.log(chalk.green(`\n🎫 ${ticket.ticket_id}: ${ticket.title}`));
+      console.log(`${getStatusIcon(status)} Status: ${chalk.bold(status)}`);
+      console.log(`⏱️  Timebox: ${ticket.timebox_hours}h`);
+      console.log(`👤 Owner: ${ticket.owner}`);
+
+      console.log(chalk.blue('\n🎯 Outcome:'));
+      console.log(`   ${ticket.outcome}`);
+
+      if (ticket.acceptance_criteria?.length > 0) {
+        console.log(chalk.blue('\n✅ Acceptance Criteria:'));
+        ticket.acceptance_criteria.forEach(ac => console.log(`   • ${ac}`));
+      }
+
+      if (ticket.scope_in?.length > 0) {
+        console.log(chalk.blue('\n📦 In Scope:'));
+        ticket.scope_in.forEach(item => console.log(`   • ${item}`));
+      }
+
+      if (ticket.scope_out?.length > 0) {
+        console.log(chalk.blue('\n🚫 Out of Scope:'));
+        ticket.scope_out.forEach(item => console.log(`   • ${item}`));
+      }
+
+      const history = ticket.status_history || [];
+      if (history.length > 0) {
+        console.log(chalk.blue('\n📜 Status History:'));
+        history.forEach(transition => {
+          const note = transition.note ? chalk.gray(` — ${transition.note}`) : '';
+          console.log(`   ${transition.at}  ${transition.from} → ${transition.to}${note}`);
+        });
+      }
+
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { getSherpaDir, fileExists } from '../utils/fs.js';
+import { BacklogManager } from '../utils/backlog.js';
+
+export const ticketStartCommand = new Command('ticket:start')
+  .description('Move a ticket to in progress')
+  .argument('<ticket-id>', 'Ticket ID (a unique part of the ID is enough)')
+  .option('-n, --note <note>', 'Note to record with the transition')
+  .action(async (ticketId: string, options) => {
+    try {
+      if (!await fileExists(getSherpaDir())) {
+        console.log(chalk.red('❌ Sherpa OS not initialized. Run `sherpa init` first.'));
+        return;
+      }
+
+      const backlogManager = new BacklogManager();
+      const ticket = await backlogManager.transitionTicket(ticketId, 'in_progress', options.note);
+
+      console.log(chalk.green(`🚧 Started ${ticket.ticket_id}: ${ticket.title}`));
+      console.log(chalk.gray('\n💡 Next steps:'));
+      console.log(chalk.gray(`   1. Run \`sherpa gen:prompt --ticket ${ticket.ticket_id}\` to create an AI prompt`));
+      console.log(chalk.gray(`   2. Run \`sherpa ticket:done ${ticket.ticket_id}\` when it's finished`));
+
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error}`));
+      process.exit(1);
+    }
+  });
\ No newline at end of file
@@ -2,100 +2,152 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import { getSherpaDir, ensureDir, writeMarkdown, fileExists } from '../utils/fs.js';
 import { formatDate } from '../utils/ids.js';
-import { promises as fs } from 'fs';
+import { BacklogManager } from '../utils/backlog.js';
+import { SessionManager } from '../utils/session.js';
+import { SprintManager } from '../utils/sprints.js';
+import { VelocityMetrics, VelocityPeriod, VELOCITY_PERIODS, Percentiles, calculateVelocity, readCoveragePercent } from '../utils/velocity.js';
+import { getLatestTestResult } from '../utils/test-results.js';
 import * as path from 'path';
 
+interface VelocityReportData {
+  metrics: VelocityMetrics;
+  coverage_percent: number | null;
+  sprints: Array<{
+    name: string;
+    committed_hours: number;
+    delivered_hours: number;
+    committed_tickets: number;
+    delivered_tickets: number;
+  }>;
+}
+
 export const velocityCommand = new Command('velocity')
   .description('Generate velocity report')
   .option('-d, --date <date>', 'Date for the report', formatDate())
-  .option('--period <period>', 'Period to analyze (week, month)', 'week')
+  .option('--period <period>', `Period to analyze (${Object.keys(VELOCITY_PERIODS).join(', ')})`, 'week')
   .action(async (options) => {
     try {
       if (!await fileExists(getSherpaDir())) {
         console.log(chalk.red('❌ Sherpa OS not initialized. Run `sherpa init` first.'));
         return;
       }
-      
-      const reportData = await analyzeVelocity(options.period);
-      
+
+      if (!(options.period in VELOCITY_PERIODS)) {
+        console.log(chalk.red(`❌ Unknown period: ${options.period}. Use one of: ${Object.keys(VELOCITY_PERIODS).join(', ')}`));
+        return;
+      }
+
+      const reportData = await analyzeVelocity(options.period as VelocityPeriod, options.date);
+      const { metrics } = reportData;
+
       const reportsDir = path.join(process.cwd(), 'docs', 'reports');
       await ensureDir(reportsDir);
-      
+
       const reportPath = path.join(reportsDir, `velocity-${options.date}.md`);
       const reportContent = generateVelocityReport(reportData, options.date);
-      
+
       await writeMarkdown(reportPath, reportContent);
-      
+
       console.log(chalk.green(`\n✅ Velocity Report: ${options.date}`));
       console.log(chalk.blue(`📄 File: ${reportPath}`));
-      
+
       // Show summary
-      console.log(chalk.blue('\n📊 Velocity Summary:'));
-      console.log(`🎫 Tickets Completed: ${reportData.tickets_completed}`);
-      console.log(`⏱️  Average Cycle Time: ${reportData.average_cycle_time} days`);
-      console.log(`🧪 Coverage: ${reportData.coverage_percent}%`);
-      console.log(`🔄 Redo Rate: ${reportData.redo_rate}%`);
-      
+      console.log(chalk.blue(`\n📊 Velocity Summary (${metrics.from} → ${metrics.to}):`));
+      console.log(`🎫 Tickets Completed: ${metrics.ticketsCompleted} (${metrics.throughputPerWeek}/week)`);
+      console.log(`⏱️  Cycle Time: ${formatPercentiles(metrics.cycleTimeDays)}`);
+      console.log(`📬 Lead Time: ${formatPercentiles(metrics.leadTimeDays)}`);
+      console.log(`🔄 Reopen Rate: ${metrics.reopenRate === null ? 'n/a' : `${metrics.reopenRate}%`}`);
+      console.log(`🎯 Estimate Accuracy: ${metrics.estimateAccuracy ? `${metrics.estimateAccuracy.ratio}x of timebox` : 'n/a'}`);
+      console.log(`🧪 Coverage: ${reportData.coverage_percent === null ? 'n/a' : `${reportData.coverage_percent}%`}`);
+      const lastSprint = reportData.sprints[reportData.sprints.length - 1];
+      if (lastSprint) {
+        console.log(`🏃 Last Sprint: ${lastSprint.delivered_hours}h delivered of ${lastSprint.committed_hours}h committed`);
+      }
+
+      if (metrics.ticketsCompleted === 0) {
+        console.log(chalk.gray('\n💡 Metrics come from ticket history - move tickets with `sherpa ticket:start` and `sherpa ticket:done`'));
+      }
+
     } catch (error) {
       console.error(chalk.red(`Error: ${error}`));
       process.exit(1);
     }
   });
 
-async function analyzeVelocity(period: string) {
-  // This would analyze actual project data in a real implementation
-  // For now, we'll generate sample data
-  
-  const backlogDir = path.join(getSherpaDir(), 'backlog', 'tickets');
-  let ticketCount = 0;
-  
-  if (await fileExists(backlogDir)) {
-    const files = await fs.readdir(backlogDir);
-    ticketCount = files.filter(f => f.endsWith('.yml')).length;
-  }
-  
-  // Sample velocity data - would be calculated from actual completion times
+async function analyzeVelocity(period: VelocityPeriod, date: string): Promise<VelocityReportData> {
+  const tickets = await new BacklogManager().listTickets();
+  const sessions = await new SessionManager().listSessionHistory();
+
+  // Closed sprints record what was committed against what was delivered
+  const sprints = (await new SprintManager().listSprints())
+    .filter(sprint => sprint.status === 'closed')
+    .slice(-5)
+    .map(sprint => ({
+      name: sprint.name,
+      committed_hours: sprint.committed_hours,
+      delivered_hours: sprint.delivered_hours || 0,
+      committed_tickets: sprint.committed.length,
+      delivered_tickets: sprint.delivered?.length || 0
+    }));
+
   return {
-    tickets_completed: Math.min(ticketCount, 12),
-    average_cycle_time: 2.5,
-    coverage_percent: 78,
-    redo_rate: 15,
-    period: period,
-    analysis_date: formatDate()
+    metrics: calculateVelocity(tickets, sessions, period, date),
+    coverage_percent: (await getLatestTestResult())?.coverage?.lines ?? await readCoveragePercent(process.cwd()),
+    sprints
   };
 }
 
-function generateVelocityReport(data: any, date: string): string {
+function formatPercentiles(value: Percentiles | null): string {
+  return value ? `p50 ${value.p50}d, p85 ${value.p85}d, p95 ${value.p95}d` : 'n/a';
+}
+
+function generateVelocityReport(data: VelocityReportData, date: string): string {
+  const { metrics } = data;
+  const accuracy = metrics.estimateAccuracy;
+  const recommendations = [
+    data.coverage_percent !== null && data.coverage_percent < 80 ? '- Increase test coverage to reach 80%+ target' : '',
+    metrics.reopenRate !== null && metrics.reopenRate > 20 ? '- Focus on quality gates to reduce rework' : '',
+    accuracy && accuracy.ratio > 1.25 ? '- Tickets run over their timebox - consider breaking them down into smaller tasks' : '',
+    !accuracy ? '- Log sessions against tickets (`sherpa gen:prompt` starts one) to measure estimate accuracy' : ''
+  ].filter(Boolean);
+
   return `# Velocity Report - ${date}
 
 ## 📊 Summary
-- **Period**: ${data.period}
-- **Analysis Date**: ${data.analysis_date}
+- **Period**: ${metrics.period} (${metrics.from} → ${metrics.to})
+- **Analysis Date**: ${formatDate()}
 
 ## 🎯 Key Metrics
 
 ### Delivery
-- **Tickets Completed**: ${data.tickets_completed}
-- **Average Cycle Time**: ${data.average_cycle_time} days
+- **Tickets Completed**: ${metrics.ticketsCompleted}
+- **Throughput**: ${metrics.throughputPerWeek} tickets/week
+- **Cycle Time** (started → done): ${formatPercentiles(metrics.cycleTimeDays)}
+- **Lead Time** (created → done): ${formatPercentiles(metrics.leadTimeDays)}
 
-### Quality
-- **Test Coverage**: ${data.coverage_percent}%
-- **Redo Rate**: ${data.redo_rate}%
+### Throughput by Week
+${metrics.throughput.map(week => `- Week of ${week.weekStart}: ${week.completed}`).join('\n')}
 
-## 📈 Trends
-
-### Velocity
-${data.tickets_completed > 10 ? '📈 Above average delivery' : '📉 Below average delivery'}
+### Estimates
+${accuracy
+  ? `- **Measured Tickets**: ${accuracy.tickets}
+- **Estimated vs Actual**: ${accuracy.estimatedHours}h estimated, ${accuracy.actualHours}h worked (${accuracy.ratio}x)
+- **Within Timebox**: ${accuracy.withinTimeboxPercent}%`
+  : '- No completed tickets with logged session time'}
+- **Sessions**: ${metrics.sessions.count} (${metrics.sessions.hours}h)
 
 ### Quality
-${data.coverage_percent > 80 ? '✅ Good test coverage' : '⚠️ Test coverage needs improvement'}
-${data.redo_rate < 20 ? '✅ Low redo rate' : '⚠️ High redo rate - focus on quality'}
+- **Test Coverage**: ${data.coverage_percent === null ? 'n/a (run `sherpa test` to record coverage)' : `${data.coverage_percent}%`}
+- **Reopen Rate**: ${metrics.reopenRate === null ? 'n/a' : `${metrics.reopenRate}%`}
+
+### Sprints
+${data.sprints.length > 0
+  ? data.sprints.map(sprint => `- **${sprint.name}**: ${sprint.delivered_hours}h of ${sprint.committed_hours}h delivered (${sprint.delivered_tickets}/${sprint.committed_tickets} tickets)`).join('\n')
+  : '- No closed sprints yet - use `sherpa sprint:plan` and `sherpa sprint:close`'}
 
 ## 🎯 Recommendations
 
-${data.coverage_percent < 80 ? '- Increase test coverage to reach 80%+ target' : ''}
-${data.redo_rate > 20 ? '- Focus on quality gates to reduce rework' : ''}
-${data.tickets_completed < 8 ? '- Consider breaking down tickets into smaller tasks' : ''}
+${recommendations.length > 0 ? recommendations.join('\n') : '- Keep going - no issues detected this period'}
 
 ## 📋 Action Items
 - [ ] Review ticket sizing and complexity
@@ -1,3 +1,18 @@
+export type TicketStatus = 'todo' | 'in_progress' | 'in_review' | 'done' | 'blocked';
+
+export interface TicketTransition {
+  from: TicketStatus;
+  to: TicketStatus;
+  at: string;
+  note?: string;
+}
+
+export interface BacklogSource {
+  spec: string;
+  key: string;
+  hashes?: Record<string, string>;
+}
+
 export interface Ticket {
   ticket_id: string;
   title: string;
@@ -18,6 +33,12 @@ export interface Ticket {
   };
   timebox_hours: number;
   owner: string;
+  created_at?: string;
+  status?: TicketStatus;
+  status_history?: TicketTransition[];
+  depends_on?: string[];
+  blocks?: string[];
+  source?: BacklogSource;
 }
 
 export interface Epic {
@@ -25,6 +46,9 @@ export interface Epic {
   title: string;
   description: string;
   tickets: string[];
+  depends_on?: string[];
+  blocks?: string[];
+  source?: BacklogSource;
 }
 
 export interface Story {
@@ -33,6 +57,31 @@ export interface Story {
   description: string;
   epic_id: string;
   tickets: string[];
+  depends_on?: string[];
+  blocks?: string[];
+  source?: BacklogSource;
+}
+
+export type SpecStatus = 'draft' | 'review' | 'approved' | 'in_progress' | 'done';
+
+export type SpecPriority = 'high' | 'medium' | 'low';
+
+export interface SpecLink {
+  title: string;
+  url: string;
+}
+
+export interface SpecMetadata {
+  title: string;
+  status: SpecStatus;
+  priority: SpecPriority;
+  effort: number;
+  type: string;
+  owner?: string;
+  created?: string;
+  target_date?: string;
+  links: SpecLink[];
+  dependencies: string[];
 }
 
 export interface Spec {
@@ -41,6 +90,7 @@ export interface Spec {
   requirements: string[];
   acceptance_criteria: string[];
   technical_notes?: string[];
+  metadata?: SpecMetadata;
 }
 
 export interface ProjectState {
@@ -51,6 +101,25 @@ export interface ProjectState {
   current_sprint?: string;
 }
 
+export type SprintStatus = 'active' | 'closed';
+
+export interface Sprint {
+  sprint_id: string;
+  name: string;
+  goal?: string;
+  status: SprintStatus;
+  start_date: string;
+  end_date: string;
+  capacity_hours: number;
+  committed: string[];
+  committed_hours: number;
+  rolled_over_from?: string;
+  delivered?: string[];
+  delivered_hours?: number;
+  rolled_over?: string[];
+  closed_at?: string;
+}
+
 export interface Brief {
   date: string;
   progress: string[];
@@ -0,0 +1,309 @@
+import { parseFrontmatter, stringifyFrontmatter } from './frontmatter.js';
+
+export type AdrFormat = 'nygard' | 'madr';
+
+export const ADR_STATUSES = ['proposed', 'accepted', 'rejected', 'deprecated', 'superseded'];
+
+// Decisions in these states no longer describe how the code should be written
+const INACTIVE_STATUSES = ['rejected', 'deprecated', 'superseded'];
+
+const MAX_FIELD_LENGTH = 500;
+
+export interface ParsedAdr {
+  id: string;
+  number: number | null;
+  title: string;
+  status: string;
+  date: string;
+  rationale: string;
+  decision: string;
+  consequences: string[];
+  supersedes: string[];
+  supersededBy: string[];
+}
+
+export interface NewAdr {
+  number: number;
+  title: string;
+  status: string;
+  date: string;
+  format: AdrFormat;
+  supersedes?: { title: string; file: string };
+}
+
+interface Section {
+  heading: string;
+  lines: string[];
+}
+
+/**
+ * Reads an architectural decision record in any of the common layouts: Nygard
+ * (`## Status`/`## Context`/`## Decision`/`## Consequences`, as written by adr-tools), MADR
+ * (`* Status:` lists or frontmatter, `## Decision Outcome`) and plain YAML frontmatter.
+ * Supersedes links are returned as the referenced file stems; `linkSupersededDecisions`
+ * resolves them across a set of records.
+ */
+export function parseAdr(content: string, filename: string, fallbackDate: string): ParsedAdr {
+  const { data, body } = parseFrontmatter(content);
+  const meta = data || {};
+  const lines = body.split(/\r?\n/);
+  const sections = splitSections(lines);
+  const preamble = sections[0]?.heading === '' ? sections[0].lines : [];
+
+  const id = filename.replace(/\.md$/, '');
+  const rawTitle = String(meta.title || lines.find(line => /^#\s+/.test(line))?.replace(/^#\s+/, '') || id);
+  const titleNumber = rawTitle.match(/^(?:ADR[-\s]?)?(\d+)[.:]?\s+/i);
+  const fileNumber = id.match(/^(?:ADR[-_]?)?(\d+)/i);
+  const title = titleNumber ? rawTitle.substring(titleNumber[0].length).trim() : rawTitle.trim();
+
+  // Nygard keeps status in its own section, MADR 2 in a `* Status:` list item
+  const statusLines = findSection(sections, /^status$/i)?.lines.filter(line => line.trim() !== '')
+    || listField(preamble, 'status');
+  const statusText = meta.status !== undefined ? String(meta.status) : statusLines[0]?.trim() || '';
+  const supersededBy = [
+    ...toList(meta.superseded_by ?? meta.supersededBy),
+    ...[statusText, ...statusLines].flatMap(line => /^superseded by\b/i.test(line.trim()) ? references(line, /^superseded by\s*:?\s*/i) : [])
+  ];
+  const supersedes = [
+    ...toList(meta.supersedes),
+    ...statusLines.flatMap(line => /^supersedes\b/i.test(line.trim()) ? references(line, /^supersedes\s*:?\s*/i) : [])
+  ];
+
+  const dateValue = meta.date instanceof Date ? meta.date.toISOString() : meta.date
+    ?? listField(preamble, 'date')[0]
+    ?? preamble.find(line => /^date:/i.test(line.trim()))?.replace(/^\s*date:\s*/i, '');
+
+  const outcome = findSection(sections, /^decision outcome$/i);
+  const chosen = outcome ? paragraphs(outcome.lines)[0] || '' : '';
+  const because = chosen.match(/,?\s+because,?\s+([\s\S]+)$/i);
+  const decisionText = outcome
+    ? (because ? chosen.substring(0, because.index) : chosen)
+    : paragraphs(findSection(sections, /^decision$/i)?.lines || []).join(' ');
+  const contextText = paragraphs(findSection(sections, /^context( and problem statement)?$/i)?.lines || []).join(' ');
+
+  const consequenceLines = sections
+    .filter(section => /consequences$/i.test(section.heading))
+    .flatMap(section => section.lines);
+  const bullets = consequenceLines
+    .filter(line => /^\s*[-*+]\s+/.test(line))
+    .map(line => line.replace(/^\s*[-*+]\s+/, '').trim());
+
+  return {
+    id,
+    number: titleNumber ? parseInt(titleNumber[1] as string, 10) : fileNumber ? parseInt(fileNumber[1] as string, 10) : null,
+    title,
+    status: normalizeStatus(supersededBy.length > 0 ? 'superseded' : statusText),
+    date: normalizeDate(dateValue, fallbackDate),
+    rationale: clip(because?.[1] || contextText) || 'No rationale recorded',
+    decision: clip(decisionText || paragraphs(preamble.filter(line => !/^(#\s+|date:|\s*[-*+]\s+\w+:)/i.test(line)))[0] || title),
+    consequences: bullets.length > 0 ? bullets : paragraphs(consequenceLines).map(clip),
+    supersedes: unique(supersedes),
+    supersededBy: unique(supersededBy)
+  };
+}
+
+/**
+ * Resolves supersedes references (file stems, numbers or `ADR-0003` style ids) to record
+ * ids and marks each superseded record, so the old decision drops out even when only
+ * the new record mentions the link.
+ */
+export function linkSupersededDecisions(adrs: ParsedAdr[]): ParsedAdr[] {
+  const resolve = (reference: string) => adrs.find(adr => adr.id === reference)?.id
+    ?? adrs.find(adr => adr.number !== null && adr.number === referenceNumber(reference))?.id
+    ?? reference;
+
+  for (const adr of adrs) {
+    adr.supersedes = unique(adr.supersedes.map(resolve));
+    adr.supersededBy = unique(adr.supersededBy.map(resolve));
+  }
+
+  for (const adr of adrs) {
+    for (const target of adr.supersedes) {
+      const superseded = adrs.find(candidate => candidate.id === target);
+      if (superseded && superseded !== adr) {
+        superseded.status = 'superseded';
+        superseded.supersededBy = unique([...superseded.supersededBy, adr.id]);
+      }
+    }
+  }
+
+  return adrs;
+}
+
+export function isActiveDecision(decision: { status?: string }): boolean {
+  return !INACTIVE_STATUSES.includes(decision.status || 'accepted');
+}
+
+export function nextAdrNumber(filenames: string[]): number {
+  const numbers = filenames
+    .filter(file => file.endsWith('.md'))
+    .map(file => file.match(/^(\d+)-/)?.[1])
+    .filter((value): value is string => value !== undefined)
+    .map(value => parseInt(value, 10));
+  return numbers.length > 0 ? Math.max(...numbers) + 1 : 1;
+}
+
+export function adrFilename(number: number, title: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'decision';
+  return `${String(number).padStart(4, '0')}-${slug}.md`;
+}
+
+export function renderAdr(adr: NewAdr): string {
+  const supersedesLink = adr.supersedes ? `[${adr.supersedes.title}](${adr.supersedes.file})` : '';
+
+  if (adr.format === 'madr') {
+    const meta: Record<string, any> = { status: adr.status, date: adr.date };
+    if (adr.supersedes) {
+      meta.supersedes = adr.supersedes.file.replace(/\.md$/, '');
+    }
+    return stringifyFrontmatter(meta, `# ${adr.title}
+
+## Context and Problem Statement
+
+{Describe the context and problem statement in two or three sentences.}
+
+## Considered Options
+
+* {option 1}
+* {option 2}
+
+## Decision Outcome
+
+Chosen option: "{option 1}", because {justification}.
+
+### Consequences
+
+* Good, because {positive consequence}
+* Bad, because {negative consequence}
+`);
+  }
+
+  return `# ${adr.number}. ${adr.title}
+
+Date: ${adr.date}
+
+## Status
+
+${capitalize(adr.status)}
+${adr.supersedes ? `\nSupersedes ${supersedesLink}\n` : ''}
+## Context
+
+{What is the issue that we're seeing that is motivating this decision or change?}
+
+## Decision
+
+{What is the change that we're proposing and/or doing?}
+
+## Consequences
+
+{What becomes easier or more difficult to do because of this change?}
+`;
+}
+
+/**
+ * Rewrites an existing record's status to point at the record replacing it, in whichever
+ * layout the record already uses. Other status lines (such as its own supersedes links)
+ * are kept.
+ */
+export function markAdrSuperseded(content: string, by: { title: string; file: string }): string {
+  const link = `[${by.title}](${by.file})`;
+  const { data, body } = parseFrontmatter(content);
+
+  if (data && 'status' in data) {
+    return stringifyFrontmatter({ ...data, status: 'superseded', superseded_by: by.file.replace(/\.md$/, '') }, body);
+  }
+
+  const statusItem = /^([*-]\s+Status:\s*).*$/im;
+  if (statusItem.test(content)) {
+    return content.replace(statusItem, `$1superseded by ${link}`);
+  }
+
+  const lines = content.split('\n');
+  const start = lines.findIndex(line => /^##\s+status\s*$/i.test(line));
+  if (start === -1) {
+    return content;
+  }
+  let end = lines.findIndex((line, index) => index > start && /^#{1,2}\s+/.test(line));
+  if (end === -1) end = lines.length;
+
+  const kept = lines.slice(start + 1, end).filter(line => /^(supersedes|amends|amended by)\b/i.test(line.trim()));
+  const status = ['', `Superseded by ${link}`, ...kept.flatMap(line => ['', line]), ''];
+  return [...lines.slice(0, start + 1), ...status, ...lines.slice(end)].join('\n');
+}
+
+function splitSections(lines: string[]): Section[] {
+  const sections: Section[] = [{ heading: '', lines: [] }];
+  for (const line of lines) {
+    const heading = line.match(/^#{2,6}\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      sections.push({ heading: heading[1] as string, lines: [] });
+    } else {
+      sections[sections.length - 1]?.lines.push(line);
+    }
+  }
+  return sections;
+}
+
+function findSection(sections: Section[], heading: RegExp): Section | undefined {
+  return sections.find(section => heading.test(section.heading.trim()));
+}
+
+function listField(lines: string[], field: string): string[] {
+  const pattern = new RegExp(`^\\s*[-*+]\\s+${field}:\\s*(.*)$`, 'i');
+  return lines
+    .map(line => line.match(pattern)?.[1]?.trim())
+    .filter((value): value is string => value !== undefined && value !== '');
+}
+
+function paragraphs(lines: string[]): string[] {
+  return lines
+    .join('\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/^\s*[-*+]\s+/gm, '').replace(/\s+/g, ' ').trim())
+    .filter(paragraph => paragraph !== '' && !/^\{.*\}$/.test(paragraph));
+}
+
+function references(line: string, prefix: RegExp): string[] {
+  const text = line.trim().replace(prefix, '');
+  const links = Array.from(text.matchAll(/\[([^\]]*)\]\(([^)]+)\)/g));
+  if (links.length > 0) {
+    return links.map(link => (link[2] as string).split('/').pop()!.replace(/\.md$/, ''));
+  }
+  return text ? [text.replace(/\.md$/, '')] : [];
+}
+
+function referenceNumber(reference: string): number | null {
+  const match = reference.match(/^(?:ADR[-\s]?)?(\d+)\b/i);
+  return match ? parseInt(match[1] as string, 10) : null;
+}
+
+function normalizeStatus(text: string): string {
+  const status = text.toLowerCase().replace(/[*_`]/g, '').trim();
+  const known = ADR_STATUSES.find(candidate => status.startsWith(candidate));
+  return known || status.split(/\s+/)[0] || 'accepted';
+}
+
+function normalizeDate(value: unknown, fallbackDate: string): string {
+  if (value === undefined || value === null || value === '') {
+    return fallbackDate;
+  }
+  const date = new Date(String(value).trim());
+  return isNaN(date.getTime()) ? fallbackDate : date.toISOString();
+}
+
+function toList(value: unknown): string[] {
+  if (value === undefined || value === null || value === '') return [];
+  return (Array.isArray(value) ? value : [value]).map(item => String(item).replace(/\.md$/, ''));
+}
+
+function clip(text: string): string {
+  return text.length > MAX_FIELD_LENGTH ? `${text.substring(0, MAX_FIELD_LENGTH)}…` : text;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
\ No newline at end of file
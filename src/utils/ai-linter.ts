@@ -1,18 +1,29 @@
 import { promises as fs } from 'fs';
 import * as path from 'path';
 import { parse } from '@babel/parser';
-import traverse, { NodePath } from '@babel/traverse';
+import babelTraverse, { NodePath } from '@babel/traverse';
 import * as t from '@babel/types';
 import { getSherpaRoot, fileExists } from './fs.js';
 import { CodePattern } from './context.js';
+import { walkProjectFiles } from './project-files.js';
+import { LintConfig, LintSeverity, ResolvedRuleSettings, findUnknownRules, resolveRuleSettings } from './lint-config.js';
+import { AILintEdit, applyFixes } from './lint-fixes.js';
+import { SUPPRESSION_RULES, SuppressionProblem, applySuppressions, findUnusedSuppressions, parseSuppressions } from './lint-suppressions.js';
+
+// @babel/traverse is CommonJS; under Node's ESM loader the default import is the module object
+const traverse = (babelTraverse as unknown as { default?: typeof babelTraverse }).default ?? babelTraverse;
 
 export interface AILintRule {
   id: string;
   name: string;
   description: string;
   category: 'over-abstraction' | 'error-handling' | 'security' | 'consistency' | 'performance';
-  severity: 'error' | 'warning' | 'info';
-  check: (node: t.Node, context: LintContext) => AILintIssue | null;
+  severity: LintSeverity;
+  // Settings the rule reads from `options`; lint.yml can override them per rule and per path
+  defaultOptions?: Record<string, unknown>;
+  // Where a plugin rule was loaded from; built-in rules have none
+  source?: string;
+  check: (node: t.Node, context: LintContext, options: Record<string, unknown>) => AILintIssue | null;
 }
 
 export interface AILintIssue {
@@ -20,8 +31,10 @@ export interface AILintIssue {
   message: string;
   line: number;
   column: number;
-  severity: 'error' | 'warning' | 'info';
+  severity: LintSeverity;
   suggestion?: string;
+  // Edits that resolve the issue, applied together by `lint:ai --fix`
+  fix?: AILintEdit[];
 }
 
 export interface LintContext {
@@ -32,33 +45,93 @@ export interface LintContext {
   existingClasses: Set<string>;
 }
 
+export interface AILintFixResult {
+  source: string;
+  output: string;
+  fixed: AILintIssue[];
+  // Issues still in the output, including fixable ones that could not be applied
+  remaining: AILintIssue[];
+  // Set when a pass of fixes produced code that no longer parsed; that pass was dropped
+  error?: string;
+}
+
+// Fixes can uncover or unblock others (overlapping edits wait a pass), so fixing repeats up to this many times
+const MAX_FIX_PASSES = 10;
+
+const BABEL_OPTIONS = {
+  sourceType: 'module' as const,
+  plugins: ['typescript' as const, 'jsx' as const]
+};
+
 export class AILinter {
   private rules: AILintRule[];
+  private config: LintConfig;
+  private projectRoot: string;
+
+  constructor(config: LintConfig = {}, projectRoot: string = getSherpaRoot(), pluginRules: AILintRule[] = []) {
+    this.rules = [...this.getDefaultRules(), ...pluginRules];
+    this.config = config;
+    this.projectRoot = projectRoot;
+  }
 
-  constructor() {
-    this.rules = this.getDefaultRules();
+  getRules(): AILintRule[] {
+    return this.rules;
+  }
+
+  /**
+   * Rule ids named in the lint config that no rule has, usually typos.
+   */
+  getUnknownRules(): string[] {
+    return findUnknownRules(this.config, [...this.rules, ...SUPPRESSION_RULES].map(rule => rule.id));
+  }
+
+  /**
+   * The enabled rules for a file, with severity and options after lint.yml and any
+   * overrides whose globs match the file.
+   */
+  getRuleSettings(filePath: string): { rule: AILintRule; settings: ResolvedRuleSettings }[] {
+    const settings = this.resolveSettings(filePath);
+
+    return this.rules
+      .map(rule => ({ rule, settings: settings.get(rule.id) as ResolvedRuleSettings }))
+      .filter(({ settings }) => settings.enabled);
+  }
+
+  private resolveSettings(filePath: string): Map<string, ResolvedRuleSettings> {
+    const relativePath = path.relative(this.projectRoot, path.resolve(filePath));
+    return resolveRuleSettings([...this.rules, ...SUPPRESSION_RULES], this.config, relativePath);
   }
 
   async lintFile(filePath: string): Promise<AILintIssue[]> {
-    const issues: AILintIssue[] = [];
-    
     if (!await fileExists(filePath)) {
-      return issues;
+      return [];
     }
 
-    const sourceCode = await fs.readFile(filePath, 'utf-8');
     const ext = path.extname(filePath);
     
     // Only lint JavaScript/TypeScript files
     if (!['.js', '.jsx', '.ts', '.tsx'].includes(ext)) {
+      return [];
+    }
+
+    return this.lintSource(filePath, await fs.readFile(filePath, 'utf-8'));
+  }
+
+  /**
+   * Lints source text as if it were the content of filePath, which decides the lint.yml
+   * overrides that apply.
+   */
+  lintSource(filePath: string, sourceCode: string): AILintIssue[] {
+    let issues: AILintIssue[] = [];
+
+    const settings = this.resolveSettings(filePath);
+    const activeRules = this.getRuleSettings(filePath);
+    if (activeRules.length === 0) {
       return issues;
     }
 
     try {
-      const ast = parse(sourceCode, {
-        sourceType: 'module',
-        plugins: ['typescript', 'jsx']
-      });
+      const ast = parse(sourceCode, BABEL_OPTIONS);
 
       const context: LintContext = {
         filename: filePath,
@@ -83,13 +156,25 @@ export class AILinter {
       });
 
       // Second pass: apply lint rules
+      const failedRules = new Set<string>();
       traverse(ast, {
         enter: (nodePath) => {
-          for (const rule of this.rules) {
-            const issue = rule.check(nodePath.node, context);
+          for (const { rule, settings: ruleSettings } of activeRules) {
+            if (failedRules.has(rule.id)) continue;
+
+            let issue: AILintIssue | null;
+            try {
+              issue = rule.check(nodePath.node, context, ruleSettings.options);
+            } catch (error) {
+              // A broken plugin rule shouldn't take the other rules down with it
+              console.warn(`Rule ${rule.id} failed on ${filePath}: ${error}`);
+              failedRules.add(rule.id);
+              continue;
+            }
             if (issue && nodePath.node.loc) {
               issues.push({
                 ...issue,
+                severity: ruleSettings.severity,
                 line: nodePath.node.loc.start.line,
                 column: nodePath.node.loc.start.column
               });
@@ -98,6 +183,11 @@ export class AILinter {
         }
       });
 
+      // Suppressions are applied once every rule has run, so ones that matched nothing can be reported
+      const { suppressions, problems } = parseSuppressions(ast.comments || [], sourceCode.split('\n').length);
+      issues = applySuppressions(issues, suppressions);
+      issues.push(...this.toSuppressionIssues([...problems, ...findUnusedSuppressions(suppressions)], settings));
+
     } catch (error) {
       console.warn(`Could not parse ${filePath}: ${error}`);
     }
@@ -105,10 +195,57 @@ export class AILinter {
     return issues;
   }
 
+  /**
+   * Applies the fixes rules offer for a file, re-linting after each pass so fixes that
+   * overlapped can go in next time. Each pass is parsed again before it is accepted, and
+   * one that no longer parses is dropped along with any later ones. Writing the output is
+   * up to the caller; `shouldFix` limits which issues get fixed.
+   */
+  async fixFile(filePath: string, shouldFix: (issue: AILintIssue) => boolean = () => true): Promise<AILintFixResult> {
+    const source = await fs.readFile(filePath, 'utf-8');
+    let output = source;
+    let remaining = this.lintSource(filePath, output);
+    const fixed: AILintIssue[] = [];
+    let error: string | undefined;
+
+    for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+      const { output: next, applied } = applyFixes(output, remaining.filter(shouldFix));
+      if (applied.length === 0) break;
+
+      try {
+        parse(next, BABEL_OPTIONS);
+      } catch (parseError) {
+        error = `fixes produced code that does not parse (${parseError instanceof Error ? parseError.message : parseError})`;
+        break;
+      }
+
+      fixed.push(...applied);
+      output = next;
+      remaining = this.lintSource(filePath, output);
+    }
+
+    return { source, output, fixed, remaining, ...(error ? { error } : {}) };
+  }
+
+  private toSuppressionIssues(problems: SuppressionProblem[], settings: Map<string, ResolvedRuleSettings>): AILintIssue[] {
+    return problems.flatMap(problem => {
+      const problemSettings = settings.get(problem.ruleId);
+      if (!problemSettings?.enabled) {
+        return [];
+      }
+      return [{
+        ...problem,
+        severity: problemSettings.severity,
+        suggestion: problem.ruleId === 'suppression-reason'
+          ? 'Say why the finding is accepted, e.g. // sherpa-disable-next-line avoid-any-type -- untyped library callback'
+          : 'Remove the comment'
+      }];
+    });
+  }
+
   async lintProject(): Promise<Record<string, AILintIssue[]>> {
     const results: Record<string, AILintIssue[]> = {};
-    const projectRoot = getSherpaRoot();
-    const files = await this.getSourceFiles(projectRoot);
+    const files = await this.getSourceFiles(this.projectRoot);
 
     for (const file of files) {
       const issues = await this.lintFile(file);
@@ -128,13 +265,15 @@ export class AILinter {
         description: 'Avoid creating interfaces that are only used once',
         category: 'over-abstraction',
         severity: 'warning',
-        check: (node, context) => {
+        defaultOptions: { maxFields: 10, suffixes: ['Props', 'State'] },
+        check: (node, context, options) => {
           if (t.isTSInterfaceDeclaration(node) && node.id.name) {
             // Simple heuristic: if interface name suggests it's for a single component
             const interfaceName = node.id.name;
-            if (interfaceName.endsWith('Props') || interfaceName.endsWith('State')) {
+            const suffixes = Array.isArray(options.suffixes) ? options.suffixes.map(String) : [];
+            if (suffixes.some(suffix => interfaceName.endsWith(suffix))) {
               // Check if it's overly complex for a single-use interface
-              if (node.body.body.length > 10) {
+              if (node.body.body.length > Number(options.maxFields)) {
                 return {
                   ruleId: 'no-single-use-interface',
                   message: `Interface '${interfaceName}' is complex and may be over-abstraction. Consider using inline types or breaking it down.`,
@@ -187,7 +326,8 @@ export class AILinter {
               line: 0,
               column: 0,
               severity: 'warning',
-              suggestion: 'Define specific types or use unknown if needed'
+              suggestion: 'Define specific types or use unknown if needed',
+              ...(node.start != null && node.end != null ? { fix: [{ range: [node.start, node.end], text: 'unknown' }] } : {})
             };
           }
           return null;
@@ -254,17 +394,22 @@ export class AILinter {
             
             const methodName = node.callee.property.name;
             if (['map', 'filter', 'reduce'].includes(methodName)) {
-              // Check if this is chained with another array operation
-              if (t.isMemberExpression(node.callee.object) && 
-                  t.isCallExpression(node.callee.object)) {
+              // Check if this is chained onto another map or filter
+              const inner = node.callee.object;
+              if (t.isCallExpression(inner) &&
+                  t.isMemberExpression(inner.callee) &&
+                  t.isIdentifier(inner.callee.property) &&
+                  ['map', 'filter'].includes(inner.callee.property.name)) {
                 
+                const fix = this.mergeArrayCallbacks(inner, node, context.sourceCode);
                 return {
                   ruleId: 'inefficient-array-ops',
                   message: 'Consider combining array operations to avoid multiple iterations.',
                   line: 0,
                   column: 0,
                   severity: 'info',
-                  suggestion: 'Combine multiple array operations or use a single loop'
+                  suggestion: 'Combine multiple array operations or use a single loop',
+                  ...(fix ? { fix } : {})
                 };
               }
             }
@@ -286,30 +431,88 @@ export class AILinter {
     return false;
   }
 
-  private async getSourceFiles(projectRoot: string): Promise<string[]> {
-    const files: string[] = [];
-    const extensions = ['.ts', '.tsx', '.js', '.jsx'];
-    
-    async function walkDir(dir: string) {
-      try {
-        const entries = await fs.readdir(dir, { withFileTypes: true });
-        for (const entry of entries) {
-          const fullPath = path.join(dir, entry.name);
-          
-          if (entry.isDirectory() && !entry.name.startsWith('.') && 
-              entry.name !== 'node_modules' && entry.name !== 'dist') {
-            await walkDir(fullPath);
-          } else if (entry.isFile() && extensions.some(ext => entry.name.endsWith(ext))) {
-            files.push(fullPath);
-          }
-        }
-      } catch (error) {
-        // Skip directories we can't read
+  /**
+   * Builds the edit merging `.map(f).map(g)` or `.filter(p).filter(q)` into one call.
+   * Only single-parameter arrow functions with expression bodies are merged, and only
+   * when renaming can't change what a name refers to; anything else gets no fix.
+   */
+  private mergeArrayCallbacks(inner: t.CallExpression, outer: t.CallExpression, sourceCode: string): AILintEdit[] | undefined {
+    const innerCallee = inner.callee as t.MemberExpression;
+    const outerCallee = outer.callee as t.MemberExpression;
+    const method = (outerCallee.property as t.Identifier).name;
+    if ((innerCallee.property as t.Identifier).name !== method || method === 'reduce'
+      || innerCallee.computed || outerCallee.computed || inner.typeParameters || outer.typeParameters) {
+      return undefined;
+    }
+
+    const first = this.simpleCallback(inner);
+    const second = this.simpleCallback(outer);
+    const start = innerCallee.property.start;
+    if (!first || !second || start == null || outer.end == null || inner.end == null || outerCallee.property.start == null) {
+      return undefined;
+    }
+    // Anything but whitespace between the calls (comments, say) would be lost
+    if (!/^\s*\.\s*$/.test(sourceCode.slice(inner.end, outerCallee.property.start))) {
+      return undefined;
+    }
+
+    const text = (node: t.Node) => sourceCode.slice(node.start as number, node.end as number);
+    let merged: string;
+    if (method === 'filter') {
+      // Both callbacks must call the element the same thing for the conditions to be joined
+      if (first.param !== second.param) return undefined;
+      const operand = (expression: t.Expression) =>
+        t.isLogicalExpression(expression) && expression.operator !== '&&'
+        || t.isConditionalExpression(expression) || t.isAssignmentExpression(expression)
+        || t.isSequenceExpression(expression) || t.isArrowFunctionExpression(expression) || t.isYieldExpression(expression)
+          ? `(${text(expression)})`
+          : text(expression);
+      merged = `(${text(first.node)}) => ${operand(first.body)} && ${operand(second.body)}`;
+    } else {
+      // The second callback's parameter becomes a local holding the first result
+      if (first.param === second.param
+        || this.referencesName(first.body, second.param) || this.referencesName(second.body, first.param)) {
+        return undefined;
       }
+      const value = (expression: t.Expression) => t.isSequenceExpression(expression) ? `(${text(expression)})` : text(expression);
+      merged = `(${text(first.node)}) => { const ${text(second.node)} = ${value(first.body)}; return ${value(second.body)}; }`;
+    }
+
+    return [{ range: [start, outer.end], text: `${method}(${merged})` }];
+  }
+
+  private simpleCallback(call: t.CallExpression): { param: string; node: t.Identifier; body: t.Expression } | undefined {
+    const [callback, ...rest] = call.arguments;
+    if (rest.length > 0 || !t.isArrowFunctionExpression(callback) || callback.async || callback.params.length !== 1) {
+      return undefined;
     }
+    // A return type (such as a type guard narrowing the filtered array) or type parameters would be lost when merging
+    if (callback.returnType || callback.typeParameters) {
+      return undefined;
+    }
+    const [param] = callback.params;
+    if (!t.isIdentifier(param) || t.isBlockStatement(callback.body)) {
+      return undefined;
+    }
+    // The node keeps any type annotation, which carries over to the merged callback
+    return { param: param.name, node: param, body: callback.body };
+  }
 
-    await walkDir(projectRoot);
-    return files;
+  private referencesName(node: t.Node, name: string): boolean {
+    let found = false;
+    t.traverse(node, (child, ancestors) => {
+      const parent = ancestors[ancestors.length - 1]?.node;
+      const grandparent = ancestors[ancestors.length - 2]?.node;
+      // Property names like the `price` in `item.price` aren't references to a variable
+      if (t.isIdentifier(child) && child.name === name && (!parent || t.isReferenced(child, parent, grandparent))) {
+        found = true;
+      }
+    });
+    return found;
+  }
+
+  private async getSourceFiles(projectRoot: string): Promise<string[]> {
+    return walkProjectFiles(projectRoot, { extensions: ['.ts', '.tsx', '.js', '.jsx'] });
   }
 
   formatResults(results: Record<string, AILintIssue[]>): string {
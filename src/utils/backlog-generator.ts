@@ -0,0 +1,161 @@
+import { generateTicketId, generateEpicId, generateStoryId, contentHash } from './ids.js';
+import { BacklogItems } from './backlog.js';
+import { ParsedSpec } from './specs.js';
+import { Ticket, Epic, Story } from '../types/index.js';
+
+const MAX_KEY_LENGTH = 48;
+
+/**
+ * Builds the epic, stories and tickets gen:backlog produces for one spec. Items carry a
+ * `source` key so a later run can be merged into the existing backlog.
+ */
+export function generateBacklogFromSpec(spec: ParsedSpec, specFile: string): BacklogItems {
+  const epic = generateEpicFromSpec(spec, specFile);
+  const stories = generateStoriesFromSpec(spec, epic);
+  const tickets: Ticket[] = [];
+
+  for (const story of stories) {
+    tickets.push(...generateTicketsFromStory(spec, story));
+    epic.tickets.push(...story.tickets);
+  }
+
+  return { epics: [epic], stories, tickets };
+}
+
+function generateEpicFromSpec(spec: ParsedSpec, specFile: string): Epic {
+  return {
+    epic_id: generateEpicId(),
+    title: spec.title,
+    description: spec.overview,
+    tickets: [], // Populated as tickets are generated
+    source: { spec: specFile, key: specFile.replace(/\.md$/, '') }
+  };
+}
+
+function generateStoriesFromSpec(spec: ParsedSpec, epic: Epic): Story[] {
+  const stories: Story[] = [];
+  
+  // Generate stories from user stories if available
+  const usedKeys = new Set<string>();
+  if (spec.userStories.length > 0) {
+    spec.userStories.forEach((userStory, index) => {
+      stories.push({
+        story_id: generateStoryId(),
+        title: `User Story ${index + 1}`,
+        description: userStory,
+        epic_id: epic.epic_id,
+        tickets: [],
+        source: storySource(epic, userStory, usedKeys)
+      });
+    });
+  } else {
+    // Generate default stories based on spec type
+    const defaultStories = getDefaultStoriesForType(spec.type);
+    defaultStories.forEach(storyTemplate => {
+      stories.push({
+        story_id: generateStoryId(),
+        title: storyTemplate.title,
+        description: storyTemplate.description.replace('{title}', spec.title),
+        epic_id: epic.epic_id,
+        tickets: [],
+        source: storySource(epic, storyTemplate.title, usedKeys)
+      });
+    });
+  }
+  
+  return stories;
+}
+
+// Keys come from the story text rather than its position, so inserting or reordering
+// stories in a spec leaves the others matched to their existing items
+function storySource(epic: Epic, text: string, usedKeys: Set<string>): Story['source'] {
+  return { spec: epic.source?.spec || '', key: `${epic.source?.key}/${uniqueKey(textKey(text), usedKeys)}` };
+}
+
+function getDefaultStoriesForType(type: string): { title: string, description: string }[] {
+  switch (type) {
+    case 'api':
+      return [
+        { title: 'API Design & Documentation', description: 'Design and document the API endpoints for {title}' },
+        { title: 'API Implementation', description: 'Implement the backend API for {title}' },
+        { title: 'API Testing & Validation', description: 'Test and validate the API implementation for {title}' }
+      ];
+    case 'improvement':
+      return [
+        { title: 'Analysis & Planning', description: 'Analyze current state and plan improvements for {title}' },
+        { title: 'Implementation', description: 'Implement the improvements for {title}' },
+        { title: 'Migration & Testing', description: 'Handle migration and test the improvements for {title}' }
+      ];
+    default:
+      return [
+        { title: 'Core Implementation', description: 'Implement the core functionality for {title}' },
+        { title: 'UI/UX Implementation', description: 'Implement the user interface for {title}' },
+        { title: 'Testing & Polish', description: 'Test, polish and finalize {title}' }
+      ];
+  }
+}
+
+function generateTicketsFromStory(spec: ParsedSpec, story: Story): Ticket[] {
+  const tickets: Ticket[] = [];
+  const ticketsPerStory = Math.ceil(spec.effort / 3); // Distribute effort across stories
+  const hoursPerTicket = Math.min(8, Math.ceil(spec.effort / ticketsPerStory));
+  const usedKeys = new Set<string>();
+  
+  for (let i = 0; i < ticketsPerStory; i++) {
+    const ticketId = generateTicketId();
+    const criteria = spec.acceptanceCriteria.slice(i, i + 2);
+    const ticket: Ticket = {
+      ticket_id: ticketId,
+      title: `${story.title} - Part ${i + 1}`,
+      outcome: `Complete implementation of ${story.title.toLowerCase()}`,
+      scope_in: [`Implementation of ${story.title}`],
+      scope_out: ['Performance optimization', 'Advanced error handling'],
+      acceptance_criteria: spec.acceptanceCriteria.length > 0 
+        ? criteria
+        : [`Given the requirements, when implementing ${story.title}, then the functionality should work as specified`],
+      apidiff: spec.apiChanges,
+      dbdiff: spec.dbChanges,
+      ui_components: spec.uiChanges,
+      telemetry: {
+        events: [`${story.title.toLowerCase().replace(/\s+/g, '_')}_completed`],
+        alerts: [`${story.title.toLowerCase().replace(/\s+/g, '_')}_failed`]
+      },
+      test_plan: {
+        unit: spec.testingStrategy.filter(t => t.toLowerCase().includes('unit')),
+        e2e: spec.testingStrategy.filter(t => t.toLowerCase().includes('e2e') || t.toLowerCase().includes('integration'))
+      },
+      timebox_hours: hoursPerTicket,
+      owner: 'unassigned',
+      created_at: new Date().toISOString(),
+      status: 'todo',
+      status_history: [],
+      source: { spec: story.source?.spec || '', key: `${story.source?.key}/${uniqueKey(ticketKey(criteria, i), usedKeys)}` }
+    };
+    
+    tickets.push(ticket);
+    story.tickets.push(ticketId);
+  }
+  
+  return tickets;
+}
+
+// A ticket is keyed by the first criterion it covers; without one, the part number
+// within its story is all that tells the tickets apart
+function ticketKey(criteria: string[], index: number): string {
+  const first = criteria[0];
+  return first ? textKey(first) : `part-${index + 1}`;
+}
+
+function textKey(text: string): string {
+  const slug = text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return slug.substring(0, MAX_KEY_LENGTH).replace(/-+$/, '') || contentHash(text);
+}
+
+function uniqueKey(key: string, usedKeys: Set<string>): string {
+  let unique = key;
+  for (let n = 2; usedKeys.has(unique); n++) {
+    unique = `${key}-${n}`;
+  }
+  usedKeys.add(unique);
+  return unique;
+}
\ No newline at end of file
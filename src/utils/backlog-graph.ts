@@ -0,0 +1,335 @@
+import { BacklogItems, BacklogItemKind, getTicketStatus } from './backlog.js';
+import { TicketStatus } from '../types/index.js';
+
+export interface GraphNode {
+  id: string;
+  kind: BacklogItemKind;
+  title: string;
+  hours: number;
+  status?: TicketStatus;
+  dependsOn: string[];
+  children: string[];
+  parents: string[];
+}
+
+export interface DependencyIssue {
+  id: string;
+  message: string;
+  cycle?: string[];
+}
+
+export interface DependencyGraph {
+  nodes: Map<string, GraphNode>;
+  issues: DependencyIssue[];
+}
+
+export interface CriticalPath {
+  path: GraphNode[];
+  hours: number;
+}
+
+export type GraphFormat = 'tree' | 'mermaid' | 'dot';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['tree', 'mermaid', 'dot'];
+
+/**
+ * Builds one graph over every epic, story and ticket. `blocks` is stored as the inverse
+ * `depends_on` edge, and containment (story -> tickets, epic -> stories) counts as a
+ * dependency too: a story is finished when its tickets are.
+ */
+export function buildDependencyGraph(items: BacklogItems): DependencyGraph {
+  const nodes = new Map<string, GraphNode>();
+  const issues: DependencyIssue[] = [];
+  const declared: Array<{ id: string; depends_on?: string[]; blocks?: string[] }> = [];
+
+  const addNode = (node: Omit<GraphNode, 'dependsOn' | 'parents'>) => {
+    if (nodes.has(node.id)) {
+      issues.push({ id: node.id, message: `Duplicate backlog ID ${node.id}` });
+      return;
+    }
+    nodes.set(node.id, { ...node, dependsOn: [], parents: [] });
+  };
+
+  for (const epic of items.epics) {
+    addNode({ id: epic.epic_id, kind: 'epic', title: epic.title, hours: 0, children: [...(epic.tickets || [])] });
+    declared.push({ id: epic.epic_id, depends_on: epic.depends_on, blocks: epic.blocks });
+  }
+  for (const story of items.stories) {
+    addNode({ id: story.story_id, kind: 'story', title: story.title, hours: 0, children: [...(story.tickets || [])] });
+    declared.push({ id: story.story_id, depends_on: story.depends_on, blocks: story.blocks });
+  }
+  for (const ticket of items.tickets) {
+    addNode({
+      id: ticket.ticket_id,
+      kind: 'ticket',
+      title: ticket.title,
+      hours: Number(ticket.timebox_hours) || 0,
+      status: getTicketStatus(ticket),
+      children: []
+    });
+    declared.push({ id: ticket.ticket_id, depends_on: ticket.depends_on, blocks: ticket.blocks });
+  }
+
+  // Epics list every ticket too; keep only the ones not already reached through a story
+  for (const epic of items.epics) {
+    const node = nodes.get(epic.epic_id);
+    if (!node || node.kind !== 'epic') continue;
+
+    const stories = items.stories.filter(story => story.epic_id === epic.epic_id);
+    const storyTickets = new Set(stories.flatMap(story => story.tickets || []));
+    node.children = [
+      ...stories.map(story => story.story_id),
+      ...node.children.filter(id => !storyTickets.has(id))
+    ];
+  }
+
+  for (const node of nodes.values()) {
+    node.children = node.children.filter(childId => {
+      const child = nodes.get(childId);
+      if (!child) {
+        issues.push({ id: node.id, message: `${node.id} lists unknown ticket ${childId}` });
+        return false;
+      }
+      if (!child.parents.includes(node.id)) {
+        child.parents.push(node.id);
+      }
+      return true;
+    });
+  }
+
+  const addDependency = (id: string, dependencyId: string) => {
+    const node = nodes.get(id);
+    if (node && !node.dependsOn.includes(dependencyId)) {
+      node.dependsOn.push(dependencyId);
+    }
+  };
+
+  for (const { id, depends_on = [], blocks = [] } of declared) {
+    for (const dependencyId of depends_on) {
+      if (dependencyId === id) {
+        issues.push({ id, message: `${id} depends on itself` });
+      } else if (!nodes.has(dependencyId)) {
+        issues.push({ id, message: `${id} depends on unknown item ${dependencyId}` });
+      } else {
+        addDependency(id, dependencyId);
+      }
+    }
+    for (const blockedId of blocks) {
+      if (blockedId === id) {
+        issues.push({ id, message: `${id} blocks itself` });
+      } else if (!nodes.has(blockedId)) {
+        issues.push({ id, message: `${id} blocks unknown item ${blockedId}` });
+      } else {
+        addDependency(blockedId, id);
+      }
+    }
+  }
+
+  const graph: DependencyGraph = { nodes, issues };
+  for (const cycle of findCycles(graph)) {
+    issues.push({ id: cycle[0] || '', message: `Dependency cycle: ${cycle.join(' → ')}`, cycle });
+  }
+
+  return graph;
+}
+
+/**
+ * Everything that has to be finished before `id` can be: its own dependencies, its
+ * children and, unless `inherited` is false, the dependencies of every parent.
+ */
+export function getPrerequisites(graph: DependencyGraph, id: string, inherited = true): string[] {
+  const node = graph.nodes.get(id);
+  if (!node) return [];
+
+  const prerequisites = new Set([...node.dependsOn, ...node.children]);
+  if (inherited) {
+    ancestorsOf(graph, id).forEach(ancestorId => {
+      graph.nodes.get(ancestorId)?.dependsOn.forEach(dependencyId => prerequisites.add(dependencyId));
+    });
+  }
+
+  prerequisites.delete(id);
+  return Array.from(prerequisites);
+}
+
+export function findCycles(graph: DependencyGraph): string[][] {
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    stack.push(id);
+
+    for (const next of getPrerequisites(graph, id)) {
+      if (state.get(next) === 'visiting') {
+        const cycle = stack.slice(stack.indexOf(next));
+        // Rotate so the same cycle found from another entry point is reported once
+        const start = cycle.indexOf([...cycle].sort()[0] || '');
+        const rotated = [...cycle.slice(start), ...cycle.slice(0, start)];
+        const key = rotated.join('>');
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push([...rotated, rotated[0] || '']);
+        }
+      } else if (!state.has(next)) {
+        visit(next);
+      }
+    }
+
+    stack.pop();
+    state.set(id, 'done');
+  };
+
+  for (const id of graph.nodes.keys()) {
+    if (!state.has(id)) {
+      visit(id);
+    }
+  }
+
+  return cycles;
+}
+
+export function isItemDone(graph: DependencyGraph, id: string, visiting = new Set<string>()): boolean {
+  const node = graph.nodes.get(id);
+  if (!node) return false;
+  if (node.kind === 'ticket') return node.status === 'done';
+  if (visiting.has(id)) return false;
+
+  visiting.add(id);
+  return node.children.every(childId => isItemDone(graph, childId, visiting));
+}
+
+/**
+ * Direct dependencies (including those inherited from the ticket's story and epic)
+ * that are not finished yet. An empty list means the ticket can be picked up.
+ */
+export function getUnfinishedDependencies(graph: DependencyGraph, ticketId: string): GraphNode[] {
+  return getPrerequisites(graph, ticketId)
+    .filter(id => !isItemDone(graph, id))
+    .map(id => graph.nodes.get(id))
+    .filter((node): node is GraphNode => Boolean(node));
+}
+
+/**
+ * Longest chain of tickets by `timebox_hours`. Returns null while the graph has cycles,
+ * since there is no well-defined ordering to measure.
+ */
+export function computeCriticalPath(graph: DependencyGraph): CriticalPath | null {
+  if (graph.issues.some(issue => issue.cycle)) {
+    return null;
+  }
+
+  const finish = new Map<string, number>();
+  const previous = new Map<string, string | undefined>();
+
+  const finishTime = (id: string): number => {
+    const cached = finish.get(id);
+    if (cached !== undefined) return cached;
+
+    let longest = 0;
+    let via: string | undefined;
+    for (const prerequisite of getPrerequisites(graph, id)) {
+      const time = finishTime(prerequisite);
+      if (time > longest) {
+        longest = time;
+        via = prerequisite;
+      }
+    }
+
+    const total = longest + (graph.nodes.get(id)?.hours || 0);
+    finish.set(id, total);
+    previous.set(id, via);
+    return total;
+  };
+
+  let end: string | undefined;
+  let hours = 0;
+  for (const id of graph.nodes.keys()) {
+    const time = finishTime(id);
+    if (time > hours) {
+      hours = time;
+      end = id;
+    }
+  }
+
+  const path: GraphNode[] = [];
+  for (let id = end; id; id = previous.get(id)) {
+    const node = graph.nodes.get(id);
+    if (node && node.kind === 'ticket') {
+      path.unshift(node);
+    }
+  }
+
+  return { path, hours };
+}
+
+export function toMermaid(graph: DependencyGraph, criticalPath?: CriticalPath | null): string {
+  const lines = ['graph TD'];
+  const nodeId = (id: string) => id.replace(/[^A-Za-z0-9_]/g, '_');
+
+  for (const node of graph.nodes.values()) {
+    lines.push(`  ${nodeId(node.id)}["${escapeLabel(nodeLabel(node)).replace(/"/g, '#quot;')}"]`);
+  }
+  for (const node of graph.nodes.values()) {
+    node.dependsOn.forEach(dependencyId => lines.push(`  ${nodeId(dependencyId)} --> ${nodeId(node.id)}`));
+    node.children.forEach(childId => lines.push(`  ${nodeId(childId)} -.-> ${nodeId(node.id)}`));
+  }
+
+  const done = Array.from(graph.nodes.values()).filter(node => node.status === 'done');
+  if (done.length > 0) {
+    lines.push('  classDef done fill:#d4f7d4,stroke:#2e7d32');
+    lines.push(`  class ${done.map(node => nodeId(node.id)).join(',')} done`);
+  }
+  if (criticalPath && criticalPath.path.length > 0) {
+    lines.push('  classDef critical stroke:#d32f2f,stroke-width:3px');
+    lines.push(`  class ${criticalPath.path.map(node => nodeId(node.id)).join(',')} critical`);
+  }
+
+  return lines.join('\n');
+}
+
+export function toDot(graph: DependencyGraph, criticalPath?: CriticalPath | null): string {
+  const critical = new Set((criticalPath?.path || []).map(node => node.id));
+  const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const shapes: Record<BacklogItemKind, string> = { epic: 'folder', story: 'note', ticket: 'box' };
+  const lines = ['digraph backlog {', '  rankdir=LR;'];
+
+  for (const node of graph.nodes.values()) {
+    const attributes = [`label=${quote(nodeLabel(node))}`, `shape=${shapes[node.kind]}`];
+    if (node.status === 'done') attributes.push('style=filled', 'fillcolor="#d4f7d4"');
+    if (critical.has(node.id)) attributes.push('color="#d32f2f"', 'penwidth=2');
+    lines.push(`  ${quote(node.id)} [${attributes.join(', ')}];`);
+  }
+  for (const node of graph.nodes.values()) {
+    node.dependsOn.forEach(dependencyId => lines.push(`  ${quote(dependencyId)} -> ${quote(node.id)};`));
+    node.children.forEach(childId => lines.push(`  ${quote(childId)} -> ${quote(node.id)} [style=dashed];`));
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function ancestorsOf(graph: DependencyGraph, id: string): string[] {
+  const ancestors = new Set<string>();
+  const queue = [...(graph.nodes.get(id)?.parents || [])];
+
+  while (queue.length > 0) {
+    const parentId = queue.shift() as string;
+    if (ancestors.has(parentId) || parentId === id) continue;
+    ancestors.add(parentId);
+    queue.push(...(graph.nodes.get(parentId)?.parents || []));
+  }
+
+  return Array.from(ancestors);
+}
+
+function nodeLabel(node: GraphNode): string {
+  const hours = node.kind === 'ticket' ? ` (${node.hours}h)` : '';
+  return `${node.id}: ${node.title}${hours}`;
+}
+
+function escapeLabel(label: string): string {
+  return label.replace(/[\[\]]/g, '');
+}
\ No newline at end of file
@@ -0,0 +1,356 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { getSherpaDir, readYaml, writeYaml, fileExists } from './fs.js';
+import { contentHash } from './ids.js';
+import { Ticket, TicketStatus, TicketTransition, Epic, Story } from '../types/index.js';
+
+export interface BacklogItems {
+  epics: Epic[];
+  stories: Story[];
+  tickets: Ticket[];
+}
+
+export type BacklogItemKind = 'epic' | 'story' | 'ticket';
+
+export interface MergeEntry {
+  kind: BacklogItemKind;
+  id: string;
+  title: string;
+  keptFields?: string[];
+}
+
+export interface MergeReport {
+  added: MergeEntry[];
+  updated: MergeEntry[];
+  unchanged: MergeEntry[];
+  orphaned: MergeEntry[];
+}
+
+type BacklogItem = Epic | Story | Ticket;
+
+// Generated fields are read and written by name, so merging works on a plain record view of an item
+type ItemFields = Record<string, unknown>;
+
+export interface MergeOptions {
+  force?: boolean;
+  dryRun?: boolean;
+}
+
+// Fields that regeneration owns. Everything else (status, owner, extra keys) belongs to the user.
+const ITEM_KINDS: Record<BacklogItemKind, { dir: keyof BacklogItems; idField: 'epic_id' | 'story_id' | 'ticket_id'; mergedFields: string[] }> = {
+  epic: { dir: 'epics', idField: 'epic_id', mergedFields: ['title', 'description'] },
+  story: { dir: 'stories', idField: 'story_id', mergedFields: ['title', 'description'] },
+  ticket: {
+    dir: 'tickets',
+    idField: 'ticket_id',
+    mergedFields: ['title', 'outcome', 'scope_in', 'scope_out', 'acceptance_criteria', 'apidiff', 'dbdiff', 'ui_components', 'telemetry', 'test_plan', 'timebox_hours']
+  }
+};
+
+const KIND_ORDER: BacklogItemKind[] = ['epic', 'story', 'ticket'];
+
+export const TICKET_STATUSES: TicketStatus[] = ['todo', 'in_progress', 'in_review', 'done', 'blocked'];
+
+const ALLOWED_TRANSITIONS: Record<TicketStatus, TicketStatus[]> = {
+  todo: ['in_progress', 'done', 'blocked'],
+  in_progress: ['todo', 'in_review', 'done', 'blocked'],
+  in_review: ['in_progress', 'done', 'blocked'],
+  blocked: ['todo', 'in_progress'],
+  done: ['in_progress'] // Reopening a ticket sends it back to work
+};
+
+const STATUS_ICONS: Record<TicketStatus, string> = {
+  todo: '⭕',
+  in_progress: '🚧',
+  in_review: '👀',
+  done: '✅',
+  blocked: '🚫'
+};
+
+export function getStatusIcon(status: TicketStatus): string {
+  return STATUS_ICONS[status];
+}
+
+export function getTicketStatus(ticket: Ticket): TicketStatus {
+  return ticket.status || 'todo';
+}
+
+export function canTransition(from: TicketStatus, to: TicketStatus): boolean {
+  return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+export class BacklogManager {
+  private backlogDir: string;
+  private ticketsDir: string;
+
+  constructor() {
+    this.backlogDir = path.join(getSherpaDir(), 'backlog');
+    this.ticketsDir = path.join(this.backlogDir, 'tickets');
+  }
+
+  async listTickets(): Promise<Ticket[]> {
+    if (!await fileExists(this.ticketsDir)) {
+      return [];
+    }
+
+    const files = await fs.readdir(this.ticketsDir);
+    const tickets: Ticket[] = [];
+
+    for (const file of files.filter(f => f.endsWith('.yml')).sort()) {
+      try {
+        const ticket = await readYaml<Ticket>(path.join(this.ticketsDir, file));
+        if (ticket && ticket.ticket_id) {
+          tickets.push(ticket);
+        }
+      } catch (error) {
+        // Skip invalid ticket files
+      }
+    }
+
+    return tickets;
+  }
+
+  async getTicket(ticketId: string): Promise<Ticket | null> {
+    const exactPath = this.getTicketPath(ticketId);
+    if (await fileExists(exactPath)) {
+      return await readYaml<Ticket>(exactPath);
+    }
+
+    // Fall back to a unique case-insensitive partial match so short IDs work
+    const needle = ticketId.toLowerCase();
+    const matches = (await this.listTickets()).filter(t => t.ticket_id.toLowerCase().includes(needle));
+    if (matches.length > 1) {
+      throw new Error(`Ticket ID "${ticketId}" is ambiguous: ${matches.map(t => t.ticket_id).join(', ')}`);
+    }
+
+    return matches[0] || null;
+  }
+
+  async saveTicket(ticket: Ticket): Promise<void> {
+    await writeYaml(this.getTicketPath(ticket.ticket_id), ticket);
+  }
+
+  async transitionTicket(ticketId: string, to: TicketStatus, note?: string): Promise<Ticket> {
+    const ticket = await this.getTicket(ticketId);
+    if (!ticket) {
+      throw new Error(`Ticket not found: ${ticketId}`);
+    }
+
+    const from = getTicketStatus(ticket);
+    if (from === to) {
+      throw new Error(`Ticket ${ticket.ticket_id} is already ${to}.`);
+    }
+
+    if (!canTransition(from, to)) {
+      throw new Error(`Cannot move ticket ${ticket.ticket_id} from ${from} to ${to}. Allowed: ${ALLOWED_TRANSITIONS[from].join(', ')}`);
+    }
+
+    const transition: TicketTransition = {
+      from,
+      to,
+      at: new Date().toISOString()
+    };
+    if (note) {
+      transition.note = note;
+    }
+
+    ticket.status = to;
+    ticket.status_history = [...(ticket.status_history || []), transition];
+
+    await this.saveTicket(ticket);
+    return ticket;
+  }
+
+  async loadBacklog(): Promise<BacklogItems> {
+    const items: BacklogItems = { epics: [], stories: [], tickets: [] };
+
+    for (const kind of KIND_ORDER) {
+      const kindDir = path.join(this.backlogDir, ITEM_KINDS[kind].dir);
+      if (!await fileExists(kindDir)) continue;
+
+      const files = await fs.readdir(kindDir);
+      for (const file of files.filter(f => f.endsWith('.yml')).sort()) {
+        try {
+          const item = await readYaml<BacklogItem | null>(path.join(kindDir, file));
+          if (item && itemId(kind, item)) {
+            (itemsOf(items, kind) as BacklogItem[]).push(item);
+          }
+        } catch (error) {
+          // Skip invalid backlog files
+        }
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Merges freshly generated items into the backlog on disk. Items are matched by their
+   * spec-derived `source.key`, so regenerating a spec updates items in place instead of
+   * duplicating them. Fields the user edited since the last generation are kept unless
+   * `force` is set; status and other user-owned fields are never touched.
+   */
+  async mergeGeneratedBacklog(generated: BacklogItems, specFiles: string[], options: MergeOptions = {}): Promise<MergeReport> {
+    const existing = await this.loadBacklog();
+    const report: MergeReport = { added: [], updated: [], unchanged: [], orphaned: [] };
+    const idMap = new Map<string, string>();
+    const matches = new Map<BacklogItem, BacklogItem>();
+    const claimed = new Set<BacklogItem>();
+
+    // Tickets only know their parent through the story's ticket list
+    const ticketStory = new Map<string, string>();
+    generated.stories.forEach(story => story.tickets.forEach(id => ticketStory.set(id, story.story_id)));
+
+    for (const kind of KIND_ORDER) {
+      const byKey = new Map<string, BacklogItem>();
+      itemsOf(existing, kind).forEach(item => {
+        if (item.source?.key) byKey.set(item.source.key, item);
+      });
+
+      for (const item of itemsOf(generated, kind)) {
+        let match = item.source?.key ? byKey.get(item.source.key) : undefined;
+        if (!match) {
+          match = this.findLegacyMatch(kind, item, existing, idMap, ticketStory, claimed);
+        }
+        if (match && !claimed.has(match)) {
+          claimed.add(match);
+          matches.set(item, match);
+          idMap.set(itemId(kind, item), itemId(kind, match));
+        }
+      }
+    }
+
+    const orphanedTickets = new Set<string>();
+    for (const kind of KIND_ORDER) {
+      for (const item of itemsOf(existing, kind)) {
+        if (item.source && specFiles.includes(item.source.spec) && !claimed.has(item)) {
+          report.orphaned.push({ kind, id: itemId(kind, item), title: item.title });
+          if (kind === 'ticket') orphanedTickets.add(itemId(kind, item));
+        }
+      }
+    }
+
+    const remap = (id: string) => idMap.get(id) || id;
+
+    for (const kind of KIND_ORDER) {
+      const { idField, mergedFields } = ITEM_KINDS[kind];
+
+      for (const item of itemsOf(generated, kind)) {
+        const generatedItem: ItemFields = { ...item, [idField]: remap(itemId(kind, item)) };
+        if ('tickets' in item) {
+          generatedItem.tickets = item.tickets.map(remap);
+        }
+        if (kind === 'story') {
+          generatedItem.epic_id = remap((item as Story).epic_id);
+        }
+
+        const hashes: Record<string, string> = {};
+        mergedFields.forEach(field => { hashes[field] = contentHash(generatedItem[field]); });
+        const source = { spec: item.source?.spec, key: item.source?.key, hashes };
+
+        const match = matches.get(item);
+        if (!match) {
+          report.added.push({ kind, id: generatedItem[idField] as string, title: item.title });
+          if (!options.dryRun) {
+            await this.writeItem(kind, { ...generatedItem, source });
+          }
+          continue;
+        }
+
+        const current = match as unknown as ItemFields;
+        const merged: ItemFields = { ...current };
+        const base = match.source?.hashes || {};
+        const keptFields: string[] = [];
+        let changed = false;
+
+        for (const field of mergedFields) {
+          const currentHash = contentHash(current[field]);
+          if (currentHash === hashes[field]) continue;
+
+          // Untouched since the last generation means regeneration still owns the field
+          if (options.force || base[field] === currentHash) {
+            merged[field] = generatedItem[field];
+            changed = true;
+          } else {
+            keptFields.push(field);
+          }
+        }
+
+        if ('tickets' in match) {
+          // Tickets added by hand stay listed; ones the spec no longer produces are dropped
+          const kept = (match.tickets || []).filter(id => !orphanedTickets.has(id));
+          const tickets = Array.from(new Set([...(generatedItem.tickets as string[]), ...kept]));
+          if (contentHash(tickets) !== contentHash(match.tickets)) {
+            merged.tickets = tickets;
+            changed = true;
+          }
+        }
+        if (kind === 'story' && merged.epic_id !== generatedItem.epic_id) {
+          merged.epic_id = generatedItem.epic_id;
+          changed = true;
+        }
+
+        merged.source = source;
+
+        const entry: MergeEntry = { kind, id: itemId(kind, match), title: merged.title as string };
+        if (keptFields.length > 0) {
+          entry.keptFields = keptFields;
+        }
+        (changed ? report.updated : report.unchanged).push(entry);
+
+        if (!options.dryRun && contentHash(merged) !== contentHash(match)) {
+          await this.writeItem(kind, merged);
+        }
+      }
+    }
+
+    return report;
+  }
+
+  // Items generated before spec keys existed are adopted by title within the same parent
+  private findLegacyMatch(
+    kind: BacklogItemKind,
+    item: BacklogItem,
+    existing: BacklogItems,
+    idMap: Map<string, string>,
+    ticketStory: Map<string, string>,
+    claimed: Set<BacklogItem>
+  ): BacklogItem | undefined {
+    const candidates = itemsOf(existing, kind)
+      .filter(candidate => !candidate.source && !claimed.has(candidate) && candidate.title === item.title);
+
+    if (kind === 'epic') {
+      return candidates[0];
+    }
+
+    if (kind === 'story') {
+      const epicId = idMap.get((item as Story).epic_id);
+      return epicId ? candidates.find(candidate => (candidate as Story).epic_id === epicId) : undefined;
+    }
+
+    const storyId = idMap.get(ticketStory.get(itemId(kind, item)) || '');
+    const story = existing.stories.find(s => s.story_id === storyId);
+    return story ? candidates.find(candidate => story.tickets.includes(itemId(kind, candidate))) : undefined;
+  }
+
+  private async writeItem(kind: BacklogItemKind, item: ItemFields): Promise<void> {
+    const { dir, idField } = ITEM_KINDS[kind];
+    await writeYaml(path.join(this.backlogDir, dir, `${item[idField]}.yml`), item);
+  }
+
+  private getTicketPath(ticketId: string): string {
+    // IDs become file names, so one holding a path could read or write outside the tickets directory
+    if (ticketId === '' || /[\\/]/.test(ticketId) || ticketId.includes('..')) {
+      throw new Error(`Invalid ticket ID "${ticketId}": ticket IDs cannot be empty or contain path separators or ".."`);
+    }
+    return path.join(this.ticketsDir, `${ticketId}.yml`);
+  }
+}
+
+function itemsOf(items: BacklogItems, kind: BacklogItemKind): BacklogItem[] {
+  return items[ITEM_KINDS[kind].dir];
+}
+
+function itemId(kind: BacklogItemKind, item: BacklogItem): string {
+  return (item as unknown as ItemFields)[ITEM_KINDS[kind].idField] as string;
+}
\ No newline at end of file
@@ -0,0 +1,280 @@
+import * as path from 'path';
+import * as t from '@babel/types';
+import Fuse from 'fuse.js';
+import { PythonModule } from './python-source.js';
+
+export type SymbolKind = 'function' | 'class' | 'interface' | 'type' | 'enum' | 'variable';
+
+export const SYMBOL_KINDS: SymbolKind[] = ['function', 'class', 'interface', 'type', 'enum', 'variable'];
+
+export interface CodeSymbol {
+  name: string;
+  kind: SymbolKind;
+  file: string;
+  line: number;
+  signature: string;
+}
+
+export interface FileIndex {
+  symbols: Omit<CodeSymbol, 'file'>[];
+  imports: string[];
+}
+
+export interface ModuleNode {
+  imports: string[];
+  importedBy: string[];
+  external: string[];
+}
+
+export interface ImportGraph {
+  modules: Record<string, ModuleNode>;
+}
+
+const MAX_SIGNATURE_LENGTH = 200;
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+
+/**
+ * Reads exported declarations and import specifiers from a parsed TypeScript/JavaScript
+ * module. Only exports are indexed: they are the APIs other code is expected to call.
+ */
+export function indexScriptAst(ast: t.File, source: string): FileIndex {
+  const symbols: FileIndex['symbols'] = [];
+  const imports: string[] = [];
+
+  for (const statement of ast.program.body) {
+    if (t.isImportDeclaration(statement)) {
+      imports.push(statement.source.value);
+    } else if ((t.isExportNamedDeclaration(statement) || t.isExportAllDeclaration(statement)) && statement.source) {
+      imports.push(statement.source.value);
+    }
+
+    if (t.isExportNamedDeclaration(statement) && statement.declaration) {
+      symbols.push(...declarationSymbols(statement.declaration, source));
+    } else if (t.isExportDefaultDeclaration(statement)) {
+      const declaration = statement.declaration;
+      if ((t.isFunctionDeclaration(declaration) || t.isClassDeclaration(declaration)) && declaration.id) {
+        symbols.push(...declarationSymbols(declaration, source));
+      }
+    }
+  }
+
+  return { symbols, imports };
+}
+
+/**
+ * Python has no export keyword; public module-level names (no leading underscore) are
+ * treated as exported, matching `from module import *`.
+ */
+export function indexPythonModule(module: PythonModule): FileIndex {
+  const isPublic = (name: string) => !name.startsWith('_');
+
+  const symbols: FileIndex['symbols'] = [
+    ...module.functions
+      .filter(fn => fn.indent === 0 && isPublic(fn.name))
+      .map(fn => ({ name: fn.name, kind: 'function' as const, line: fn.line, signature: truncate(fn.signature) })),
+    ...module.classes
+      .filter(cls => cls.indent === 0 && isPublic(cls.name))
+      .map(cls => ({ name: cls.name, kind: 'class' as const, line: cls.line, signature: truncate(cls.signature) }))
+  ].sort((a, b) => a.line - b.line);
+
+  // Relative imports keep their leading dots; `from . import x` resolves through the name
+  const imports = module.imports.flatMap(imported =>
+    imported.isFrom && /^\.+$/.test(imported.module)
+      ? imported.names.map(name => `${imported.module}${name}`)
+      : [imported.module]
+  );
+
+  return { symbols, imports };
+}
+
+/**
+ * Resolves each file's import specifiers against the set of project files. Specifiers
+ * that do not resolve to a project file are recorded as external (packages, stdlib).
+ */
+export function buildImportGraph(fileImports: Record<string, string[]>): ImportGraph {
+  const files = new Set(Object.keys(fileImports));
+  const modules: Record<string, ModuleNode> = {};
+
+  for (const file of Object.keys(fileImports).sort()) {
+    modules[file] = { imports: [], importedBy: [], external: [] };
+  }
+
+  for (const [file, specifiers] of Object.entries(fileImports)) {
+    const node = modules[file] as ModuleNode;
+    for (const specifier of specifiers) {
+      const resolved = file.endsWith('.py')
+        ? resolvePythonImport(file, specifier, files)
+        : resolveScriptImport(file, specifier, files);
+
+      if (resolved) {
+        if (resolved !== file && !node.imports.includes(resolved)) {
+          node.imports.push(resolved);
+          modules[resolved]?.importedBy.push(file);
+        }
+      } else if (!isRelativeSpecifier(specifier)) {
+        const external = packageName(specifier, file.endsWith('.py'));
+        if (!node.external.includes(external)) {
+          node.external.push(external);
+        }
+      }
+    }
+  }
+
+  for (const node of Object.values(modules)) {
+    node.imports.sort();
+    node.importedBy.sort();
+    node.external.sort();
+  }
+
+  return { modules };
+}
+
+/**
+ * Ranks symbols for a query: exact name, then prefix, then substring, then fuzzy matches
+ * on name and signature.
+ */
+export function searchSymbols(symbols: CodeSymbol[], query: string, options: { kind?: SymbolKind; limit?: number } = {}): CodeSymbol[] {
+  const candidates = options.kind ? symbols.filter(symbol => symbol.kind === options.kind) : symbols;
+  const needle = query.toLowerCase();
+  const rank = (symbol: CodeSymbol) => {
+    const name = symbol.name.toLowerCase();
+    if (name === needle) return 0;
+    if (name.startsWith(needle)) return 1;
+    if (name.includes(needle)) return 2;
+    return 3;
+  };
+
+  const direct = candidates
+    .filter(symbol => rank(symbol) < 3)
+    .sort((a, b) => rank(a) - rank(b) || a.name.length - b.name.length || a.name.localeCompare(b.name));
+
+  const fuzzy = new Fuse(candidates.filter(symbol => rank(symbol) === 3), {
+    keys: [{ name: 'name', weight: 2 }, { name: 'signature', weight: 1 }],
+    threshold: 0.3
+  }).search(query).map(result => result.item);
+
+  return [...direct, ...fuzzy].slice(0, options.limit ?? 20);
+}
+
+function declarationSymbols(declaration: t.Declaration, source: string): FileIndex['symbols'] {
+  const line = declaration.loc?.start.line ?? 0;
+
+  if (t.isFunctionDeclaration(declaration) && declaration.id) {
+    return [{ name: declaration.id.name, kind: 'function', line, signature: sliceBefore(source, declaration, declaration.body) }];
+  }
+  if (t.isClassDeclaration(declaration) && declaration.id) {
+    const methods = declaration.body.body
+      .map(member => t.isClassMethod(member) && member.kind === 'method' && member.accessibility !== 'private' && t.isIdentifier(member.key)
+        ? member.key.name
+        : null)
+      .filter(Boolean);
+    const header = sliceBefore(source, declaration, declaration.body);
+    return [{ name: declaration.id.name, kind: 'class', line, signature: truncate(methods.length > 0 ? `${header} { ${methods.join('; ')} }` : header) }];
+  }
+  if (t.isTSInterfaceDeclaration(declaration)) {
+    const members = declaration.body.body
+      .map(member => t.isTSPropertySignature(member) || t.isTSMethodSignature(member)
+        ? t.isIdentifier(member.key) ? member.key.name : null
+        : null)
+      .filter(Boolean);
+    const header = sliceBefore(source, declaration, declaration.body);
+    return [{ name: declaration.id.name, kind: 'interface', line, signature: truncate(`${header} { ${members.join('; ')} }`) }];
+  }
+  if (t.isTSTypeAliasDeclaration(declaration)) {
+    return [{ name: declaration.id.name, kind: 'type', line, signature: truncate(slice(source, declaration)) }];
+  }
+  if (t.isTSEnumDeclaration(declaration)) {
+    const members = declaration.members.map(member => t.isIdentifier(member.id) ? member.id.name : member.id.value);
+    return [{ name: declaration.id.name, kind: 'enum', line, signature: truncate(`enum ${declaration.id.name} { ${members.join(', ')} }`) }];
+  }
+  if (t.isVariableDeclaration(declaration)) {
+    return declaration.declarations
+      .filter(declarator => t.isIdentifier(declarator.id))
+      .map(declarator => {
+        const init = declarator.init;
+        const isFunction = t.isArrowFunctionExpression(init) || t.isFunctionExpression(init);
+        const signature = isFunction
+          ? `${declaration.kind} ${sliceBefore(source, declarator, init.body)}`
+          : `${declaration.kind} ${slice(source, declarator.id)}`;
+        return {
+          name: (declarator.id as t.Identifier).name,
+          kind: isFunction ? 'function' as const : 'variable' as const,
+          line: declarator.loc?.start.line ?? line,
+          signature: truncate(signature)
+        };
+      });
+  }
+
+  return [];
+}
+
+function slice(source: string, node: t.Node): string {
+  return source.substring(node.start ?? 0, node.end ?? 0);
+}
+
+function sliceBefore(source: string, node: t.Node, body: t.Node): string {
+  return truncate(source.substring(node.start ?? 0, body.start ?? node.end ?? 0).replace(/\s*(=>)?\s*$/, match => match.includes('=>') ? ' =>' : ''));
+}
+
+function truncate(signature: string): string {
+  const collapsed = signature.replace(/\s+/g, ' ').trim();
+  return collapsed.length > MAX_SIGNATURE_LENGTH ? `${collapsed.substring(0, MAX_SIGNATURE_LENGTH)}…` : collapsed;
+}
+
+function isRelativeSpecifier(specifier: string): boolean {
+  return specifier.startsWith('.') || specifier.startsWith('/');
+}
+
+function resolveScriptImport(file: string, specifier: string, files: Set<string>): string | null {
+  if (!isRelativeSpecifier(specifier)) {
+    return null;
+  }
+
+  const target = path.posix.normalize(path.posix.join(path.posix.dirname(file), specifier));
+  // ESM sources import `./x.js` for `./x.ts`
+  const stem = target.replace(/\.(js|jsx|mjs|cjs)$/, '');
+  const candidates = [
+    target,
+    ...SCRIPT_EXTENSIONS.map(ext => `${stem}${ext}`),
+    ...SCRIPT_EXTENSIONS.map(ext => `${target}/index${ext}`)
+  ];
+
+  return candidates.find(candidate => files.has(candidate)) || null;
+}
+
+function resolvePythonImport(file: string, specifier: string, files: Set<string>): string | null {
+  const dots = specifier.match(/^\.*/)?.[0].length || 0;
+  const modulePath = specifier.substring(dots).split('.').filter(Boolean).join('/');
+
+  let bases: string[];
+  if (dots > 0) {
+    let base = path.posix.dirname(file);
+    for (let i = 1; i < dots; i++) {
+      base = path.posix.dirname(base);
+    }
+    bases = [base];
+  } else {
+    // Absolute imports resolve from the project root or a `src/` layout
+    bases = ['.', 'src'];
+  }
+
+  for (const base of bases) {
+    const target = path.posix.normalize(modulePath ? path.posix.join(base, modulePath) : base);
+    for (const candidate of [`${target}.py`, `${target}/__init__.py`]) {
+      if (files.has(candidate)) {
+        return candidate;
+      }
+    }
+  }
+
+  return null;
+}
+
+function packageName(specifier: string, isPython: boolean): string {
+  if (isPython) {
+    return specifier.split('.')[0] || specifier;
+  }
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0] || specifier;
+}
\ No newline at end of file
@@ -1,11 +1,21 @@
 import { promises as fs } from 'fs';
 import * as path from 'path';
+import { createHash } from 'crypto';
 import { parse } from '@babel/parser';
-import traverse, { NodePath } from '@babel/traverse';
+import babelTraverse, { NodePath } from '@babel/traverse';
 import * as t from '@babel/types';
 import Fuse from 'fuse.js';
 // import { distance } from 'natural';
 import { getSherpaDir, ensureDir, writeJson, readJson, fileExists, writeMarkdown, readMarkdown } from './fs.js';
+import { parsePythonSource, PythonModule } from './python-source.js';
+import { walkProjectFiles } from './project-files.js';
+import { CodeSymbol, FileIndex, ImportGraph, SymbolKind, indexScriptAst, indexPythonModule, buildImportGraph, searchSymbols } from './code-index.js';
+import { ParsedAdr, parseAdr, linkSupersededDecisions, isActiveDecision } from './adr.js';
+import { DEFAULT_PITFALLS, parsePitfallsMarkdown, renderPitfallsMarkdown, learnPitfalls } from './pitfalls.js';
+import { SessionManager } from './session.js';
+
+// @babel/traverse is CommonJS; under Node's ESM loader the default import is the module object
+const traverse = (babelTraverse as unknown as { default?: typeof babelTraverse }).default ?? babelTraverse;
 
 export interface CodePattern {
   id: string;
@@ -25,6 +35,9 @@ export interface ArchitecturalDecision {
   consequences: string[];
   date: string;
   files: string[];
+  status?: string;
+  supersedes?: string[];
+  supersededBy?: string[];
 }
 
 export interface CommonPitfall {
@@ -34,6 +47,8 @@ export interface CommonPitfall {
   solution: string;
   frequency: number;
   examples: string[];
+  keywords?: string[];
+  lastSeen?: string;
 }
 
 export interface CompressedContext {
@@ -43,32 +58,90 @@ export interface CompressedContext {
   summary: string;
   lastUpdated: string;
   codebaseFingerprint: string;
+  buildStats?: ContextBuildStats;
+}
+
+export interface ContextBuildStats {
+  files: number;
+  parsed: number;
+  reused: number;
+  removed: number;
+}
+
+export interface ContextFreshness {
+  stale: boolean;
+  fingerprint: string;
+  builtFingerprint: string | null;
+  changed: string[];
+  added: string[];
+  removed: string[];
+}
+
+interface FileCacheEntry {
+  hash: string;
+  size: number;
+  mtimeMs: number;
+  patterns: CodePattern[];
+  index: FileIndex;
+}
+
+interface FileCache {
+  version: number;
+  files: Record<string, FileCacheEntry>;
+}
+
+interface FileState {
+  path: string;
+  hash: string;
+  size: number;
+  mtimeMs: number;
 }
 
+const FILE_CACHE_VERSION = 2;
+
+// Manifests feed the implicit decisions, so they count towards the fingerprint too
+const FINGERPRINT_MANIFESTS = ['package.json', 'pyproject.toml', 'requirements.txt', 'tsconfig.json'];
+
 export class ContextManager {
   private contextDir: string;
   private patternsPath: string;
   private decisionsPath: string;
   private pitfallsPath: string;
+  private pitfallLearningPath: string;
   private compressedPath: string;
+  private fileCachePath: string;
+  private symbolsPath: string;
+  private importGraphPath: string;
 
   constructor() {
     this.contextDir = path.join(getSherpaDir(), 'context');
     this.patternsPath = path.join(this.contextDir, 'patterns.md');
     this.decisionsPath = path.join(this.contextDir, 'decisions.md');
     this.pitfallsPath = path.join(this.contextDir, 'pitfalls.md');
+    this.pitfallLearningPath = path.join(this.contextDir, 'pitfall-learning.json');
     this.compressedPath = path.join(this.contextDir, 'compressed.json');
+    this.fileCachePath = path.join(this.contextDir, 'file-cache.json');
+    this.symbolsPath = path.join(this.contextDir, 'symbols.json');
+    this.importGraphPath = path.join(this.contextDir, 'import-graph.json');
   }
 
-  async buildContext(projectRoot: string): Promise<CompressedContext> {
+  /**
+   * Builds the compressed context, re-parsing only files whose content changed since the
+   * last build. `force` ignores the file cache and parses everything.
+   */
+  async buildContext(projectRoot: string, options: { force?: boolean } = {}): Promise<CompressedContext> {
     await ensureDir(this.contextDir);
 
-    const patterns = await this.extractPatterns(projectRoot);
+    const cache = options.force ? this.emptyFileCache() : await this.loadFileCache();
+    const { files, nextCache, stats } = await this.analyzeProject(projectRoot, cache);
+
+    const patterns = this.mergePatterns(Object.values(nextCache.files).map(entry => entry.patterns));
+    const { symbols, graph: importGraph } = this.indexFromCache(nextCache);
     const decisions = await this.extractDecisions(projectRoot);
-    const pitfalls = await this.loadPitfalls();
+    const pitfalls = await this.learnPitfallsFromSessions();
     
     const summary = this.generateSummary(patterns, decisions, pitfalls);
-    const fingerprint = await this.generateCodebaseFingerprint(projectRoot);
+    const fingerprint = await this.generateCodebaseFingerprint(projectRoot, files);
 
     const context: CompressedContext = {
       patterns,
@@ -76,9 +149,13 @@ export class ContextManager {
       pitfalls,
       summary,
       lastUpdated: new Date().toISOString(),
-      codebaseFingerprint: fingerprint
+      codebaseFingerprint: fingerprint,
+      buildStats: stats
     };
 
+    await writeJson(this.fileCachePath, nextCache);
+    await writeJson(this.symbolsPath, symbols);
+    await writeJson(this.importGraphPath, importGraph);
     await writeJson(this.compressedPath, context);
     await this.savePatternsToMarkdown(patterns);
     await this.saveDecisionsToMarkdown(decisions);
@@ -86,35 +163,151 @@ export class ContextManager {
     return context;
   }
 
+  /**
+   * Symbol index and import graph for the current tree, without writing anything: unchanged
+   * files come from the build cache and changed ones are analyzed in memory.
+   */
+  async indexProject(projectRoot: string): Promise<{ symbols: CodeSymbol[]; graph: ImportGraph }> {
+    const { nextCache } = await this.analyzeProject(projectRoot, await this.loadFileCache());
+    return this.indexFromCache(nextCache);
+  }
+
+  private async analyzeProject(projectRoot: string, cache: FileCache): Promise<{ files: FileState[]; nextCache: FileCache; stats: ContextBuildStats }> {
+    const files = await this.getFileStates(projectRoot, cache);
+    const stats: ContextBuildStats = { files: files.length, parsed: 0, reused: 0, removed: 0 };
+    const nextCache = this.emptyFileCache();
+
+    for (const file of files) {
+      const relativePath = path.relative(projectRoot, file.path);
+      const cached = cache.files[relativePath];
+
+      if (cached && cached.hash === file.hash) {
+        nextCache.files[relativePath] = { ...cached, size: file.size, mtimeMs: file.mtimeMs };
+        stats.reused++;
+      } else {
+        const content = await fs.readFile(file.path, 'utf-8');
+        nextCache.files[relativePath] = { hash: file.hash, size: file.size, mtimeMs: file.mtimeMs, ...this.analyzeFile(content, file.path) };
+        stats.parsed++;
+      }
+    }
+    stats.removed = Object.keys(cache.files).filter(file => !nextCache.files[file]).length;
+
+    return { files, nextCache, stats };
+  }
+
+  private indexFromCache(cache: FileCache): { symbols: CodeSymbol[]; graph: ImportGraph } {
+    const entries = Object.entries(cache.files).map(([file, entry]) => [file.split(path.sep).join('/'), entry] as const);
+    return {
+      symbols: entries.flatMap(([file, entry]) => entry.index.symbols.map(symbol => ({ ...symbol, file }))),
+      graph: buildImportGraph(Object.fromEntries(entries.map(([file, entry]) => [file, entry.index.imports])))
+    };
+  }
+
+  /**
+   * Compares the current source files against the last build without parsing anything.
+   * Unchanged size and mtime reuse the cached hash, so this stays cheap on large trees.
+   */
+  async checkFreshness(projectRoot: string): Promise<ContextFreshness> {
+    const context = await this.getCompressedContext();
+    const cache = await this.loadFileCache();
+    const files = await this.getFileStates(projectRoot, cache);
+    const fingerprint = await this.generateCodebaseFingerprint(projectRoot, files);
+
+    const changed: string[] = [];
+    const added: string[] = [];
+    const current = new Set<string>();
+    for (const file of files) {
+      const relativePath = path.relative(projectRoot, file.path);
+      const cached = cache.files[relativePath];
+      current.add(relativePath);
+      if (!cached) {
+        added.push(relativePath);
+      } else if (cached.hash !== file.hash) {
+        changed.push(relativePath);
+      }
+    }
+    const removed = Object.keys(cache.files).filter(file => !current.has(file));
+
+    const builtFingerprint = context ? context.codebaseFingerprint : null;
+    return {
+      stale: builtFingerprint !== fingerprint,
+      fingerprint,
+      builtFingerprint,
+      changed,
+      added,
+      removed
+    };
+  }
+
   async extractPatterns(projectRoot: string): Promise<CodePattern[]> {
-    const patterns: Map<string, CodePattern> = new Map();
     const files = await this.getSourceFiles(projectRoot);
+    const contributions: CodePattern[][] = [];
 
     for (const file of files) {
       try {
-        const content = await fs.readFile(file, 'utf-8');
-        const ast = parse(content, {
-          sourceType: 'module',
-          plugins: ['typescript', 'jsx']
-        });
-
-        traverse(ast, {
-          FunctionDeclaration: (nodePath) => {
-            this.extractFunctionPattern(nodePath, file, patterns);
-          },
-          ClassDeclaration: (nodePath) => {
-            this.extractClassPattern(nodePath, file, patterns);
-          },
-          ImportDeclaration: (nodePath) => {
-            this.extractImportPattern(nodePath, file, patterns);
-          }
-        });
+        contributions.push(this.analyzeFile(await fs.readFile(file, 'utf-8'), file).patterns);
       } catch (error) {
-        console.warn(`Could not parse ${file}: ${error}`);
+        console.warn(`Could not read ${file}: ${error}`);
       }
     }
 
-    return Array.from(patterns.values());
+    return this.mergePatterns(contributions);
+  }
+
+  private analyzeFile(content: string, file: string): { patterns: CodePattern[]; index: FileIndex } {
+    const patterns: Map<string, CodePattern> = new Map();
+    let index: FileIndex = { symbols: [], imports: [] };
+
+    try {
+      if (file.endsWith('.py')) {
+        const module = parsePythonSource(content);
+        this.extractPythonPatterns(module, file, patterns);
+        return { patterns: Array.from(patterns.values()), index: indexPythonModule(module) };
+      }
+
+      const ast = parse(content, {
+        sourceType: 'module',
+        plugins: ['typescript', 'jsx']
+      });
+
+      traverse(ast, {
+        FunctionDeclaration: (nodePath) => {
+          this.extractFunctionPattern(nodePath, file, patterns);
+        },
+        ClassDeclaration: (nodePath) => {
+          this.extractClassPattern(nodePath, file, patterns);
+        },
+        ImportDeclaration: (nodePath) => {
+          this.extractImportPattern(nodePath, file, patterns);
+        }
+      });
+      index = indexScriptAst(ast, content);
+    } catch (error) {
+      console.warn(`Could not parse ${file}: ${error}`);
+    }
+
+    return { patterns: Array.from(patterns.values()), index };
+  }
+
+  /**
+   * Combines per-file pattern contributions. The first file to use a pattern supplies its
+   * example, matching what a single pass over the files would produce.
+   */
+  private mergePatterns(contributions: CodePattern[][]): CodePattern[] {
+    const merged: Map<string, CodePattern> = new Map();
+
+    for (const pattern of contributions.flat()) {
+      const existing = merged.get(pattern.id);
+      if (existing) {
+        existing.frequency += pattern.frequency;
+        existing.files.push(...pattern.files);
+        existing.lastSeen = existing.lastSeen > pattern.lastSeen ? existing.lastSeen : pattern.lastSeen;
+      } else {
+        merged.set(pattern.id, { ...pattern, files: [...pattern.files] });
+      }
+    }
+
+    return Array.from(merged.values());
   }
 
   private extractFunctionPattern(nodePath: NodePath<t.FunctionDeclaration>, file: string, patterns: Map<string, CodePattern>): void {
@@ -205,6 +398,62 @@ export class ContextManager {
     }
   }
 
+  private extractPythonPatterns(module: PythonModule, file: string, patterns: Map<string, CodePattern>): void {
+    for (const fn of module.functions) {
+      const params = fn.params.length;
+      this.recordPattern(patterns, file, {
+        id: `python-function-${params}-params-${fn.isAsync ? 'async' : 'sync'}`,
+        name: `Python ${fn.isAsync ? 'async' : 'sync'} function with ${params} parameters`,
+        description: `Python functions with ${params} parameters, ${fn.hasTypeHints ? 'with' : 'without'} type hints`,
+        example: `${fn.isAsync ? 'async ' : ''}def ${fn.name}(${fn.params.join(', ')}): ...`
+      });
+
+      // Decorators carry most of the framework conventions (routes, fixtures, validators)
+      for (const decorator of fn.decorators) {
+        this.recordPattern(patterns, file, {
+          id: `python-decorator-${decorator}`,
+          name: `Python @${decorator} decorator`,
+          description: `Functions decorated with @${decorator}`,
+          example: `@${decorator}(...)\n${fn.isAsync ? 'async ' : ''}def ${fn.name}(${fn.params.join(', ')}): ...`
+        });
+      }
+    }
+
+    for (const cls of module.classes) {
+      const methods = cls.methods.filter(method => method.name !== '__init__');
+      const hasInit = methods.length !== cls.methods.length;
+      this.recordPattern(patterns, file, {
+        id: `python-class-${methods.length}-methods`,
+        name: `Python class with ${methods.length} methods`,
+        description: `Python classes with ${methods.length} methods, ${hasInit ? 'with' : 'without'} __init__`,
+        example: `class ${cls.name}${cls.bases.length > 0 ? `(${cls.bases.join(', ')})` : ''}: ...`
+      });
+    }
+
+    for (const imported of module.imports) {
+      const kind = imported.isRelative ? 'relative' : 'package';
+      const count = imported.names.length;
+      this.recordPattern(patterns, file, {
+        id: `python-import-${kind}-${count}`,
+        name: `Python ${kind} import with ${count} names`,
+        description: `${imported.isFrom ? 'from ... import' : 'import'} of a ${imported.isRelative ? 'relative module' : 'package'} with ${count} names`,
+        example: imported.isFrom ? `from ${imported.module} import ${imported.names.join(', ')}` : `import ${imported.module}`
+      });
+    }
+  }
+
+  private recordPattern(patterns: Map<string, CodePattern>, file: string, pattern: Pick<CodePattern, 'id' | 'name' | 'description' | 'example'>): void {
+    const existing = patterns.get(pattern.id);
+
+    if (existing) {
+      existing.frequency++;
+      existing.files.push(file);
+      existing.lastSeen = new Date().toISOString();
+    } else {
+      patterns.set(pattern.id, { ...pattern, frequency: 1, files: [file], lastSeen: new Date().toISOString() });
+    }
+  }
+
   async extractDecisions(projectRoot: string): Promise<ArchitecturalDecision[]> {
     const decisions: ArchitecturalDecision[] = [];
     
@@ -216,21 +465,40 @@ export class ContextManager {
       path.join(getSherpaDir(), 'decisions')
     ];
 
+    const records: Array<{ adr: ParsedAdr; file: string }> = [];
     for (const adrPath of adrPaths) {
       if (await fileExists(adrPath)) {
-        const files = await fs.readdir(adrPath);
+        const files = (await fs.readdir(adrPath)).sort();
         for (const file of files) {
           if (file.endsWith('.md')) {
-            const content = await readMarkdown(path.join(adrPath, file));
-            const decision = this.parseArchitecturalDecision(content, file);
-            if (decision) {
-              decisions.push(decision);
+            const filePath = path.join(adrPath, file);
+            const [content, stats] = await Promise.all([readMarkdown(filePath), fs.stat(filePath)]);
+            try {
+              records.push({ adr: parseAdr(content, file, stats.mtime.toISOString()), file: path.relative(projectRoot, filePath) });
+            } catch (error) {
+              console.warn(`Could not parse ${file}: ${error}`);
             }
           }
         }
       }
     }
 
+    linkSupersededDecisions(records.map(record => record.adr));
+    for (const { adr, file } of records) {
+      decisions.push({
+        id: adr.id,
+        title: adr.title,
+        decision: adr.decision,
+        rationale: adr.rationale,
+        consequences: adr.consequences,
+        date: adr.date,
+        files: [file],
+        status: adr.status,
+        supersedes: adr.supersedes,
+        supersededBy: adr.supersededBy
+      });
+    }
+
     // Extract implicit decisions from package.json and config files
     const implicitDecisions = await this.extractImplicitDecisions(projectRoot);
     decisions.push(...implicitDecisions);
@@ -238,22 +506,6 @@ export class ContextManager {
     return decisions;
   }
 
-  private parseArchitecturalDecision(content: string, filename: string): ArchitecturalDecision | null {
-    const lines = content.split('\n');
-    const title = lines.find(line => line.startsWith('# '))?.substring(2) || filename;
-    
-    // Simple extraction - in practice, you'd want more sophisticated parsing
-    return {
-      id: filename.replace('.md', ''),
-      title,
-      decision: content.substring(0, 200) + '...',
-      rationale: 'Extracted from documentation',
-      consequences: [],
-      date: new Date().toISOString(),
-      files: [filename]
-    };
-  }
-
   private async extractImplicitDecisions(projectRoot: string): Promise<ArchitecturalDecision[]> {
     const decisions: ArchitecturalDecision[] = [];
     
@@ -290,33 +542,57 @@ export class ContextManager {
     return decisions;
   }
 
+  /**
+   * Reads the pitfalls catalogue from `pitfalls.md`, falling back to the built-in pitfalls
+   * until the file exists.
+   */
   async loadPitfalls(): Promise<CommonPitfall[]> {
-    // Load common AI pitfalls from configuration or previous learnings
-    const defaultPitfalls: CommonPitfall[] = [
-      {
-        id: 'over-abstraction',
-        pattern: 'Creating interfaces for single implementations',
-        description: 'AI tends to create unnecessary abstractions',
-        solution: 'Start concrete, abstract when you have 2+ implementations',
-        frequency: 0,
-        examples: []
-      },
-      {
-        id: 'missing-error-handling',
-        pattern: 'Functions without proper error handling',
-        description: 'AI often skips comprehensive error handling',
-        solution: 'Always handle edge cases and provide meaningful error messages',
-        frequency: 0,
-        examples: []
-      }
-    ];
-
     if (await fileExists(this.pitfallsPath)) {
-      // TODO: Parse existing pitfalls from markdown
-      return defaultPitfalls;
+      return parsePitfallsMarkdown(await readMarkdown(this.pitfallsPath));
     }
 
-    return defaultPitfalls;
+    return DEFAULT_PITFALLS.map(pitfall => ({ ...pitfall, examples: [...pitfall.examples] }));
+  }
+
+  /**
+   * Writes the catalogue back to `pitfalls.md` and refreshes the pitfalls in the compressed
+   * context, so an added pitfall reaches prompts without a rebuild.
+   */
+  async savePitfalls(pitfalls: CommonPitfall[]): Promise<void> {
+    await writeMarkdown(this.pitfallsPath, renderPitfallsMarkdown(pitfalls));
+
+    const context = await this.getCompressedContext();
+    if (context) {
+      context.pitfalls = this.rankPitfalls(pitfalls);
+      await writeJson(this.compressedPath, context);
+    }
+  }
+
+  /**
+   * Counts failed AI interactions from session history against the catalogue. Counted
+   * interaction ids are kept in `pitfall-learning.json` so each failure is learned once.
+   */
+  async learnPitfallsFromSessions(): Promise<CommonPitfall[]> {
+    const counted = new Set<string>();
+    if (await fileExists(this.pitfallLearningPath)) {
+      const learning = await readJson<{ counted?: string[] }>(this.pitfallLearningPath);
+      (learning.counted || []).forEach(id => counted.add(id));
+    }
+
+    const interactions = (await new SessionManager().listSessionHistory()).flatMap(session => session.aiInteractions || []);
+    const { pitfalls, matched } = learnPitfalls(await this.loadPitfalls(), interactions, counted);
+
+    await writeMarkdown(this.pitfallsPath, renderPitfallsMarkdown(pitfalls));
+    if (matched.length > 0) {
+      matched.forEach(match => counted.add(match.interactionId));
+      await writeJson(this.pitfallLearningPath, { counted: Array.from(counted) });
+    }
+
+    return this.rankPitfalls(pitfalls);
+  }
+
+  private rankPitfalls(pitfalls: CommonPitfall[]): CommonPitfall[] {
+    return [...pitfalls].sort((a, b) => b.frequency - a.frequency);
   }
 
   private generateSummary(patterns: CodePattern[], decisions: ArchitecturalDecision[], pitfalls: CommonPitfall[]): string {
@@ -327,6 +603,7 @@ export class ContextManager {
       .join(', ');
 
     const keyDecisions = decisions
+      .filter(isActiveDecision)
       .slice(0, 3)
       .map(d => d.title)
       .join(', ');
@@ -334,40 +611,71 @@ export class ContextManager {
     return `This codebase primarily uses: ${topPatterns}. Key architectural decisions: ${keyDecisions}. Watch out for common pitfalls in AI-generated code.`;
   }
 
-  private async generateCodebaseFingerprint(projectRoot: string): Promise<string> {
-    const packageJsonPath = path.join(projectRoot, 'package.json');
-    if (await fileExists(packageJsonPath)) {
-      const packageJson = await readJson<any>(packageJsonPath);
-      const deps = Object.keys(packageJson.dependencies || {}).sort();
-      const devDeps = Object.keys(packageJson.devDependencies || {}).sort();
-      return `${deps.join(',')}|${devDeps.join(',')}`;
+  /**
+   * Hashes every source file and dependency manifest, so any code change produces a new
+   * fingerprint (the previous dependency-name list missed edits to the code itself).
+   */
+  private async generateCodebaseFingerprint(projectRoot: string, files: FileState[]): Promise<string> {
+    const hash = createHash('sha1');
+    const entries = files
+      .map(file => `${path.relative(projectRoot, file.path)}:${file.hash}`)
+      .sort();
+
+    for (const manifest of FINGERPRINT_MANIFESTS) {
+      const manifestPath = path.join(projectRoot, manifest);
+      if (await fileExists(manifestPath)) {
+        entries.push(`${manifest}:${this.hashContent(await fs.readFile(manifestPath, 'utf-8'))}`);
+      }
     }
-    return 'unknown';
+
+    hash.update(entries.join('\n'));
+    return hash.digest('hex').substring(0, 16);
   }
 
-  private async getSourceFiles(projectRoot: string): Promise<string[]> {
-    const files: string[] = [];
-    const extensions = ['.ts', '.tsx', '.js', '.jsx'];
-    
-    async function walkDir(dir: string) {
+  private async getFileStates(projectRoot: string, cache: FileCache): Promise<FileState[]> {
+    const states: FileState[] = [];
+
+    for (const file of await this.getSourceFiles(projectRoot)) {
       try {
-        const entries = await fs.readdir(dir, { withFileTypes: true });
-        for (const entry of entries) {
-          const fullPath = path.join(dir, entry.name);
-          
-          if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
-            await walkDir(fullPath);
-          } else if (entry.isFile() && extensions.some(ext => entry.name.endsWith(ext))) {
-            files.push(fullPath);
-          }
-        }
+        const stats = await fs.stat(file);
+        const cached = cache.files[path.relative(projectRoot, file)];
+        const unchanged = cached && cached.size === stats.size && cached.mtimeMs === stats.mtimeMs;
+        states.push({
+          path: file,
+          hash: unchanged ? cached.hash : this.hashContent(await fs.readFile(file, 'utf-8')),
+          size: stats.size,
+          mtimeMs: stats.mtimeMs
+        });
       } catch (error) {
-        // Skip directories we can't read
+        // Skip files removed or unreadable since the directory walk
+      }
+    }
+
+    return states;
+  }
+
+  private hashContent(content: string): string {
+    return createHash('sha1').update(content).digest('hex');
+  }
+
+  private emptyFileCache(): FileCache {
+    return { version: FILE_CACHE_VERSION, files: {} };
+  }
+
+  private async loadFileCache(): Promise<FileCache> {
+    try {
+      const cache = await readJson<FileCache>(this.fileCachePath);
+      if (cache.version === FILE_CACHE_VERSION && cache.files) {
+        return cache;
       }
+    } catch (error) {
+      // Missing or unreadable cache means a full build
     }
+    return this.emptyFileCache();
+  }
 
-    await walkDir(projectRoot);
-    return files;
+  private async getSourceFiles(projectRoot: string): Promise<string[]> {
+    return walkProjectFiles(projectRoot, { extensions: ['.ts', '.tsx', '.js', '.jsx', '.py'] });
   }
 
   private async savePatternsToMarkdown(patterns: CodePattern[]): Promise<void> {
@@ -395,6 +703,7 @@ ${pattern.example}
 ${decisions.map(decision => `
 ## ${decision.title}
 
+**Status:** ${decision.status || 'accepted'}${decision.supersededBy?.length ? ` (superseded by ${decision.supersededBy.join(', ')})` : ''}  
 **Decision:** ${decision.decision}  
 **Rationale:** ${decision.rationale}  
 **Date:** ${decision.date}  
@@ -414,6 +723,24 @@ ${decision.consequences.map(c => `- ${c}`).join('\n')}
     return null;
   }
 
+  async getSymbolIndex(): Promise<CodeSymbol[]> {
+    if (await fileExists(this.symbolsPath)) {
+      return await readJson<CodeSymbol[]>(this.symbolsPath);
+    }
+    return [];
+  }
+
+  async getImportGraph(): Promise<ImportGraph | null> {
+    if (await fileExists(this.importGraphPath)) {
+      return await readJson<ImportGraph>(this.importGraphPath);
+    }
+    return null;
+  }
+
+  async searchSymbols(query: string, options: { kind?: SymbolKind; limit?: number } = {}): Promise<CodeSymbol[]> {
+    return searchSymbols(await this.getSymbolIndex(), query, options);
+  }
+
   async searchSimilarContext(query: string): Promise<{ patterns: CodePattern[], decisions: ArchitecturalDecision[] }> {
     const context = await this.getCompressedContext();
     if (!context) {
@@ -425,7 +752,8 @@ ${decision.consequences.map(c => `- ${c}`).join('\n')}
       threshold: 0.6
     });
 
-    const decisionFuse = new Fuse(context.decisions, {
+    // Superseded, deprecated and rejected records stay in decisions.md but never reach prompts
+    const decisionFuse = new Fuse(context.decisions.filter(isActiveDecision), {
       keys: ['title', 'decision', 'rationale'],
       threshold: 0.6
     });
@@ -0,0 +1,205 @@
+import { Ticket } from '../types/index.js';
+import { CodeSymbol, ImportGraph } from './code-index.js';
+
+export interface RankedFile {
+  path: string;
+  score: number;
+  reason: string;
+}
+
+export interface SessionFileHint {
+  file: string;
+  ticketId: string;
+  sameTicket: boolean;
+}
+
+export interface FileRankingInput {
+  ticket: Ticket;
+  files: string[];
+  symbols: CodeSymbol[];
+  graph: ImportGraph | null;
+  sessionFiles: SessionFileHint[];
+}
+
+interface Keyword {
+  weight: number;
+  source: string;
+}
+
+interface Evidence {
+  score: number;
+  reasons: Array<{ score: number; text: string }>;
+}
+
+// How much each part of the ticket says about where the work happens
+const FIELD_WEIGHTS: Array<{ field: string; weight: number; read: (ticket: Ticket) => string[] }> = [
+  { field: 'title', weight: 3, read: ticket => [ticket.title] },
+  { field: 'apidiff', weight: 3, read: ticket => ticket.apidiff || [] },
+  { field: 'ui_components', weight: 3, read: ticket => ticket.ui_components || [] },
+  { field: 'dbdiff', weight: 2, read: ticket => ticket.dbdiff || [] },
+  { field: 'outcome', weight: 2, read: ticket => [ticket.outcome] },
+  { field: 'acceptance_criteria', weight: 1, read: ticket => ticket.acceptance_criteria || [] },
+  { field: 'scope_in', weight: 1, read: ticket => ticket.scope_in || [] }
+];
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'onto', 'when', 'then', 'than', 'should', 'must',
+  'can', 'will', 'able', 'are', 'was', 'were', 'has', 'have', 'had', 'not', 'all', 'any', 'each', 'via', 'per',
+  'new', 'add', 'adds', 'added', 'update', 'updates', 'implement', 'create', 'allow', 'make', 'use', 'using',
+  'get', 'post', 'put', 'patch', 'delete', 'returns', 'return', 'given', 'their', 'they', 'them', 'its', 'our',
+  'src', 'lib', 'index', 'test', 'tests', 'spec', 'specs', 'util', 'utils', 'json', 'yml', 'yaml', 'tsx', 'jsx'
+]);
+
+const SAME_TICKET_SESSION_SCORE = 15;
+const RELATED_TICKET_SESSION_SCORE = 6;
+const PATH_MATCH_FACTOR = 2;
+const EXPORT_MATCH_FACTOR = 3;
+// Share of the best neighbour's score passed along import edges
+const NEIGHBOUR_FACTOR = 0.25;
+const MAX_REASONS = 3;
+
+/**
+ * Splits text into lower-case words, breaking camelCase and snake_case, dropping stop
+ * words and plural endings so `SessionManager`, `sessions` and `session_store` meet.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 3 && !STOP_WORDS.has(word) && !/^\d+$/.test(word))
+    .map(stem);
+}
+
+export function extractTicketKeywords(ticket: Ticket): Map<string, Keyword> {
+  const keywords = new Map<string, Keyword>();
+
+  for (const { field, weight, read } of FIELD_WEIGHTS) {
+    for (const word of read(ticket).flatMap(text => tokenize(text || ''))) {
+      const existing = keywords.get(word);
+      if (!existing || existing.weight < weight) {
+        keywords.set(word, { weight, source: field });
+      }
+    }
+  }
+
+  return keywords;
+}
+
+/**
+ * Scores project files for a ticket from three kinds of evidence: keywords in the path,
+ * exported identifiers that match the ticket, and files touched in sessions for this or
+ * related tickets. Files that import or are imported by a strong match get a share of
+ * its score, so the code around an obvious hit surfaces too.
+ */
+export function rankFilesForTicket(input: FileRankingInput, limit: number = 15): RankedFile[] {
+  const keywords = extractTicketKeywords(input.ticket);
+  const evidence = new Map<string, Evidence>();
+  const known = new Set(input.files);
+
+  const add = (file: string, score: number, text: string) => {
+    const entry = evidence.get(file) || { score: 0, reasons: [] };
+    entry.score += score;
+    entry.reasons.push({ score, text });
+    evidence.set(file, entry);
+  };
+
+  for (const file of input.files) {
+    const pathMatches = matchKeywords(tokenize(file), keywords);
+    if (pathMatches.length > 0) {
+      add(file, pathMatches.reduce((sum, [, keyword]) => sum + keyword.weight * PATH_MATCH_FACTOR, 0),
+        `path matches ${quoteList(pathMatches.map(([word]) => word))}`);
+    }
+  }
+
+  const symbolsByFile = new Map<string, CodeSymbol[]>();
+  for (const symbol of input.symbols) {
+    symbolsByFile.set(symbol.file, [...(symbolsByFile.get(symbol.file) || []), symbol]);
+  }
+  for (const [file, symbols] of symbolsByFile) {
+    if (!known.has(file)) continue;
+    const matched = new Map<string, Keyword>();
+    const names: string[] = [];
+    for (const symbol of symbols) {
+      const matches = matchKeywords(tokenize(symbol.name), keywords);
+      if (matches.length > 0) {
+        names.push(symbol.name);
+        matches.forEach(([word, keyword]) => matched.set(word, keyword));
+      }
+    }
+    if (matched.size > 0) {
+      const score = Array.from(matched.values()).reduce((sum, keyword) => sum + keyword.weight * EXPORT_MATCH_FACTOR, 0);
+      add(file, score, `exports ${names.slice(0, 3).join(', ')}${names.length > 3 ? ', …' : ''}`);
+    }
+  }
+
+  const sessionScores = new Map<string, SessionFileHint>();
+  for (const hint of input.sessionFiles) {
+    const existing = sessionScores.get(hint.file);
+    if (known.has(hint.file) && (!existing || (hint.sameTicket && !existing.sameTicket))) {
+      sessionScores.set(hint.file, hint);
+    }
+  }
+  for (const [file, hint] of sessionScores) {
+    add(file, hint.sameTicket ? SAME_TICKET_SESSION_SCORE : RELATED_TICKET_SESSION_SCORE,
+      hint.sameTicket ? `worked on in a session for ${hint.ticketId}` : `worked on for related ticket ${hint.ticketId}`);
+  }
+
+  // Neighbour boosts are computed from the direct scores only, so they never compound
+  if (input.graph) {
+    const direct = new Map(Array.from(evidence.entries()).map(([file, entry]) => [file, entry.score]));
+    for (const file of input.files) {
+      const node = input.graph.modules[file];
+      if (!node) continue;
+
+      let best: { file: string; score: number; relation: string } | null = null;
+      for (const [neighbours, relation] of [[node.imports, 'imports'], [node.importedBy, 'imported by']] as const) {
+        for (const neighbour of neighbours) {
+          const score = direct.get(neighbour) || 0;
+          if (score > 0 && (!best || score > best.score)) {
+            best = { file: neighbour, score, relation };
+          }
+        }
+      }
+
+      if (best) {
+        add(file, best.score * NEIGHBOUR_FACTOR, `${best.relation} ${best.file}`);
+      }
+    }
+  }
+
+  return Array.from(evidence.entries())
+    .map(([file, entry]) => ({
+      path: file,
+      score: Math.round(entry.score * 10) / 10,
+      reason: entry.reasons
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_REASONS)
+        .map(reason => reason.text)
+        .join('; ')
+    }))
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+    .slice(0, limit);
+}
+
+function matchKeywords(words: string[], keywords: Map<string, Keyword>): Array<[string, Keyword]> {
+  const matches: Array<[string, Keyword]> = [];
+  for (const word of new Set(words)) {
+    const keyword = keywords.get(word);
+    if (keyword) {
+      matches.push([word, keyword]);
+    }
+  }
+  return matches;
+}
+
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us')) return word.slice(0, -1);
+  return word;
+}
+
+function quoteList(words: string[]): string {
+  return words.map(word => `"${word}"`).join(', ');
+}
\ No newline at end of file
@@ -0,0 +1,31 @@
+import YAML from 'yaml';
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+export function parseFrontmatter<T = Record<string, any>>(content: string): { data: T | null; body: string } {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return { data: null, body: content };
+  }
+
+  let data: any;
+  try {
+    data = YAML.parse(match[1] || '');
+  } catch (error) {
+    throw new Error(`Invalid YAML frontmatter: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return {
+    data: data && typeof data === 'object' && !Array.isArray(data) ? data as T : null,
+    body: content.slice(match[0].length)
+  };
+}
+
+export function stringifyFrontmatter(data: Record<string, any>, body: string): string {
+  return `---\n${YAML.stringify(data).trimEnd()}\n---\n\n${body.replace(/^\s+/, '')}`;
+}
+
+// The body without its frontmatter block, for when the block itself can't be parsed
+export function stripFrontmatter(content: string): string {
+  return content.replace(FRONTMATTER_PATTERN, '');
+}
\ No newline at end of file
@@ -0,0 +1,79 @@
+/**
+ * Converts a glob to an anchored regular expression over `/`-separated relative paths.
+ * Supports `*`, `?`, `**`, `[abc]`/`[!abc]` and `{a,b}`. A trailing `/**` also matches
+ * the directory itself, so `dist/**` can prune the `dist` directory during a walk.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let regex = '';
+  let braceDepth = 0;
+  let i = 0;
+
+  while (i < glob.length) {
+    const char = glob[i] as string;
+    const afterSlash = i === 0 || glob[i - 1] === '/';
+
+    if (char === '*' && glob[i + 1] === '*' && afterSlash) {
+      if (glob[i + 2] === '/') {
+        // `**/` matches zero or more directories
+        regex += '(?:[^/]*/)*';
+        i += 3;
+        continue;
+      }
+      if (i + 2 === glob.length) {
+        regex = i === 0 ? '.*' : `${regex.slice(0, -1)}(?:/.*)?`;
+        i += 2;
+        continue;
+      }
+    }
+
+    if (char === '*') {
+      regex += glob[i + 1] === '*' ? '.*' : '[^/]*';
+      i += glob[i + 1] === '*' ? 2 : 1;
+    } else if (char === '?') {
+      regex += '[^/]';
+      i++;
+    } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+      const close = glob.indexOf(']', i + 2);
+      const members = glob.substring(i + 1, close);
+      regex += `[${members.startsWith('!') ? `^${members.substring(1)}` : members.replace(/\\/g, '\\\\')}]`;
+      i = close + 1;
+    } else if (char === '{') {
+      braceDepth++;
+      regex += '(?:';
+      i++;
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      regex += ')';
+      i++;
+    } else if (char === ',' && braceDepth > 0) {
+      regex += '|';
+      i++;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      regex += escapeRegExp(glob[i + 1] as string);
+      i += 2;
+    } else {
+      regex += escapeRegExp(char);
+      i++;
+    }
+  }
+
+  return new RegExp(`^${regex}$`);
+}
+
+/**
+ * Matches a relative path against a glob. Globs without a `/` match the file or
+ * directory name at any depth, as in `.gitignore`.
+ */
+export function matchesGlob(relativePath: string, glob: string): boolean {
+  const normalized = relativePath.split('\\').join('/');
+  const pattern = glob.startsWith('/') ? glob.substring(1) : glob.includes('/') ? glob : `**/${glob}`;
+  return globToRegExp(pattern).test(normalized);
+}
+
+export function matchesAnyGlob(relativePath: string, globs: string[]): boolean {
+  return globs.some(glob => matchesGlob(relativePath, glob));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { createHash } from 'crypto';
+
 export function generateTicketId(): string {
   const timestamp = Date.now().toString(36);
   const random = Math.random().toString(36).substr(2, 5);
@@ -18,4 +20,8 @@ export function generateStoryId(): string {
 
 export function formatDate(date: Date = new Date()): string {
   return date.toISOString().split('T')[0] || '';
+}
+
+export function contentHash(value: unknown): string {
+  return createHash('sha1').update(JSON.stringify(value ?? null)).digest('hex').substring(0, 12);
 }
\ No newline at end of file
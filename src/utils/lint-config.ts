@@ -0,0 +1,188 @@
+import * as path from 'path';
+import { fileExists, readYaml } from './fs.js';
+import { matchesAnyGlob } from './glob.js';
+import { loadProjectConfig } from './project-config.js';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export const LINT_SEVERITIES: LintSeverity[] = ['error', 'warning', 'info'];
+
+export interface LintRuleOptions {
+  enabled?: boolean;
+  severity?: LintSeverity;
+  options?: Record<string, unknown>;
+}
+
+// `off`, a severity, `true`/`false`, or the full form with options
+export type LintRuleSetting = 'off' | 'on' | LintSeverity | boolean | LintRuleOptions;
+
+export interface LintOverride {
+  files: string | string[];
+  rules: Record<string, LintRuleSetting>;
+}
+
+export interface LintConfig {
+  rules?: Record<string, LintRuleSetting>;
+  overrides?: LintOverride[];
+  // npm packages exporting extra rules, resolved from the project root
+  plugins?: string[];
+}
+
+export interface ResolvedRuleSettings {
+  enabled: boolean;
+  severity: LintSeverity;
+  options: Record<string, unknown>;
+}
+
+export interface RuleDefaults {
+  id: string;
+  severity: LintSeverity;
+  defaultOptions?: Record<string, unknown>;
+}
+
+export function getLintConfigPath(projectRoot: string): string {
+  return path.join(projectRoot, '.sherpa', 'lint.yml');
+}
+
+/**
+ * Loads lint settings from `.sherpa/lint.yml`, or from the `lint` section of
+ * `.sherpa/config.yml` when there is no lint.yml. A missing config lints with every
+ * rule's defaults; a malformed one is an error rather than silently linting differently.
+ */
+export async function loadLintConfig(projectRoot: string): Promise<LintConfig> {
+  const lintPath = getLintConfigPath(projectRoot);
+  let config: LintConfig | null | undefined;
+  let source: string;
+
+  if (await fileExists(lintPath)) {
+    source = path.relative(projectRoot, lintPath);
+    try {
+      config = await readYaml<LintConfig | null>(lintPath);
+    } catch (error) {
+      throw new Error(`Invalid ${source}: ${error instanceof Error ? error.message : error}`);
+    }
+  } else {
+    source = '.sherpa/config.yml (lint)';
+    config = (await loadProjectConfig(projectRoot)).lint;
+  }
+
+  return validateLintConfig(config || {}, source);
+}
+
+export function validateLintConfig(config: LintConfig, source: string): LintConfig {
+  const fail = (message: string) => {
+    throw new Error(`Invalid ${source}: ${message}`);
+  };
+
+  if (typeof config !== 'object' || Array.isArray(config)) {
+    fail('expected a mapping with rules and overrides');
+  }
+
+  const checkRules = (rules: unknown, where: string) => {
+    if (rules === undefined) return;
+    if (typeof rules !== 'object' || rules === null || Array.isArray(rules)) {
+      fail(`${where} must map rule ids to settings`);
+    }
+    for (const [ruleId, setting] of Object.entries(rules as Record<string, unknown>)) {
+      if (normalizeSetting(setting) === null) {
+        fail(`${where}.${ruleId} must be off, on, ${LINT_SEVERITIES.join(', ')} or { enabled, severity, options }`);
+      }
+    }
+  };
+
+  checkRules(config.rules, 'rules');
+
+  if (config.plugins !== undefined
+    && (!Array.isArray(config.plugins) || config.plugins.some(plugin => typeof plugin !== 'string' || plugin === ''))) {
+    fail('plugins must be a list of package names');
+  }
+
+  if (config.overrides !== undefined) {
+    if (!Array.isArray(config.overrides)) {
+      fail('overrides must be a list');
+    }
+    config.overrides.forEach((override, index) => {
+      const files = override?.files;
+      const globs = typeof files === 'string' ? [files] : files;
+      if (!Array.isArray(globs) || globs.length === 0 || globs.some(glob => typeof glob !== 'string')) {
+        fail(`overrides[${index}].files must be a glob or a list of globs`);
+      }
+      checkRules(override.rules, `overrides[${index}].rules`);
+    });
+  }
+
+  return config;
+}
+
+/**
+ * Works out each rule's settings for one file: the rule's defaults, then `rules`, then
+ * every override whose globs match the file, in order. Options are merged key by key, so
+ * an override can change one option without repeating the rest.
+ */
+export function resolveRuleSettings(
+  rules: RuleDefaults[],
+  config: LintConfig,
+  relativePath: string
+): Map<string, ResolvedRuleSettings> {
+  const resolved = new Map<string, ResolvedRuleSettings>(rules.map(rule => [
+    rule.id,
+    { enabled: true, severity: rule.severity, options: { ...rule.defaultOptions } }
+  ]));
+
+  const layers = [
+    config.rules || {},
+    ...(config.overrides || [])
+      .filter(override => matchesAnyGlob(relativePath, typeof override.files === 'string' ? [override.files] : override.files))
+      .map(override => override.rules || {})
+  ];
+
+  for (const layer of layers) {
+    for (const [ruleId, setting] of Object.entries(layer)) {
+      const current = resolved.get(ruleId);
+      const normalized = normalizeSetting(setting);
+      if (!current || !normalized) continue;
+
+      resolved.set(ruleId, {
+        enabled: normalized.enabled ?? current.enabled,
+        severity: normalized.severity ?? current.severity,
+        options: { ...current.options, ...normalized.options }
+      });
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Rule ids the config mentions that no loaded rule has, so typos can be reported.
+ */
+export function findUnknownRules(config: LintConfig, ruleIds: string[]): string[] {
+  const mentioned = [
+    ...Object.keys(config.rules || {}),
+    ...(config.overrides || []).flatMap(override => Object.keys(override.rules || {}))
+  ];
+  return Array.from(new Set(mentioned.filter(ruleId => !ruleIds.includes(ruleId))));
+}
+
+function normalizeSetting(setting: unknown): LintRuleOptions | null {
+  if (setting === 'off' || setting === false) {
+    return { enabled: false };
+  }
+  if (setting === 'on' || setting === true) {
+    return { enabled: true };
+  }
+  if (typeof setting === 'string') {
+    return LINT_SEVERITIES.includes(setting as LintSeverity) ? { enabled: true, severity: setting as LintSeverity } : null;
+  }
+  if (typeof setting !== 'object' || setting === null || Array.isArray(setting)) {
+    return null;
+  }
+
+  const { enabled, severity, options } = setting as LintRuleOptions;
+  if ((enabled !== undefined && typeof enabled !== 'boolean')
+    || (severity !== undefined && !LINT_SEVERITIES.includes(severity))
+    || (options !== undefined && (typeof options !== 'object' || options === null || Array.isArray(options)))) {
+    return null;
+  }
+  return { enabled, severity, options };
+}
\ No newline at end of file
@@ -0,0 +1,179 @@
+export interface AILintEdit {
+  // Character offsets into the source, as Babel reports them in node.start / node.end
+  range: [number, number];
+  text: string;
+}
+
+export interface FixableIssue {
+  ruleId: string;
+  fix?: AILintEdit[];
+}
+
+export interface AppliedFixes<T extends FixableIssue> {
+  output: string;
+  applied: T[];
+  // Fixes left out because they overlapped one already taken; a later pass may apply them
+  skipped: T[];
+}
+
+const DIFF_CONTEXT_LINES = 3;
+
+/**
+ * Applies each issue's edits as one unit, in source order. An issue whose edits overlap
+ * an edit already taken, or fall outside the source, is skipped whole so a fix is never
+ * half applied.
+ */
+export function applyFixes<T extends FixableIssue>(source: string, issues: T[]): AppliedFixes<T> {
+  const candidates = issues
+    .filter(issue => issue.fix && issue.fix.length > 0)
+    .map(issue => ({ issue, edits: [...(issue.fix as AILintEdit[])].sort((a, b) => a.range[0] - b.range[0]) }))
+    .sort((a, b) => (a.edits[0] as AILintEdit).range[0] - (b.edits[0] as AILintEdit).range[0]);
+
+  const taken: AILintEdit[] = [];
+  const applied: T[] = [];
+  const skipped: T[] = [];
+
+  for (const { issue, edits } of candidates) {
+    const valid = edits.every(({ range: [start, end] }) => Number.isInteger(start) && Number.isInteger(end) && start >= 0 && start <= end && end <= source.length);
+    const overlapping = edits.some((edit, index) =>
+      (index > 0 && (edits[index - 1] as AILintEdit).range[1] > edit.range[0])
+      || taken.some(other => rangesOverlap(edit.range, other.range)));
+
+    if (!valid || overlapping) {
+      skipped.push(issue);
+      continue;
+    }
+    taken.push(...edits);
+    applied.push(issue);
+  }
+
+  let output = source;
+  for (const edit of taken.sort((a, b) => b.range[0] - a.range[0])) {
+    output = output.slice(0, edit.range[0]) + edit.text + output.slice(edit.range[1]);
+  }
+
+  return { output, applied, skipped };
+}
+
+/**
+ * A unified diff of two versions of a file, as `diff -u` / `git diff` print it.
+ * Returns an empty string when nothing changed.
+ */
+export function createUnifiedDiff(before: string, after: string, fileName: string): string {
+  if (before === after) {
+    return '';
+  }
+
+  const oldLines = splitLines(before);
+  const newLines = splitLines(after);
+  const lines = diffLines(oldLines, newLines);
+
+  const hunks: string[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    // Find the next change, then extend the hunk while changes are close together
+    const firstChange = lines.findIndex((line, position) => position >= index && line.type !== ' ');
+    if (firstChange === -1) break;
+
+    const start = Math.max(index, firstChange - DIFF_CONTEXT_LINES);
+    let end = firstChange;
+    for (let position = firstChange; position < lines.length; position++) {
+      if ((lines[position] as DiffLine).type !== ' ') {
+        end = position;
+      } else if (position - end > DIFF_CONTEXT_LINES * 2) {
+        break;
+      }
+    }
+    end = Math.min(lines.length - 1, end + DIFF_CONTEXT_LINES);
+
+    const hunk = lines.slice(start, end + 1);
+    const first = lines[start] as DiffLine;
+    const oldCount = hunk.filter(line => line.type !== '+').length;
+    const newCount = hunk.filter(line => line.type !== '-').length;
+    hunks.push(
+      `@@ -${hunkStart(first.oldLine, oldCount)},${oldCount} +${hunkStart(first.newLine, newCount)},${newCount} @@\n`
+      + hunk.map(line => `${line.type}${line.text}\n`).join('')
+    );
+    index = end + 1;
+  }
+
+  return `--- a/${fileName}\n+++ b/${fileName}\n${hunks.join('')}`;
+}
+
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+  // 1-based line numbers in each version where this line sits (or would sit)
+  oldLine: number;
+  newLine: number;
+}
+
+/**
+ * Line diff by longest common subsequence. The unchanged head and tail are trimmed first,
+ * since fixes touch a few lines of otherwise identical files.
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (suffix < oldLines.length - prefix && suffix < newLines.length - prefix
+    && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  // common[i][j] = length of the LCS of oldMiddle[i..] and newMiddle[j..]
+  const common = Array.from({ length: oldMiddle.length + 1 }, () => new Array<number>(newMiddle.length + 1).fill(0));
+  const lcs = (i: number, j: number) => common[i]?.[j] ?? 0;
+  for (let i = oldMiddle.length - 1; i >= 0; i--) {
+    for (let j = newMiddle.length - 1; j >= 0; j--) {
+      (common[i] as number[])[j] = oldMiddle[i] === newMiddle[j] ? lcs(i + 1, j + 1) + 1 : Math.max(lcs(i + 1, j), lcs(i, j + 1));
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  const push = (type: DiffLine['type'], text: string) => {
+    result.push({ type, text, oldLine, newLine });
+    if (type !== '+') oldLine++;
+    if (type !== '-') newLine++;
+  };
+
+  oldLines.slice(0, prefix).forEach(text => push(' ', text));
+  let i = 0;
+  let j = 0;
+  while (i < oldMiddle.length || j < newMiddle.length) {
+    if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+      push(' ', oldMiddle[i++] as string);
+      j++;
+    } else if (i < oldMiddle.length && (j === newMiddle.length || lcs(i + 1, j) >= lcs(i, j + 1))) {
+      push('-', oldMiddle[i++] as string);
+    } else {
+      push('+', newMiddle[j++] as string);
+    }
+  }
+  oldLines.slice(oldLines.length - suffix).forEach(text => push(' ', text));
+
+  return result;
+}
+
+function splitLines(text: string): string[] {
+  const lines = text.split('\n');
+  // A final newline ends the last line rather than starting an empty one
+  return text.endsWith('\n') ? lines.slice(0, -1) : lines;
+}
+
+function hunkStart(line: number, count: number): number {
+  // diff -u numbers an empty side from the line before it
+  return count === 0 ? line - 1 : line;
+}
+
+function rangesOverlap(a: [number, number], b: [number, number]): boolean {
+  // Touching insertions at the same point would be applied in an arbitrary order, so they count too
+  return a[0] < b[1] && b[0] < a[1] || a[0] === b[0];
+}
\ No newline at end of file
@@ -0,0 +1,147 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import { fileExists } from './fs.js';
+import { AILintRule } from './ai-linter.js';
+import { LINT_SEVERITIES, LintConfig } from './lint-config.js';
+
+export const LINT_RULE_CATEGORIES: AILintRule['category'][] = ['over-abstraction', 'error-handling', 'security', 'consistency', 'performance'];
+
+const RULE_FILE_EXTENSIONS = ['.js', '.mjs', '.cjs'];
+
+export interface LoadedLintPlugins {
+  rules: AILintRule[];
+  // One line per module or rule that was skipped
+  errors: string[];
+}
+
+export function getLintRulesDir(projectRoot: string): string {
+  return path.join(projectRoot, '.sherpa', 'rules');
+}
+
+/**
+ * Loads extra rules from `.sherpa/rules/*.js` and from the npm packages listed under
+ * `plugins` in the lint config. A module may export a rule, an array of rules or
+ * `{ rules: [...] }` as `default`, `rules` or `rule`; any other named export that is a
+ * complete rule is picked up too. Modules that fail to load and rules that fail validation
+ * are skipped and reported, so one broken plugin doesn't stop the built-in rules from running.
+ */
+export async function loadLintPlugins(projectRoot: string, config: LintConfig, reservedIds: string[] = []): Promise<LoadedLintPlugins> {
+  const rules: AILintRule[] = [];
+  const errors: string[] = [];
+  const seen = new Set(reservedIds);
+
+  const sources: { source: string; resolve: () => string }[] = [];
+
+  const rulesDir = getLintRulesDir(projectRoot);
+  if (await fileExists(rulesDir)) {
+    const files = (await fs.readdir(rulesDir))
+      .filter(file => RULE_FILE_EXTENSIONS.includes(path.extname(file)))
+      .sort();
+    for (const file of files) {
+      sources.push({ source: path.posix.join('.sherpa/rules', file), resolve: () => path.join(rulesDir, file) });
+    }
+  }
+
+  const requireFromProject = createRequire(path.join(projectRoot, 'package.json'));
+  for (const name of config.plugins || []) {
+    sources.push({ source: name, resolve: () => requireFromProject.resolve(name) });
+  }
+
+  for (const { source, resolve } of sources) {
+    let exported: unknown;
+    try {
+      exported = await import(pathToFileURL(resolve()).href);
+    } catch (error) {
+      errors.push(`${source}: could not load (${error instanceof Error ? error.message : error})`);
+      continue;
+    }
+
+    const candidates = collectRules(exported);
+    if (candidates.length === 0) {
+      errors.push(`${source}: exports no rules`);
+      continue;
+    }
+
+    for (const candidate of candidates) {
+      const problems = validateLintRule(candidate);
+      if (problems.length > 0) {
+        const id = (candidate as Partial<AILintRule> | null)?.id;
+        errors.push(`${source}: ${typeof id === 'string' ? `rule "${id}"` : 'a rule'}: ${problems.join('; ')}`);
+        continue;
+      }
+
+      const rule = candidate as AILintRule;
+      if (seen.has(rule.id)) {
+        errors.push(`${source}: rule ${rule.id} is already defined`);
+      } else {
+        seen.add(rule.id);
+        rules.push({ ...rule, source });
+      }
+    }
+  }
+
+  return { rules, errors };
+}
+
+/**
+ * Checks a plugin rule has everything the linter relies on; returns what is wrong.
+ */
+export function validateLintRule(rule: unknown): string[] {
+  if (typeof rule !== 'object' || rule === null) {
+    return ['is not an object'];
+  }
+
+  const candidate = rule as Record<string, unknown>;
+  const problems: string[] = [];
+  if (typeof candidate.id !== 'string' || !/^[a-z0-9]+(-[a-z0-9]+)*(\/[a-z0-9]+(-[a-z0-9]+)*)?$/.test(candidate.id)) {
+    problems.push('id must be lower-case letters, digits and dashes, optionally prefixed with "plugin/"');
+  }
+  for (const key of ['name', 'description'] as const) {
+    if (typeof candidate[key] !== 'string' || candidate[key] === '') {
+      problems.push(`${key} must be a non-empty string`);
+    }
+  }
+  if (!LINT_RULE_CATEGORIES.includes(candidate.category as AILintRule['category'])) {
+    problems.push(`category must be one of ${LINT_RULE_CATEGORIES.join(', ')}`);
+  }
+  if (!LINT_SEVERITIES.includes(candidate.severity as AILintRule['severity'])) {
+    problems.push(`severity must be one of ${LINT_SEVERITIES.join(', ')}`);
+  }
+  if (typeof candidate.check !== 'function') {
+    problems.push('check must be a function (node, context, options) returning an issue or null');
+  }
+  if (candidate.defaultOptions !== undefined
+    && (typeof candidate.defaultOptions !== 'object' || candidate.defaultOptions === null || Array.isArray(candidate.defaultOptions))) {
+    problems.push('defaultOptions must be an object');
+  }
+  return problems;
+}
+
+// Other exports count only when they are complete rules, so helpers exported alongside are ignored
+function collectRules(exported: unknown): unknown[] {
+  const module = exported as Record<string, unknown>;
+  const found: unknown[] = [];
+  const add = (values: unknown[]) => values.forEach(value => {
+    if (!found.includes(value)) found.push(value);
+  });
+  const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+  const scanned = Object.values(module);
+  for (const value of [module.default, module.rules, module.rule]) {
+    if (Array.isArray(value)) {
+      add(value);
+    } else if (isObject(value) && Array.isArray(value.rules)) {
+      add(value.rules);
+    } else if (isObject(value) && ('id' in value || 'check' in value)) {
+      add([value]);
+    } else if (isObject(value)) {
+      // A CommonJS `module.exports = { noFoo, noBar }` arrives as the default export
+      scanned.push(...Object.values(value));
+    }
+  }
+
+  add(scanned.filter(value => !found.includes(value) && validateLintRule(value).length === 0));
+  return found;
+}
\ No newline at end of file
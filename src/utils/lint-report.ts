@@ -0,0 +1,280 @@
+import * as path from 'path';
+import { AILintIssue } from './ai-linter.js';
+import { LintConfig, LintSeverity, ResolvedRuleSettings, resolveRuleSettings } from './lint-config.js';
+
+export type LintReportFormat = 'text' | 'json' | 'sarif' | 'junit' | 'markdown';
+
+export const LINT_REPORT_FORMATS: LintReportFormat[] = ['text', 'json', 'sarif', 'junit', 'markdown'];
+
+export const SEVERITY_LEVELS: Record<LintSeverity, number> = { error: 3, warning: 2, info: 1 };
+
+// Rule metadata the reports describe; plugin and suppression rules fit it too
+export interface LintReportRule {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  severity: LintSeverity;
+  source?: string;
+  // False when lint.yml turns the rule off
+  enabled?: boolean;
+}
+
+export interface LintReportInput {
+  results: Record<string, AILintIssue[]>;
+  rules: LintReportRule[];
+  projectRoot: string;
+}
+
+const TOOL_NAME = 'sherpa lint:ai';
+const SARIF_LEVELS: Record<LintSeverity, 'error' | 'warning' | 'note'> = { error: 'error', warning: 'warning', info: 'note' };
+
+/**
+ * Renders lint results in a machine- or human-readable format. `text` is left to
+ * `AILinter.formatResults`, which the terminal output already uses.
+ */
+export function formatLintReport(format: Exclude<LintReportFormat, 'text'>, input: LintReportInput): string {
+  switch (format) {
+    case 'json':
+      return formatJsonReport(input);
+    case 'sarif':
+      return formatSarifReport(input);
+    case 'junit':
+      return formatJunitReport(input);
+    case 'markdown':
+      return formatMarkdownReport(input);
+  }
+}
+
+/**
+ * Gives each rule the severity and on/off state from lint.yml's top-level `rules`, which is
+ * what a report's rule list should show; per-path overrides only apply to matching files.
+ */
+export function describeLintRules(rules: LintReportRule[], config: LintConfig): LintReportRule[] {
+  const settings = resolveRuleSettings(rules, { rules: config.rules }, '');
+  return rules.map(rule => {
+    const { severity, enabled } = settings.get(rule.id) as ResolvedRuleSettings;
+    return { ...rule, severity, enabled };
+  });
+}
+
+/**
+ * Counts issues at or above a severity, for exit codes.
+ */
+export function countIssuesAtOrAbove(results: Record<string, AILintIssue[]>, severity: LintSeverity): number {
+  return Object.values(results)
+    .flat()
+    .filter(issue => SEVERITY_LEVELS[issue.severity] >= SEVERITY_LEVELS[severity])
+    .length;
+}
+
+function formatJsonReport({ results, projectRoot }: LintReportInput): string {
+  const issues = Object.values(results).flat();
+  const report = {
+    tool: TOOL_NAME,
+    generatedAt: new Date().toISOString(),
+    summary: {
+      issues: issues.length,
+      files: Object.keys(results).length,
+      error: issues.filter(issue => issue.severity === 'error').length,
+      warning: issues.filter(issue => issue.severity === 'warning').length,
+      info: issues.filter(issue => issue.severity === 'info').length,
+      fixable: issues.filter(issue => issue.fix).length
+    },
+    files: Object.entries(results).map(([file, fileIssues]) => ({
+      path: relativePath(file, projectRoot),
+      issues: fileIssues.map(issue => ({
+        ruleId: issue.ruleId,
+        severity: issue.severity,
+        message: issue.message,
+        line: issue.line,
+        column: issue.column,
+        ...(issue.suggestion ? { suggestion: issue.suggestion } : {}),
+        fixable: !!issue.fix
+      }))
+    }))
+  };
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * SARIF 2.1.0, the format code-scanning services and editor SARIF viewers read. Columns
+ * are 1-based there, and available fixes become `fixes` with character-offset replacements.
+ */
+function formatSarifReport({ results, rules, projectRoot }: LintReportInput): string {
+  const ruleIndex = new Map(rules.map((rule, index) => [rule.id, index]));
+
+  const sarifResults = Object.entries(results).flatMap(([file, issues]) => {
+    const artifactLocation = { uri: relativeUri(file, projectRoot), uriBaseId: '%SRCROOT%' };
+    return issues.map(issue => ({
+      ruleId: issue.ruleId,
+      ...(ruleIndex.has(issue.ruleId) ? { ruleIndex: ruleIndex.get(issue.ruleId) } : {}),
+      level: SARIF_LEVELS[issue.severity],
+      message: { text: issue.message },
+      locations: [{
+        physicalLocation: {
+          artifactLocation,
+          region: { startLine: Math.max(issue.line, 1), startColumn: issue.column + 1 }
+        }
+      }],
+      ...(issue.fix ? {
+        fixes: [{
+          description: { text: issue.suggestion || 'Apply the fix from sherpa lint:ai --fix' },
+          artifactChanges: [{
+            artifactLocation,
+            replacements: issue.fix.map(edit => ({
+              deletedRegion: { charOffset: edit.range[0], charLength: edit.range[1] - edit.range[0] },
+              insertedContent: { text: edit.text }
+            }))
+          }]
+        }]
+      } : {}),
+      ...(issue.suggestion ? { properties: { suggestion: issue.suggestion } } : {})
+    }));
+  });
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: TOOL_NAME,
+          rules: rules.map(rule => ({
+            id: rule.id,
+            name: toPascalCase(rule.id),
+            shortDescription: { text: rule.name },
+            fullDescription: { text: rule.description },
+            defaultConfiguration: { level: SARIF_LEVELS[rule.severity], ...(rule.enabled === false ? { enabled: false } : {}) },
+            properties: {
+              category: rule.category,
+              tags: [rule.category],
+              ...(rule.source ? { source: rule.source } : {})
+            }
+          }))
+        }
+      },
+      originalUriBaseIds: {
+        '%SRCROOT%': { uri: pathToDirectoryUri(projectRoot) }
+      },
+      results: sarifResults
+    }]
+  };
+  return JSON.stringify(sarif, null, 2);
+}
+
+/**
+ * JUnit XML with a test suite per file and a failing test case per issue, for CI
+ * systems that show test reports.
+ */
+function formatJunitReport({ results, projectRoot }: LintReportInput): string {
+  const suites = Object.entries(results).map(([file, issues]) => {
+    const name = relativePath(file, projectRoot);
+    const cases = issues.map(issue => {
+      const detail = `${name}:${issue.line}:${issue.column + 1} ${issue.severity} ${issue.message}${issue.suggestion ? `\n${issue.suggestion}` : ''}`;
+      return `    <testcase classname="${escapeXml(name)}" name="${escapeXml(`${issue.ruleId} (line ${issue.line})`)}">\n`
+        + `      <failure type="${issue.severity}" message="${escapeXml(issue.message)}">${escapeXml(detail)}</failure>\n`
+        + '    </testcase>';
+    });
+    return `  <testsuite name="${escapeXml(name)}" tests="${issues.length}" failures="${issues.length}" errors="0">\n${cases.join('\n')}\n  </testsuite>`;
+  });
+
+  const total = Object.values(results).reduce((sum, issues) => sum + issues.length, 0);
+  return '<?xml version="1.0" encoding="UTF-8"?>\n'
+    + `<testsuites name="${TOOL_NAME}" tests="${total}" failures="${total}" errors="0">\n`
+    + suites.map(suite => `${suite}\n`).join('')
+    + '</testsuites>\n';
+}
+
+function formatMarkdownReport({ results, projectRoot }: LintReportInput): string {
+  const timestamp = new Date().toISOString();
+  let totalIssues = 0;
+
+  let report = `# AI Code Quality Report
+*Generated: ${timestamp}*
+
+## Summary
+`;
+
+  // Count issues by severity
+  const severityCounts = { error: 0, warning: 0, info: 0 };
+  for (const issues of Object.values(results)) {
+    for (const issue of issues) {
+      severityCounts[issue.severity]++;
+      totalIssues++;
+    }
+  }
+
+  report += `
+- **Total Issues**: ${totalIssues}
+- **Files Affected**: ${Object.keys(results).length}
+- **Errors**: ${severityCounts.error}
+- **Warnings**: ${severityCounts.warning}
+- **Info**: ${severityCounts.info}
+
+## Issues by File
+`;
+
+  for (const [file, issues] of Object.entries(results)) {
+    report += `\n### ${relativePath(file, projectRoot)}\n`;
+
+    issues.forEach(issue => {
+      const icon = issue.severity === 'error' ? '❌' :
+                  issue.severity === 'warning' ? '⚠️' : 'ℹ️';
+      report += `\n${icon} **Line ${issue.line}**: ${issue.message}\n`;
+      if (issue.suggestion) {
+        report += `   💡 *Suggestion*: ${issue.suggestion}\n`;
+      }
+    });
+  }
+
+  report += `\n## Common AI Patterns Detected
+
+This report identifies code patterns that are commonly generated by AI tools and may indicate:
+
+1. **Over-abstraction**: Unnecessary interfaces, generics, or design patterns
+2. **Missing error handling**: Async functions without proper try-catch blocks
+3. **Security issues**: Hardcoded secrets or credentials
+4. **Type safety**: Usage of 'any' type instead of specific types
+5. **Performance issues**: Inefficient array operations or loops
+
+## Recommendations
+
+- Review flagged patterns to ensure they align with your codebase standards
+- Consider simplifying over-abstracted code
+- Add proper error handling to async functions
+- Move sensitive data to environment variables
+- Use specific TypeScript types instead of 'any'
+- Optimize performance-critical code sections
+
+---
+*Generated by Sherpa OS AI Linter*`;
+
+  return report;
+}
+
+function relativePath(file: string, projectRoot: string): string {
+  return path.relative(projectRoot, path.resolve(file)).split(path.sep).join('/');
+}
+
+function relativeUri(file: string, projectRoot: string): string {
+  return relativePath(file, projectRoot).split('/').map(encodeURIComponent).join('/');
+}
+
+function pathToDirectoryUri(directory: string): string {
+  const normalized = path.resolve(directory).split(path.sep).map(encodeURIComponent).join('/');
+  return `file://${normalized.startsWith('/') ? '' : '/'}${normalized}/`;
+}
+
+function toPascalCase(id: string): string {
+  return id.split(/[-/]/).map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
\ No newline at end of file
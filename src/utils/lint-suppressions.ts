@@ -0,0 +1,138 @@
+import * as t from '@babel/types';
+
+export type SuppressionKind = 'next-line' | 'block' | 'file';
+
+export interface Suppression {
+  kind: SuppressionKind;
+  // Empty means every rule
+  rules: string[];
+  reason?: string;
+  line: number;
+  column: number;
+  // Lines the suppression covers, inclusive
+  startLine: number;
+  endLine: number;
+  used: boolean;
+}
+
+export interface SuppressionProblem {
+  ruleId: string;
+  message: string;
+  line: number;
+  column: number;
+}
+
+// Findings about the suppression comments themselves; lint.yml can configure them like any rule
+export const SUPPRESSION_RULES = [
+  {
+    id: 'suppression-reason',
+    name: 'Suppression Reason',
+    description: 'sherpa-disable comments must say why, after "--"',
+    severity: 'warning' as const
+  },
+  {
+    id: 'unused-suppression',
+    name: 'Unused Suppression',
+    description: 'sherpa-disable comments that no longer suppress anything',
+    severity: 'warning' as const
+  }
+];
+
+const DIRECTIVE = /^sherpa-(disable-next-line|disable-file|disable|enable)(?=\s|$)(.*)$/s;
+
+/**
+ * Reads `sherpa-disable-next-line`, `sherpa-disable` / `sherpa-enable` and
+ * `sherpa-disable-file` directives from the file's comments. Each takes an optional
+ * comma or space separated rule list (all rules when empty) and a reason after `--`:
+ *
+ *   // sherpa-disable-next-line avoid-any-type -- third-party callback has no types
+ *
+ * A `sherpa-disable` block runs to the next `sherpa-enable` naming one of its rules (or
+ * naming none), or to the end of the file.
+ */
+export function parseSuppressions(comments: t.Comment[], lastLine: number): { suppressions: Suppression[]; problems: SuppressionProblem[] } {
+  const suppressions: Suppression[] = [];
+  const problems: SuppressionProblem[] = [];
+  const open: Suppression[] = [];
+
+  for (const comment of comments) {
+    const match = comment.value.trim().match(DIRECTIVE);
+    if (!match || !comment.loc) continue;
+
+    const [, directive, rest = ''] = match;
+    const [ruleText = '', ...reasonParts] = rest.split('--');
+    const rules = ruleText.split(/[\s,]+/).filter(Boolean);
+    const reason = reasonParts.join('--').trim() || undefined;
+    const { line, column } = comment.loc.start;
+
+    if (directive === 'enable') {
+      const closing = open.filter(block => rules.length === 0 || block.rules.length === 0 || block.rules.some(rule => rules.includes(rule)));
+      if (closing.length === 0) {
+        problems.push({
+          ruleId: 'unused-suppression',
+          message: `sherpa-enable${rules.length ? ` ${rules.join(', ')}` : ''} has no matching sherpa-disable`,
+          line,
+          column
+        });
+      }
+      for (const block of closing) {
+        block.endLine = line;
+        open.splice(open.indexOf(block), 1);
+      }
+      continue;
+    }
+
+    const kind: SuppressionKind = directive === 'disable-next-line' ? 'next-line' : directive === 'disable-file' ? 'file' : 'block';
+    const suppression: Suppression = {
+      kind,
+      rules,
+      reason,
+      line,
+      column,
+      startLine: kind === 'next-line' ? comment.loc.end.line + 1 : kind === 'file' ? 1 : line,
+      endLine: kind === 'next-line' ? comment.loc.end.line + 1 : lastLine,
+      used: false
+    };
+    suppressions.push(suppression);
+    if (kind === 'block') {
+      open.push(suppression);
+    }
+
+    if (!reason) {
+      problems.push({
+        ruleId: 'suppression-reason',
+        message: `sherpa-${directive} needs a reason after "--"`,
+        line,
+        column
+      });
+    }
+  }
+
+  return { suppressions, problems };
+}
+
+/**
+ * Drops issues covered by a suppression, marking the suppressions that were needed.
+ */
+export function applySuppressions<T extends { ruleId: string; line: number }>(issues: T[], suppressions: Suppression[]): T[] {
+  return issues.filter(issue => {
+    const covering = suppressions.filter(suppression =>
+      issue.line >= suppression.startLine
+      && issue.line <= suppression.endLine
+      && (suppression.rules.length === 0 || suppression.rules.includes(issue.ruleId)));
+
+    covering.forEach(suppression => { suppression.used = true; });
+    return covering.length === 0;
+  });
+}
+
+export function findUnusedSuppressions(suppressions: Suppression[]): SuppressionProblem[] {
+  return suppressions
+    .filter(suppression => !suppression.used)
+    .map(suppression => ({
+      ruleId: 'unused-suppression',
+      message: `sherpa-disable${suppression.kind === 'block' ? '' : `-${suppression.kind}`}${suppression.rules.length ? ` ${suppression.rules.join(', ')}` : ''} does not suppress anything`,
+      line: suppression.line,
+      column: suppression.column
+    }));
+}
\ No newline at end of file
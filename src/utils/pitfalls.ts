@@ -0,0 +1,190 @@
+import { CommonPitfall } from './context.js';
+import { AIInteraction } from './session.js';
+import { tokenize } from './files-map.js';
+
+export interface PitfallLearning {
+  pitfalls: CommonPitfall[];
+  matched: Array<{ interactionId: string; pitfallId: string }>;
+  unmatched: AIInteraction[];
+}
+
+export const DEFAULT_PITFALLS: CommonPitfall[] = [
+  {
+    id: 'over-abstraction',
+    pattern: 'Creating interfaces for single implementations',
+    description: 'AI tends to create unnecessary abstractions',
+    solution: 'Start concrete, abstract when you have 2+ implementations',
+    frequency: 0,
+    examples: [],
+    keywords: ['interface', 'abstraction', 'single implementation', 'over-engineered']
+  },
+  {
+    id: 'missing-error-handling',
+    pattern: 'Functions without proper error handling',
+    description: 'AI often skips comprehensive error handling',
+    solution: 'Always handle edge cases and provide meaningful error messages',
+    frequency: 0,
+    examples: [],
+    keywords: ['error handling', 'unhandled', 'exception', 'edge case', 'crash']
+  }
+];
+
+const MAX_EXAMPLES = 5;
+const MAX_EXAMPLE_LENGTH = 200;
+// Pitfalls without keywords need this many words in common with the feedback
+const MIN_SHARED_WORDS = 2;
+
+/**
+ * Reads `.sherpa/context/pitfalls.md` as written by `renderPitfallsMarkdown`. Each `##`
+ * heading is a pitfall; hand-written entries without an id get one from their heading.
+ */
+export function parsePitfallsMarkdown(content: string): CommonPitfall[] {
+  const pitfalls: CommonPitfall[] = [];
+  let current: CommonPitfall | null = null;
+  let inExamples = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    const heading = line.match(/^##\s+(.+?)\s*$/);
+    if (heading) {
+      current = {
+        id: slugify(heading[1] as string),
+        pattern: heading[1] as string,
+        description: '',
+        solution: '',
+        frequency: 0,
+        examples: []
+      };
+      pitfalls.push(current);
+      inExamples = false;
+      continue;
+    }
+    if (!current) continue;
+
+    const field = line.match(/^\*\*([^*:]+):\*\*\s*(.*?)\s*$/);
+    if (field) {
+      const value = field[2] as string;
+      inExamples = false;
+      switch ((field[1] as string).trim().toLowerCase()) {
+        case 'id': current.id = value || current.id; break;
+        case 'problem':
+        case 'description': current.description = value; break;
+        case 'solution': current.solution = value; break;
+        case 'frequency': current.frequency = parseInt(value, 10) || 0; break;
+        case 'last seen': if (value) current.lastSeen = value; break;
+        case 'keywords': current.keywords = value.split(',').map(keyword => keyword.trim()).filter(Boolean); break;
+        case 'examples': inExamples = true; break;
+      }
+      continue;
+    }
+
+    const bullet = line.match(/^\s*[-*]\s+(.*?)\s*$/);
+    if (inExamples && bullet && bullet[1]) {
+      current.examples.push(bullet[1]);
+    }
+  }
+
+  return pitfalls;
+}
+
+export function renderPitfallsMarkdown(pitfalls: CommonPitfall[]): string {
+  return `# Common Pitfalls
+
+Mistakes AI assistants keep making in this project. Edit freely: \`sherpa context:build\` reads
+this file back, and failed AI interactions logged in sessions raise the frequency of the
+pitfall whose keywords they mention.
+
+${pitfalls.map(pitfall => `## ${oneLine(pitfall.pattern)}
+
+**ID:** ${pitfall.id}  
+**Description:** ${oneLine(pitfall.description)}  
+**Solution:** ${oneLine(pitfall.solution)}  
+**Frequency:** ${pitfall.frequency}  
+**Last Seen:** ${pitfall.lastSeen || ''}  
+**Keywords:** ${(pitfall.keywords || []).join(', ')}
+
+**Examples:**
+${pitfall.examples.map(example => `- ${oneLine(example)}`).join('\n')}
+`).join('\n')}`;
+}
+
+/**
+ * Finds the pitfall a piece of failure feedback describes: any keyword phrase whose
+ * words all appear wins, otherwise the pitfall sharing the most words with its pattern
+ * and description (at least two).
+ */
+export function matchPitfall(text: string, pitfalls: CommonPitfall[]): CommonPitfall | null {
+  const words = new Set(tokenize(text));
+  if (words.size === 0) return null;
+
+  let best: { pitfall: CommonPitfall; score: number } | null = null;
+  for (const pitfall of pitfalls) {
+    const keywordHits = (pitfall.keywords || [])
+      .map(keyword => tokenize(keyword))
+      .filter(keywordWords => keywordWords.length > 0 && keywordWords.every(word => words.has(word)))
+      .length;
+    const shared = new Set(tokenize(`${pitfall.pattern} ${pitfall.description}`).filter(word => words.has(word))).size;
+    const score = keywordHits > 0 ? 100 + keywordHits : shared >= MIN_SHARED_WORDS ? shared : 0;
+
+    if (score > 0 && (!best || score > best.score)) {
+      best = { pitfall, score };
+    }
+  }
+
+  return best?.pitfall || null;
+}
+
+/**
+ * Counts failed and partial AI interactions against the pitfalls they describe. Ids in
+ * `counted` were learned on an earlier build and are skipped, so rebuilding never
+ * inflates a frequency; unmatched interactions stay uncounted and can still match a
+ * pitfall added later.
+ */
+export function learnPitfalls(pitfalls: CommonPitfall[], interactions: AIInteraction[], counted: Set<string>): PitfallLearning {
+  const learned = pitfalls.map(pitfall => ({ ...pitfall, examples: [...pitfall.examples] }));
+  const matched: PitfallLearning['matched'] = [];
+  const unmatched: AIInteraction[] = [];
+
+  const failures = interactions
+    .filter(interaction => interaction.outcome !== 'success' && interaction.feedback && !counted.has(interaction.id))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  for (const interaction of failures) {
+    const pitfall = matchPitfall(interaction.feedback, learned);
+    if (!pitfall) {
+      unmatched.push(interaction);
+      continue;
+    }
+
+    pitfall.frequency += 1;
+    if (!pitfall.lastSeen || interaction.timestamp > pitfall.lastSeen) {
+      pitfall.lastSeen = interaction.timestamp;
+    }
+    const example = clip(oneLine(interaction.feedback));
+    pitfall.examples = [...pitfall.examples.filter(existing => existing !== example), example].slice(-MAX_EXAMPLES);
+    matched.push({ interactionId: interaction.id, pitfallId: pitfall.id });
+  }
+
+  return { pitfalls: learned, matched, unmatched };
+}
+
+/**
+ * One-line summary of how often a pitfall has been hit, for prompts: `3 times in this
+ * project, most recently: "..."`.
+ */
+export function describePitfallHistory(pitfall: CommonPitfall): string {
+  const latest = pitfall.examples[pitfall.examples.length - 1];
+  const times = `${pitfall.frequency} time${pitfall.frequency === 1 ? '' : 's'} in this project`;
+  return latest ? `${times}, most recently: "${latest}"` : times;
+}
+
+export function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'pitfall';
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function clip(text: string): string {
+  return text.length > MAX_EXAMPLE_LENGTH ? `${text.substring(0, MAX_EXAMPLE_LENGTH)}…` : text;
+}
\ No newline at end of file
@@ -0,0 +1,58 @@
+import * as path from 'path';
+import { fileExists, readYaml } from './fs.js';
+import { LintConfig } from './lint-config.js';
+
+export interface ProjectFilesConfig {
+  include?: string[];
+  exclude?: string[];
+  follow_symlinks?: boolean;
+}
+
+export interface ProjectPromptsConfig {
+  model?: string;
+  budgets?: Record<string, number>;
+}
+
+export interface ProjectConfig {
+  files?: ProjectFilesConfig;
+  prompts?: ProjectPromptsConfig;
+  lint?: LintConfig;
+}
+
+export function getProjectConfigPath(projectRoot: string): string {
+  return path.join(projectRoot, '.sherpa', 'config.yml');
+}
+
+/**
+ * Loads the optional `.sherpa/config.yml`. A missing file is an empty config; a file
+ * that is not valid YAML is an error, so a typo never silently widens what gets scanned.
+ */
+export async function loadProjectConfig(projectRoot: string): Promise<ProjectConfig> {
+  const configPath = getProjectConfigPath(projectRoot);
+  if (!await fileExists(configPath)) {
+    return {};
+  }
+
+  let config: ProjectConfig | null;
+  try {
+    config = await readYaml<ProjectConfig | null>(configPath);
+  } catch (error) {
+    throw new Error(`Invalid ${path.relative(projectRoot, configPath)}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const files = config?.files;
+  for (const key of ['include', 'exclude'] as const) {
+    const globs = files?.[key];
+    if (globs !== undefined && (!Array.isArray(globs) || globs.some(glob => typeof glob !== 'string'))) {
+      throw new Error(`Invalid ${path.relative(projectRoot, configPath)}: files.${key} must be a list of globs`);
+    }
+  }
+
+  const budgets = config?.prompts?.budgets;
+  if (budgets !== undefined && (typeof budgets !== 'object' || budgets === null || Array.isArray(budgets)
+    || Object.values(budgets).some(budget => typeof budget !== 'number' || !(budget > 0)))) {
+    throw new Error(`Invalid ${path.relative(projectRoot, configPath)}: prompts.budgets must map model names to positive token counts`);
+  }
+
+  return config || {};
+}
\ No newline at end of file
@@ -0,0 +1,169 @@
+import { promises as fs, Dirent } from 'fs';
+import * as path from 'path';
+import { globToRegExp, matchesAnyGlob } from './glob.js';
+import { loadProjectConfig } from './project-config.js';
+
+export interface WalkOptions {
+  extensions?: string[];
+  include?: string[];
+  exclude?: string[];
+  followSymlinks?: boolean;
+}
+
+export interface IgnoreRule {
+  base: string;
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+// Never project code, whatever the ignore files say
+const DEFAULT_EXCLUDES = ['node_modules', 'dist', 'coverage', '__pycache__', 'venv', 'site-packages'];
+
+const IGNORE_FILES = ['.gitignore', '.sherpaignore'];
+
+/**
+ * Lists project files for context building, linting and the files map. Hidden directories,
+ * common build output, `.gitignore` and `.sherpaignore` rules (at any depth) and the
+ * `files.exclude` globs in `.sherpa/config.yml` are skipped; `files.include` narrows the
+ * result. Symlinks are skipped unless `files.follow_symlinks` is set, and even then only
+ * links that stay inside the project and do not loop back are followed.
+ */
+export async function walkProjectFiles(projectRoot: string, options: WalkOptions = {}): Promise<string[]> {
+  const config = (await loadProjectConfig(projectRoot)).files || {};
+  const include = options.include || config.include || [];
+  const exclude = [...DEFAULT_EXCLUDES, ...(config.exclude || []), ...(options.exclude || [])];
+  const followSymlinks = options.followSymlinks ?? config.follow_symlinks ?? false;
+  const extensions = options.extensions;
+
+  const files: string[] = [];
+  const realRoot = await fs.realpath(projectRoot);
+  const visited = new Set<string>([realRoot]);
+
+  async function walkDir(dir: string, inheritedRules: IgnoreRule[]): Promise<void> {
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      // Skip directories we can't read
+      return;
+    }
+
+    const rules = [...inheritedRules];
+    for (const ignoreFile of IGNORE_FILES) {
+      if (entries.some(entry => entry.name === ignoreFile && entry.isFile())) {
+        const content = await fs.readFile(path.join(dir, ignoreFile), 'utf-8');
+        rules.push(...parseIgnoreFile(content, path.relative(projectRoot, dir)));
+      }
+    }
+
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      const relativePath = toPosix(path.relative(projectRoot, fullPath));
+      let isDirectory = entry.isDirectory();
+      let isFile = entry.isFile();
+
+      if (entry.isSymbolicLink()) {
+        if (!followSymlinks) continue;
+        const target = await resolveSymlink(fullPath, realRoot);
+        if (!target) continue;
+        isDirectory = target.isDirectory;
+        isFile = !target.isDirectory;
+        if (isDirectory) {
+          if (visited.has(target.realPath)) continue;
+          visited.add(target.realPath);
+        }
+      }
+
+      if (isDirectory) {
+        if (entry.name.startsWith('.') || matchesAnyGlob(relativePath, exclude) || isIgnored(rules, relativePath, true)) {
+          continue;
+        }
+        // A directory already reached through a link is not walked twice
+        if (followSymlinks && !entry.isSymbolicLink()) {
+          const realPath = await fs.realpath(fullPath).catch(() => fullPath);
+          if (visited.has(realPath)) continue;
+          visited.add(realPath);
+        }
+        await walkDir(fullPath, rules);
+      } else if (isFile) {
+        if (extensions && !extensions.some(ext => entry.name.endsWith(ext))) continue;
+        if (matchesAnyGlob(relativePath, exclude) || isIgnored(rules, relativePath, false)) continue;
+        if (include.length > 0 && !matchesAnyGlob(relativePath, include)) continue;
+        files.push(fullPath);
+      }
+    }
+  }
+
+  await walkDir(projectRoot, []);
+  return files;
+}
+
+/**
+ * Parses `.gitignore` syntax. Rules keep the directory they came from, so a nested
+ * ignore file only applies below its own directory.
+ */
+export function parseIgnoreFile(content: string, base: string = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (line === '' || line.startsWith('#')) continue;
+
+    const negated = line.startsWith('!');
+    if (negated) line = line.substring(1);
+    if (line.startsWith('\\#') || line.startsWith('\\!')) line = line.substring(1);
+
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) line = line.replace(/\/+$/, '');
+    if (line === '') continue;
+
+    // A slash anywhere but the end anchors the pattern to the ignore file's directory
+    const anchored = line.includes('/');
+    const pattern = anchored ? line.replace(/^\//, '') : `**/${line}`;
+
+    rules.push({ base: toPosix(base), regex: globToRegExp(pattern), negated, directoryOnly });
+  }
+
+  return rules;
+}
+
+/**
+ * The last matching rule wins, as in git. Ignored directories are never entered, so a
+ * negated rule cannot re-include a file inside one.
+ */
+export function isIgnored(rules: IgnoreRule[], relativePath: string, isDirectory: boolean): boolean {
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.base && !relativePath.startsWith(`${rule.base}/`)) continue;
+
+    const candidate = rule.base ? relativePath.substring(rule.base.length + 1) : relativePath;
+    if (rule.regex.test(candidate)) {
+      ignored = !rule.negated;
+    }
+  }
+
+  return ignored;
+}
+
+async function resolveSymlink(linkPath: string, realRoot: string): Promise<{ realPath: string; isDirectory: boolean } | null> {
+  try {
+    const realPath = await fs.realpath(linkPath);
+    // Links out of the project could pull in anything on disk
+    if (realPath !== realRoot && !realPath.startsWith(`${realRoot}${path.sep}`)) {
+      return null;
+    }
+    const stats = await fs.stat(realPath);
+    return { realPath, isDirectory: stats.isDirectory() };
+  } catch (error) {
+    // Broken link
+    return null;
+  }
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
\ No newline at end of file
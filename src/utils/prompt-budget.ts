@@ -0,0 +1,149 @@
+import { estimateTokens } from './tokens.js';
+
+export type SectionAction = 'kept' | 'summarised' | 'trimmed' | 'dropped';
+
+export interface PromptSection {
+  id: string;
+  content: string;
+  // Higher priorities are trimmed last; required sections are never trimmed
+  priority: number;
+  required?: boolean;
+}
+
+export interface SectionUsage {
+  id: string;
+  priority: number;
+  originalTokens: number;
+  tokens: number;
+  action: SectionAction;
+}
+
+export interface BudgetReport {
+  model: string;
+  budget: number;
+  totalTokens: number;
+  originalTokens: number;
+  overBudget: boolean;
+  sections: SectionUsage[];
+}
+
+export interface FittedSections {
+  sections: PromptSection[];
+  usage: SectionUsage[];
+  totalTokens: number;
+  originalTokens: number;
+  overBudget: boolean;
+}
+
+// Below this a trimmed section says too little to be worth its heading
+const MIN_SECTION_TOKENS = 40;
+const SUMMARY_BULLETS = 3;
+
+/**
+ * Fits sections into a token budget. Lowest-priority sections are summarised first (all
+ * of them, before anything is cut), then cut to whatever room is left, then dropped.
+ * Required sections are never touched; if they alone exceed the budget the result is
+ * marked over budget rather than losing the task itself.
+ */
+export function fitSections(sections: PromptSection[], budget: number): FittedSections {
+  const fitted = sections.map(section => ({ ...section }));
+  const usage: SectionUsage[] = fitted.map(section => {
+    const tokens = estimateTokens(section.content);
+    return { id: section.id, priority: section.priority, originalTokens: tokens, tokens, action: 'kept' };
+  });
+  const originalTokens = usage.reduce((sum, entry) => sum + entry.tokens, 0);
+  let total = originalTokens;
+
+  const trimOrder = fitted
+    .map((section, index) => ({ section, index }))
+    .filter(({ section }) => !section.required && section.content.trim() !== '')
+    .sort((a, b) => a.section.priority - b.section.priority);
+
+  const update = (index: number, content: string, action: SectionAction) => {
+    const entry = usage[index] as SectionUsage;
+    const tokens = estimateTokens(content);
+    total += tokens - entry.tokens;
+    (fitted[index] as PromptSection).content = content;
+    entry.tokens = tokens;
+    entry.action = action;
+  };
+
+  for (const { section, index } of trimOrder) {
+    if (total <= budget) break;
+    const summary = summarizeMarkdown(section.content);
+    if (estimateTokens(summary) < (usage[index] as SectionUsage).tokens) {
+      update(index, summary, 'summarised');
+    }
+  }
+
+  for (const { section, index } of trimOrder) {
+    if (total <= budget) break;
+    const allowance = (usage[index] as SectionUsage).tokens - (total - budget);
+    if (allowance >= MIN_SECTION_TOKENS) {
+      update(index, truncateToTokens(section.content, allowance), 'trimmed');
+    } else {
+      update(index, '', 'dropped');
+    }
+  }
+
+  return { sections: fitted, usage, totalTokens: total, originalTokens, overBudget: total > budget };
+}
+
+/**
+ * Shortens markdown to its outline: every heading with the first sentence under it and
+ * its first few bullets. Code blocks and further paragraphs are left out.
+ */
+export function summarizeMarkdown(content: string): string {
+  const output: string[] = [];
+  let hasLead = false;
+  let bullets = 0;
+  let inCode = false;
+
+  for (const line of content.split('\n')) {
+    if (/^\s*```/.test(line)) {
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode || line.trim() === '') continue;
+
+    if (/^#{1,6}\s/.test(line)) {
+      output.push(line);
+      hasLead = false;
+      bullets = 0;
+    } else if (/^\s*([-*+]|\d+\.)\s/.test(line)) {
+      if (bullets < SUMMARY_BULLETS && !/^\s{2,}/.test(line)) {
+        output.push(line);
+      }
+      bullets++;
+    } else if (!hasLead) {
+      output.push(line.match(/^.*?[.!?](?=\s|$)/)?.[0] || line);
+      hasLead = true;
+    }
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Cuts content at a line boundary so it fits in `maxTokens`, noting how much was left out.
+ */
+export function truncateToTokens(content: string, maxTokens: number): string {
+  const total = estimateTokens(content);
+  if (total <= maxTokens) {
+    return content;
+  }
+
+  const note = (omitted: number) => `_… ${omitted} more tokens left out to fit the token budget_`;
+  const room = maxTokens - estimateTokens(note(total));
+  const kept: string[] = [];
+  let used = 0;
+
+  for (const line of content.split('\n')) {
+    const cost = estimateTokens(`${line}\n`);
+    if (used + cost > room) break;
+    kept.push(line);
+    used += cost;
+  }
+
+  return `${kept.join('\n').trimEnd()}\n${note(total - used)}`;
+}
\ No newline at end of file
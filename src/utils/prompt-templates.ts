@@ -0,0 +1,338 @@
+import { PromptTemplate } from './prompts.js';
+import { parseFrontmatter, stringifyFrontmatter } from './frontmatter.js';
+
+export interface TemplateFrontmatter {
+  id?: string;
+  name?: string;
+  category?: string;
+  variables?: string[];
+  model?: string;
+  extends?: string;
+  abstract?: boolean;
+}
+
+export interface TemplateIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// Everything a template can pull in: other templates to extend and named partials
+export interface TemplateLibrary {
+  templates: PromptTemplate[];
+  partials: Record<string, string>;
+}
+
+// Values for `{{VARIABLES}}` and `{{#if}}` tests, and the lists `{{#each}}` walks
+export interface TemplateData {
+  values: Record<string, string>;
+  lists: Record<string, string[]>;
+}
+
+export const TEMPLATE_CATEGORIES: PromptTemplate['category'][] = ['feature', 'bugfix', 'refactor', 'test', 'docs'];
+
+// Every variable the prompt builder fills in, with what it holds
+export const TEMPLATE_VARIABLES: Record<string, string> = {
+  CONTEXT_SUMMARY: 'One-paragraph summary of the codebase from context:build',
+  CODE_PATTERNS: 'Code patterns relevant to the ticket',
+  ARCHITECTURAL_DECISIONS: 'Active architectural decisions relevant to the ticket',
+  DEVELOPMENT_STANDARDS: 'Coding standards from .sherpa/standards',
+  TESTING_STANDARDS: 'Testing standards from .sherpa/standards',
+  TECH_STACK: 'Tech stack from .sherpa/standards',
+  FEATURE_NAME: 'Ticket title',
+  EXPECTED_OUTCOME: 'Ticket outcome',
+  ACCEPTANCE_CRITERIA: 'Acceptance criteria as a bullet list',
+  API_DIFF: 'API changes as a bullet list',
+  UI_COMPONENTS: 'UI components as a bullet list',
+  TEST_PLAN: 'Unit and e2e test plan',
+  RELEVANT_FILES: 'Files where the relevant patterns are used',
+  PITFALLS: 'Pitfalls catalogue, most frequent first',
+  BUG_DESCRIPTION: 'Ticket outcome, for bug reports',
+  EXPECTED_BEHAVIOR: 'Expected behaviour, for bug reports',
+  ACTUAL_BEHAVIOR: 'Actual behaviour, for bug reports',
+  REPRODUCTION_STEPS: 'Steps to reproduce, for bug reports',
+  REFACTOR_TARGET: 'Ticket title, for refactors',
+  REFACTOR_REASON: 'Ticket outcome, for refactors',
+  SUCCESS_CRITERIA: 'Acceptance criteria on one line',
+  UNIT_TESTS: 'Unit tests from the test plan as a bullet list',
+  E2E_TESTS: 'End-to-end tests from the test plan as a bullet list'
+};
+
+// Variables that are lists of ticket entries and can be walked with `{{#each}}`
+export const TEMPLATE_LIST_VARIABLES = ['ACCEPTANCE_CRITERIA', 'API_DIFF', 'UI_COMPONENTS', 'UNIT_TESTS', 'E2E_TESTS'];
+
+// The shared sections every default template includes; written to .sherpa/prompts/partials
+// so a team can change them once for all templates
+export const DEFAULT_PARTIALS: Record<string, string> = {
+  context: `## Context
+{{CONTEXT_SUMMARY}}
+
+{{#if CODE_PATTERNS}}
+## Patterns to Follow
+{{CODE_PATTERNS}}
+
+{{/if}}
+{{#if ARCHITECTURAL_DECISIONS}}
+## Architectural Constraints
+{{ARCHITECTURAL_DECISIONS}}
+{{/if}}`,
+  standards: `## Development Standards
+{{DEVELOPMENT_STANDARDS}}
+
+## Tech Stack
+{{TECH_STACK}}
+
+## Testing Standards
+{{TESTING_STANDARDS}}`,
+  pitfalls: `## Common Pitfalls to Avoid
+{{PITFALLS}}`,
+  'house-rules': `## House Rules
+- Use only the technologies listed in the tech stack; don't add dependencies without checking it first
+- Follow the exact naming conventions and code patterns shown above
+- Include comprehensive error handling (common AI oversight)
+- Add proper TypeScript types for all new code
+- Avoid over-abstraction - keep it concrete initially
+- Write tests alongside implementation, not as an afterthought`
+};
+
+// `{{NAME}}` or `{{ NAME }}`; extraction, validation and filling all go through this one pattern
+export const TEMPLATE_VARIABLE_PATTERN = /{{\s*([A-Za-z_][A-Za-z0-9_]*)\s*}}/g;
+const HELPER_VARIABLE_PATTERN = /{{\s*#(?:if|unless|each)\s+([A-Za-z_][A-Za-z0-9_]*)\s*}}/g;
+const PARTIAL_PATTERN = /{{>\s*([\w-]+)\s*}}/g;
+const BLOCK_PATTERN = /{{#block\s+([\w-]+)\s*}}([\s\S]*?){{\/block}}/g;
+const LOGIC_TAG_PATTERN = /{{\s*(#(?:if|unless|each)\s+[A-Za-z_][A-Za-z0-9_]*|else|\/(?:if|unless|each))\s*}}/g;
+// A block tag alone on its line takes the line with it, so sections don't leave blank lines behind
+const STANDALONE_TAG_PATTERN = /^[ \t]*({{\s*(?:[#/](?:if|unless|each|block)\b[^}]*|else)\s*}})[ \t]*\r?\n/gm;
+const RESERVED_NAMES = ['this', 'else'];
+
+/**
+ * Variables a template body refers to, either directly as `{{NAME}}` or as the subject of
+ * an `{{#if}}`, `{{#unless}}` or `{{#each}}`.
+ */
+export function extractTemplateVariables(body: string): string[] {
+  const names = [
+    ...Array.from(body.matchAll(TEMPLATE_VARIABLE_PATTERN), match => match[1] as string),
+    ...Array.from(body.matchAll(HELPER_VARIABLE_PATTERN), match => match[1] as string)
+  ];
+  return Array.from(new Set(names.filter(name => !RESERVED_NAMES.includes(name))));
+}
+
+/**
+ * Flattens a template into a single body: follows `extends` to the root template,
+ * replacing each `{{#block name}}` in the parent with the child's block of the same name,
+ * then expands `{{> partial}}` includes. Conditionals and loops are left for
+ * {@link renderTemplateLogic}, which needs the ticket. Blocks cannot be nested.
+ */
+export function resolveTemplateBody(template: PromptTemplate, library: TemplateLibrary): string {
+  const chain: PromptTemplate[] = [template];
+  let current = template;
+  while (current.extends) {
+    const parentId = current.extends;
+    const parent = library.templates.find(candidate => candidate.id === parentId);
+    if (!parent) {
+      throw new Error(`Template ${current.id} extends unknown template: ${parentId}`);
+    }
+    if (chain.some(link => link.id === parent.id)) {
+      throw new Error(`Template inheritance cycle: ${[...chain, parent].map(link => link.id).join(' -> ')}`);
+    }
+    chain.push(parent);
+    current = parent;
+  }
+
+  // Start from the root and let each descendant override the blocks it defines
+  let body = (chain.pop() as PromptTemplate).template;
+  for (const descendant of chain.reverse()) {
+    const overrides = new Map(Array.from(descendant.template.matchAll(BLOCK_PATTERN), match => [match[1] as string, match[2] as string]));
+    body = body.replace(BLOCK_PATTERN, (block, name: string) =>
+      overrides.has(name) ? `{{#block ${name}}}${overrides.get(name)}{{/block}}` : block
+    );
+  }
+
+  return expandPartials(body.replace(STANDALONE_TAG_PATTERN, '$1').replace(BLOCK_PATTERN, '$2'), library.partials, []);
+}
+
+function expandPartials(body: string, partials: Record<string, string>, including: string[]): string {
+  return body.replace(PARTIAL_PATTERN, (_, name: string) => {
+    const partial = partials[name];
+    if (partial === undefined) {
+      throw new Error(`Unknown partial: {{> ${name}}}`);
+    }
+    if (including.includes(name)) {
+      throw new Error(`Partial includes itself: ${[...including, name].join(' -> ')}`);
+    }
+    return expandPartials(partial.trimEnd(), partials, [...including, name]);
+  });
+}
+
+type LogicNode =
+  | { type: 'text'; text: string }
+  | { type: 'if' | 'unless' | 'each'; name: string; children: LogicNode[]; inverse: LogicNode[] };
+
+/**
+ * Evaluates `{{#if NAME}}…{{else}}…{{/if}}`, `{{#unless NAME}}…{{/unless}}` and
+ * `{{#each LIST}}…{{/each}}`. A variable is true when it has a value or, for lists, at
+ * least one entry. Inside a loop `{{this}}` is the entry and `{{@number}}` its position
+ * from 1. Other `{{VARIABLES}}` are left for the budgeted fill.
+ */
+export function renderTemplateLogic(body: string, data: TemplateData): string {
+  // Sections that rendered empty would otherwise leave runs of blank lines
+  return renderNodes(parseLogic(body.replace(STANDALONE_TAG_PATTERN, '$1')), data, null).replace(/\n{3,}/g, '\n\n');
+}
+
+function parseLogic(body: string): LogicNode[] {
+  const root: LogicNode[] = [];
+  const stack: { node: Extract<LogicNode, { name: string }>; target: LogicNode[] }[] = [];
+  const current = () => stack[stack.length - 1]?.target ?? root;
+  let last = 0;
+
+  for (const match of body.matchAll(LOGIC_TAG_PATTERN)) {
+    const index = match.index as number;
+    if (index > last) {
+      current().push({ type: 'text', text: body.slice(last, index) });
+    }
+    last = index + match[0].length;
+
+    const tag = match[1] as string;
+    const open = tag.match(/^#(if|unless|each)\s+(\w+)$/);
+    if (open) {
+      const node = { type: open[1] as 'if' | 'unless' | 'each', name: open[2] as string, children: [], inverse: [] };
+      current().push(node);
+      stack.push({ node, target: node.children });
+    } else if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.target === top.node.inverse) {
+        throw new Error('{{else}} outside an {{#if}}, {{#unless}} or {{#each}}');
+      }
+      top.target = top.node.inverse;
+    } else {
+      const top = stack.pop();
+      const type = tag.slice(1);
+      if (!top || top.node.type !== type) {
+        throw new Error(`{{${tag}}} without a matching {{#${type}}}`);
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1]?.node as Extract<LogicNode, { name: string }>;
+    throw new Error(`{{#${open.type} ${open.name}}} is never closed`);
+  }
+  if (last < body.length) {
+    root.push({ type: 'text', text: body.slice(last) });
+  }
+  return root;
+}
+
+function renderNodes(nodes: LogicNode[], data: TemplateData, item: { value: string; number: number } | null): string {
+  return nodes.map(node => {
+    if (node.type === 'text') {
+      return item
+        ? node.text.replace(/{{\s*this\s*}}/g, () => item.value).replace(/{{\s*@number\s*}}/g, String(item.number))
+        : node.text;
+    }
+
+    if (node.type === 'each') {
+      const entries = data.lists[node.name] || [];
+      return entries.length > 0
+        ? entries.map((value, index) => renderNodes(node.children, data, { value, number: index + 1 })).join('')
+        : renderNodes(node.inverse, data, item);
+    }
+
+    const list = data.lists[node.name];
+    const present = list ? list.length > 0 : (data.values[node.name] || '').trim() !== '';
+    const branch = present === (node.type === 'if') ? node.children : node.inverse;
+    return renderNodes(branch, data, item);
+  }).join('');
+}
+
+/**
+ * Reads a Markdown template: YAML frontmatter (`id`, `name`, `category`, `variables`,
+ * `model`) and a body using `{{VARIABLES}}`. The id defaults to the file name and the
+ * declared variables to the ones the body uses.
+ */
+export function parseTemplateMarkdown(content: string, filename: string): PromptTemplate {
+  const { data, body } = parseFrontmatter<TemplateFrontmatter>(content);
+  const meta = data || {};
+  const id = String(meta.id || filename.replace(/\.md$/, ''));
+  const template = body.replace(/^\s*\n/, '').trimEnd();
+
+  return {
+    id,
+    name: String(meta.name || template.match(/^#\s+(.+)$/m)?.[1] || id),
+    category: (meta.category || 'feature') as PromptTemplate['category'],
+    template,
+    variables: Array.isArray(meta.variables) ? meta.variables.map(String) : extractTemplateVariables(template),
+    successRate: 0,
+    usageCount: 0,
+    lastUsed: '',
+    aiModel: meta.model ? String(meta.model) : 'any',
+    ...(meta.extends ? { extends: String(meta.extends) } : {}),
+    ...(meta.abstract ? { abstract: true } : {})
+  };
+}
+
+export function renderTemplateMarkdown(template: PromptTemplate): string {
+  const meta: TemplateFrontmatter = {
+    id: template.id,
+    name: template.name,
+    category: template.category,
+    variables: template.variables,
+    model: template.aiModel || 'any',
+    ...(template.extends ? { extends: template.extends } : {}),
+    ...(template.abstract ? { abstract: true } : {})
+  };
+  return stringifyFrontmatter(meta as Record<string, any>, `${template.template}\n`);
+}
+
+/**
+ * Checks a template against the variables the prompt builder knows, after following
+ * `extends` and partials through the library. Unknown variables, partials or parents and
+ * broken `{{#if}}`/`{{#each}}` nesting are errors (they would break or leak into the
+ * prompt); declared variables nothing uses, and used ones missing from `variables`, are
+ * warnings.
+ */
+export function validateTemplate(
+  template: PromptTemplate,
+  library: TemplateLibrary = { templates: [], partials: DEFAULT_PARTIALS }
+): TemplateIssue[] {
+  const issues: TemplateIssue[] = [];
+  const own = extractTemplateVariables(template.template);
+
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(template.id)) {
+    issues.push({ severity: 'error', message: `id "${template.id}" must be lower-case letters, digits and dashes` });
+  }
+  if (!TEMPLATE_CATEGORIES.includes(template.category)) {
+    issues.push({ severity: 'error', message: `unknown category "${template.category}" (use ${TEMPLATE_CATEGORIES.join(', ')})` });
+  }
+  if (template.template.trim() === '') {
+    issues.push({ severity: 'error', message: 'template body is empty' });
+  }
+  if (template.extends && template.template.replace(BLOCK_PATTERN, '').trim() !== '') {
+    issues.push({ severity: 'warning', message: `text outside {{#block}} sections is ignored because the template extends ${template.extends}` });
+  }
+
+  let used = own;
+  try {
+    const body = resolveTemplateBody(template, { templates: [...library.templates.filter(other => other.id !== template.id), template], partials: library.partials });
+    renderTemplateLogic(body, { values: {}, lists: {} });
+    used = extractTemplateVariables(body);
+    for (const match of body.matchAll(/{{\s*#each\s+(\w+)\s*}}/g)) {
+      if (!TEMPLATE_LIST_VARIABLES.includes(match[1] as string) && (match[1] as string) in TEMPLATE_VARIABLES) {
+        issues.push({ severity: 'error', message: `{{#each ${match[1]}}} needs a list (${TEMPLATE_LIST_VARIABLES.join(', ')})` });
+      }
+    }
+  } catch (error) {
+    issues.push({ severity: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+
+  for (const variable of used.filter(variable => !(variable in TEMPLATE_VARIABLES))) {
+    issues.push({ severity: 'error', message: `unknown variable {{${variable}}}` });
+  }
+  for (const variable of template.variables.filter(variable => !used.includes(variable))) {
+    issues.push({ severity: 'warning', message: `variable ${variable} is declared but never used` });
+  }
+  for (const variable of own.filter(variable => variable in TEMPLATE_VARIABLES && !template.variables.includes(variable))) {
+    issues.push({ severity: 'warning', message: `variable ${variable} is used but not declared in variables` });
+  }
+
+  return issues;
+}
\ No newline at end of file
@@ -1,7 +1,25 @@
 import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
 import * as path from 'path';
-import { getSherpaDir, ensureDir, writeJson, readJson, fileExists, writeMarkdown } from './fs.js';
+import { getSherpaDir, getSherpaRoot, ensureDir, writeJson, readJson, fileExists, writeMarkdown } from './fs.js';
 import { ContextManager, CompressedContext } from './context.js';
+import { describePitfallHistory } from './pitfalls.js';
+import { loadProjectConfig } from './project-config.js';
+import { resolveTokenBudget } from './tokens.js';
+import { BudgetReport, PromptSection, fitSections } from './prompt-budget.js';
+import {
+  DEFAULT_PARTIALS,
+  TEMPLATE_VARIABLE_PATTERN,
+  TemplateData,
+  TemplateIssue,
+  TemplateLibrary,
+  parseTemplateMarkdown,
+  renderTemplateLogic,
+  renderTemplateMarkdown,
+  resolveTemplateBody,
+  validateTemplate
+} from './prompt-templates.js';
+import { inferTicketCategory, selectTemplate } from './template-selection.js';
 import { Ticket, Spec } from '../types/index.js';
 
 export interface PromptTemplate {
@@ -14,8 +32,16 @@ export interface PromptTemplate {
   usageCount: number;
   lastUsed: string;
   aiModel?: string;
+  // Id of the template whose {{#block}} sections this one fills in
+  extends?: string;
+  // Base templates are only extended, never picked for a ticket
+  abstract?: boolean;
+  // File the template was loaded from, relative to the templates directory
+  file?: string;
 }
 
+export type PromptOutcome = 'success' | 'failure' | 'partial';
+
 export interface PromptVersion {
   id: string;
   templateId: string;
@@ -24,11 +50,22 @@ export interface PromptVersion {
   metadata: {
     createdAt: string;
     usedFor: string;
-    outcome: 'success' | 'failure' | 'partial';
+    // Pending until someone records how the prompt worked out
+    outcome: PromptOutcome | 'pending';
     feedback: string;
+    recordedAt?: string;
+    // Category inferred from the ticket and the target model, for per-category success rates
+    category?: string;
+    model?: string;
   };
 }
 
+export interface OutcomeCounts {
+  totalUses: number;
+  successCount: number;
+  failureCount: number;
+}
+
 export interface PromptPerformance {
   templateId: string;
   totalUses: number;
@@ -37,11 +74,56 @@ export interface PromptPerformance {
   averageRating: number;
   commonIssues: string[];
   lastAnalyzed: string;
+  // The same counts split by the category of the ticket the prompt was for
+  byCategory?: Record<string, OutcomeCounts>;
+}
+
+export interface PromptGenerationOptions {
+  model?: string;
+  // Use this template instead of picking one from the ticket
+  templateId?: string;
+  budget?: number;
+  // Sections placed before the template, such as the gen:prompt context injection
+  leadingSections?: PromptSection[];
 }
 
+export interface GeneratedPrompt {
+  content: string;
+  templateId: string;
+  // The saved prompt version, for recording its outcome later
+  versionId: string;
+  // Why this template was used, for showing alongside the prompt
+  templateReason: string;
+  templateIssues: TemplateIssue[];
+  budget: BudgetReport;
+}
+
+// The order template variables give way in under a tight budget; variables not listed
+// describe the ticket itself and are never trimmed
+const VARIABLE_PRIORITIES: Record<string, number> = {
+  CONTEXT_SUMMARY: 90,
+  ARCHITECTURAL_DECISIONS: 80,
+  PITFALLS: 70,
+  CODE_PATTERNS: 60,
+  RELEVANT_FILES: 55,
+  TECH_STACK: 50,
+  TESTING_STANDARDS: 40,
+  DEVELOPMENT_STANDARDS: 30
+};
+
+// What an empty variable reads as in the prompt
+const EMPTY_VALUES: Record<string, string> = {
+  DEVELOPMENT_STANDARDS: 'No coding standards found',
+  TESTING_STANDARDS: 'No testing standards found',
+  TECH_STACK: 'No tech stack documented',
+  API_DIFF: 'None specified',
+  UI_COMPONENTS: 'None specified'
+};
+
 export class PromptManager {
   private promptsDir: string;
   private templatesPath: string;
+  private partialsPath: string;
   private versionsPath: string;
   private performancePath: string;
   private contextManager: ContextManager;
@@ -49,6 +131,7 @@ export class PromptManager {
   constructor() {
     this.promptsDir = path.join(getSherpaDir(), 'prompts');
     this.templatesPath = path.join(this.promptsDir, 'templates');
+    this.partialsPath = path.join(this.promptsDir, 'partials');
     this.versionsPath = path.join(this.promptsDir, 'versions');
     this.performancePath = path.join(this.promptsDir, 'performance.json');
     this.contextManager = new ContextManager();
@@ -58,43 +141,67 @@ export class PromptManager {
     await ensureDir(this.templatesPath);
     await ensureDir(this.versionsPath);
     
-    // Create default templates if they don't exist
+    // Create default templates if they don't exist; a legacy JSON template of the same id counts
     const defaultTemplates = this.getDefaultTemplates();
     
     for (const template of defaultTemplates) {
-      const templatePath = path.join(this.templatesPath, `${template.id}.json`);
-      if (!await fileExists(templatePath)) {
-        await writeJson(templatePath, template);
+      const exists = await fileExists(path.join(this.templatesPath, `${template.id}.md`)) ||
+        await fileExists(path.join(this.templatesPath, `${template.id}.json`));
+      if (!exists) {
+        await this.saveTemplate(template);
+      }
+    }
+
+    for (const [name, content] of Object.entries(DEFAULT_PARTIALS)) {
+      const partialPath = path.join(this.partialsPath, `${name}.md`);
+      if (!await fileExists(partialPath)) {
+        await writeMarkdown(partialPath, content);
       }
     }
   }
 
+  getTemplatesPath(): string {
+    return this.templatesPath;
+  }
+
   private getDefaultTemplates(): PromptTemplate[] {
+    const counters = { successRate: 0, usageCount: 0, lastUsed: '', aiModel: 'any' };
+
     return [
       {
-        id: 'feature-implementation',
-        name: 'Feature Implementation',
+        id: 'base',
+        name: 'Base Task',
         category: 'feature',
-        template: `# Feature Implementation Task
+        abstract: true,
+        template: `# {{#block title}}Task{{/block}}
 
-## Context
-{{CONTEXT_SUMMARY}}
+{{> context}}
 
-## Development Standards
-{{DEVELOPMENT_STANDARDS}}
+{{#block task}}{{/block}}
 
-## Tech Stack
-{{TECH_STACK}}
+{{> standards}}
 
-## Testing Standards
-{{TESTING_STANDARDS}}
+{{#block guidance}}{{/block}}
 
-## Patterns to Follow
-{{CODE_PATTERNS}}
+{{#if RELEVANT_FILES}}
+## Files to Reference
+{{RELEVANT_FILES}}
 
-## Architectural Constraints
-{{ARCHITECTURAL_DECISIONS}}
+{{/if}}
+{{> pitfalls}}
 
+{{> house-rules}}`,
+        variables: ['RELEVANT_FILES'],
+        ...counters
+      },
+      {
+        id: 'feature-implementation',
+        name: 'Feature Implementation',
+        category: 'feature',
+        extends: 'base',
+        template: `{{#block title}}Feature Implementation Task{{/block}}
+
+{{#block task}}
 ## Task Requirements
 **Feature**: {{FEATURE_NAME}}
 **Outcome**: {{EXPECTED_OUTCOME}}
@@ -102,132 +209,117 @@ export class PromptManager {
 **Acceptance Criteria**:
 {{ACCEPTANCE_CRITERIA}}
 
+{{#if API_DIFF}}
 **API Changes**:
 {{API_DIFF}}
 
+{{/if}}
+{{#if UI_COMPONENTS}}
 **UI Components**:
 {{UI_COMPONENTS}}
 
+{{/if}}
 ## Test Requirements
 {{TEST_PLAN}}
-
-## Important Reminders
-- Follow the development standards and tech stack specified above
-- Use only the technologies listed in the tech stack
-- Follow established code patterns shown above
-- Include comprehensive error handling (common AI oversight)
-- Add proper TypeScript types for all new code
-- Write tests that match the acceptance criteria
-- Avoid over-abstraction - keep it concrete initially
-
-## Files to Reference
-{{RELEVANT_FILES}}
-
-## Common Pitfalls to Avoid
-{{PITFALLS}}
-
-## AI-Specific Guidelines
-- Don't introduce new dependencies without checking the tech stack first
-- Follow the exact naming conventions specified in standards
-- Implement error handling patterns consistently
-- Write tests alongside implementation, not as an afterthought`,
-        variables: ['CONTEXT_SUMMARY', 'DEVELOPMENT_STANDARDS', 'TECH_STACK', 'TESTING_STANDARDS', 'CODE_PATTERNS', 'ARCHITECTURAL_DECISIONS', 'FEATURE_NAME', 'EXPECTED_OUTCOME', 'ACCEPTANCE_CRITERIA', 'API_DIFF', 'UI_COMPONENTS', 'TEST_PLAN', 'RELEVANT_FILES', 'PITFALLS'],
-        successRate: 0,
-        usageCount: 0,
-        lastUsed: '',
-        aiModel: 'any'
+{{/block}}`,
+        variables: ['FEATURE_NAME', 'EXPECTED_OUTCOME', 'ACCEPTANCE_CRITERIA', 'API_DIFF', 'UI_COMPONENTS', 'TEST_PLAN'],
+        ...counters
       },
       {
         id: 'bug-fix',
         name: 'Bug Fix',
         category: 'bugfix',
-        template: `# Bug Fix Task
-
-## Context
-{{CONTEXT_SUMMARY}}
-
-## Current Patterns
-{{CODE_PATTERNS}}
+        extends: 'base',
+        template: `{{#block title}}Bug Fix Task{{/block}}
 
+{{#block task}}
 ## Bug Report
 **Issue**: {{BUG_DESCRIPTION}}
 **Expected**: {{EXPECTED_BEHAVIOR}}
 **Actual**: {{ACTUAL_BEHAVIOR}}
 **Steps to Reproduce**: {{REPRODUCTION_STEPS}}
 
-## Files Involved
-{{RELEVANT_FILES}}
+## Test Strategy
+{{TEST_PLAN}}
+{{/block}}
 
+{{#block guidance}}
 ## Fix Requirements
 - Maintain existing patterns and architecture
 - Add tests to prevent regression
 - Update documentation if necessary
 - Consider edge cases that might have similar issues
-
-## Test Strategy
-{{TEST_PLAN}}
-
-## Avoid These Common Mistakes
-{{PITFALLS}}`,
-        variables: ['CONTEXT_SUMMARY', 'CODE_PATTERNS', 'BUG_DESCRIPTION', 'EXPECTED_BEHAVIOR', 'ACTUAL_BEHAVIOR', 'REPRODUCTION_STEPS', 'RELEVANT_FILES', 'TEST_PLAN', 'PITFALLS'],
-        successRate: 0,
-        usageCount: 0,
-        lastUsed: '',
-        aiModel: 'any'
+{{/block}}`,
+        variables: ['BUG_DESCRIPTION', 'EXPECTED_BEHAVIOR', 'ACTUAL_BEHAVIOR', 'REPRODUCTION_STEPS', 'TEST_PLAN'],
+        ...counters
       },
       {
         id: 'refactor',
         name: 'Code Refactoring',
         category: 'refactor',
-        template: `# Refactoring Task
-
-## Context
-{{CONTEXT_SUMMARY}}
-
-## Current Patterns
-{{CODE_PATTERNS}}
+        extends: 'base',
+        template: `{{#block title}}Refactoring Task{{/block}}
 
+{{#block task}}
 ## Refactoring Goal
 **Target**: {{REFACTOR_TARGET}}
 **Reason**: {{REFACTOR_REASON}}
-**Success Criteria**: {{SUCCESS_CRITERIA}}
 
+**Success Criteria**:
+{{#each ACCEPTANCE_CRITERIA}}
+{{@number}}. {{this}}
+{{/each}}
+{{/block}}
+
+{{#block guidance}}
 ## Constraints
 - Must maintain existing functionality (no behavior changes)
 - Keep existing tests passing
 - Follow established patterns
 - Improve code quality metrics
 
-## Architectural Decisions to Respect
-{{ARCHITECTURAL_DECISIONS}}
-
-## Files to Modify
-{{RELEVANT_FILES}}
-
 ## Testing Strategy
 - All existing tests must pass
 - Add tests for new internal structure if needed
 - Consider integration test coverage
-
-## Common Refactoring Pitfalls
-{{PITFALLS}}`,
-        variables: ['CONTEXT_SUMMARY', 'CODE_PATTERNS', 'REFACTOR_TARGET', 'REFACTOR_REASON', 'SUCCESS_CRITERIA', 'ARCHITECTURAL_DECISIONS', 'RELEVANT_FILES', 'PITFALLS'],
-        successRate: 0,
-        usageCount: 0,
-        lastUsed: '',
-        aiModel: 'any'
+{{/block}}`,
+        variables: ['REFACTOR_TARGET', 'REFACTOR_REASON', 'ACCEPTANCE_CRITERIA'],
+        ...counters
       }
     ];
   }
 
-  async generatePrompt(ticket: Ticket, spec?: Spec): Promise<string> {
+  async generatePrompt(ticket: Ticket, spec?: Spec, options: PromptGenerationOptions = {}): Promise<string> {
+    return (await this.generateBudgetedPrompt(ticket, spec, options)).content;
+  }
+
+  /**
+   * Fills the best template for the ticket and fits the result, together with any leading
+   * sections, into the token budget for the target model.
+   */
+  async generateBudgetedPrompt(ticket: Ticket, spec?: Spec, options: PromptGenerationOptions = {}): Promise<GeneratedPrompt> {
     const context = await this.contextManager.getCompressedContext();
     if (!context) {
       throw new Error('No context found. Run `sherpa context:build` first.');
     }
 
-    // Determine the best template based on ticket content
-    const template = await this.selectBestTemplate(ticket, spec);
+    const config = (await loadProjectConfig(getSherpaRoot())).prompts || {};
+    const model = options.model || config.model;
+
+    // Use the requested template, or score the templates against the ticket and past outcomes
+    const library = await this.loadTemplateLibrary();
+    let template: PromptTemplate;
+    let templateReason: string;
+    if (options.templateId) {
+      const requested = library.templates.find(candidate => candidate.id === options.templateId);
+      if (!requested) {
+        throw new Error(`Prompt template not found: ${options.templateId}. Run \`sherpa prompt:template list\` to see the available templates.`);
+      }
+      template = requested;
+      templateReason = 'requested explicitly';
+    } else {
+      ({ template, reason: templateReason } = selectTemplate(library.templates, ticket, await this.analyzePromptPerformance(), model));
+    }
     
     // Get relevant context for this specific task
     const relevantContext = await this.contextManager.searchSimilarContext(
@@ -237,8 +329,14 @@ export class PromptManager {
     // Load development standards
     const standards = await this.loadStandards();
 
+    const tokenBudget = resolveTokenBudget(options.model, {
+      budget: options.budget,
+      configModel: config.model,
+      configBudgets: config.budgets
+    });
+
     // Build the prompt by replacing variables
-    const promptContent = this.fillTemplate(template, {
+    const data = this.buildTemplateData({
       ticket,
       spec,
       context,
@@ -246,55 +344,50 @@ export class PromptManager {
       standards
     });
 
-    // Save this prompt version for performance tracking
-    await this.savePromptVersion(template.id, promptContent, ticket);
-
-    return promptContent;
-  }
+    // Flatten inheritance and partials, then evaluate conditionals and loops for this ticket
+    const body = renderTemplateLogic(resolveTemplateBody(template, library), data);
+    const { content: promptContent, report } = this.fillTemplate({ ...template, template: body }, data.values, options.leadingSections || [], tokenBudget);
 
-  private async selectBestTemplate(ticket: Ticket, spec?: Spec): Promise<PromptTemplate> {
-    const templates = await this.getTemplates();
-    
-    // Simple heuristics to select template - in practice, could be more sophisticated
-    if (ticket.title.toLowerCase().includes('fix') || ticket.title.toLowerCase().includes('bug')) {
-      const template = templates.find(t => t.category === 'bugfix');
-      if (template) return template;
-    }
-    
-    if (ticket.title.toLowerCase().includes('refactor') || ticket.outcome.includes('improve')) {
-      const template = templates.find(t => t.category === 'refactor');
-      if (template) return template;
-    }
+    // Save this prompt version for performance tracking
+    const versionId = await this.savePromptVersion(template.id, promptContent, ticket, model);
 
-    // Default to feature implementation
-    const featureTemplate = templates.find(t => t.category === 'feature');
-    if (featureTemplate) return featureTemplate;
-    
-    throw new Error('No prompt template found');
+    return { content: promptContent, templateId: template.id, versionId, templateReason, templateIssues: validateTemplate(template, library), budget: report };
   }
 
-  private fillTemplate(template: PromptTemplate, data: {
+  /**
+   * Values for every template variable, left empty when there is nothing to say so
+   * `{{#if}}` can test them, plus the ticket lists `{{#each}}` walks.
+   */
+  private buildTemplateData(data: {
     ticket: Ticket;
     spec?: Spec;
     context: CompressedContext;
     relevantContext: { patterns: any[], decisions: any[] };
     standards?: { coding: string, testing: string, techstack: string };
-  }): string {
-    let content = template.template;
+  }): TemplateData {
+    const lists: Record<string, string[]> = {
+      ACCEPTANCE_CRITERIA: data.ticket.acceptance_criteria,
+      API_DIFF: data.ticket.apidiff || [],
+      UI_COMPONENTS: data.ticket.ui_components || [],
+      UNIT_TESTS: data.ticket.test_plan.unit,
+      E2E_TESTS: data.ticket.test_plan.e2e
+    };
+    const bullets = (items: string[]) => items.map(item => `- ${item}`).join('\n');
 
-    // Replace variables with actual content
-    const replacements: Record<string, string> = {
+    const values: Record<string, string> = {
       CONTEXT_SUMMARY: data.context.summary,
       CODE_PATTERNS: this.formatPatterns(data.relevantContext.patterns),
       ARCHITECTURAL_DECISIONS: this.formatDecisions(data.relevantContext.decisions),
-      DEVELOPMENT_STANDARDS: data.standards?.coding || 'No coding standards found',
-      TESTING_STANDARDS: data.standards?.testing || 'No testing standards found',
-      TECH_STACK: data.standards?.techstack || 'No tech stack documented',
+      DEVELOPMENT_STANDARDS: data.standards?.coding || '',
+      TESTING_STANDARDS: data.standards?.testing || '',
+      TECH_STACK: data.standards?.techstack || '',
       FEATURE_NAME: data.ticket.title,
       EXPECTED_OUTCOME: data.ticket.outcome,
-      ACCEPTANCE_CRITERIA: data.ticket.acceptance_criteria.map(ac => `- ${ac}`).join('\n'),
-      API_DIFF: data.ticket.apidiff?.map(api => `- ${api}`).join('\n') || 'None specified',
-      UI_COMPONENTS: data.ticket.ui_components?.map(ui => `- ${ui}`).join('\n') || 'None specified',
+      ACCEPTANCE_CRITERIA: bullets(lists.ACCEPTANCE_CRITERIA as string[]),
+      API_DIFF: bullets(lists.API_DIFF as string[]),
+      UI_COMPONENTS: bullets(lists.UI_COMPONENTS as string[]),
+      UNIT_TESTS: bullets(lists.UNIT_TESTS as string[]),
+      E2E_TESTS: bullets(lists.E2E_TESTS as string[]),
       TEST_PLAN: this.formatTestPlan(data.ticket.test_plan),
       RELEVANT_FILES: this.getRelevantFiles(data.relevantContext.patterns),
       PITFALLS: this.formatPitfalls(data.context.pitfalls),
@@ -307,13 +400,59 @@ export class PromptManager {
       SUCCESS_CRITERIA: data.ticket.acceptance_criteria.join(', ')
     };
 
+    return { values, lists };
+  }
+
+  /**
+   * Each variable used by the template becomes a budget section; the template's own text
+   * and the ticket variables are required, the rest are trimmed by priority.
+   */
+  private fillTemplate(
+    template: PromptTemplate,
+    replacements: Record<string, string>,
+    leadingSections: PromptSection[],
+    tokenBudget: { model: string; budget: number }
+  ): { content: string; report: BudgetReport } {
+    const used = Array.from(new Set(Array.from(template.template.matchAll(TEMPLATE_VARIABLE_PATTERN), match => match[1] as string)))
+      .filter(variable => variable in replacements);
+
+    const sections: PromptSection[] = [
+      ...leadingSections,
+      { id: 'template', content: template.template.replace(TEMPLATE_VARIABLE_PATTERN, (tag, variable: string) => used.includes(variable) ? '' : tag), priority: 100, required: true },
+      ...used.map(variable => ({
+        id: variable.toLowerCase().replace(/_/g, '-'),
+        content: replacements[variable] || EMPTY_VALUES[variable] || 'Not specified',
+        priority: VARIABLE_PRIORITIES[variable] ?? 100,
+        required: !(variable in VARIABLE_PRIORITIES)
+      }))
+    ];
+
+    const fitted = fitSections(sections, tokenBudget.budget);
+    const fittedValues = new Map(fitted.sections.map(section => [section.id, section.content]));
+
     // Replace all variables in the template
-    for (const [variable, value] of Object.entries(replacements)) {
-      const regex = new RegExp(`{{${variable}}}`, 'g');
-      content = content.replace(regex, value || 'Not specified');
-    }
+    const content = template.template.replace(TEMPLATE_VARIABLE_PATTERN, (tag, variable: string) => {
+      if (!used.includes(variable)) return tag;
+      return fittedValues.get(variable.toLowerCase().replace(/_/g, '-')) || '_Left out to fit the token budget_';
+    });
 
-    return content;
+    const leading = fitted.sections
+      .slice(0, leadingSections.length)
+      .map(section => section.content)
+      .filter(section => section.trim() !== '')
+      .join('\n\n');
+
+    return {
+      content: leading ? `${leading}\n\n---\n\n${content}` : content,
+      report: {
+        model: tokenBudget.model,
+        budget: tokenBudget.budget,
+        totalTokens: fitted.totalTokens,
+        originalTokens: fitted.originalTokens,
+        overBudget: fitted.overBudget,
+        sections: fitted.usage
+      }
+    };
   }
 
   private formatPatterns(patterns: any[]): string {
@@ -391,57 +530,150 @@ export class PromptManager {
 
   private formatPitfalls(pitfalls: any[]): string {
     return pitfalls.map(pitfall =>
-      `### ${pitfall.pattern}\n- **Problem**: ${pitfall.description}\n- **Solution**: ${pitfall.solution}`
+      `### ${pitfall.pattern}\n- **Problem**: ${pitfall.description}\n- **Solution**: ${pitfall.solution}${pitfall.frequency > 0 ? `\n- **Seen**: ${describePitfallHistory(pitfall)}` : ''}`
     ).join('\n\n');
   }
 
-  private async getTemplates(): Promise<PromptTemplate[]> {
-    const templates: PromptTemplate[] = [];
-    const templateFiles = await fs.readdir(this.templatesPath);
+  /**
+   * Loads every template: Markdown files with frontmatter, plus legacy `.json` templates.
+   * When both exist for the same id the Markdown one wins. Files that cannot be read are
+   * skipped with a warning so one broken template doesn't stop prompt generation.
+   */
+  async listTemplates(): Promise<PromptTemplate[]> {
+    if (!await fileExists(this.templatesPath)) {
+      return [];
+    }
+
+    const templates = new Map<string, PromptTemplate>();
+    const templateFiles = (await fs.readdir(this.templatesPath))
+      .filter(file => file.endsWith('.md') || file.endsWith('.json'))
+      // Markdown last, so it replaces a JSON template with the same id
+      .sort((a, b) => Number(a.endsWith('.md')) - Number(b.endsWith('.md')) || a.localeCompare(b));
     
     for (const file of templateFiles) {
-      if (file.endsWith('.json')) {
-        const template = await readJson<PromptTemplate>(path.join(this.templatesPath, file));
-        templates.push(template);
+      try {
+        const filePath = path.join(this.templatesPath, file);
+        const template = file.endsWith('.md')
+          ? parseTemplateMarkdown(await fs.readFile(filePath, 'utf-8'), file)
+          : await readJson<PromptTemplate>(filePath);
+        templates.set(template.id, { ...template, file });
+      } catch (error) {
+        console.warn(`Could not parse ${file}: ${error}`);
       }
     }
     
-    return templates;
+    return Array.from(templates.values());
+  }
+
+  /**
+   * Partials from `.sherpa/prompts/partials/<name>.md`, included with `{{> name}}`. The
+   * built-in ones are used for any that are missing.
+   */
+  async loadPartials(): Promise<Record<string, string>> {
+    const partials: Record<string, string> = { ...DEFAULT_PARTIALS };
+    if (!await fileExists(this.partialsPath)) {
+      return partials;
+    }
+
+    for (const file of await fs.readdir(this.partialsPath)) {
+      if (file.endsWith('.md')) {
+        partials[file.replace(/\.md$/, '')] = (await fs.readFile(path.join(this.partialsPath, file), 'utf-8')).trimEnd();
+      }
+    }
+    return partials;
+  }
+
+  async loadTemplateLibrary(): Promise<TemplateLibrary> {
+    return { templates: await this.listTemplates(), partials: await this.loadPartials() };
+  }
+
+  async getTemplate(id: string): Promise<PromptTemplate | null> {
+    return (await this.listTemplates()).find(template => template.id === id) || null;
+  }
+
+  /**
+   * Writes a template as `<id>.md`. Usage counters live in performance.json rather than
+   * the template file, so they are not written.
+   */
+  async saveTemplate(template: PromptTemplate): Promise<string> {
+    await ensureDir(this.templatesPath);
+    const templatePath = path.join(this.templatesPath, `${template.id}.md`);
+    await writeMarkdown(templatePath, renderTemplateMarkdown(template));
+    return templatePath;
   }
 
-  private async savePromptVersion(templateId: string, content: string, ticket: Ticket): Promise<void> {
+  private async savePromptVersion(templateId: string, content: string, ticket: Ticket, model?: string): Promise<string> {
     const version: PromptVersion = {
-      id: `${templateId}-${Date.now()}`,
+      // The random part keeps two prompts from one template in the same millisecond apart
+      id: `${templateId}-${Date.now()}-${randomUUID().substring(0, 8)}`,
       templateId,
       version: '1.0.0', // Could implement semantic versioning
       content,
       metadata: {
         createdAt: new Date().toISOString(),
         usedFor: ticket.ticket_id,
-        outcome: 'success', // Will be updated based on feedback
-        feedback: ''
+        outcome: 'pending',
+        feedback: '',
+        category: inferTicketCategory(ticket).category,
+        ...(model ? { model } : {})
       }
     };
 
     const versionPath = path.join(this.versionsPath, `${version.id}.json`);
     await writeJson(versionPath, version);
+    return version.id;
   }
 
-  async recordPromptOutcome(versionId: string, outcome: 'success' | 'failure' | 'partial', feedback: string): Promise<void> {
+  /**
+   * Saved prompt versions, newest first.
+   */
+  async listPromptVersions(): Promise<PromptVersion[]> {
+    if (!await fileExists(this.versionsPath)) {
+      return [];
+    }
+
+    const versions: PromptVersion[] = [];
+    for (const file of await fs.readdir(this.versionsPath)) {
+      if (file.endsWith('.json')) {
+        try {
+          versions.push(await readJson<PromptVersion>(path.join(this.versionsPath, file)));
+        } catch (error) {
+          console.warn(`Could not parse ${file}: ${error}`);
+        }
+      }
+    }
+
+    return versions.sort((a, b) => b.metadata.createdAt.localeCompare(a.metadata.createdAt));
+  }
+
+  /**
+   * Records how a prompt version worked out and counts it towards its template's success
+   * rate. Returns null when the version doesn't exist; an outcome can only be recorded
+   * once so it isn't counted twice.
+   */
+  async recordPromptOutcome(versionId: string, outcome: PromptOutcome, feedback: string): Promise<PromptVersion | null> {
     const versionPath = path.join(this.versionsPath, `${versionId}.json`);
     
-    if (await fileExists(versionPath)) {
-      const version = await readJson<PromptVersion>(versionPath);
-      version.metadata.outcome = outcome;
-      version.metadata.feedback = feedback;
-      await writeJson(versionPath, version);
-
-      // Update template performance
-      await this.updateTemplatePerformance(version.templateId, outcome);
+    if (!await fileExists(versionPath)) {
+      return null;
     }
+
+    const version = await readJson<PromptVersion>(versionPath);
+    if (version.metadata.recordedAt) {
+      throw new Error(`Prompt version ${versionId} already has an outcome: ${version.metadata.outcome}`);
+    }
+
+    version.metadata.outcome = outcome;
+    version.metadata.feedback = feedback;
+    version.metadata.recordedAt = new Date().toISOString();
+    await writeJson(versionPath, version);
+
+    // Update template performance
+    await this.updateTemplatePerformance(version.templateId, outcome, version.metadata.category);
+    return version;
   }
 
-  private async updateTemplatePerformance(templateId: string, outcome: 'success' | 'failure' | 'partial'): Promise<void> {
+  private async updateTemplatePerformance(templateId: string, outcome: PromptOutcome, category?: string): Promise<void> {
     let performance: Record<string, PromptPerformance> = {};
     
     if (await fileExists(this.performancePath)) {
@@ -461,12 +693,20 @@ export class PromptManager {
     }
 
     const perf = performance[templateId];
-    perf.totalUses++;
-    
-    if (outcome === 'success') {
-      perf.successCount++;
-    } else if (outcome === 'failure') {
-      perf.failureCount++;
+    const counts: OutcomeCounts[] = [perf];
+    if (category) {
+      perf.byCategory = perf.byCategory || {};
+      perf.byCategory[category] = perf.byCategory[category] || { totalUses: 0, successCount: 0, failureCount: 0 };
+      counts.push(perf.byCategory[category]);
+    }
+
+    for (const count of counts) {
+      count.totalUses++;
+      if (outcome === 'success') {
+        count.successCount++;
+      } else if (outcome === 'failure') {
+        count.failureCount++;
+      }
     }
 
     perf.lastAnalyzed = new Date().toISOString();
@@ -485,7 +725,7 @@ export class PromptManager {
 
   async optimizePrompts(): Promise<void> {
     const performance = await this.analyzePromptPerformance();
-    const templates = await this.getTemplates();
+    const templates = await this.listTemplates();
 
     for (const perf of performance) {
       if (perf.averageRating < 0.7 && perf.totalUses > 5) {
@@ -0,0 +1,259 @@
+export interface PythonFunction {
+  name: string;
+  params: string[];
+  isAsync: boolean;
+  hasTypeHints: boolean;
+  decorators: string[];
+  line: number;
+  indent: number;
+  signature: string;
+}
+
+export interface PythonClass {
+  name: string;
+  bases: string[];
+  methods: PythonFunction[];
+  decorators: string[];
+  line: number;
+  indent: number;
+  signature: string;
+}
+
+export interface PythonImport {
+  module: string;
+  names: string[];
+  isRelative: boolean;
+  isFrom: boolean;
+  line: number;
+}
+
+export interface PythonModule {
+  functions: PythonFunction[];
+  classes: PythonClass[];
+  imports: PythonImport[];
+}
+
+interface Definition {
+  kind: 'def' | 'class';
+  indent: number;
+  start: number;
+  end: number;
+  line: number;
+  name: string;
+  isAsync: boolean;
+  args: string;
+  returns: string;
+  decorators: string[];
+  signature: string;
+}
+
+/**
+ * Extracts top-level structure from Python source without a Python interpreter. This is a
+ * line-and-bracket scanner rather than a full parser: it blanks out strings and comments,
+ * then reads `def`, `class` and import statements using indentation to find class bodies.
+ * Functions and classes defined inside a function are local helpers and are left out.
+ */
+export function parsePythonSource(source: string): PythonModule {
+  const normalized = source.replace(/\r\n/g, '\n');
+  const code = blankStringsAndComments(normalized);
+  const definitions = findDefinitions(code, normalized);
+  const classes: PythonClass[] = [];
+  const isInside = (inner: Definition, kind: Definition['kind']) =>
+    definitions.some(outer => outer.kind === kind && inner.start > outer.start && inner.start < outer.end);
+
+  for (const definition of definitions.filter(d => d.kind === 'class' && !isInside(d, 'def'))) {
+    const body = definitions.filter(d => d.kind === 'def' && d.start > definition.start && d.start < definition.end);
+    const bodyIndent = Math.min(...body.map(d => d.indent));
+    const methods = body.filter(d => d.indent === bodyIndent);
+
+    classes.push({
+      name: definition.name,
+      bases: splitTopLevel(definition.args).map(base => base.trim()).filter(Boolean),
+      methods: methods.map(toFunction),
+      decorators: definition.decorators,
+      line: definition.line,
+      indent: definition.indent,
+      signature: definition.signature
+    });
+  }
+
+  const functions = definitions
+    .filter(d => d.kind === 'def' && !isInside(d, 'def') && !isInside(d, 'class'))
+    .map(toFunction);
+
+  return { functions, classes, imports: findImports(code) };
+}
+
+function toFunction(definition: Definition): PythonFunction {
+  const params = splitTopLevel(definition.args)
+    .map(param => param.trim())
+    .filter(param => param && param !== '*' && param !== '/');
+  const named = params.filter(param => !/^(self|cls)\b/.test(param));
+
+  return {
+    name: definition.name,
+    params: named.map(param => param.replace(/^\*{1,2}/, '').split(/[:=]/)[0]?.trim() || param),
+    isAsync: definition.isAsync,
+    hasTypeHints: definition.returns !== '' || named.some(param => /^[*\w]+\s*:/.test(param)),
+    decorators: definition.decorators,
+    line: definition.line,
+    indent: definition.indent,
+    signature: definition.signature
+  };
+}
+
+// Blanking keeps offsets, so signatures are cut from the original source with their string defaults intact
+function findDefinitions(code: string, original: string): Definition[] {
+  const definitions: Definition[] = [];
+  const header = /^([ \t]*)(async[ \t]+)?(def|class)[ \t]+(\w+)[ \t]*/gm;
+  let match: RegExpExecArray | null;
+
+  while ((match = header.exec(code)) !== null) {
+    const indent = (match[1] || '').replace(/\t/g, '    ').length;
+    let cursor = match.index + match[0].length;
+    let args = '';
+
+    if (code[cursor] === '(') {
+      const close = findClosingBracket(code, cursor);
+      args = code.substring(cursor + 1, close);
+      cursor = close + 1;
+    }
+
+    const colon = code.indexOf(':', cursor);
+    const returnsMatch = code.substring(cursor, colon === -1 ? cursor : colon).match(/->\s*(.+)/);
+
+    definitions.push({
+      kind: match[3] as 'def' | 'class',
+      indent,
+      start: match.index,
+      end: findBlockEnd(code, colon === -1 ? cursor : colon, indent),
+      line: lineOf(code, match.index),
+      name: match[4] || '',
+      isAsync: Boolean(match[2]),
+      args,
+      returns: returnsMatch && returnsMatch[1] ? returnsMatch[1].trim() : '',
+      decorators: findDecorators(code, match.index),
+      signature: original.substring(match.index, colon === -1 ? cursor : colon).replace(/\s+/g, ' ').trim()
+    });
+
+    header.lastIndex = Math.max(header.lastIndex, cursor);
+  }
+
+  return definitions;
+}
+
+function findImports(code: string): PythonImport[] {
+  const imports: PythonImport[] = [];
+  const statement = /^[ \t]*(?:from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(\([\s\S]*?\)|[^\n]+)|import[ \t]+([^\n]+))/gm;
+  let match: RegExpExecArray | null;
+
+  while ((match = statement.exec(code)) !== null) {
+    const line = lineOf(code, match.index);
+
+    if (match[1] !== undefined) {
+      const names = (match[2] || '').replace(/[()\\]/g, ' ').split(',')
+        .map(name => name.trim().split(/\s+as\s+/)[0]?.trim() || '')
+        .filter(Boolean);
+      imports.push({ module: match[1], names, isRelative: match[1].startsWith('.'), isFrom: true, line });
+    } else {
+      // `import a, b as c` is one import per module
+      for (const part of (match[3] || '').split(',')) {
+        const module = part.trim().split(/\s+as\s+/)[0]?.trim();
+        if (module) {
+          imports.push({ module, names: [], isRelative: false, isFrom: false, line });
+        }
+      }
+    }
+  }
+
+  return imports;
+}
+
+function findDecorators(code: string, definitionStart: number): string[] {
+  const decorators: string[] = [];
+  const lines = code.substring(0, definitionStart).split('\n');
+  lines.pop(); // The definition's own line
+
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = (lines[i] || '').trim();
+    const decorator = line.match(/^@([\w.]+)/);
+    if (decorator && decorator[1]) {
+      decorators.unshift(decorator[1]);
+    } else if (line !== '') {
+      break;
+    }
+  }
+
+  return decorators;
+}
+
+function findBlockEnd(code: string, colonIndex: number, indent: number): number {
+  let lineStart = code.indexOf('\n', colonIndex);
+  if (lineStart === -1) return code.length;
+
+  while (lineStart < code.length) {
+    const lineEnd = code.indexOf('\n', lineStart + 1);
+    const line = code.substring(lineStart + 1, lineEnd === -1 ? code.length : lineEnd);
+    if (line.trim() !== '') {
+      const lineIndent = (line.match(/^[ \t]*/)?.[0] || '').replace(/\t/g, '    ').length;
+      if (lineIndent <= indent) {
+        return lineStart;
+      }
+    }
+    if (lineEnd === -1) break;
+    lineStart = lineEnd;
+  }
+
+  return code.length;
+}
+
+function findClosingBracket(code: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < code.length; i++) {
+    const char = code[i];
+    if (char === '(' || char === '[' || char === '{') depth++;
+    if (char === ')' || char === ']' || char === '}') depth--;
+    if (depth === 0) return i;
+  }
+  return code.length;
+}
+
+function splitTopLevel(list: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of list) {
+    if ('([{'.includes(char)) depth++;
+    if (')]}'.includes(char)) depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+/**
+ * Replaces string literals and comments with spaces (keeping newlines) so keywords inside
+ * docstrings or comments are never mistaken for code and line numbers stay correct.
+ */
+function blankStringsAndComments(source: string): string {
+  const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+  return source.replace(
+    /([rRbBuUfF]{0,2})("""[\s\S]*?"""|'''[\s\S]*?'''|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*')|#[^\n]*/g,
+    (match, prefix: string | undefined, literal: string | undefined) => {
+      if (literal === undefined) return blank(match);
+      // Keep the quotes so default values like x="a" still parse as one parameter
+      return `${prefix}${literal[0]}${blank(literal.substring(1, literal.length - 1))}${literal[0]}`;
+    }
+  );
+}
+
+function lineOf(code: string, index: number): number {
+  return code.substring(0, index).split('\n').length;
+}
\ No newline at end of file
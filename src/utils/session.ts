@@ -53,6 +53,8 @@ export interface AIInteraction {
   feedback: string;
   promptTemplate?: string;
   model?: string;
+  // The gen:prompt version this outcome was recorded for
+  promptVersion?: string;
 }
 
 export interface HandoffContext {
@@ -110,6 +112,24 @@ export class SessionManager {
     return null;
   }
 
+  async listSessionHistory(): Promise<SessionState[]> {
+    const historyDir = path.join(this.sessionsDir, 'history');
+    if (!await fileExists(historyDir)) {
+      return [];
+    }
+
+    const sessions: SessionState[] = [];
+    for (const file of (await fs.readdir(historyDir)).filter(f => f.endsWith('.json'))) {
+      try {
+        sessions.push(await readJson<SessionState>(path.join(historyDir, file)));
+      } catch (error) {
+        // Skip corrupted history files
+      }
+    }
+
+    return sessions.sort((a, b) => a.startTime.localeCompare(b.startTime));
+  }
+
   async updateSession(updates: Partial<SessionState>): Promise<SessionState> {
     const current = await this.getCurrentSession();
     if (!current) {
@@ -206,7 +226,7 @@ export class SessionManager {
     });
   }
 
-  async logAIInteraction(prompt: string, response: string, outcome: AIInteraction['outcome'], feedback: string = '', promptTemplate?: string, model?: string): Promise<void> {
+  async logAIInteraction(prompt: string, response: string, outcome: AIInteraction['outcome'], feedback: string = '', promptTemplate?: string, model?: string, promptVersion?: string): Promise<void> {
     const current = await this.getCurrentSession();
     if (!current) {
       throw new Error('No active session found.');
@@ -220,7 +240,8 @@ export class SessionManager {
       outcome,
       feedback,
       promptTemplate,
-      model
+      model,
+      ...(promptVersion ? { promptVersion } : {})
     };
 
     current.aiInteractions.push(interaction);
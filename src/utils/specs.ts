@@ -0,0 +1,374 @@
+import { parseFrontmatter, stripFrontmatter } from './frontmatter.js';
+import { SpecMetadata, SpecPriority, SpecStatus } from '../types/index.js';
+
+export interface ParsedSpec {
+  title: string;
+  priority: string;
+  effort: number;
+  type: string;
+  metadata: SpecMetadata;
+  warnings: string[];
+  overview: string;
+  requirements: string[];
+  userStories: string[];
+  acceptanceCriteria: string[];
+  apiChanges: string[];
+  dbChanges: string[];
+  uiChanges: string[];
+  testingStrategy: string[];
+}
+
+const SPEC_PRIORITIES: SpecPriority[] = ['high', 'medium', 'low'];
+const SPEC_STATUSES: SpecStatus[] = ['draft', 'review', 'approved', 'in_progress', 'done'];
+
+const SPEC_DEFAULTS = {
+  priority: 'medium' as SpecPriority,
+  effort: 8,
+  type: 'feature',
+  status: 'draft' as SpecStatus
+};
+
+export function parseSpecification(content: string, filename: string): ParsedSpec {
+  const warnings: string[] = [];
+  let parsed: { data: Record<string, any> | null; body: string };
+  let invalidFrontmatter = false;
+  try {
+    parsed = parseFrontmatter(content);
+  } catch (error) {
+    // A broken frontmatter block shouldn't stop the spec being read; bold labels still apply
+    parsed = { data: null, body: stripFrontmatter(content) };
+    invalidFrontmatter = true;
+    // YAML errors carry a code excerpt on the lines after the message
+    const reason = `${error instanceof Error ? error.message : error}`.split('\n')[0]?.replace(/:$/, '');
+    warnings.push(`${filename || 'Spec'}: ${reason} - reading **Label**: values instead`);
+  }
+  const { data, body } = parsed;
+  const frontmatter = data || {};
+  
+  // Frontmatter wins; bold labels (**Priority**: ...) are read for specs written before it existed
+  const readField = (field: string, label: string): string | undefined => {
+    const value = frontmatter[field];
+    if (value !== undefined && value !== null && `${value}`.trim() !== '') {
+      return `${value}`.trim();
+    }
+    const legacyMatch = body.match(new RegExp(`\\*\\*${label}\\*\\*:\\s*(.+)`));
+    return legacyMatch && legacyMatch[1] ? legacyMatch[1].trim() : undefined;
+  };
+  
+  const headingMatch = body.match(/^#\s+(.+)/m);
+  const title = (frontmatter.title && `${frontmatter.title}`) || (headingMatch && headingMatch[1]) || filename.replace('.md', '').replace(/-/g, ' ');
+  
+  const rawPriority = readField('priority', 'Priority')?.toLowerCase();
+  let priority = SPEC_DEFAULTS.priority;
+  if (rawPriority && SPEC_PRIORITIES.includes(rawPriority as SpecPriority)) {
+    priority = rawPriority as SpecPriority;
+  } else {
+    warnings.push(rawPriority
+      ? `Unknown priority "${rawPriority}", defaulting to "${SPEC_DEFAULTS.priority}"`
+      : `No priority set, defaulting to "${SPEC_DEFAULTS.priority}"`);
+  }
+  
+  const rawEffort = readField('effort', 'Effort');
+  const parsedEffort = rawEffort ? parseInt(rawEffort) : NaN;
+  let effort = SPEC_DEFAULTS.effort;
+  if (!isNaN(parsedEffort) && parsedEffort > 0) {
+    effort = parsedEffort;
+  } else {
+    warnings.push(rawEffort
+      ? `Could not read effort "${rawEffort}", defaulting to ${SPEC_DEFAULTS.effort} hours`
+      : `No effort set, defaulting to ${SPEC_DEFAULTS.effort} hours`);
+  }
+  
+  const rawType = readField('type', 'Type')?.toLowerCase();
+  const type = rawType || SPEC_DEFAULTS.type;
+  if (!rawType) {
+    warnings.push(`No type set, defaulting to "${SPEC_DEFAULTS.type}"`);
+  }
+  
+  const rawStatus = readField('status', 'Status')?.toLowerCase().replace(/\s+/g, '_');
+  const status = rawStatus && SPEC_STATUSES.includes(rawStatus as SpecStatus) ? rawStatus as SpecStatus : SPEC_DEFAULTS.status;
+  
+  if (!data && !invalidFrontmatter && warnings.length > 0) {
+    warnings.push('No YAML frontmatter found - add one to set priority, effort and type explicitly');
+  }
+  
+  const metadata: SpecMetadata = {
+    title,
+    status,
+    priority,
+    effort,
+    type,
+    owner: frontmatter.owner ? `${frontmatter.owner}` : undefined,
+    created: readField('created', 'Created'),
+    target_date: frontmatter.target_date ? `${frontmatter.target_date}` : undefined,
+    links: Array.isArray(frontmatter.links)
+      ? frontmatter.links.map((link: any) => typeof link === 'string' ? { title: link, url: link } : { title: `${link.title || link.url}`, url: `${link.url}` })
+      : [],
+    dependencies: Array.isArray(frontmatter.dependencies) ? frontmatter.dependencies.map((dep: any) => `${dep}`) : []
+  };
+  
+  // Extract sections
+  const overview = extractSection(body, 'Overview') || 'No overview provided';
+  const requirements = extractListItems(body, 'Functional Requirements');
+  const userStories = extractUserStories(body);
+  const acceptanceCriteria = extractListItems(body, 'Acceptance Criteria');
+  const apiChanges = extractCodeBlock(body, 'API Changes');
+  const dbChanges = extractCodeBlock(body, 'Database Changes');
+  const uiChanges = extractListItems(body, 'UI/UX Changes');
+  const testingStrategy = extractListItems(body, 'Testing Strategy');
+  
+  return {
+    title,
+    priority,
+    effort,
+    type,
+    metadata,
+    warnings,
+    overview,
+    requirements,
+    userStories,
+    acceptanceCriteria,
+    apiChanges,
+    dbChanges,
+    uiChanges,
+    testingStrategy
+  };
+}
+
+export function extractSection(content: string, sectionName: string): string {
+  const regex = new RegExp(`##\\s+${sectionName}\\s*\\n([\\s\\S]*?)(?=##|$)`, 'i');
+  const match = content.match(regex);
+  return match && match[1] ? match[1].trim() : '';
+}
+
+export function extractListItems(content: string, sectionName: string): string[] {
+  const sectionContent = extractSection(content, sectionName);
+  const items: string[] = [];
+  
+  const lines = sectionContent.split('\n');
+  for (const line of lines) {
+    const trimmed = line.trim();
+    // Checkboxes first, otherwise the generic bullet branch keeps the "[ ]" marker
+    if (trimmed.startsWith('- [ ]') || trimmed.startsWith('- [x]')) {
+      items.push(trimmed.replace(/^-\s*\[[x\s]\]\s*/, ''));
+    } else if (trimmed.startsWith('-') || trimmed.startsWith('*') || /^\d+\./.test(trimmed)) {
+      items.push(trimmed.replace(/^[-*]\s*/, '').replace(/^\d+\.\s*/, ''));
+    }
+  }
+  
+  return items.filter(item => item.length > 0);
+}
+
+export function extractUserStories(content: string): string[] {
+  const userStoryRegex = /\*\*As a\*\*\s+(.+?)\s+\*\*I want\*\*\s+(.+?)\s+\*\*so that\*\*\s+(.+)/gi;
+  const stories: string[] = [];
+  let match;
+  
+  while ((match = userStoryRegex.exec(content)) !== null) {
+    stories.push(`As a ${match[1]} I want ${match[2]} so that ${match[3]}`);
+  }
+  
+  return stories;
+}
+
+export function extractCodeBlock(content: string, sectionName: string): string[] {
+  const sectionContent = extractSection(content, sectionName);
+  const codeBlockRegex = /```[\s\S]*?```/g;
+  const matches = sectionContent.match(codeBlockRegex);
+  
+  if (matches) {
+    return matches.map(block => block.replace(/```\w*\n?/, '').replace(/```$/, '').trim());
+  }
+  
+  return [];
+}
+
+export interface SpecIssue {
+  severity: 'error' | 'warning' | 'info';
+  section: string;
+  message: string;
+  line?: number;
+  question?: string;
+}
+
+export interface Clarification {
+  question: string;
+  answer: string;
+}
+
+// Sections gen:backlog relies on to produce useful tickets
+const REQUIRED_SECTIONS = [
+  { name: 'Overview', kind: 'text' },
+  { name: 'Problem Statement', kind: 'text' },
+  { name: 'Functional Requirements', kind: 'list' },
+  { name: 'User Stories', kind: 'stories' },
+  { name: 'Acceptance Criteria', kind: 'list' },
+  { name: 'Testing Strategy', kind: 'list' }
+];
+
+// Text left behind by the `add:spec` template when a section was never filled in
+const TEMPLATE_PLACEHOLDERS = [
+  'Brief description of what this specification covers',
+  'What problem are we solving?',
+  'Primary goal 1',
+  'Primary goal 2',
+  'Secondary goal 3',
+  'What are we explicitly NOT doing',
+  'The system must...',
+  'The user should be able to...',
+  'The feature will support...',
+  'Performance requirements',
+  'Security requirements',
+  'Scalability requirements',
+  '[user type]',
+  '[functionality]',
+  '[benefit]',
+  '[context]',
+  '[action]',
+  '[outcome]',
+  'Brief outline of the technical implementation approach',
+  'GET /api/new-endpoint',
+  'ADD COLUMN new_field',
+  'Describe UI components that need to be created/modified',
+  'External dependencies',
+  'Mitigation strategy',
+  'What unit tests are needed',
+  'How will we measure success?',
+  'Initial implementation',
+  'Question 1 that needs to be answered',
+  'Assumption 1 we\'re making'
+];
+
+const VAGUE_TERMS = [
+  'fast', 'quick', 'easy', 'easily', 'simple', 'intuitive', 'user-friendly', 'user friendly',
+  'seamless', 'robust', 'appropriate', 'properly', 'correctly', 'as expected', 'nice', 'good', 'etc'
+];
+
+const OBSERVABLE_OUTCOME = /\b(then|must|shall|should|will|returns?|displays?|shows?|responds?|redirects?|creates?|saves?|sends?|rejects?|within|less than|at least|at most)\b|\d/i;
+
+export function hasSection(content: string, sectionName: string): boolean {
+  return new RegExp(`^#{2,}\\s+${sectionName}\\s*$`, 'im').test(content);
+}
+
+export function isTestableCriterion(criterion: string): boolean {
+  const text = criterion.replace(/\*\*AC-\d+\*\*:?\s*/i, '').toLowerCase();
+  const vague = VAGUE_TERMS.some(term => new RegExp(`\\b${term}\\b`, 'i').test(text));
+  const givenWhenThen = /\bgiven\b.+\bwhen\b.+\bthen\b/i.test(text);
+  return !vague && (givenWhenThen || OBSERVABLE_OUTCOME.test(text));
+}
+
+export function reviewSpecification(content: string, filename: string = ''): SpecIssue[] {
+  const issues: SpecIssue[] = [];
+
+  for (const warning of parseSpecification(content, filename).warnings) {
+    issues.push({ severity: 'warning', section: 'Frontmatter', message: warning });
+  }
+
+  for (const section of REQUIRED_SECTIONS) {
+    if (!hasSection(content, section.name)) {
+      issues.push({
+        severity: 'error',
+        section: section.name,
+        message: `Missing section "${section.name}"`,
+        question: `What belongs in the "${section.name}" section?`
+      });
+      continue;
+    }
+
+    const empty = section.kind === 'list' ? extractListItems(content, section.name).length === 0
+      : section.kind === 'stories' ? extractUserStories(content).length === 0
+      : extractSection(content, section.name).length === 0;
+
+    if (empty) {
+      issues.push({
+        severity: 'error',
+        section: section.name,
+        message: `Section "${section.name}" is empty`,
+        question: `What belongs in the "${section.name}" section?`
+      });
+    }
+  }
+
+  const placeholderLines = new Set<number>();
+  const lines = content.split('\n');
+  lines.forEach((line, index) => {
+    const placeholder = TEMPLATE_PLACEHOLDERS.find(p => line.includes(p));
+    if (placeholder) {
+      placeholderLines.add(index);
+      issues.push({
+        severity: 'warning',
+        section: findSectionForLine(lines, index),
+        message: `Template placeholder left in place: "${line.trim()}"`,
+        line: index + 1,
+        question: `What should replace "${line.trim()}"?`
+      });
+    }
+  });
+
+  for (const criterion of extractListItems(content, 'Acceptance Criteria')) {
+    const lineIndex = lines.findIndex(line => line.includes(criterion));
+    // Placeholder criteria are already reported above
+    if (placeholderLines.has(lineIndex)) continue;
+
+    if (!isTestableCriterion(criterion)) {
+      issues.push({
+        severity: 'warning',
+        section: 'Acceptance Criteria',
+        message: `Acceptance criterion is not testable: "${criterion}"`,
+        line: lineIndex >= 0 ? lineIndex + 1 : undefined,
+        question: `How would you verify "${criterion}"? (Given ... When ... Then ...)`
+      });
+    }
+  }
+
+  // Open questions the author already wrote down deserve an answer too
+  for (const question of extractListItems(content, 'Questions & Assumptions')) {
+    const unchecked = lines.some(line => line.includes(`[ ] ${question}`));
+    if (unchecked && !TEMPLATE_PLACEHOLDERS.some(p => question.includes(p))) {
+      issues.push({
+        severity: 'info',
+        section: 'Questions & Assumptions',
+        message: `Open question: "${question}"`,
+        question
+      });
+    }
+  }
+
+  return issues;
+}
+
+function findSectionForLine(lines: string[], index: number): string {
+  for (let i = index; i >= 0; i--) {
+    const heading = lines[i]?.match(/^#{2,}\s+(.+)/);
+    if (heading && heading[1]) {
+      return heading[1].trim();
+    }
+  }
+  return 'Header';
+}
+
+export function appendClarifications(content: string, clarifications: Clarification[], date: string): string {
+  if (clarifications.length === 0) {
+    return content;
+  }
+
+  const entries = `### ${date}\n` + clarifications
+    .map(c => `- **Q**: ${c.question}\n  **A**: ${c.answer}`)
+    .join('\n') + '\n';
+
+  const heading = content.match(/^## Clarifications\s*$/m);
+  if (heading && heading.index !== undefined) {
+    const afterHeading = heading.index + heading[0].length;
+    const nextSection = content.slice(afterHeading).search(/\n(## |---\n)/);
+    const insertAt = nextSection === -1 ? content.length : afterHeading + nextSection;
+    return `${content.slice(0, insertAt).replace(/\s*$/, '')}\n\n${entries}${content.slice(insertAt)}`;
+  }
+
+  const section = `## Clarifications\n\n${entries}`;
+  const footer = content.search(/\n---\n\*Specification created/);
+  if (footer !== -1) {
+    return `${content.slice(0, footer).replace(/\s*$/, '')}\n\n${section}${content.slice(footer)}`;
+  }
+
+  return `${content.replace(/\s*$/, '')}\n\n${section}`;
+}
\ No newline at end of file
@@ -0,0 +1,292 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { getSherpaDir, readYaml, writeYaml, readJson, writeJson, readMarkdown, fileExists } from './fs.js';
+import { formatDate } from './ids.js';
+import { BacklogItems, BacklogManager, getTicketStatus } from './backlog.js';
+import { DependencyGraph, buildDependencyGraph, getUnfinishedDependencies } from './backlog-graph.js';
+import { parseSpecification } from './specs.js';
+import { Sprint, SpecPriority, Ticket } from '../types/index.js';
+
+export interface SprintCandidate {
+  ticket: Ticket;
+  priority: SpecPriority;
+  carriedOver: boolean;
+}
+
+export interface SprintSelection {
+  selected: SprintCandidate[];
+  skipped: Array<{ candidate: SprintCandidate; reason: string }>;
+  hours: number;
+}
+
+export interface SprintPlanOptions {
+  capacityHours: number;
+  days?: number;
+  name?: string;
+  goal?: string;
+  startDate?: string;
+  dryRun?: boolean;
+}
+
+/**
+ * The keys of `state.json` the sprint manager owns. The file is shared with other
+ * commands, so whatever else it holds is written back untouched.
+ */
+export interface SprintState {
+  current_sprint?: string;
+  tickets_completed?: number;
+}
+
+const PRIORITY_RANK: Record<SpecPriority, number> = { high: 0, medium: 1, low: 2 };
+
+const DEFAULT_SPRINT_DAYS = 14;
+
+/**
+ * Greedily fills a sprint up to `capacityHours`. Rolled-over tickets go first, then
+ * tickets from higher priority specs. A ticket is only taken once everything it depends
+ * on is done or already in the sprint, so the plan never commits to blocked work.
+ */
+export function selectSprintTickets(candidates: SprintCandidate[], graph: DependencyGraph, capacityHours: number): SprintSelection {
+  const ordered = candidates
+    .map((candidate, index) => ({ candidate, index }))
+    .sort((a, b) =>
+      Number(b.candidate.carriedOver) - Number(a.candidate.carriedOver) ||
+      PRIORITY_RANK[a.candidate.priority] - PRIORITY_RANK[b.candidate.priority] ||
+      a.index - b.index)
+    .map(entry => entry.candidate);
+
+  const selectedIds = new Set<string>();
+  const selected: SprintCandidate[] = [];
+  let hours = 0;
+
+  const waitingOn = (candidate: SprintCandidate): string[] =>
+    getUnfinishedDependencies(graph, candidate.ticket.ticket_id)
+      .flatMap(node => pendingTickets(graph, node.id))
+      .filter(id => !selectedIds.has(id));
+
+  // Selecting a ticket can unblock a higher priority one, so rescan from the top after each pick
+  let picked = true;
+  while (picked) {
+    picked = false;
+    for (const candidate of ordered) {
+      const { ticket } = candidate;
+      const ticketHours = Number(ticket.timebox_hours) || 0;
+      if (selectedIds.has(ticket.ticket_id) || getTicketStatus(ticket) === 'blocked') continue;
+      if (hours + ticketHours > capacityHours || waitingOn(candidate).length > 0) continue;
+
+      selectedIds.add(ticket.ticket_id);
+      selected.push(candidate);
+      hours += ticketHours;
+      picked = true;
+      break;
+    }
+  }
+
+  const skipped = ordered
+    .filter(candidate => !selectedIds.has(candidate.ticket.ticket_id))
+    .map(candidate => {
+      const waiting = waitingOn(candidate);
+      let reason = 'over capacity';
+      if (getTicketStatus(candidate.ticket) === 'blocked') {
+        reason = 'ticket is blocked';
+      } else if (waiting.length > 0) {
+        reason = `waiting on ${waiting.join(', ')}`;
+      }
+      return { candidate, reason };
+    });
+
+  return { selected, skipped, hours };
+}
+
+export class SprintManager {
+  private sprintsDir: string;
+  private specsDir: string;
+  private statePath: string;
+
+  constructor() {
+    this.sprintsDir = path.join(getSherpaDir(), 'sprints');
+    this.specsDir = path.join(getSherpaDir(), 'specs');
+    this.statePath = path.join(getSherpaDir(), 'state.json');
+  }
+
+  async listSprints(): Promise<Sprint[]> {
+    if (!await fileExists(this.sprintsDir)) {
+      return [];
+    }
+
+    const files = await fs.readdir(this.sprintsDir);
+    const sprints: Sprint[] = [];
+
+    for (const file of files.filter(f => f.endsWith('.yml'))) {
+      try {
+        const sprint = await readYaml<Sprint>(path.join(this.sprintsDir, file));
+        if (sprint && sprint.sprint_id) {
+          sprints.push(sprint);
+        }
+      } catch (error) {
+        // Skip invalid sprint files
+      }
+    }
+
+    return sprints.sort((a, b) => a.start_date.localeCompare(b.start_date) || sprintNumber(a) - sprintNumber(b));
+  }
+
+  async getSprint(sprintId: string): Promise<Sprint | null> {
+    const sprintPath = this.getSprintPath(sprintId);
+    return await fileExists(sprintPath) ? await readYaml<Sprint>(sprintPath) : null;
+  }
+
+  async getCurrentSprint(): Promise<Sprint | null> {
+    const state = await this.readState();
+    return state.current_sprint ? await this.getSprint(state.current_sprint) : null;
+  }
+
+  async saveSprint(sprint: Sprint): Promise<void> {
+    await writeYaml(this.getSprintPath(sprint.sprint_id), sprint);
+  }
+
+  async planSprint(options: SprintPlanOptions): Promise<{ sprint: Sprint; selection: SprintSelection }> {
+    const current = await this.getCurrentSprint();
+    if (current) {
+      throw new Error(`Sprint ${current.sprint_id} is still active. Close it with \`sherpa sprint:close\` first.`);
+    }
+
+    if (!(options.capacityHours > 0)) {
+      throw new Error('Sprint capacity must be a positive number of hours.');
+    }
+
+    const sprints = await this.listSprints();
+    const previous = sprints.filter(sprint => sprint.status === 'closed').pop();
+    const items = await new BacklogManager().loadBacklog();
+    const candidates = await this.getCandidates(items, previous?.rolled_over || []);
+    const selection = selectSprintTickets(candidates, buildDependencyGraph(items), options.capacityHours);
+
+    const number = Math.max(0, ...sprints.map(sprintNumber)) + 1;
+    const startDate = options.startDate || formatDate();
+    const endDate = new Date(`${startDate}T00:00:00Z`);
+    endDate.setUTCDate(endDate.getUTCDate() + (options.days || DEFAULT_SPRINT_DAYS) - 1);
+
+    const sprint: Sprint = {
+      sprint_id: `sprint-${number}`,
+      name: options.name || `Sprint ${number}`,
+      status: 'active',
+      start_date: startDate,
+      end_date: formatDate(endDate),
+      capacity_hours: options.capacityHours,
+      committed: selection.selected.map(candidate => candidate.ticket.ticket_id),
+      committed_hours: selection.hours
+    };
+    if (options.goal) {
+      sprint.goal = options.goal;
+    }
+    if (previous && selection.selected.some(candidate => candidate.carriedOver)) {
+      sprint.rolled_over_from = previous.sprint_id;
+    }
+
+    if (!options.dryRun) {
+      await this.saveSprint(sprint);
+      await this.updateState({ current_sprint: sprint.sprint_id });
+    }
+
+    return { sprint, selection };
+  }
+
+  /**
+   * Records what was delivered against what was committed. Unfinished tickets are listed
+   * as rolled over and go to the front of the queue when the next sprint is planned.
+   */
+  async closeSprint(): Promise<Sprint> {
+    const sprint = await this.getCurrentSprint();
+    if (!sprint) {
+      throw new Error('No active sprint. Plan one with `sherpa sprint:plan`.');
+    }
+
+    const tickets = new Map((await new BacklogManager().listTickets()).map(ticket => [ticket.ticket_id, ticket]));
+    const delivered = sprint.committed.filter(id => {
+      const ticket = tickets.get(id);
+      return ticket !== undefined && getTicketStatus(ticket) === 'done';
+    });
+
+    sprint.status = 'closed';
+    sprint.delivered = delivered;
+    sprint.delivered_hours = delivered.reduce((sum, id) => sum + (Number(tickets.get(id)?.timebox_hours) || 0), 0);
+    sprint.rolled_over = sprint.committed.filter(id => tickets.has(id) && !delivered.includes(id));
+    sprint.closed_at = new Date().toISOString();
+
+    await this.saveSprint(sprint);
+
+    const state = await this.readState();
+    await this.updateState({
+      current_sprint: undefined,
+      tickets_completed: (Number(state.tickets_completed) || 0) + delivered.length
+    });
+
+    return sprint;
+  }
+
+  private async getCandidates(items: BacklogItems, rolledOver: string[]): Promise<SprintCandidate[]> {
+    const priorities = await this.getSpecPriorities();
+    const specFor = (ticket: Ticket): string | undefined => {
+      if (ticket.source?.spec) return ticket.source.spec;
+      // Tickets generated before source keys existed reach their spec through the epic
+      const story = items.stories.find(s => s.tickets.includes(ticket.ticket_id));
+      const epic = items.epics.find(e => e.epic_id === story?.epic_id || e.tickets.includes(ticket.ticket_id));
+      return epic?.source?.spec;
+    };
+
+    return items.tickets
+      .filter(ticket => getTicketStatus(ticket) !== 'done')
+      .map(ticket => ({
+        ticket,
+        priority: priorities.get(specFor(ticket) || '') || 'medium',
+        carriedOver: rolledOver.includes(ticket.ticket_id)
+      }));
+  }
+
+  private async getSpecPriorities(): Promise<Map<string, SpecPriority>> {
+    const priorities = new Map<string, SpecPriority>();
+    if (!await fileExists(this.specsDir)) {
+      return priorities;
+    }
+
+    const files = await fs.readdir(this.specsDir);
+    for (const file of files.filter(f => f.endsWith('.md'))) {
+      try {
+        const spec = parseSpecification(await readMarkdown(path.join(this.specsDir, file)), file);
+        priorities.set(file, spec.metadata.priority);
+      } catch (error) {
+        // Specs with broken frontmatter fall back to medium priority
+      }
+    }
+
+    return priorities;
+  }
+
+  private async readState(): Promise<SprintState> {
+    return await fileExists(this.statePath) ? await readJson<SprintState>(this.statePath) : {};
+  }
+
+  private async updateState(updates: SprintState): Promise<void> {
+    await writeJson(this.statePath, { ...await this.readState(), ...updates });
+  }
+
+  private getSprintPath(sprintId: string): string {
+    return path.join(this.sprintsDir, `${sprintId}.yml`);
+  }
+}
+
+function pendingTickets(graph: DependencyGraph, id: string, seen = new Set<string>()): string[] {
+  const node = graph.nodes.get(id);
+  if (!node || seen.has(id)) return [];
+  seen.add(id);
+
+  if (node.kind === 'ticket') {
+    return node.status === 'done' ? [] : [id];
+  }
+  return node.children.flatMap(childId => pendingTickets(graph, childId, seen));
+}
+
+function sprintNumber(sprint: Sprint): number {
+  const match = sprint.sprint_id.match(/(\d+)$/);
+  return match && match[1] ? parseInt(match[1]) : 0;
+}
\ No newline at end of file
@@ -0,0 +1,161 @@
+import { PromptTemplate, PromptPerformance } from './prompts.js';
+import { Ticket } from '../types/index.js';
+
+export type TemplateCategory = PromptTemplate['category'];
+
+export interface TicketCategory {
+  category: TemplateCategory;
+  // The word that decided it, if any
+  keyword?: string;
+}
+
+export interface TemplateScore {
+  templateId: string;
+  score: number;
+  categoryFit: number;
+  successRate: number;
+  // Outcomes the success rate is based on, and whether they are for tickets of this category
+  evidence: number;
+  similar: boolean;
+  modelFit: number;
+  exploration: number;
+}
+
+export interface TemplateSelection {
+  template: PromptTemplate;
+  reason: string;
+  scores: TemplateScore[];
+}
+
+// Checked in order against the title, then the outcome; the first match decides
+const CATEGORY_KEYWORDS: [TemplateCategory, RegExp][] = [
+  ['bugfix', /\b(fix(es|ed)?|hotfix|bugs?|crash(es)?|broken|regression)\b/i],
+  ['refactor', /\b(refactor\w*|clean ?up|restructure|simplify|improve|rename)\b/i],
+  ['test', /\b(tests?|testing|coverage|e2e)\b/i],
+  ['docs', /\b(docs?|documentation|readme|changelog)\b/i]
+];
+
+const WEIGHTS = { category: 0.5, success: 0.35, model: 0.15 };
+// Smooths success rates towards 50% so one lucky outcome doesn't outrank a long record
+const PRIOR_RATE = 0.5;
+const PRIOR_WEIGHT = 2;
+// Outcomes for similar tickets needed before they replace the template's overall record
+const MIN_SIMILAR_OUTCOMES = 3;
+// Scales the bonus for rarely used templates, so new templates still get tried
+const EXPLORATION_WEIGHT = 0.15;
+
+export function inferTicketCategory(ticket: Pick<Ticket, 'title' | 'outcome'>): TicketCategory {
+  for (const text of [ticket.title, ticket.outcome]) {
+    for (const [category, pattern] of CATEGORY_KEYWORDS) {
+      const match = text.match(pattern);
+      if (match) {
+        return { category, keyword: match[0].toLowerCase() };
+      }
+    }
+  }
+  return { category: 'feature' };
+}
+
+/**
+ * Scores each template for a ticket by how well its category fits, how often it has
+ * succeeded (for tickets of the same category once there are enough outcomes, otherwise
+ * overall) and whether it was written for the target model. A bonus for templates with
+ * few recorded outcomes, shrinking as they are used (UCB1), keeps new templates in play.
+ */
+export function scoreTemplates(
+  templates: PromptTemplate[],
+  ticketCategory: TemplateCategory,
+  performance: PromptPerformance[],
+  model?: string
+): TemplateScore[] {
+  const stats = new Map(performance.map(perf => [perf.templateId, perf]));
+  const hasCategoryTemplate = templates.some(template => template.category === ticketCategory);
+  const totalOutcomes = performance.reduce((sum, perf) => sum + perf.totalUses, 0);
+
+  return templates.map(template => {
+    const perf = stats.get(template.id);
+    const similarRecord = perf?.byCategory?.[ticketCategory];
+    const similar = !!similarRecord && similarRecord.totalUses >= MIN_SIMILAR_OUTCOMES;
+    const record = similar ? similarRecord : perf;
+    const uses = record?.totalUses || 0;
+    const successRate = ((record?.successCount || 0) + PRIOR_RATE * PRIOR_WEIGHT) / (uses + PRIOR_WEIGHT);
+
+    // Feature templates are the general-purpose fallback when nothing matches the ticket
+    const categoryFit = template.category === ticketCategory ? 1 : !hasCategoryTemplate && template.category === 'feature' ? 0.5 : 0;
+    const modelFit = modelMatch(template.aiModel, model);
+    const exploration = totalOutcomes > 0
+      ? EXPLORATION_WEIGHT * Math.sqrt(Math.log(totalOutcomes + 1) / ((perf?.totalUses || 0) + 1))
+      : 0;
+
+    return {
+      templateId: template.id,
+      score: WEIGHTS.category * categoryFit + WEIGHTS.success * successRate + WEIGHTS.model * modelFit + exploration,
+      categoryFit,
+      successRate,
+      evidence: uses,
+      similar,
+      modelFit,
+      exploration
+    };
+  }).sort((a, b) => b.score - a.score || a.templateId.localeCompare(b.templateId));
+}
+
+/**
+ * Picks the highest scoring template that isn't abstract and explains the choice.
+ */
+export function selectTemplate(
+  templates: PromptTemplate[],
+  ticket: Pick<Ticket, 'title' | 'outcome'>,
+  performance: PromptPerformance[],
+  model?: string
+): TemplateSelection {
+  const candidates = templates.filter(template => !template.abstract);
+  if (candidates.length === 0) {
+    throw new Error('No prompt template found');
+  }
+
+  const ticketCategory = inferTicketCategory(ticket);
+  const scores = scoreTemplates(candidates, ticketCategory.category, performance, model);
+  const best = scores[0] as TemplateScore;
+  const template = candidates.find(candidate => candidate.id === best.templateId) as PromptTemplate;
+
+  return { template, reason: explainScore(template, best, ticketCategory, model), scores };
+}
+
+function explainScore(template: PromptTemplate, score: TemplateScore, ticketCategory: TicketCategory, model?: string): string {
+  const reasons: string[] = [];
+  const ticket = ticketCategory.keyword ? `the ticket mentions "${ticketCategory.keyword}"` : 'no bugfix, refactor, test or docs keywords in the ticket';
+
+  if (score.categoryFit === 1) {
+    reasons.push(`${template.category} template, ${ticket}`);
+  } else if (score.categoryFit > 0) {
+    reasons.push(`no ${ticketCategory.category} template, falling back to a feature template`);
+  } else {
+    reasons.push(`best record, though it is a ${template.category} template for a ${ticketCategory.category} ticket`);
+  }
+
+  if (score.evidence > 0) {
+    const rate = Math.round(score.successRate * 100);
+    reasons.push(`${rate}% success over ${score.evidence} ${score.similar ? `${ticketCategory.category} tickets` : 'recorded outcomes'}`);
+  } else {
+    reasons.push('no recorded outcomes yet');
+  }
+
+  if (model && score.modelFit === 1) {
+    reasons.push(`written for ${template.aiModel}`);
+  }
+  if (score.exploration >= EXPLORATION_WEIGHT / 2 && score.evidence < MIN_SIMILAR_OUTCOMES) {
+    reasons.push('rarely used, so worth trying');
+  }
+
+  return reasons.join('; ');
+}
+
+function modelMatch(templateModel: string | undefined, model?: string): number {
+  if (!model || model === 'default' || !templateModel || templateModel === 'any') {
+    return 0.5;
+  }
+  const wanted = model.toLowerCase();
+  const written = templateModel.toLowerCase();
+  return wanted === written || wanted.startsWith(written) ? 1 : 0;
+}
\ No newline at end of file
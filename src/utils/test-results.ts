@@ -0,0 +1,297 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { getSherpaDir, readJson, writeJson, readMarkdown, fileExists } from './fs.js';
+
+export type TestRunner = 'vitest' | 'jest' | 'pytest' | 'npm';
+
+export interface TestCounts {
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface TestFailure {
+  name: string;
+  file: string;
+  message: string;
+}
+
+export interface CoverageMetrics {
+  lines: number;
+  branches: number;
+  // coverage.py does not measure function coverage
+  functions: number | null;
+  statements: number;
+}
+
+export interface CoverageGate {
+  target: number;
+  actual: number;
+  passed: boolean;
+}
+
+export interface TestRunResult {
+  runner: TestRunner;
+  command: string;
+  timestamp: string;
+  durationMs: number;
+  success: boolean;
+  tests: TestCounts | null;
+  failures: TestFailure[];
+  coverage: CoverageMetrics | null;
+  gate: CoverageGate | null;
+}
+
+const MAX_FAILURE_MESSAGE = 500;
+
+const SKIPPED_STATUSES = ['skipped', 'pending', 'todo', 'disabled'];
+
+/**
+ * Reads the Jest-style JSON report. Vitest's `json` reporter writes the same shape,
+ * so one parser serves both runners.
+ */
+export function parseJestJsonReport(report: unknown): { tests: TestCounts; failures: TestFailure[] } {
+  const root = asObject(report);
+  const files = asObjects(root.testResults);
+  const assertions = files.flatMap(file => asObjects(file.assertionResults));
+
+  // Count from the individual results when present; vitest reports skipped tests as passed in the totals
+  const tests: TestCounts = assertions.length > 0
+    ? {
+      total: assertions.length,
+      passed: assertions.filter(assertion => assertion.status === 'passed').length,
+      failed: assertions.filter(assertion => assertion.status === 'failed').length,
+      skipped: assertions.filter(assertion => SKIPPED_STATUSES.includes(asString(assertion.status))).length
+    }
+    : {
+      total: Number(root.numTotalTests) || 0,
+      passed: Number(root.numPassedTests) || 0,
+      failed: Number(root.numFailedTests) || 0,
+      skipped: (Number(root.numPendingTests) || 0) + (Number(root.numTodoTests) || 0)
+    };
+
+  const failures: TestFailure[] = [];
+  for (const file of files) {
+    const fileName = asString(file.name) || asString(file.testFilePath);
+    const failed = asObjects(file.assertionResults).filter(assertion => assertion.status === 'failed');
+
+    for (const assertion of failed) {
+      failures.push({
+        name: (asString(assertion.fullName) || [...asStrings(assertion.ancestorTitles), asString(assertion.title)].join(' ')).trim(),
+        file: fileName,
+        message: firstLine(asStrings(assertion.failureMessages).join('\n'))
+      });
+    }
+
+    // A file that fails to load has no assertions, only a file-level message
+    const fileMessage = asString(file.message);
+    if (failed.length === 0 && file.status === 'failed' && fileMessage) {
+      failures.push({ name: path.basename(fileName), file: fileName, message: firstLine(fileMessage) });
+    }
+  }
+
+  return { tests, failures };
+}
+
+/**
+ * Reads an Istanbul `coverage-summary.json`, which both the istanbul and v8 coverage
+ * providers write with the `json-summary` reporter.
+ */
+export function parseCoverageSummary(summary: unknown): CoverageMetrics | null {
+  const total = asObject(asObject(summary).total);
+  if (typeof asObject(total.lines).pct !== 'number') {
+    return null;
+  }
+
+  const pct = (metric: unknown) => {
+    const value = asObject(metric).pct;
+    return typeof value === 'number' ? value : 0;
+  };
+  return {
+    lines: pct(total.lines),
+    branches: pct(total.branches),
+    functions: pct(total.functions),
+    statements: pct(total.statements)
+  };
+}
+
+/**
+ * Reads the JUnit XML that `pytest --junitxml` writes. Only `<testcase>` elements are
+ * read, so the surrounding `<testsuites>`/`<testsuite>` wrappers can vary between runners.
+ */
+export function parseJUnitXml(xml: string): { tests: TestCounts; failures: TestFailure[] } {
+  const tests: TestCounts = { total: 0, passed: 0, failed: 0, skipped: 0 };
+  const failures: TestFailure[] = [];
+  const testCase = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = testCase.exec(xml)) !== null) {
+    const attributes = parseXmlAttributes(match[1] || '');
+    const body = match[2] || '';
+    const problem = body.match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+
+    tests.total++;
+    if (problem) {
+      tests.failed++;
+      const message = parseXmlAttributes(problem[2] || '').message || decodeXmlEntities(problem[3] || '');
+      const className = attributes.classname || '';
+      failures.push({
+        name: className ? `${className}::${attributes.name || ''}` : attributes.name || '',
+        file: attributes.file || className.replace(/\./g, '/') + (className ? '.py' : ''),
+        message: firstLine(message)
+      });
+    } else if (/<skipped\b/.test(body)) {
+      tests.skipped++;
+    } else {
+      tests.passed++;
+    }
+  }
+
+  return { tests, failures };
+}
+
+/**
+ * Reads the `coverage json` report (coverage.py, also written by `pytest --cov-report=json`).
+ */
+export function parseCoveragePyJson(report: unknown): CoverageMetrics | null {
+  const totals = asObject(asObject(report).totals);
+  const statements = totals.num_statements;
+  if (typeof statements !== 'number') {
+    return null;
+  }
+
+  const percent = (covered: number, total: number) => total > 0 ? Math.round((covered / total) * 10000) / 100 : 100;
+  const lines = percent(Number(totals.covered_lines) || 0, statements);
+  return {
+    lines,
+    branches: percent(Number(totals.covered_branches) || 0, Number(totals.num_branches) || 0),
+    functions: null,
+    statements: lines
+  };
+}
+
+export function parseCoverageTarget(testingStandards: string): number | null {
+  const match = testingStandards.match(/\*\*Coverage Target\*\*:\s*(\d+(?:\.\d+)?)\s*%/i);
+  return match && match[1] ? parseFloat(match[1]) : null;
+}
+
+export function checkCoverageGate(coverage: CoverageMetrics | null, target: number | null): CoverageGate | null {
+  if (!coverage || target === null) {
+    return null;
+  }
+
+  return { target, actual: coverage.lines, passed: coverage.lines >= target };
+}
+
+export async function readCoverageTarget(): Promise<number | null> {
+  const standardsPath = path.join(getSherpaDir(), 'standards', 'testing-standards.md');
+  if (!await fileExists(standardsPath)) {
+    return null;
+  }
+
+  return parseCoverageTarget(await readMarkdown(standardsPath));
+}
+
+export function getTestResultsDir(): string {
+  return path.join(getSherpaDir(), 'test-results');
+}
+
+export async function saveTestResult(result: TestRunResult): Promise<string> {
+  const resultsDir = getTestResultsDir();
+  const resultPath = path.join(resultsDir, `${result.timestamp.replace(/[:.]/g, '-')}.json`);
+
+  await writeJson(resultPath, result);
+  await writeJson(path.join(resultsDir, 'latest.json'), result);
+
+  return resultPath;
+}
+
+export async function getLatestTestResult(): Promise<TestRunResult | null> {
+  const latestPath = path.join(getTestResultsDir(), 'latest.json');
+  if (!await fileExists(latestPath)) {
+    return null;
+  }
+
+  try {
+    return await readJson<TestRunResult>(latestPath);
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Reads a report file only if it was written during this run, so a stale report from an
+ * earlier run is never mistaken for the current one.
+ */
+export async function readFreshJson(filePath: string, since: number): Promise<unknown> {
+  try {
+    const stats = await fs.stat(filePath);
+    // Allow for filesystems that only store whole-second timestamps
+    if (stats.mtimeMs + 1000 < since) {
+      return null;
+    }
+    return await readJson<unknown>(filePath);
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Text counterpart to readFreshJson for XML reports.
+ */
+export async function readFreshText(filePath: string, since: number): Promise<string | null> {
+  try {
+    const stats = await fs.stat(filePath);
+    if (stats.mtimeMs + 1000 < since) {
+      return null;
+    }
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    return null;
+  }
+}
+
+function parseXmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1] || ''] = decodeXmlEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Reports come from whichever runner version is installed, so every field is checked before use
+function asObject(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function asObjects(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.map(asObject) : [];
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function asStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function firstLine(message: string): string {
+  // Strip ANSI colours the runners add to failure messages
+  const clean = message.replace(/\u001b\[[0-9;]*m/g, '').trim();
+  const line = clean.split('\n')[0] || '';
+  return line.length > MAX_FAILURE_MESSAGE ? `${line.substring(0, MAX_FAILURE_MESSAGE)}…` : line;
+}
\ No newline at end of file
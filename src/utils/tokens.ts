@@ -0,0 +1,84 @@
+// Prompt budgets for each model family, well under the context window so the reply and
+// any files the assistant opens still fit. Matched by longest prefix of the model name.
+export const DEFAULT_TOKEN_BUDGETS: Record<string, number> = {
+  default: 8000,
+  'gpt-3.5': 3000,
+  'gpt-4': 6000,
+  'gpt-4o': 24000,
+  'gpt-4.1': 32000,
+  'o1': 24000,
+  'o3': 32000,
+  'claude': 32000,
+  'gemini': 32000,
+  'llama': 6000,
+  'mistral': 8000
+};
+
+export interface TokenBudget {
+  model: string;
+  budget: number;
+  source: 'option' | 'config' | 'default';
+}
+
+const PIECE_PATTERN = /[A-Za-z]+|\d+|\s+|[^\sA-Za-z\d]/g;
+
+/**
+ * Approximates BPE tokenizers (GPT cl100k, Claude) without shipping a vocabulary, so
+ * budgets work offline. Short words are one token, long words split every ~6 letters,
+ * digits group in threes, punctuation is a token per character and whitespace runs are
+ * one token at most. It errs on the high side for prose, which is the safe direction
+ * for a budget.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+
+  for (const [piece] of text.matchAll(PIECE_PATTERN)) {
+    const first = piece[0] as string;
+    if (/\s/.test(first)) {
+      // A single space folds into the next word; newline and indentation runs are one token
+      tokens += piece === ' ' ? 0 : 1;
+    } else if (/\d/.test(first)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (/[A-Za-z]/.test(first)) {
+      tokens += Math.ceil(piece.length / 6);
+    } else {
+      tokens += 1;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Picks the prompt budget: an explicit `--budget`, then `prompts.budgets` in
+ * `.sherpa/config.yml`, then the built-in budget for the model family.
+ */
+export function resolveTokenBudget(
+  model: string | undefined,
+  options: { budget?: number; configModel?: string; configBudgets?: Record<string, number> } = {}
+): TokenBudget {
+  const resolvedModel = model || options.configModel || 'default';
+
+  if (options.budget !== undefined) {
+    return { model: resolvedModel, budget: options.budget, source: 'option' };
+  }
+
+  const configured = matchModel(resolvedModel, options.configBudgets || {});
+  if (configured !== undefined) {
+    return { model: resolvedModel, budget: configured, source: 'config' };
+  }
+
+  return {
+    model: resolvedModel,
+    budget: matchModel(resolvedModel, DEFAULT_TOKEN_BUDGETS) ?? DEFAULT_TOKEN_BUDGETS.default as number,
+    source: 'default'
+  };
+}
+
+function matchModel(model: string, budgets: Record<string, number>): number | undefined {
+  const name = model.toLowerCase();
+  const key = Object.keys(budgets)
+    .filter(candidate => name === candidate.toLowerCase() || name.startsWith(candidate.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+  return key !== undefined ? budgets[key] : undefined;
+}
\ No newline at end of file
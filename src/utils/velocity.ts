@@ -0,0 +1,205 @@
+import * as path from 'path';
+import { readJson, fileExists } from './fs.js';
+import { formatDate } from './ids.js';
+import { getTicketStatus } from './backlog.js';
+import { SessionState } from './session.js';
+import { Ticket } from '../types/index.js';
+
+export type VelocityPeriod = 'week' | 'month' | 'quarter';
+
+export const VELOCITY_PERIODS: Record<VelocityPeriod, number> = {
+  week: 7,
+  month: 30,
+  quarter: 90
+};
+
+export interface TicketTimeline {
+  ticketId: string;
+  title: string;
+  estimateHours: number;
+  createdAt?: string;
+  startedAt?: string;
+  completedAt?: string;
+  reopenCount: number;
+  workedHours: number;
+}
+
+export interface Percentiles {
+  count: number;
+  p50: number;
+  p85: number;
+  p95: number;
+}
+
+export interface EstimateAccuracy {
+  tickets: number;
+  estimatedHours: number;
+  actualHours: number;
+  ratio: number;
+  withinTimeboxPercent: number;
+}
+
+export interface VelocityMetrics {
+  period: VelocityPeriod;
+  from: string;
+  to: string;
+  ticketsCompleted: number;
+  throughput: Array<{ weekStart: string; completed: number }>;
+  throughputPerWeek: number;
+  cycleTimeDays: Percentiles | null;
+  leadTimeDays: Percentiles | null;
+  reopenRate: number | null;
+  estimateAccuracy: EstimateAccuracy | null;
+  sessions: { count: number; hours: number };
+}
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Start, finish and reopen times come from the ticket's status history; hours actually
+ * worked come from logged sessions that were attached to the ticket.
+ */
+export function getTicketTimeline(ticket: Ticket, sessions: SessionState[]): TicketTimeline {
+  const history = ticket.status_history || [];
+  const started = history.find(transition => transition.to === 'in_progress');
+  const completions = history.filter(transition => transition.to === 'done');
+  const isDone = getTicketStatus(ticket) === 'done';
+
+  const workedMs = sessions
+    .filter(session => session.currentTicket === ticket.ticket_id)
+    .reduce((sum, session) => sum + sessionDurationMs(session), 0);
+
+  return {
+    ticketId: ticket.ticket_id,
+    title: ticket.title,
+    estimateHours: Number(ticket.timebox_hours) || 0,
+    createdAt: ticket.created_at,
+    // Tickets closed straight from todo were never started; treat the finish as the start
+    startedAt: started?.at || completions[0]?.at,
+    completedAt: isDone ? completions[completions.length - 1]?.at : undefined,
+    reopenCount: history.filter(transition => transition.from === 'done').length,
+    workedHours: round(workedMs / MS_PER_HOUR)
+  };
+}
+
+export function percentiles(values: number[]): Percentiles | null {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  // Nearest-rank, so every percentile is a value that actually occurred
+  const at = (p: number) => round(sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)] || 0);
+
+  return { count: sorted.length, p50: at(50), p85: at(85), p95: at(95) };
+}
+
+export function getPeriodRange(period: VelocityPeriod, endDate: string): { from: Date; to: Date } {
+  const to = new Date(`${endDate}T23:59:59.999Z`);
+  if (isNaN(to.getTime())) {
+    throw new Error(`Invalid date: ${endDate}`);
+  }
+
+  const from = new Date(to.getTime() - VELOCITY_PERIODS[period] * MS_PER_DAY + 1);
+  return { from, to };
+}
+
+export function calculateVelocity(
+  tickets: Ticket[],
+  sessions: SessionState[],
+  period: VelocityPeriod,
+  endDate: string = formatDate()
+): VelocityMetrics {
+  const { from, to } = getPeriodRange(period, endDate);
+  const inPeriod = (timestamp?: string) => {
+    const time = timestamp ? Date.parse(timestamp) : NaN;
+    return !isNaN(time) && time >= from.getTime() && time <= to.getTime();
+  };
+
+  const completed = tickets
+    .map(ticket => getTicketTimeline(ticket, sessions))
+    .filter(timeline => inPeriod(timeline.completedAt));
+
+  const daysBetween = (start?: string, end?: string) =>
+    start && end ? Math.max(0, (Date.parse(end) - Date.parse(start)) / MS_PER_DAY) : NaN;
+
+  const cycleTimes = completed.map(t => daysBetween(t.startedAt, t.completedAt)).filter(days => !isNaN(days));
+  const leadTimes = completed.map(t => daysBetween(t.createdAt, t.completedAt)).filter(days => !isNaN(days));
+
+  const weeks = Math.ceil(VELOCITY_PERIODS[period] / 7);
+  const throughput = Array.from({ length: weeks }, (_, index) => {
+    const weekStart = new Date(Math.max(from.getTime(), to.getTime() + 1 - (weeks - index) * 7 * MS_PER_DAY));
+    const weekEnd = new Date(to.getTime() + 1 - (weeks - index - 1) * 7 * MS_PER_DAY);
+    return {
+      weekStart: formatDate(weekStart),
+      completed: completed.filter(t => {
+        const time = Date.parse(t.completedAt || '');
+        return time >= weekStart.getTime() && time < weekEnd.getTime();
+      }).length
+    };
+  });
+
+  const measured = completed.filter(t => t.workedHours > 0 && t.estimateHours > 0);
+  let estimateAccuracy: EstimateAccuracy | null = null;
+  if (measured.length > 0) {
+    const estimatedHours = measured.reduce((sum, t) => sum + t.estimateHours, 0);
+    const actualHours = measured.reduce((sum, t) => sum + t.workedHours, 0);
+    estimateAccuracy = {
+      tickets: measured.length,
+      estimatedHours: round(estimatedHours),
+      actualHours: round(actualHours),
+      ratio: round(actualHours / estimatedHours),
+      withinTimeboxPercent: Math.round((measured.filter(t => t.workedHours <= t.estimateHours).length / measured.length) * 100)
+    };
+  }
+
+  const periodSessions = sessions.filter(session => inPeriod(session.startTime));
+
+  return {
+    period,
+    from: formatDate(from),
+    to: formatDate(to),
+    ticketsCompleted: completed.length,
+    throughput,
+    throughputPerWeek: round(completed.length / (VELOCITY_PERIODS[period] / 7)),
+    cycleTimeDays: percentiles(cycleTimes),
+    leadTimeDays: percentiles(leadTimes),
+    reopenRate: completed.length > 0
+      ? Math.round((completed.filter(t => t.reopenCount > 0).length / completed.length) * 100)
+      : null,
+    estimateAccuracy,
+    sessions: {
+      count: periodSessions.length,
+      hours: round(periodSessions.reduce((sum, session) => sum + sessionDurationMs(session), 0) / MS_PER_HOUR)
+    }
+  };
+}
+
+/**
+ * Line coverage from an Istanbul `coverage-summary.json` (written by vitest and jest
+ * with the `json-summary` reporter), or null when no run has produced one.
+ */
+export async function readCoveragePercent(projectRoot: string): Promise<number | null> {
+  const summaryPath = path.join(projectRoot, 'coverage', 'coverage-summary.json');
+  if (!await fileExists(summaryPath)) {
+    return null;
+  }
+
+  try {
+    const summary = await readJson<any>(summaryPath);
+    const pct = summary?.total?.lines?.pct;
+    return typeof pct === 'number' ? pct : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+function sessionDurationMs(session: SessionState): number {
+  const duration = Date.parse(session.lastUpdated) - Date.parse(session.startTime);
+  return isNaN(duration) ? 0 : Math.max(0, duration);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { Ticket } from '../../src/types/index.js';
+
+export function makeTicket(ticketId: string, overrides: Partial<Ticket> = {}): Ticket {
+  return {
+    ticket_id: ticketId,
+    title: `Ticket ${ticketId}`,
+    outcome: 'Something works',
+    scope_in: [],
+    scope_out: [],
+    acceptance_criteria: ['It works'],
+    telemetry: { events: [], alerts: [] },
+    test_plan: { unit: [], e2e: [] },
+    timebox_hours: 4,
+    owner: 'unassigned',
+    ...overrides
+  };
+}
\ No newline at end of file
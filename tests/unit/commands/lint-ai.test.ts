@@ -0,0 +1,36 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ensureDir } from '../../../src/utils/fs.js';
+import { lintAiCommand } from '../../../src/commands/lint-ai.js';
+
+describe('lint:ai command', () => {
+  let tempDir: string;
+  let originalCwd: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sherpa-lint-ai-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tempDir);
+    await ensureDir(path.join(tempDir, '.sherpa'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    process.chdir(originalCwd);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should apply info-level fixes with --fix and the default severity', async () => {
+    const file = path.join(tempDir, 'src/prices.ts');
+    await ensureDir(path.dirname(file));
+    await fs.writeFile(file, 'export const doubled = [1, 2].map(x => x + 1).map(y => y * 2);\n');
+
+    await lintAiCommand.parseAsync(['--fix'], { from: 'user' });
+
+    expect(await fs.readFile(file, 'utf-8')).toBe('export const doubled = [1, 2].map((x) => { const y = x + 1; return y * 2; });\n');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { parseAdr, linkSupersededDecisions, isActiveDecision, markAdrSuperseded, renderAdr, nextAdrNumber, adrFilename } from '../../../src/utils/adr.js';
+
+const FALLBACK = '2020-01-01T00:00:00.000Z';
+
+describe('ADR parsing', () => {
+  it('should read Nygard records written by adr-tools', () => {
+    const adr = parseAdr(`# 2. Use PostgreSQL for persistence
+
+Date: 2024-03-05
+
+## Status
+
+Accepted
+
+Supersedes [1. Use SQLite](0001-use-sqlite.md)
+
+## Context
+
+We need concurrent writes
+from several workers.
+
+## Decision
+
+We will use PostgreSQL 16.
+
+## Consequences
+
+- Need a migration tool
+- Local setup requires Docker
+`, '0002-use-postgresql-for-persistence.md', FALLBACK);
+
+    expect(adr).toEqual({
+      id: '0002-use-postgresql-for-persistence',
+      number: 2,
+      title: 'Use PostgreSQL for persistence',
+      status: 'accepted',
+      date: '2024-03-05T00:00:00.000Z',
+      rationale: 'We need concurrent writes from several workers.',
+      decision: 'We will use PostgreSQL 16.',
+      consequences: ['Need a migration tool', 'Local setup requires Docker'],
+      supersedes: ['0001-use-sqlite'],
+      supersededBy: []
+    });
+  });
+
+  it('should read MADR records with list metadata or frontmatter', () => {
+    const madr2 = parseAdr(`# Use Vitest for unit tests
+
+* Status: deprecated
+* Date: 2023-06-01
+
+## Context and Problem Statement
+
+Jest is slow with ESM.
+
+## Decision Outcome
+
+Chosen option: "Vitest", because it runs ESM natively.
+
+### Positive Consequences
+
+* Faster test runs
+
+### Negative Consequences
+
+* Fewer plugins
+`, '0003-use-vitest.md', FALLBACK);
+
+    expect(madr2).toMatchObject({
+      number: 3,
+      status: 'deprecated',
+      date: '2023-06-01T00:00:00.000Z',
+      decision: 'Chosen option: "Vitest"',
+      rationale: 'it runs ESM natively.',
+      consequences: ['Faster test runs', 'Fewer plugins']
+    });
+
+    const madr3 = parseAdr(`---
+status: superseded by ADR-0005
+date: 2024-01-10
+---
+
+# Keep sessions in memory
+`, '0004-sessions-in-memory.md', FALLBACK);
+
+    expect(madr3).toMatchObject({ status: 'superseded', supersededBy: ['ADR-0005'], date: '2024-01-10T00:00:00.000Z' });
+    expect(isActiveDecision(madr2)).toBe(false);
+    expect(isActiveDecision(madr3)).toBe(false);
+  });
+
+  it('should fall back when a record has no recognised metadata', () => {
+    const adr = parseAdr('# Notes on caching\n\nWe cache rendered pages for an hour.\n', 'caching.md', FALLBACK);
+
+    expect(adr).toMatchObject({
+      number: null,
+      title: 'Notes on caching',
+      status: 'accepted',
+      date: FALLBACK,
+      decision: 'We cache rendered pages for an hour.',
+      rationale: 'No rationale recorded'
+    });
+    expect(isActiveDecision(adr)).toBe(true);
+  });
+
+  it('should mark records superseded from links in either direction', () => {
+    const adrs = linkSupersededDecisions([
+      parseAdr('# 1. Use SQLite\n\n## Status\n\nAccepted\n', '0001-use-sqlite.md', FALLBACK),
+      parseAdr('# 2. Use PostgreSQL\n\n## Status\n\nAccepted\n\nSupersedes ADR-1\n', '0002-use-postgresql.md', FALLBACK),
+      parseAdr('---\nstatus: superseded by ADR-0002\n---\n# Use files\n', '0000-use-files.md', FALLBACK)
+    ]);
+
+    expect(adrs[0]).toMatchObject({ status: 'superseded', supersededBy: ['0002-use-postgresql'] });
+    expect(adrs[1]).toMatchObject({ status: 'accepted', supersedes: ['0001-use-sqlite'] });
+    expect(adrs[2]).toMatchObject({ status: 'superseded', supersededBy: ['0002-use-postgresql'] });
+    expect(adrs.filter(isActiveDecision).map(adr => adr.id)).toEqual(['0002-use-postgresql']);
+  });
+});
+
+describe('ADR authoring', () => {
+  it('should number new records after the highest existing one', () => {
+    expect(nextAdrNumber([])).toBe(1);
+    expect(nextAdrNumber(['0001-a.md', '0007-b.md', 'README.md', '0009-draft.txt'])).toBe(8);
+    expect(adrFilename(12, 'Use Redis for rate limits!')).toBe('0012-use-redis-for-rate-limits.md');
+  });
+
+  it('should render records that parse back and supersede the old one', () => {
+    const rendered = renderAdr({
+      number: 3,
+      title: 'Use Redis',
+      status: 'accepted',
+      date: '2024-05-01',
+      format: 'nygard',
+      supersedes: { title: '2. Use Memcached', file: '0002-use-memcached.md' }
+    });
+    expect(parseAdr(rendered, '0003-use-redis.md', FALLBACK)).toMatchObject({
+      number: 3,
+      title: 'Use Redis',
+      status: 'accepted',
+      supersedes: ['0002-use-memcached']
+    });
+
+    const old = '# 2. Use Memcached\n\nDate: 2023-01-01\n\n## Status\n\nAccepted\n\nSupersedes [1. No cache](0001-no-cache.md)\n\n## Context\n\nSlow pages.\n';
+    const updated = markAdrSuperseded(old, { title: '3. Use Redis', file: '0003-use-redis.md' });
+    expect(parseAdr(updated, '0002-use-memcached.md', FALLBACK)).toMatchObject({
+      status: 'superseded',
+      supersededBy: ['0003-use-redis'],
+      supersedes: ['0001-no-cache'],
+      rationale: 'Slow pages.'
+    });
+
+    const madr = markAdrSuperseded('---\nstatus: accepted\n---\n\n# Use Memcached\n', { title: '3. Use Redis', file: '0003-use-redis.md' });
+    expect(parseAdr(madr, '0002-use-memcached.md', FALLBACK)).toMatchObject({ status: 'superseded', supersededBy: ['0003-use-redis'] });
+  });
+});
\ No newline at end of file
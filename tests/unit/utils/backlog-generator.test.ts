@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ensureDir, readYaml, writeYaml } from '../../../src/utils/fs.js';
+import { BacklogManager } from '../../../src/utils/backlog.js';
+import { generateBacklogFromSpec } from '../../../src/utils/backlog-generator.js';
+import { parseSpecification } from '../../../src/utils/specs.js';
+import { Ticket } from '../../../src/types/index.js';
+
+function authSpec(wants: string[]): string {
+  return `---
+title: Auth
+effort: 6
+---
+
+# Auth
+
+## Overview
+Sign-in for registered users.
+
+## User Stories
+${wants.map(want => `- **As a** user **I want** ${want} **so that** I stay safe`).join('\n')}
+
+## Acceptance Criteria
+- [ ] Login works
+- [ ] Logout works
+- [ ] Sessions expire`;
+}
+
+describe('generateBacklogFromSpec', () => {
+  let tempDir: string;
+  let originalCwd: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sherpa-backlog-generator-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tempDir);
+    await ensureDir(path.join(tempDir, '.sherpa/backlog/tickets'));
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should key stories and tickets by their text', () => {
+    const items = generateBacklogFromSpec(parseSpecification(authSpec(['login', 'logout']), 'auth.md'), 'auth.md');
+
+    expect(items.stories.map(story => story.source?.key)).toEqual(['auth/as-a-user-i-want-login-so-that-i-stay-safe', 'auth/as-a-user-i-want-logout-so-that-i-stay-safe']);
+    expect(items.tickets.map(ticket => ticket.source?.key)).toEqual([
+      'auth/as-a-user-i-want-login-so-that-i-stay-safe/login-works',
+      'auth/as-a-user-i-want-login-so-that-i-stay-safe/logout-works',
+      'auth/as-a-user-i-want-logout-so-that-i-stay-safe/login-works',
+      'auth/as-a-user-i-want-logout-so-that-i-stay-safe/logout-works'
+    ]);
+    expect(items.epics[0]?.tickets).toEqual(items.tickets.map(ticket => ticket.ticket_id));
+  });
+
+  it('should keep existing tickets when a story is inserted at the start of a spec', async () => {
+    const manager = new BacklogManager();
+    const stories = ['login', 'logout'];
+    await manager.mergeGeneratedBacklog(generateBacklogFromSpec(parseSpecification(authSpec(stories), 'auth.md'), 'auth.md'), ['auth.md']);
+
+    const before = await manager.listTickets();
+    for (const ticket of before) {
+      await writeYaml(path.join(tempDir, '.sherpa/backlog/tickets', `${ticket.ticket_id}.yml`), { ...ticket, status: 'in_progress' });
+    }
+
+    const inserted = ['locked accounts', ...stories];
+    const report = await manager.mergeGeneratedBacklog(generateBacklogFromSpec(parseSpecification(authSpec(inserted), 'auth.md'), 'auth.md'), ['auth.md']);
+
+    expect(report.added.map(entry => entry.kind)).toEqual(['story', 'ticket', 'ticket']);
+    expect(report.orphaned).toEqual([]);
+    for (const ticket of before) {
+      const saved = await readYaml<Ticket>(path.join(tempDir, '.sherpa/backlog/tickets', `${ticket.ticket_id}.yml`));
+      expect(saved.status).toBe('in_progress');
+      expect(saved.source?.key).toBe(ticket.source?.key);
+      expect(saved.acceptance_criteria).toEqual(ticket.acceptance_criteria);
+    }
+  });
+
+  it('should fall back to part numbers and suffix duplicate keys', () => {
+    const spec = parseSpecification(authSpec(['login', 'login']).replace(/## Acceptance Criteria[\s\S]*$/, ''), 'auth.md');
+    const items = generateBacklogFromSpec(spec, 'auth.md');
+
+    expect(items.stories.map(story => story.source?.key)).toEqual(['auth/as-a-user-i-want-login-so-that-i-stay-safe', 'auth/as-a-user-i-want-login-so-that-i-stay-safe-2']);
+    expect(items.tickets.map(ticket => ticket.source?.key)).toEqual([
+      'auth/as-a-user-i-want-login-so-that-i-stay-safe/part-1',
+      'auth/as-a-user-i-want-login-so-that-i-stay-safe/part-2',
+      'auth/as-a-user-i-want-login-so-that-i-stay-safe-2/part-1',
+      'auth/as-a-user-i-want-login-so-that-i-stay-safe-2/part-2'
+    ]);
+  });
+});
\ No newline at end of file
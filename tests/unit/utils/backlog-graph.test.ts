@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { BacklogItems } from '../../../src/utils/backlog.js';
+import {
+  buildDependencyGraph,
+  computeCriticalPath,
+  getUnfinishedDependencies,
+  toMermaid,
+  toDot
+} from '../../../src/utils/backlog-graph.js';
+import { Ticket } from '../../../src/types/index.js';
+import { makeTicket } from '../../helpers/tickets.js';
+
+function makeBacklog(tickets: Ticket[]): BacklogItems {
+  return {
+    epics: [{ epic_id: 'EPC-1', title: 'Epic', description: '', tickets: tickets.map(t => t.ticket_id) }],
+    stories: [{ story_id: 'STY-1', title: 'Story', description: '', epic_id: 'EPC-1', tickets: tickets.map(t => t.ticket_id) }],
+    tickets
+  };
+}
+
+describe('backlog dependency graph', () => {
+  it('should treat blocks as the inverse of depends_on', () => {
+    const graph = buildDependencyGraph(makeBacklog([
+      makeTicket('TKT-1', { blocks: ['TKT-2'] }),
+      makeTicket('TKT-2')
+    ]));
+
+    expect(graph.issues).toEqual([]);
+    expect(graph.nodes.get('TKT-2')?.dependsOn).toEqual(['TKT-1']);
+  });
+
+  it('should report unknown references and self dependencies', () => {
+    const graph = buildDependencyGraph(makeBacklog([
+      makeTicket('TKT-1', { depends_on: ['TKT-404', 'TKT-1'] })
+    ]));
+
+    expect(graph.issues.map(issue => issue.message)).toEqual([
+      'TKT-1 depends on unknown item TKT-404',
+      'TKT-1 depends on itself'
+    ]);
+  });
+
+  it('should detect cycles once and skip the critical path', () => {
+    const graph = buildDependencyGraph(makeBacklog([
+      makeTicket('TKT-1', { depends_on: ['TKT-3'] }),
+      makeTicket('TKT-2', { depends_on: ['TKT-1'] }),
+      makeTicket('TKT-3', { depends_on: ['TKT-2'] })
+    ]));
+
+    const cycles = graph.issues.filter(issue => issue.cycle);
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0]?.cycle).toEqual(['TKT-1', 'TKT-3', 'TKT-2', 'TKT-1']);
+    expect(computeCriticalPath(graph)).toBeNull();
+  });
+
+  it('should detect a ticket depending on its own story', () => {
+    const graph = buildDependencyGraph(makeBacklog([
+      makeTicket('TKT-1', { depends_on: ['STY-1'] })
+    ]));
+
+    expect(graph.issues.some(issue => issue.cycle?.includes('STY-1'))).toBe(true);
+  });
+
+  it('should compute the critical path from timebox hours', () => {
+    const graph = buildDependencyGraph(makeBacklog([
+      makeTicket('TKT-1', { timebox_hours: 2 }),
+      makeTicket('TKT-2', { timebox_hours: 8, depends_on: ['TKT-1'] }),
+      makeTicket('TKT-3', { timebox_hours: 3, depends_on: ['TKT-1'] }),
+      makeTicket('TKT-4', { timebox_hours: 1, depends_on: ['TKT-2', 'TKT-3'] })
+    ]));
+
+    const criticalPath = computeCriticalPath(graph);
+    expect(criticalPath?.hours).toBe(11);
+    expect(criticalPath?.path.map(node => node.id)).toEqual(['TKT-1', 'TKT-2', 'TKT-4']);
+  });
+
+  it('should list unfinished dependencies, including ones inherited from the story', () => {
+    const items = makeBacklog([
+      makeTicket('TKT-1', { status: 'done' }),
+      makeTicket('TKT-2', { depends_on: ['TKT-1'] }),
+      makeTicket('TKT-3', { depends_on: ['TKT-2'] })
+    ]);
+    items.stories.push({ story_id: 'STY-2', title: 'Later', description: '', epic_id: 'EPC-1', tickets: ['TKT-4'], depends_on: ['STY-1'] });
+    items.tickets.push(makeTicket('TKT-4'));
+
+    const graph = buildDependencyGraph(items);
+
+    expect(getUnfinishedDependencies(graph, 'TKT-2')).toEqual([]);
+    expect(getUnfinishedDependencies(graph, 'TKT-3').map(node => node.id)).toEqual(['TKT-2']);
+    expect(getUnfinishedDependencies(graph, 'TKT-4').map(node => node.id)).toEqual(['STY-1']);
+  });
+
+  it('should export Mermaid and DOT with the critical path highlighted', () => {
+    const graph = buildDependencyGraph(makeBacklog([
+      makeTicket('TKT-1'),
+      makeTicket('TKT-2', { depends_on: ['TKT-1'], title: 'Say "hi"' })
+    ]));
+    const criticalPath = computeCriticalPath(graph);
+
+    const mermaid = toMermaid(graph, criticalPath);
+    expect(mermaid).toContain('graph TD');
+    expect(mermaid).toContain('TKT_1 --> TKT_2');
+    expect(mermaid).toContain('TKT_2["TKT-2: Say #quot;hi#quot; (4h)"]');
+    expect(mermaid).toContain('class TKT_1,TKT_2 critical');
+
+    const dot = toDot(graph, criticalPath);
+    expect(dot).toContain('"TKT-1" -> "TKT-2";');
+    expect(dot).toContain('label="TKT-2: Say \\"hi\\" (4h)"');
+    expect(dot).toContain('"TKT-1" -> "STY-1" [style=dashed];');
+  });
+});
\ No newline at end of file
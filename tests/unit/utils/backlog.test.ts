@@ -0,0 +1,272 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ensureDir, writeYaml, readYaml } from '../../../src/utils/fs.js';
+import { BacklogManager, BacklogItems, canTransition, getTicketStatus } from '../../../src/utils/backlog.js';
+import { Story, Ticket } from '../../../src/types/index.js';
+import { makeTicket } from '../../helpers/tickets.js';
+
+describe('BacklogManager', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let ticketsDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sherpa-backlog-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tempDir);
+
+    ticketsDir = path.join(tempDir, '.sherpa/backlog/tickets');
+    await ensureDir(ticketsDir);
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('status helpers', () => {
+    it('should treat tickets without a status as todo', () => {
+      expect(getTicketStatus(makeTicket('TKT-1'))).toBe('todo');
+    });
+
+    it('should only allow reopening done tickets', () => {
+      expect(canTransition('done', 'in_progress')).toBe(true);
+      expect(canTransition('done', 'todo')).toBe(false);
+      expect(canTransition('blocked', 'done')).toBe(false);
+    });
+  });
+
+  describe('listTickets', () => {
+    it('should return an empty list when there is no backlog', async () => {
+      await fs.rm(path.join(tempDir, '.sherpa/backlog'), { recursive: true, force: true });
+      const manager = new BacklogManager();
+      expect(await manager.listTickets()).toEqual([]);
+    });
+
+    it('should skip files that are not valid tickets', async () => {
+      await writeYaml(path.join(ticketsDir, 'TKT-1.yml'), makeTicket('TKT-1'));
+      await fs.writeFile(path.join(ticketsDir, 'notes.yml'), 'just: notes');
+
+      const manager = new BacklogManager();
+      const tickets = await manager.listTickets();
+      expect(tickets.map(t => t.ticket_id)).toEqual(['TKT-1']);
+    });
+  });
+
+  describe('getTicket', () => {
+    it('should find tickets by a unique partial ID', async () => {
+      await writeYaml(path.join(ticketsDir, 'TKT-ABC-111.yml'), makeTicket('TKT-ABC-111'));
+      await writeYaml(path.join(ticketsDir, 'TKT-DEF-222.yml'), makeTicket('TKT-DEF-222'));
+
+      const manager = new BacklogManager();
+      const ticket = await manager.getTicket('abc');
+      expect(ticket?.ticket_id).toBe('TKT-ABC-111');
+    });
+
+    it('should reject ambiguous partial IDs', async () => {
+      await writeYaml(path.join(ticketsDir, 'TKT-ABC-111.yml'), makeTicket('TKT-ABC-111'));
+      await writeYaml(path.join(ticketsDir, 'TKT-ABC-222.yml'), makeTicket('TKT-ABC-222'));
+
+      const manager = new BacklogManager();
+      await expect(manager.getTicket('ABC')).rejects.toThrow('ambiguous');
+    });
+  });
+
+  describe('transitionTicket', () => {
+    it('should record timestamped transitions in the ticket file', async () => {
+      await writeYaml(path.join(ticketsDir, 'TKT-1.yml'), makeTicket('TKT-1'));
+      const manager = new BacklogManager();
+
+      await manager.transitionTicket('TKT-1', 'in_progress');
+      await manager.transitionTicket('TKT-1', 'blocked', 'Waiting on API keys');
+
+      const saved = await readYaml<Ticket>(path.join(ticketsDir, 'TKT-1.yml'));
+      expect(saved.status).toBe('blocked');
+      expect(saved.status_history).toHaveLength(2);
+      expect(saved.status_history?.[0]).toMatchObject({ from: 'todo', to: 'in_progress' });
+      expect(saved.status_history?.[1]).toMatchObject({ from: 'in_progress', to: 'blocked', note: 'Waiting on API keys' });
+      expect(Date.parse(saved.status_history?.[1]?.at || '')).not.toBeNaN();
+    });
+
+    it('should refuse invalid transitions', async () => {
+      await writeYaml(path.join(ticketsDir, 'TKT-1.yml'), makeTicket('TKT-1', { status: 'blocked' }));
+      const manager = new BacklogManager();
+
+      await expect(manager.transitionTicket('TKT-1', 'done')).rejects.toThrow('Cannot move ticket');
+    });
+
+    it('should refuse transitions to the current status', async () => {
+      await writeYaml(path.join(ticketsDir, 'TKT-1.yml'), makeTicket('TKT-1', { status: 'done' }));
+      const manager = new BacklogManager();
+
+      await expect(manager.transitionTicket('TKT-1', 'done')).rejects.toThrow('already done');
+    });
+
+    it('should fail for unknown tickets', async () => {
+      const manager = new BacklogManager();
+      await expect(manager.transitionTicket('TKT-404', 'in_progress')).rejects.toThrow('Ticket not found');
+    });
+
+    it('should reject ticket IDs that point outside the tickets directory', async () => {
+      const manager = new BacklogManager();
+      await writeYaml(path.join(tempDir, '.sherpa/x.yml'), makeTicket('x'));
+
+      for (const ticketId of ['../../x', '..', 'a/b', 'a\\b']) {
+        await expect(manager.transitionTicket(ticketId, 'in_progress')).rejects.toThrow(`Invalid ticket ID "${ticketId}"`);
+      }
+      await expect(manager.saveTicket(makeTicket('../x'))).rejects.toThrow('Invalid ticket ID');
+      expect((await readYaml<Ticket>(path.join(tempDir, '.sherpa/x.yml'))).status).toBeUndefined();
+    });
+  });
+
+  describe('mergeGeneratedBacklog', () => {
+    // Simulates one gen:backlog run over spec auth.md with fresh random IDs
+    let run = 0;
+
+    beforeEach(() => {
+      run = 0;
+    });
+
+    function generate(criteria: string[] = ['Login works'], ticketCount: number = 2): BacklogItems {
+      run++;
+      const tickets = Array.from({ length: ticketCount }, (_, i) => makeTicket(`TKT-R${run}-${i + 1}`, {
+        title: `Core - Part ${i + 1}`,
+        acceptance_criteria: criteria,
+        status: 'todo',
+        source: { spec: 'auth.md', key: `auth/story-1/ticket-${i + 1}` }
+      }));
+      return {
+        epics: [{
+          epic_id: `EPC-R${run}`,
+          title: 'Auth',
+          description: 'Auth overview',
+          tickets: tickets.map(t => t.ticket_id),
+          source: { spec: 'auth.md', key: 'auth' }
+        }],
+        stories: [{
+          story_id: `STY-R${run}`,
+          title: 'Core',
+          description: 'Core story',
+          epic_id: `EPC-R${run}`,
+          tickets: tickets.map(t => t.ticket_id),
+          source: { spec: 'auth.md', key: 'auth/story-1' }
+        }],
+        tickets
+      };
+    }
+
+    it('should add everything on the first run', async () => {
+      const manager = new BacklogManager();
+      const report = await manager.mergeGeneratedBacklog(generate(), ['auth.md']);
+
+      expect(report.added).toHaveLength(4);
+      const backlog = await manager.loadBacklog();
+      expect(backlog.tickets).toHaveLength(2);
+      expect(backlog.tickets[0]?.source?.hashes?.title).toBeDefined();
+    });
+
+    it('should not duplicate items when regenerating the same spec', async () => {
+      const manager = new BacklogManager();
+      await manager.mergeGeneratedBacklog(generate(), ['auth.md']);
+      const report = await manager.mergeGeneratedBacklog(generate(), ['auth.md']);
+
+      expect(report.added).toHaveLength(0);
+      expect(report.unchanged).toHaveLength(4);
+      const backlog = await manager.loadBacklog();
+      expect(backlog.epics).toHaveLength(1);
+      expect(backlog.stories).toHaveLength(1);
+      expect(backlog.tickets.map(t => t.ticket_id).sort()).toEqual(['TKT-R1-1', 'TKT-R1-2']);
+      expect(backlog.stories[0]?.epic_id).toBe('EPC-R1');
+    });
+
+    it('should update untouched fields and keep manual edits and status', async () => {
+      const manager = new BacklogManager();
+      await manager.mergeGeneratedBacklog(generate(), ['auth.md']);
+
+      const ticketPath = path.join(ticketsDir, 'TKT-R1-1.yml');
+      const edited = await readYaml<Ticket>(ticketPath);
+      edited.title = 'Hand-written title';
+      edited.status = 'in_progress';
+      await writeYaml(ticketPath, edited);
+
+      const report = await manager.mergeGeneratedBacklog(generate(['Login works', 'Logout works']), ['auth.md']);
+
+      const saved = await readYaml<Ticket>(ticketPath);
+      expect(saved.title).toBe('Hand-written title');
+      expect(saved.status).toBe('in_progress');
+      expect(saved.acceptance_criteria).toEqual(['Login works', 'Logout works']);
+      expect(report.updated.find(e => e.id === 'TKT-R1-1')?.keptFields).toEqual(['title']);
+    });
+
+    it('should overwrite manual edits with force but keep status', async () => {
+      const manager = new BacklogManager();
+      await manager.mergeGeneratedBacklog(generate(), ['auth.md']);
+
+      const ticketPath = path.join(ticketsDir, 'TKT-R1-1.yml');
+      const edited = await readYaml<Ticket>(ticketPath);
+      edited.title = 'Hand-written title';
+      edited.status = 'done';
+      await writeYaml(ticketPath, edited);
+
+      await manager.mergeGeneratedBacklog(generate(), ['auth.md'], { force: true });
+
+      const saved = await readYaml<Ticket>(ticketPath);
+      expect(saved.title).toBe('Core - Part 1');
+      expect(saved.status).toBe('done');
+    });
+
+    it('should report items the spec no longer produces as orphaned', async () => {
+      const manager = new BacklogManager();
+      await manager.mergeGeneratedBacklog(generate(['Login works'], 3), ['auth.md']);
+      const report = await manager.mergeGeneratedBacklog(generate(['Login works'], 2), ['auth.md']);
+
+      expect(report.orphaned.map(e => e.id)).toEqual(['TKT-R1-3']);
+    });
+
+    it('should drop orphaned tickets from stories and epics but keep ones added by hand', async () => {
+      const manager = new BacklogManager();
+      await manager.mergeGeneratedBacklog(generate(['Login works'], 3), ['auth.md']);
+
+      const storyPath = path.join(tempDir, '.sherpa/backlog/stories/STY-R1.yml');
+      const story = await readYaml<Story>(storyPath);
+      story.tickets.push('TKT-MANUAL');
+      await writeYaml(storyPath, story);
+
+      await manager.mergeGeneratedBacklog(generate(['Login works'], 2), ['auth.md']);
+
+      const backlog = await manager.loadBacklog();
+      expect(backlog.stories[0]?.tickets).toEqual(['TKT-R1-1', 'TKT-R1-2', 'TKT-MANUAL']);
+      expect(backlog.epics[0]?.tickets).toEqual(['TKT-R1-1', 'TKT-R1-2']);
+    });
+
+    it('should adopt items generated before spec keys existed', async () => {
+      const legacy = generate();
+      legacy.epics.forEach(e => delete e.source);
+      legacy.stories.forEach(s => delete s.source);
+      legacy.tickets.forEach(t => delete t.source);
+      for (const ticket of legacy.tickets) {
+        await writeYaml(path.join(ticketsDir, `${ticket.ticket_id}.yml`), ticket);
+      }
+      await writeYaml(path.join(tempDir, '.sherpa/backlog/epics/EPC-R1.yml'), legacy.epics[0]);
+      await writeYaml(path.join(tempDir, '.sherpa/backlog/stories/STY-R1.yml'), legacy.stories[0]);
+
+      const manager = new BacklogManager();
+      const report = await manager.mergeGeneratedBacklog(generate(), ['auth.md']);
+
+      expect(report.added).toHaveLength(0);
+      const backlog = await manager.loadBacklog();
+      expect(backlog.tickets).toHaveLength(2);
+      expect(backlog.tickets.every(t => t.source?.key)).toBe(true);
+    });
+
+    it('should not write anything on a dry run', async () => {
+      const manager = new BacklogManager();
+      const report = await manager.mergeGeneratedBacklog(generate(), ['auth.md'], { dryRun: true });
+
+      expect(report.added).toHaveLength(4);
+      expect(await manager.listTickets()).toHaveLength(0);
+    });
+  });
+});
\ No newline at end of file
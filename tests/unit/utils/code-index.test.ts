@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { parse } from '@babel/parser';
+import { parsePythonSource } from '../../../src/utils/python-source.js';
+import { indexScriptAst, indexPythonModule, buildImportGraph, searchSymbols, CodeSymbol } from '../../../src/utils/code-index.js';
+
+const script = `import { readFile } from 'fs';
+import chalk from 'chalk';
+import { helper } from './helper.js';
+export * from './types.js';
+
+export interface User {
+  id: string;
+  name: string;
+  greet(): string;
+}
+
+export type UserId = User['id'];
+
+export enum Role { Admin, Member = 'member' }
+
+export async function loadUser(id: UserId, options: { cache?: boolean } = {}): Promise<User> {
+  return helper(id);
+}
+
+export const formatUser = (user: User): string => user.name;
+export const MAX_USERS = 10;
+
+export class UserStore extends BaseStore {
+  get(id: string) { return null; }
+  private reset() {}
+}
+
+function internal() {}
+`;
+
+describe('code index', () => {
+  it('should index exported declarations with signatures and lines', () => {
+    const ast = parse(script, { sourceType: 'module', plugins: ['typescript', 'jsx'] });
+    const { symbols, imports } = indexScriptAst(ast, script);
+
+    expect(imports).toEqual(['fs', 'chalk', './helper.js', './types.js']);
+    expect(symbols).toEqual([
+      { name: 'User', kind: 'interface', line: 6, signature: 'interface User { id; name; greet }' },
+      { name: 'UserId', kind: 'type', line: 12, signature: "type UserId = User['id'];" },
+      { name: 'Role', kind: 'enum', line: 14, signature: 'enum Role { Admin, Member }' },
+      { name: 'loadUser', kind: 'function', line: 16, signature: 'async function loadUser(id: UserId, options: { cache?: boolean } = {}): Promise<User>' },
+      { name: 'formatUser', kind: 'function', line: 20, signature: 'const formatUser = (user: User): string =>' },
+      { name: 'MAX_USERS', kind: 'variable', line: 21, signature: 'const MAX_USERS' },
+      { name: 'UserStore', kind: 'class', line: 23, signature: 'class UserStore extends BaseStore { get }' }
+    ]);
+  });
+
+  it('should index public module-level Python definitions', () => {
+    const module = parsePythonSource(`from . import models
+from .db import session
+import requests
+
+def get_user(user_id: int) -> "User":
+    def inner():
+        pass
+
+def _private():
+    pass
+
+class UserService(Base):
+    def find(self):
+        pass
+`);
+    const { symbols, imports } = indexPythonModule(module);
+
+    expect(symbols).toEqual([
+      { name: 'get_user', kind: 'function', line: 5, signature: 'def get_user(user_id: int) -> "User"' },
+      { name: 'UserService', kind: 'class', line: 12, signature: 'class UserService(Base)' }
+    ]);
+    expect(imports).toEqual(['.models', '.db', 'requests']);
+  });
+
+  it('should resolve imports between project files and record packages', () => {
+    const graph = buildImportGraph({
+      'src/cli.ts': ['commander', './commands/init.js', '@babel/parser', './missing.js'],
+      'src/commands/init.ts': ['../utils/fs.js', 'fs-extra/esm'],
+      'src/utils/fs.ts': ['fs', 'path'],
+      'src/utils/index.ts': [],
+      'app/api.py': ['.models', 'app.db', 'fastapi.routing'],
+      'app/models.py': [],
+      'app/db/__init__.py': []
+    });
+
+    expect(graph.modules['src/cli.ts']).toEqual({
+      imports: ['src/commands/init.ts'],
+      importedBy: [],
+      external: ['@babel/parser', 'commander']
+    });
+    expect(graph.modules['src/utils/fs.ts']?.importedBy).toEqual(['src/commands/init.ts']);
+    expect(graph.modules['src/commands/init.ts']?.external).toEqual(['fs-extra']);
+    expect(graph.modules['app/api.py']).toEqual({
+      imports: ['app/db/__init__.py', 'app/models.py'],
+      importedBy: [],
+      external: ['fastapi']
+    });
+  });
+
+  it('should rank exact, prefix and substring matches ahead of fuzzy ones', () => {
+    const symbol = (name: string, kind: CodeSymbol['kind'] = 'function'): CodeSymbol => ({ name, kind, file: 'src/a.ts', line: 1, signature: name });
+    const symbols = [symbol('loadSession'), symbol('session'), symbol('SessionManager', 'class'), symbol('sesion'), symbol('unrelated')];
+
+    expect(searchSymbols(symbols, 'session').map(result => result.name)).toEqual(['session', 'SessionManager', 'loadSession', 'sesion']);
+    expect(searchSymbols(symbols, 'session', { kind: 'class' }).map(result => result.name)).toEqual(['SessionManager']);
+    expect(searchSymbols(symbols, 'session', { limit: 1 })).toHaveLength(1);
+  });
+});
\ No newline at end of file
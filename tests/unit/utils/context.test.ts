@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ensureDir } from '../../../src/utils/fs.js';
+import { ContextManager } from '../../../src/utils/context.js';
+
+describe('ContextManager', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let contextManager: ContextManager;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sherpa-context-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tempDir);
+
+    await ensureDir(path.join(tempDir, '.sherpa'));
+    await ensureDir(path.join(tempDir, 'src'));
+    await fs.writeFile(path.join(tempDir, 'src', 'math.ts'), 'export function add(a: number, b: number) { return a + b; }');
+    await fs.writeFile(path.join(tempDir, 'src', 'greet.ts'), 'export function greet(name: string) { return name; }');
+
+    contextManager = new ContextManager();
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should only re-parse files whose content changed', async () => {
+    const first = await contextManager.buildContext(tempDir);
+    expect(first.buildStats).toEqual({ files: 2, parsed: 2, reused: 0, removed: 0 });
+
+    const second = await contextManager.buildContext(tempDir);
+    expect(second.buildStats).toEqual({ files: 2, parsed: 0, reused: 2, removed: 0 });
+    expect(second.codebaseFingerprint).toBe(first.codebaseFingerprint);
+    expect(second.patterns).toEqual(first.patterns.map(pattern => expect.objectContaining({ id: pattern.id, frequency: pattern.frequency })));
+
+    await fs.writeFile(path.join(tempDir, 'src', 'math.ts'), 'export async function add(a: number) { return a; }');
+    await fs.rm(path.join(tempDir, 'src', 'greet.ts'));
+
+    const third = await contextManager.buildContext(tempDir);
+    expect(third.buildStats).toEqual({ files: 1, parsed: 1, reused: 0, removed: 1 });
+    expect(third.codebaseFingerprint).not.toBe(first.codebaseFingerprint);
+    expect(third.patterns.map(pattern => pattern.id)).toContain('function-1-params-async');
+    expect(third.patterns.map(pattern => pattern.id)).not.toContain('function-2-params-sync');
+  });
+
+  it('should merge pattern contributions across cached files', async () => {
+    await contextManager.buildContext(tempDir);
+    await fs.writeFile(path.join(tempDir, 'src', 'sub.ts'), 'export function sub(a: number, b: number) { return a - b; }');
+
+    const context = await contextManager.buildContext(tempDir);
+    const twoParams = context.patterns.find(pattern => pattern.id === 'function-2-params-sync');
+
+    expect(context.buildStats?.parsed).toBe(1);
+    expect(twoParams?.frequency).toBe(2);
+    expect(twoParams?.files.map(file => path.basename(file)).sort()).toEqual(['math.ts', 'sub.ts']);
+  });
+
+  it('should save the symbol index and import graph', async () => {
+    await fs.writeFile(path.join(tempDir, 'src', 'greet.ts'), "import { add } from './math.js';\nexport function greet(name: string) { return add(1, 2); }");
+    await contextManager.buildContext(tempDir);
+
+    const symbols = await contextManager.getSymbolIndex();
+    expect(symbols.map(symbol => `${symbol.file}:${symbol.name}`)).toEqual(['src/greet.ts:greet', 'src/math.ts:add']);
+    expect((await contextManager.getImportGraph())?.modules['src/math.ts']?.importedBy).toEqual(['src/greet.ts']);
+    expect((await contextManager.searchSymbols('gree'))[0]?.signature).toBe('function greet(name: string)');
+  });
+
+  it('should report which files changed since the last build', async () => {
+    await contextManager.buildContext(tempDir);
+    expect((await contextManager.checkFreshness(tempDir)).stale).toBe(false);
+
+    await fs.writeFile(path.join(tempDir, 'src', 'greet.ts'), 'export function greet() { return 1; }');
+    await fs.writeFile(path.join(tempDir, 'src', 'new.ts'), 'export const x = 1;');
+
+    const freshness = await contextManager.checkFreshness(tempDir);
+    expect(freshness.stale).toBe(true);
+    expect(freshness.changed).toEqual([path.join('src', 'greet.ts')]);
+    expect(freshness.added).toEqual([path.join('src', 'new.ts')]);
+    expect(freshness.removed).toEqual([]);
+  });
+});
\ No newline at end of file
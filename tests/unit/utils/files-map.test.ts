@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize, extractTicketKeywords, rankFilesForTicket } from '../../../src/utils/files-map.js';
+import { buildImportGraph, CodeSymbol } from '../../../src/utils/code-index.js';
+import { Ticket } from '../../../src/types/index.js';
+
+const ticket: Ticket = {
+  ticket_id: 'TKT-2',
+  title: 'Add password reset',
+  outcome: 'Users can reset a forgotten password by email',
+  scope_in: [],
+  scope_out: [],
+  acceptance_criteria: ['Given a user, when they request a reset, then an email is sent'],
+  apidiff: ['POST /api/password-resets'],
+  telemetry: { events: [], alerts: [] },
+  test_plan: { unit: [], e2e: [] },
+  timebox_hours: 4,
+  owner: 'dev'
+};
+
+const symbol = (file: string, name: string): CodeSymbol => ({ name, kind: 'function', file, line: 1, signature: `function ${name}()` });
+
+describe('files map', () => {
+  it('should split identifiers and drop noise words', () => {
+    expect(tokenize('SessionManager loadUserSessions session_store')).toEqual(['session', 'manager', 'load', 'user', 'session', 'session', 'store']);
+    expect(tokenize('src/utils/index.ts')).toEqual([]);
+    expect(tokenize('POST /api/v2/password-resets')).toEqual(['api', 'password', 'reset']);
+  });
+
+  it('should keep the strongest field for each keyword', () => {
+    const keywords = extractTicketKeywords(ticket);
+
+    expect(keywords.get('password')).toEqual({ weight: 3, source: 'title' });
+    expect(keywords.get('email')).toEqual({ weight: 2, source: 'outcome' });
+    expect(keywords.get('request')).toEqual({ weight: 1, source: 'acceptance_criteria' });
+  });
+
+  it('should rank files by path, exports, sessions and import neighbours', () => {
+    const files = [
+      'src/auth/password-reset.ts',
+      'src/auth/tokens.ts',
+      'src/mail/mailer.ts',
+      'src/billing/invoice.ts',
+      'src/routes.ts'
+    ];
+    const graph = buildImportGraph({
+      'src/auth/password-reset.ts': ['./tokens.js'],
+      'src/auth/tokens.ts': [],
+      'src/mail/mailer.ts': [],
+      'src/billing/invoice.ts': [],
+      'src/routes.ts': []
+    });
+
+    const ranked = rankFilesForTicket({
+      ticket,
+      files,
+      symbols: [symbol('src/mail/mailer.ts', 'sendEmail'), symbol('src/billing/invoice.ts', 'createInvoice')],
+      graph,
+      sessionFiles: [
+        { file: 'src/routes.ts', ticketId: 'TKT-1', sameTicket: false },
+        { file: 'src/not-in-project.ts', ticketId: 'TKT-2', sameTicket: true }
+      ]
+    });
+
+    expect(ranked).toEqual([
+      { path: 'src/auth/password-reset.ts', score: 12, reason: 'path matches "password", "reset"' },
+      { path: 'src/routes.ts', score: 6, reason: 'worked on for related ticket TKT-1' },
+      { path: 'src/mail/mailer.ts', score: 6, reason: 'exports sendEmail' },
+      { path: 'src/auth/tokens.ts', score: 3, reason: 'imported by src/auth/password-reset.ts' }
+    ].sort((a, b) => b.score - a.score || a.path.localeCompare(b.path)));
+  });
+
+  it('should prefer sessions on the same ticket and respect the limit', () => {
+    const ranked = rankFilesForTicket({
+      ticket,
+      files: ['src/a.ts', 'src/b.ts'],
+      symbols: [],
+      graph: null,
+      sessionFiles: [
+        { file: 'src/a.ts', ticketId: 'TKT-1', sameTicket: false },
+        { file: 'src/a.ts', ticketId: 'TKT-2', sameTicket: true },
+        { file: 'src/b.ts', ticketId: 'TKT-1', sameTicket: false }
+      ]
+    }, 1);
+
+    expect(ranked).toEqual([{ path: 'src/a.ts', score: 15, reason: 'worked on in a session for TKT-2' }]);
+  });
+});
\ No newline at end of file
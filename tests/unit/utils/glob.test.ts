@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { globToRegExp, matchesGlob } from '../../../src/utils/glob.js';
+
+describe('glob', () => {
+  it('should match single and double star segments', () => {
+    expect(globToRegExp('src/*.ts').test('src/cli.ts')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/utils/fs.ts')).toBe(false);
+    expect(globToRegExp('src/**/*.ts').test('src/cli.ts')).toBe(true);
+    expect(globToRegExp('src/**/*.ts').test('src/utils/deep/fs.ts')).toBe(true);
+    expect(globToRegExp('**').test('any/path/at/all')).toBe(true);
+  });
+
+  it('should let a trailing /** match the directory itself', () => {
+    expect(globToRegExp('dist/**').test('dist')).toBe(true);
+    expect(globToRegExp('dist/**').test('dist/index.js')).toBe(true);
+    expect(globToRegExp('dist/**').test('distant/index.js')).toBe(false);
+  });
+
+  it('should support braces, character classes and escapes', () => {
+    expect(globToRegExp('**/*.{test,spec}.{ts,js}').test('tests/a.spec.js')).toBe(true);
+    expect(globToRegExp('**/*.{test,spec}.{ts,js}').test('tests/a.story.js')).toBe(false);
+    expect(globToRegExp('file[0-9].txt').test('file7.txt')).toBe(true);
+    expect(globToRegExp('file[!0-9].txt').test('file7.txt')).toBe(false);
+    expect(globToRegExp('notes\\*.md').test('notes*.md')).toBe(true);
+    expect(globToRegExp('a.b').test('axb')).toBe(false);
+  });
+
+  it('should match globs without a slash at any depth', () => {
+    expect(matchesGlob('packages/web/build', 'build')).toBe(true);
+    expect(matchesGlob('src/generated/api.ts', '*.ts')).toBe(true);
+    expect(matchesGlob('packages/web/build', '/build')).toBe(false);
+    expect(matchesGlob('src\\legacy\\old.js', 'src/legacy/**')).toBe(true);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ensureDir } from '../../../src/utils/fs.js';
+import { findUnknownRules, loadLintConfig, resolveRuleSettings } from '../../../src/utils/lint-config.js';
+import { AILinter } from '../../../src/utils/ai-linter.js';
+
+const rules = [
+  { id: 'avoid-any-type', severity: 'warning' as const },
+  { id: 'no-single-use-interface', severity: 'warning' as const, defaultOptions: { maxFields: 10, suffixes: ['Props'] } }
+];
+
+describe('resolveRuleSettings', () => {
+  const config = {
+    rules: {
+      'avoid-any-type': 'error' as const,
+      'no-single-use-interface': { options: { maxFields: 4 } }
+    },
+    overrides: [
+      { files: ['tests/**'], rules: { 'avoid-any-type': 'off' as const } },
+      { files: '*.tsx', rules: { 'no-single-use-interface': { severity: 'info' as const, options: { maxFields: 20 } } } }
+    ]
+  };
+
+  it('should layer defaults, rules and matching overrides', () => {
+    const src = resolveRuleSettings(rules, config, 'src/index.ts');
+    expect(src.get('avoid-any-type')).toEqual({ enabled: true, severity: 'error', options: {} });
+    expect(src.get('no-single-use-interface')).toEqual({ enabled: true, severity: 'warning', options: { maxFields: 4, suffixes: ['Props'] } });
+
+    expect(resolveRuleSettings(rules, config, 'tests/unit/a.test.ts').get('avoid-any-type')?.enabled).toBe(false);
+    expect(resolveRuleSettings(rules, config, 'src/ui/Form.tsx').get('no-single-use-interface'))
+      .toEqual({ enabled: true, severity: 'info', options: { maxFields: 20, suffixes: ['Props'] } });
+  });
+
+  it('should report rule ids no rule has', () => {
+    expect(findUnknownRules({ rules: { 'avoid-any': 'off' }, overrides: [{ files: 'x', rules: { 'avoid-any-type': 'on' } }] }, rules.map(rule => rule.id)))
+      .toEqual(['avoid-any']);
+  });
+});
+
+describe('loadLintConfig', () => {
+  let tempDir: string;
+
+  const write = async (relativePath: string, content: string) => {
+    await ensureDir(path.dirname(path.join(tempDir, relativePath)));
+    await fs.writeFile(path.join(tempDir, relativePath), content);
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sherpa-lint-config-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should prefer lint.yml over the config.yml section', async () => {
+    expect(await loadLintConfig(tempDir)).toEqual({});
+
+    await write('.sherpa/config.yml', 'lint:\n  rules:\n    avoid-any-type: off\n');
+    expect(await loadLintConfig(tempDir)).toEqual({ rules: { 'avoid-any-type': 'off' } });
+
+    await write('.sherpa/lint.yml', 'rules:\n  avoid-any-type: info\n');
+    expect(await loadLintConfig(tempDir)).toEqual({ rules: { 'avoid-any-type': 'info' } });
+  });
+
+  it('should reject malformed settings', async () => {
+    await write('.sherpa/lint.yml', 'rules:\n  avoid-any-type: loud\n');
+    await expect(loadLintConfig(tempDir)).rejects.toThrow('Invalid .sherpa/lint.yml: rules.avoid-any-type must be');
+
+    await write('.sherpa/lint.yml', 'overrides:\n  - rules:\n      avoid-any-type: off\n');
+    await expect(loadLintConfig(tempDir)).rejects.toThrow('overrides[0].files must be a glob or a list of globs');
+  });
+
+  it('should apply the config when linting', async () => {
+    const source = `interface FormProps {\n${Array.from({ length: 5 }, (_, i) => `  f${i}: string;`).join('\n')}\n}\nexport const x: any = 1;\n`;
+    await write('src/form.ts', source);
+    await write('tests/form.ts', source);
+
+    const linter = new AILinter({
+      rules: { 'no-single-use-interface': { severity: 'error', options: { maxFields: 3 } } },
+      overrides: [{ files: 'tests/**', rules: { 'avoid-any-type': 'off', 'no-single-use-interface': 'off' } }]
+    }, tempDir);
+
+    const srcIssues = await linter.lintFile(path.join(tempDir, 'src/form.ts'));
+    expect(srcIssues.map(issue => [issue.ruleId, issue.severity])).toEqual([
+      ['no-single-use-interface', 'error'],
+      ['avoid-any-type', 'warning']
+    ]);
+    expect(await linter.lintFile(path.join(tempDir, 'tests/form.ts'))).toEqual([]);
+    expect(await new AILinter({}, tempDir).lintFile(path.join(tempDir, 'src/form.ts'))).toHaveLength(1);
+  });
+});
\ No newline at end of file
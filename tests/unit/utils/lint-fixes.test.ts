@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { applyFixes, createUnifiedDiff } from '../../../src/utils/lint-fixes.js';
+import { AILinter, AILintRule } from '../../../src/utils/ai-linter.js';
+
+describe('applyFixes', () => {
+  it('should apply non-overlapping fixes and skip the rest whole', () => {
+    const source = 'const a: any = b.map(f).map(g);';
+    const issues = [
+      { ruleId: 'second', fix: [{ range: [17, 30] as [number, number], text: 'map(x)' }] },
+      { ruleId: 'first', fix: [{ range: [9, 12] as [number, number], text: 'unknown' }] },
+      { ruleId: 'overlaps', fix: [{ range: [10, 11] as [number, number], text: 'n' }, { range: [28, 29] as [number, number], text: 'h' }] },
+      { ruleId: 'out-of-range', fix: [{ range: [40, 41] as [number, number], text: '' }] },
+      { ruleId: 'no-fix' }
+    ];
+
+    const { output, applied, skipped } = applyFixes(source, issues);
+
+    expect(output).toBe('const a: unknown = b.map(x);');
+    expect(applied.map(issue => issue.ruleId)).toEqual(['first', 'second']);
+    expect(skipped.map(issue => issue.ruleId)).toEqual(['overlaps', 'out-of-range']);
+  });
+});
+
+describe('createUnifiedDiff', () => {
+  it('should print hunks with context like diff -u', () => {
+    const before = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+    const after = before.replace('line 2\n', 'line two\n').replace('line 11\n', '');
+
+    expect(createUnifiedDiff(before, before, 'a.ts')).toBe('');
+    expect(createUnifiedDiff(before, after, 'src/a.ts')).toBe(`--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,5 +1,5 @@
+ line 1
+-line 2
++line two
+ line 3
+ line 4
+ line 5
+@@ -8,5 +8,4 @@
+ line 8
+ line 9
+ line 10
+-line 11
+ line 12
+`);
+  });
+});
+
+describe('AILinter fixes', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sherpa-lint-fixes-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should merge chained callbacks and replace any with unknown', async () => {
+    const file = path.join(tempDir, 'prices.ts');
+    await fs.writeFile(file, `export function prices(items: any[]) {
+  const active = items.filter(item => item.active).filter(item => item.price > 0 || item.free);
+  return active.map((item: Item) => item.price).map(price => price * 1.2);
+}
+export const kept = [1, 2].map(x => x + 1).map(x => x * 2);
+export const shadowed = [1, 2].map(a => a + b).map(b => b * 2);
+export const guarded = values.filter((x): x is string => typeof x === 'string').filter(x => x.length > 0);
+export const generic = values.map(<T,>(x: T) => [x]).map(x => x.length);
+`);
+
+    const result = await new AILinter({}, tempDir).fixFile(file);
+
+    expect(result.output).toBe(`export function prices(items: unknown[]) {
+  const active = items.filter((item) => item.active && (item.price > 0 || item.free));
+  return active.map((item: Item) => { const price = item.price; return price * 1.2; });
+}
+export const kept = [1, 2].map(x => x + 1).map(x => x * 2);
+export const shadowed = [1, 2].map(a => a + b).map(b => b * 2);
+export const guarded = values.filter((x): x is string => typeof x === 'string').filter(x => x.length > 0);
+export const generic = values.map(<T,>(x: T) => [x]).map(x => x.length);
+`);
+    expect(result.fixed.map(issue => issue.ruleId)).toEqual(['avoid-any-type', 'inefficient-array-ops', 'inefficient-array-ops']);
+    expect(result.remaining.map(issue => [issue.ruleId, issue.line])).toEqual([['inefficient-array-ops', 5], ['inefficient-array-ops', 6], ['inefficient-array-ops', 7], ['inefficient-array-ops', 8]]);
+    expect(await fs.readFile(file, 'utf-8')).toContain('items: any[]');
+  });
+
+  it('should drop fixes whose output does not parse', async () => {
+    const breaksCode: AILintRule = {
+      id: 'breaks-code',
+      name: 'Breaks Code',
+      description: 'Offers a fix that is not valid code',
+      category: 'consistency',
+      severity: 'warning',
+      check: node => node.type === 'NumericLiteral'
+        ? { ruleId: 'breaks-code', message: 'number', line: 0, column: 0, severity: 'warning', fix: [{ range: [node.start as number, node.end as number], text: '(' }] }
+        : null
+    };
+    const file = path.join(tempDir, 'index.ts');
+    await fs.writeFile(file, 'export const a = 1;\n');
+
+    const result = await new AILinter({}, tempDir, [breaksCode]).fixFile(file);
+
+    expect(result.output).toBe(result.source);
+    expect(result.fixed).toEqual([]);
+    expect(result.error).toMatch(/^fixes produced code that does not parse/);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ensureDir } from '../../../src/utils/fs.js';
+import { loadLintPlugins, validateLintRule } from '../../../src/utils/lint-plugins.js';
+import { AILinter } from '../../../src/utils/ai-linter.js';
+
+const ruleSource = (id: string) => `{
+  id: '${id}',
+  name: '${id}',
+  description: 'Flags console.log',
+  category: 'consistency',
+  severity: 'info',
+  defaultOptions: { method: 'log' },
+  check(node, context, options) {
+    if (node.type === 'CallExpression' && node.callee.type === 'MemberExpression' && node.callee.property.name === options.method) {
+      return { ruleId: '${id}', message: 'console.' + options.method + ' in ' + context.filename.split('/').pop(), line: 0, column: 0, severity: 'info' };
+    }
+    return null;
+  }
+}`;
+
+describe('lint plugins', () => {
+  let tempDir: string;
+
+  const write = async (relativePath: string, content: string) => {
+    await ensureDir(path.dirname(path.join(tempDir, relativePath)));
+    await fs.writeFile(path.join(tempDir, relativePath), content);
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sherpa-lint-plugins-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should load rules from .sherpa/rules and configured packages', async () => {
+    await write('.sherpa/rules/console.cjs', `module.exports = ${ruleSource('no-console')};`);
+    await write('.sherpa/rules/notes.txt', 'not a rule');
+    await write('node_modules/sherpa-rules-team/package.json', '{ "name": "sherpa-rules-team", "main": "index.mjs" }');
+    await write('node_modules/sherpa-rules-team/index.mjs', `export const rules = [${ruleSource('team/no-debug')}];`);
+
+    const { rules, errors } = await loadLintPlugins(tempDir, { plugins: ['sherpa-rules-team'] });
+
+    expect(errors).toEqual([]);
+    expect(rules.map(rule => [rule.id, rule.source])).toEqual([
+      ['no-console', '.sherpa/rules/console.cjs'],
+      ['team/no-debug', 'sherpa-rules-team']
+    ]);
+
+    await write('src/app.ts', 'console.log("hi");\nconsole.debug("x");\n');
+    const linter = new AILinter({ rules: { 'team/no-debug': { options: { method: 'debug' } } } }, tempDir, rules);
+    expect((await linter.lintFile(path.join(tempDir, 'src/app.ts'))).map(issue => [issue.ruleId, issue.line, issue.message])).toEqual([
+      ['no-console', 1, 'console.log in app.ts'],
+      ['team/no-debug', 2, 'console.debug in app.ts']
+    ]);
+  });
+
+  it('should pick up rules exported by name alongside other exports', async () => {
+    await write('.sherpa/rules/named.mjs', `export const noConsole = ${ruleSource('no-console')};
+export const noDebug = ${ruleSource('no-debug')};
+export const answer = 42;
+export function helper() {}`);
+    await write('.sherpa/rules/shared.cjs', `const noAlert = ${ruleSource('no-alert')};
+module.exports = { noAlert, limit: 3 };`);
+
+    const { rules, errors } = await loadLintPlugins(tempDir, {});
+
+    expect(errors).toEqual([]);
+    expect(rules.map(rule => [rule.id, rule.source])).toEqual([
+      ['no-console', '.sherpa/rules/named.mjs'],
+      ['no-debug', '.sherpa/rules/named.mjs'],
+      ['no-alert', '.sherpa/rules/shared.cjs']
+    ]);
+  });
+
+  it('should skip modules and rules that are broken, invalid or duplicated', async () => {
+    await write('.sherpa/rules/a-broken.mjs', 'export default {');
+    await write('.sherpa/rules/b-empty.mjs', 'export const answer = 42;');
+    await write('.sherpa/rules/c-dupe.mjs', `export default [${ruleSource('avoid-any-type')}, { id: 'half-done', check: () => null }];`);
+
+    const { rules, errors } = await loadLintPlugins(tempDir, { plugins: ['missing-package'] }, ['avoid-any-type']);
+
+    expect(rules).toEqual([]);
+    expect(errors[0]).toMatch(/^\.sherpa\/rules\/a-broken\.mjs: could not load/);
+    expect(errors.slice(1, 4)).toEqual([
+      '.sherpa/rules/b-empty.mjs: exports no rules',
+      '.sherpa/rules/c-dupe.mjs: rule avoid-any-type is already defined',
+      '.sherpa/rules/c-dupe.mjs: rule "half-done": name must be a non-empty string; description must be a non-empty string; '
+        + 'category must be one of over-abstraction, error-handling, security, consistency, performance; severity must be one of error, warning, info'
+    ]);
+    expect(errors[4]).toMatch(/^missing-package: could not load/);
+  });
+
+  it('should describe what a rule is missing', () => {
+    expect(validateLintRule(null)).toEqual(['is not an object']);
+    expect(validateLintRule({ id: 'x', name: 'X', description: 'd', category: 'security', severity: 'error', check: () => null, defaultOptions: [] }))
+      .toEqual(['defaultOptions must be an object']);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { countIssuesAtOrAbove, describeLintRules, formatLintReport } from '../../../src/utils/lint-report.js';
+import { AILintIssue } from '../../../src/utils/ai-linter.js';
+
+const projectRoot = '/work/app';
+const rules = [
+  { id: 'avoid-any-type', name: 'Avoid Any Type', description: 'Avoid using "any" type', category: 'consistency', severity: 'warning' as const },
+  { id: 'team/no-debug', name: 'No Debug', description: 'No debugger', category: 'consistency', severity: 'error' as const, source: 'sherpa-rules-team' }
+];
+const results: Record<string, AILintIssue[]> = {
+  '/work/app/src/api client.ts': [
+    { ruleId: 'avoid-any-type', message: 'Avoid using "any" type.', line: 3, column: 10, severity: 'warning', suggestion: 'Use unknown', fix: [{ range: [40, 43], text: 'unknown' }] },
+    { ruleId: 'team/no-debug', message: 'Remove <debugger> & co', line: 7, column: 2, severity: 'error' }
+  ]
+};
+
+describe('lint reports', () => {
+  it('should write SARIF 2.1.0 with rules, locations and fixes', () => {
+    const sarif = JSON.parse(formatLintReport('sarif', { results, rules, projectRoot }));
+    const run = sarif.runs[0];
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.tool.driver.rules[1]).toEqual({
+      id: 'team/no-debug',
+      name: 'TeamNoDebug',
+      shortDescription: { text: 'No Debug' },
+      fullDescription: { text: 'No debugger' },
+      defaultConfiguration: { level: 'error' },
+      properties: { category: 'consistency', tags: ['consistency'], source: 'sherpa-rules-team' }
+    });
+    expect(run.originalUriBaseIds['%SRCROOT%'].uri).toBe('file:///work/app/');
+    expect(run.results[0]).toEqual({
+      ruleId: 'avoid-any-type',
+      ruleIndex: 0,
+      level: 'warning',
+      message: { text: 'Avoid using "any" type.' },
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'src/api%20client.ts', uriBaseId: '%SRCROOT%' }, region: { startLine: 3, startColumn: 11 } } }],
+      fixes: [{
+        description: { text: 'Use unknown' },
+        artifactChanges: [{
+          artifactLocation: { uri: 'src/api%20client.ts', uriBaseId: '%SRCROOT%' },
+          replacements: [{ deletedRegion: { charOffset: 40, charLength: 3 }, insertedContent: { text: 'unknown' } }]
+        }]
+      }],
+      properties: { suggestion: 'Use unknown' }
+    });
+    expect(run.results[1]).toMatchObject({ ruleIndex: 1, level: 'error' });
+  });
+
+  it('should give SARIF rules the severity configured in lint.yml', () => {
+    const configured = describeLintRules(rules, {
+      rules: { 'avoid-any-type': 'error', 'team/no-debug': 'off' },
+      overrides: [{ files: 'src/**', rules: { 'avoid-any-type': 'info' } }]
+    });
+    const sarif = JSON.parse(formatLintReport('sarif', { results, rules: configured, projectRoot }));
+
+    expect(sarif.runs[0].tool.driver.rules.map((rule: { defaultConfiguration: unknown }) => rule.defaultConfiguration)).toEqual([
+      { level: 'error' },
+      { level: 'error', enabled: false }
+    ]);
+  });
+
+  it('should write JSON and JUnit with project-relative paths', () => {
+    const json = JSON.parse(formatLintReport('json', { results, rules, projectRoot }));
+    expect(json.summary).toEqual({ issues: 2, files: 1, error: 1, warning: 1, info: 0, fixable: 1 });
+    expect(json.files[0].path).toBe('src/api client.ts');
+    expect(json.files[0].issues[1]).toEqual({ ruleId: 'team/no-debug', severity: 'error', message: 'Remove <debugger> & co', line: 7, column: 2, fixable: false });
+
+    const junit = formatLintReport('junit', { results, rules, projectRoot });
+    expect(junit).toContain('<testsuites name="sherpa lint:ai" tests="2" failures="2" errors="0">');
+    expect(junit).toContain('<testcase classname="src/api client.ts" name="team/no-debug (line 7)">');
+    expect(junit).toContain('<failure type="error" message="Remove &lt;debugger&gt; &amp; co">src/api client.ts:7:3 error Remove &lt;debugger&gt; &amp; co</failure>');
+  });
+
+  it('should count issues at or above a severity', () => {
+    expect(countIssuesAtOrAbove(results, 'error')).toBe(1);
+    expect(countIssuesAtOrAbove(results, 'info')).toBe(2);
+    expect(countIssuesAtOrAbove({}, 'info')).toBe(0);
+  });
+});
\ No newline at end of file
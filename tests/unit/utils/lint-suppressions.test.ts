@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { parse } from '@babel/parser';
+import { applySuppressions, findUnusedSuppressions, parseSuppressions } from '../../../src/utils/lint-suppressions.js';
+import { AILinter } from '../../../src/utils/ai-linter.js';
+
+const suppressionsFor = (source: string) => {
+  const ast = parse(source, { sourceType: 'module', plugins: ['typescript'] });
+  return parseSuppressions(ast.comments || [], source.split('\n').length);
+};
+
+describe('parseSuppressions', () => {
+  it('should read next-line, block and file directives with reasons', () => {
+    const { suppressions, problems } = suppressionsFor(`/* sherpa-disable-file hardcoded-secrets -- test fixtures */
+// sherpa-disable-next-line avoid-any-type, missing-error-handling -- untyped callback
+const a = 1;
+/* sherpa-disable avoid-any-type */
+const b = 2;
+/* sherpa-enable avoid-any-type */
+// sherpa-enable`);
+
+    expect(suppressions.map(({ kind, rules, reason, startLine, endLine }) => ({ kind, rules, reason, startLine, endLine }))).toEqual([
+      { kind: 'file', rules: ['hardcoded-secrets'], reason: 'test fixtures', startLine: 1, endLine: 7 },
+      { kind: 'next-line', rules: ['avoid-any-type', 'missing-error-handling'], reason: 'untyped callback', startLine: 3, endLine: 3 },
+      { kind: 'block', rules: ['avoid-any-type'], reason: undefined, startLine: 4, endLine: 6 }
+    ]);
+    expect(problems).toEqual([
+      { ruleId: 'suppression-reason', message: 'sherpa-disable needs a reason after "--"', line: 4, column: 0 },
+      { ruleId: 'unused-suppression', message: 'sherpa-enable has no matching sherpa-disable', line: 7, column: 0 }
+    ]);
+  });
+
+  it('should drop covered issues and report suppressions that matched nothing', () => {
+    const { suppressions } = suppressionsFor(`// sherpa-disable-next-line -- everything on the next line
+const a = 1;
+/* sherpa-disable avoid-any-type -- legacy module */
+const b = 2;`);
+    const issues = [
+      { ruleId: 'hardcoded-secrets', line: 2 },
+      { ruleId: 'missing-error-handling', line: 4 },
+      { ruleId: 'avoid-any-type', line: 4 }
+    ];
+
+    expect(applySuppressions(issues, suppressions)).toEqual([{ ruleId: 'missing-error-handling', line: 4 }]);
+    expect(findUnusedSuppressions(suppressions)).toEqual([]);
+    expect(findUnusedSuppressions(suppressionsFor('// sherpa-disable-next-line avoid-any-type -- old\nconst a = 1;').suppressions)).toEqual([
+      { ruleId: 'unused-suppression', message: 'sherpa-disable-next-line avoid-any-type does not suppress anything', line: 1, column: 0 }
+    ]);
+  });
+});
+
+describe('AILinter suppressions', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sherpa-lint-suppressions-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should suppress findings and report the suppression comments', async () => {
+    const file = path.join(tempDir, 'index.ts');
+    await fs.writeFile(file, `// sherpa-disable-next-line avoid-any-type -- JSON from the wire
+export const a: any = JSON.parse('{}');
+// sherpa-disable-next-line avoid-any-type
+export const b: any = 1;
+// sherpa-disable-next-line hardcoded-secrets -- nothing here any more
+export const c = 1;
+`);
+
+    const issues = await new AILinter({}, tempDir).lintFile(file);
+    expect(issues.map(issue => [issue.ruleId, issue.line, issue.severity])).toEqual([
+      ['suppression-reason', 3, 'warning'],
+      ['unused-suppression', 5, 'warning']
+    ]);
+
+    const relaxed = new AILinter({ rules: { 'suppression-reason': 'off', 'unused-suppression': 'error' } }, tempDir);
+    expect((await relaxed.lintFile(file)).map(issue => [issue.ruleId, issue.severity])).toEqual([['unused-suppression', 'error']]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ensureDir, writeJson } from '../../../src/utils/fs.js';
+import { ContextManager } from '../../../src/utils/context.js';
+import { DEFAULT_PITFALLS, parsePitfallsMarkdown, renderPitfallsMarkdown, matchPitfall, learnPitfalls } from '../../../src/utils/pitfalls.js';
+
+const failure = (id: string, feedback: string, outcome: 'failure' | 'partial' | 'success' = 'failure') => ({
+  id,
+  timestamp: `2024-05-0${id.slice(-1)}T10:00:00.000Z`,
+  prompt: 'Implement the endpoint',
+  response: '...',
+  outcome,
+  feedback
+});
+
+describe('pitfalls catalogue', () => {
+  it('should round-trip through markdown', () => {
+    const pitfalls = [
+      ...DEFAULT_PITFALLS,
+      {
+        id: 'mocked-subject',
+        pattern: 'Mocking the module under test',
+        description: 'Tests mock the code they should exercise',
+        solution: 'Mock only collaborators',
+        frequency: 3,
+        examples: ['Mocked the parser in parser.test.ts', 'Stubbed   the\nservice'],
+        keywords: ['mocked module'],
+        lastSeen: '2024-05-01T10:00:00.000Z'
+      }
+    ];
+
+    const parsed = parsePitfallsMarkdown(renderPitfallsMarkdown(pitfalls));
+
+    expect(parsed).toEqual([
+      ...DEFAULT_PITFALLS,
+      { ...pitfalls[2], examples: ['Mocked the parser in parser.test.ts', 'Stubbed the service'] }
+    ]);
+  });
+
+  it('should read hand-written entries', () => {
+    const parsed = parsePitfallsMarkdown(`# Pitfalls
+
+## Editing generated files
+**Problem:** AI edits files under src/generated
+**Solution:** Change the schema and regenerate
+`);
+
+    expect(parsed).toEqual([{
+      id: 'editing-generated-files',
+      pattern: 'Editing generated files',
+      description: 'AI edits files under src/generated',
+      solution: 'Change the schema and regenerate',
+      frequency: 0,
+      examples: []
+    }]);
+  });
+
+  it('should match feedback by keyword before shared words', () => {
+    expect(matchPitfall('Swallowed the exception from fetch', DEFAULT_PITFALLS)?.id).toBe('missing-error-handling');
+    expect(matchPitfall('Added an interface with one implementation', DEFAULT_PITFALLS)?.id).toBe('over-abstraction');
+    expect(matchPitfall('Created unnecessary abstractions everywhere', [{ ...DEFAULT_PITFALLS[0]!, keywords: [] }])?.id).toBe('over-abstraction');
+    expect(matchPitfall('Used the wrong date format', DEFAULT_PITFALLS)).toBeNull();
+  });
+
+  it('should count each failed interaction once', () => {
+    const interactions = [
+      failure('AI-1', 'No error handling around the fetch'),
+      failure('AI-2', 'Unhandled promise rejection', 'partial'),
+      failure('AI-3', 'Unhandled rejection again', 'success'),
+      failure('AI-4', 'Picked the wrong colour')
+    ];
+
+    const first = learnPitfalls(DEFAULT_PITFALLS, interactions, new Set());
+    const errorHandling = first.pitfalls.find(pitfall => pitfall.id === 'missing-error-handling');
+    expect(errorHandling).toMatchObject({
+      frequency: 2,
+      examples: ['No error handling around the fetch', 'Unhandled promise rejection'],
+      lastSeen: '2024-05-02T10:00:00.000Z'
+    });
+    expect(first.matched.map(match => match.interactionId)).toEqual(['AI-1', 'AI-2']);
+    expect(first.unmatched.map(interaction => interaction.id)).toEqual(['AI-4']);
+    expect(DEFAULT_PITFALLS[1]!.frequency).toBe(0);
+
+    const second = learnPitfalls(first.pitfalls, interactions, new Set(['AI-1', 'AI-2']));
+    expect(second.pitfalls.find(pitfall => pitfall.id === 'missing-error-handling')?.frequency).toBe(2);
+  });
+});
+
+describe('ContextManager pitfalls', () => {
+  let tempDir: string;
+  let originalCwd: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sherpa-pitfalls-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tempDir);
+    await ensureDir(path.join(tempDir, '.sherpa'));
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should learn from session history across builds without double counting', async () => {
+    await writeJson(path.join(tempDir, '.sherpa', 'sessions', 'history', 'session-1.json'), {
+      id: 'session-1',
+      startTime: '2024-05-01T09:00:00.000Z',
+      aiInteractions: [failure('AI-1', 'Forgot error handling in the importer')]
+    });
+
+    const contextManager = new ContextManager();
+    await contextManager.buildContext(tempDir);
+    const context = await contextManager.buildContext(tempDir);
+
+    expect(context.pitfalls[0]).toMatchObject({ id: 'missing-error-handling', frequency: 1 });
+    const saved = await fs.readFile(path.join(tempDir, '.sherpa', 'context', 'pitfalls.md'), 'utf-8');
+    expect(parsePitfallsMarkdown(saved).find(pitfall => pitfall.id === 'missing-error-handling')?.examples)
+      .toEqual(['Forgot error handling in the importer']);
+  });
+});
\ No newline at end of file
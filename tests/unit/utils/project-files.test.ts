@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ensureDir } from '../../../src/utils/fs.js';
+import { walkProjectFiles, parseIgnoreFile, isIgnored } from '../../../src/utils/project-files.js';
+
+describe('project files', () => {
+  let tempDir: string;
+
+  const write = async (relativePath: string, content: string = '') => {
+    await ensureDir(path.dirname(path.join(tempDir, relativePath)));
+    await fs.writeFile(path.join(tempDir, relativePath), content);
+  };
+
+  const walk = async (options = {}) =>
+    (await walkProjectFiles(tempDir, options)).map(file => path.relative(tempDir, file).split(path.sep).join('/'));
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sherpa-project-files-test-'));
+    await write('src/index.ts');
+    await write('src/generated/api.ts');
+    await write('src/legacy/old.js');
+    await write('dist/index.js');
+    await write('node_modules/lib/index.js');
+    await write('.cache/file.ts');
+    await write('build/out.js');
+    await write('README.md');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should skip hidden directories and build output by default', async () => {
+    expect(await walk({ extensions: ['.ts', '.js'] })).toEqual([
+      'build/out.js',
+      'src/generated/api.ts',
+      'src/index.ts',
+      'src/legacy/old.js'
+    ]);
+  });
+
+  it('should honour .gitignore and .sherpaignore, including nested files and negation', async () => {
+    await write('.gitignore', '# build output\nbuild/\n*.log\n');
+    await write('.sherpaignore', 'src/generated/\n');
+    await write('src/legacy/.gitignore', '*.js\n!keep.js\n');
+    await write('src/legacy/keep.js');
+    await write('debug.log');
+
+    expect(await walk()).toEqual([
+      '.gitignore',
+      '.sherpaignore',
+      'README.md',
+      'src/index.ts',
+      'src/legacy/.gitignore',
+      'src/legacy/keep.js'
+    ]);
+  });
+
+  it('should apply include and exclude globs from .sherpa/config.yml', async () => {
+    await write('.sherpa/config.yml', 'files:\n  include:\n    - "src/**"\n  exclude:\n    - legacy\n');
+    expect(await walk()).toEqual(['src/generated/api.ts', 'src/index.ts']);
+  });
+
+  it('should reject a config whose globs are not a list', async () => {
+    await write('.sherpa/config.yml', 'files:\n  exclude: legacy\n');
+    await expect(walk()).rejects.toThrow('files.exclude must be a list of globs');
+  });
+
+  it('should only follow symlinks inside the project when enabled, without looping', async () => {
+    const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'sherpa-outside-'));
+    try {
+      await fs.writeFile(path.join(outside, 'secret.ts'), '');
+      await fs.symlink(outside, path.join(tempDir, 'src', 'outside'));
+      await fs.symlink(path.join(tempDir, 'src'), path.join(tempDir, 'src', 'loop'));
+      await fs.symlink(path.join(tempDir, 'src', 'legacy'), path.join(tempDir, 'linked'));
+
+      expect(await walk({ extensions: ['.ts', '.js'], exclude: ['build'] })).toEqual([
+        'src/generated/api.ts',
+        'src/index.ts',
+        'src/legacy/old.js'
+      ]);
+      expect(await walk({ extensions: ['.ts', '.js'], exclude: ['build'], followSymlinks: true })).toEqual([
+        'linked/old.js',
+        'src/generated/api.ts',
+        'src/index.ts'
+      ]);
+    } finally {
+      await fs.rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('should let the last matching ignore rule win', () => {
+    const rules = parseIgnoreFile('*.ts\n!important.ts\n/root-only.ts\n', '');
+    expect(isIgnored(rules, 'src/a.ts', false)).toBe(true);
+    expect(isIgnored(rules, 'src/important.ts', false)).toBe(false);
+    expect(isIgnored(parseIgnoreFile('/root-only.js'), 'src/root-only.js', false)).toBe(false);
+    expect(isIgnored(parseIgnoreFile('/root-only.js'), 'root-only.js', false)).toBe(true);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { estimateTokens, resolveTokenBudget } from '../../../src/utils/tokens.js';
+import { fitSections, summarizeMarkdown, truncateToTokens } from '../../../src/utils/prompt-budget.js';
+
+const standards = `# Coding Standards
+
+Write small functions. Prefer composition over inheritance.
+
+## Naming
+- camelCase for variables
+- PascalCase for classes
+- UPPER_CASE for constants
+- kebab-case for files
+
+\`\`\`ts
+const userName = 'example';
+\`\`\`
+
+## Errors
+Throw Error objects with a message. Never swallow exceptions silently.
+- Wrap IO in try/catch
+`;
+
+describe('estimateTokens', () => {
+  it('should approximate BPE token counts', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('Add user search')).toBe(3);
+    expect(estimateTokens('internationalization')).toBe(4);
+    expect(estimateTokens('foo(bar, 12345);')).toBe(8);
+    expect(estimateTokens('a\n\n  b')).toBe(3);
+  });
+});
+
+describe('resolveTokenBudget', () => {
+  it('should prefer an explicit budget, then config, then the model family default', () => {
+    expect(resolveTokenBudget('gpt-4o-mini', { budget: 500 })).toEqual({ model: 'gpt-4o-mini', budget: 500, source: 'option' });
+    expect(resolveTokenBudget('gpt-4o-mini', { configBudgets: { 'gpt-4o': 12000 } })).toEqual({ model: 'gpt-4o-mini', budget: 12000, source: 'config' });
+    expect(resolveTokenBudget('gpt-4o-mini')).toEqual({ model: 'gpt-4o-mini', budget: 24000, source: 'default' });
+    expect(resolveTokenBudget('gpt-4-turbo').budget).toBe(6000);
+    expect(resolveTokenBudget(undefined, { configModel: 'llama-3' })).toEqual({ model: 'llama-3', budget: 6000, source: 'default' });
+    expect(resolveTokenBudget('unknown-model')).toEqual({ model: 'unknown-model', budget: 8000, source: 'default' });
+  });
+});
+
+describe('summarizeMarkdown', () => {
+  it('should keep headings, lead sentences and the first bullets', () => {
+    expect(summarizeMarkdown(standards)).toBe(`# Coding Standards
+Write small functions.
+## Naming
+- camelCase for variables
+- PascalCase for classes
+- UPPER_CASE for constants
+## Errors
+Throw Error objects with a message.
+- Wrap IO in try/catch`);
+  });
+});
+
+describe('truncateToTokens', () => {
+  it('should cut at a line boundary and note what was left out', () => {
+    const content = Array.from({ length: 50 }, (_, i) => `- rule number ${i}`).join('\n');
+    const truncated = truncateToTokens(content, 60);
+
+    expect(estimateTokens(truncated)).toBeLessThanOrEqual(60);
+    expect(truncated.startsWith('- rule number 0\n')).toBe(true);
+    expect(truncated).toMatch(/_… \d+ more tokens left out to fit the token budget_$/);
+    expect(truncateToTokens('short', 60)).toBe('short');
+  });
+});
+
+describe('fitSections', () => {
+  const sections = () => [
+    { id: 'ticket', content: 'Implement the user search endpoint with pagination.', priority: 100, required: true },
+    { id: 'decisions', content: '## Use PostgreSQL\nAll data lives in PostgreSQL.', priority: 80 },
+    { id: 'standards', content: standards.repeat(4), priority: 30 },
+    { id: 'reminders', content: '- Write tests\n- Handle errors', priority: 10 }
+  ];
+
+  it('should keep everything when the budget allows', () => {
+    const fitted = fitSections(sections(), 10000);
+
+    expect(fitted.overBudget).toBe(false);
+    expect(fitted.usage.every(entry => entry.action === 'kept')).toBe(true);
+    expect(fitted.totalTokens).toBe(fitted.originalTokens);
+  });
+
+  it('should summarise low-priority sections before cutting anything', () => {
+    const original = fitSections(sections(), 10000).totalTokens;
+    const fitted = fitSections(sections(), original - 50);
+
+    // The reminders are already just bullets, so summarising them saves nothing
+    expect(fitted.usage.map(entry => [entry.id, entry.action])).toEqual([
+      ['ticket', 'kept'],
+      ['decisions', 'kept'],
+      ['standards', 'summarised'],
+      ['reminders', 'kept']
+    ]);
+    expect(fitted.totalTokens).toBeLessThanOrEqual(original - 50);
+  });
+
+  it('should cut a summarised section to the room that is left', () => {
+    const fixed = ['Implement the user search endpoint with pagination.', '## Use PostgreSQL\nAll data lives in PostgreSQL.']
+      .reduce((sum, content) => sum + estimateTokens(content), 0);
+    const fitted = fitSections(sections(), fixed + 60);
+    const actions = Object.fromEntries(fitted.usage.map(entry => [entry.id, entry.action]));
+
+    // The lower-priority reminders go first, leaving the standards all the room
+    expect(actions).toEqual({ ticket: 'kept', decisions: 'kept', standards: 'trimmed', reminders: 'dropped' });
+    expect(fitted.usage.find(entry => entry.id === 'standards')?.tokens).toBeLessThanOrEqual(60);
+    expect(fitted.sections[2]?.content).toMatch(/^# Coding Standards\nWrite small functions\./);
+    expect(fitted.overBudget).toBe(false);
+  });
+
+  it('should cut and drop lowest priorities first but never required sections', () => {
+    const fitted = fitSections(sections(), 60);
+    const actions = Object.fromEntries(fitted.usage.map(entry => [entry.id, entry.action]));
+
+    expect(actions).toEqual({ ticket: 'kept', decisions: 'kept', standards: 'dropped', reminders: 'dropped' });
+    expect(fitted.sections[0]?.content).toBe('Implement the user search endpoint with pagination.');
+    expect(fitted.totalTokens).toBeLessThanOrEqual(60);
+
+    const impossible = fitSections(sections(), 5);
+    expect(impossible.overBudget).toBe(true);
+    expect(impossible.sections[0]?.content).toBe('Implement the user search endpoint with pagination.');
+  });
+});
\ No newline at end of file
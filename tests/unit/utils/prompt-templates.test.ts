@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractTemplateVariables,
+  parseTemplateMarkdown,
+  renderTemplateLogic,
+  renderTemplateMarkdown,
+  resolveTemplateBody,
+  validateTemplate
+} from '../../../src/utils/prompt-templates.js';
+
+const markdown = `---
+id: api-endpoint
+name: API Endpoint
+category: feature
+variables:
+  - FEATURE_NAME
+  - ACCEPTANCE_CRITERIA
+model: gpt-4o
+---
+
+# Endpoint: {{FEATURE_NAME}}
+
+{{ACCEPTANCE_CRITERIA}}
+`;
+
+describe('prompt templates', () => {
+  it('should parse frontmatter and body', () => {
+    expect(parseTemplateMarkdown(markdown, 'api-endpoint.md')).toEqual({
+      id: 'api-endpoint',
+      name: 'API Endpoint',
+      category: 'feature',
+      template: '# Endpoint: {{FEATURE_NAME}}\n\n{{ACCEPTANCE_CRITERIA}}',
+      variables: ['FEATURE_NAME', 'ACCEPTANCE_CRITERIA'],
+      successRate: 0,
+      usageCount: 0,
+      lastUsed: '',
+      aiModel: 'gpt-4o'
+    });
+  });
+
+  it('should default the id, name and variables from the file', () => {
+    const template = parseTemplateMarkdown('# Quick Fix for {{FEATURE_NAME}}\n{{PITFALLS}}', 'quick-fix.md');
+
+    expect(template).toMatchObject({
+      id: 'quick-fix',
+      name: 'Quick Fix for {{FEATURE_NAME}}',
+      category: 'feature',
+      variables: ['FEATURE_NAME', 'PITFALLS'],
+      aiModel: 'any'
+    });
+  });
+
+  it('should round-trip through markdown', () => {
+    const template = parseTemplateMarkdown(markdown, 'api-endpoint.md');
+    expect(parseTemplateMarkdown(renderTemplateMarkdown(template), 'other.md')).toEqual(template);
+  });
+
+  it('should report unknown, unused and undeclared variables', () => {
+    const template = parseTemplateMarkdown(`---
+category: chore
+variables: [FEATURE_NAME, TEST_PLAN]
+---
+{{FEATURE_NAME}} {{ TICKET_OWNER }} {{PITFALLS}}`, 'Bad Name.md');
+
+    expect(extractTemplateVariables(template.template)).toEqual(['FEATURE_NAME', 'TICKET_OWNER', 'PITFALLS']);
+    expect(validateTemplate(template)).toEqual([
+      { severity: 'error', message: 'id "Bad Name" must be lower-case letters, digits and dashes' },
+      { severity: 'error', message: 'unknown category "chore" (use feature, bugfix, refactor, test, docs)' },
+      { severity: 'error', message: 'unknown variable {{TICKET_OWNER}}' },
+      { severity: 'warning', message: 'variable TEST_PLAN is declared but never used' },
+      { severity: 'warning', message: 'variable PITFALLS is used but not declared in variables' }
+    ]);
+    expect(validateTemplate(parseTemplateMarkdown(markdown, 'api-endpoint.md'))).toEqual([]);
+  });
+});
+
+describe('template inheritance and partials', () => {
+  const template = (id: string, body: string, parent?: string) => ({
+    ...parseTemplateMarkdown(body, `${id}.md`),
+    ...(parent ? { extends: parent } : {})
+  });
+  const partials = { rules: '## Rules\n{{> tone}}', tone: '- Be brief' };
+  const base = template('base', '# {{#block title}}Task{{/block}}\n\n{{#block task}}\nNothing yet\n{{/block}}\n\n{{> rules}}');
+
+  it('should fill parent blocks from the child and expand partials', () => {
+    const child = template('fix', '{{#block title}}Fix {{FEATURE_NAME}}{{/block}}', 'base');
+    const grandchild = template('hotfix', '{{#block task}}\nShip it today\n{{/block}}', 'fix');
+    const library = { templates: [base, child, grandchild], partials };
+
+    expect(resolveTemplateBody(child, library)).toBe('# Fix {{FEATURE_NAME}}\n\nNothing yet\n\n## Rules\n- Be brief');
+    expect(resolveTemplateBody(grandchild, library)).toBe('# Fix {{FEATURE_NAME}}\n\nShip it today\n\n## Rules\n- Be brief');
+  });
+
+  it('should reject unknown parents, unknown partials and cycles', () => {
+    const loopA = template('a', '{{#block title}}A{{/block}}', 'b');
+    const loopB = template('b', '{{#block title}}B{{/block}}', 'a');
+
+    expect(() => resolveTemplateBody(template('x', 'body', 'missing'), { templates: [], partials }))
+      .toThrow('Template x extends unknown template: missing');
+    expect(() => resolveTemplateBody(template('x', '{{> nope}}'), { templates: [], partials }))
+      .toThrow('Unknown partial: {{> nope}}');
+    expect(() => resolveTemplateBody(loopA, { templates: [loopA, loopB], partials }))
+      .toThrow('Template inheritance cycle: a -> b -> a');
+    expect(() => resolveTemplateBody(template('x', '{{> self}}'), { templates: [], partials: { self: '{{> self}}' } }))
+      .toThrow('Partial includes itself: self -> self');
+  });
+
+  it('should validate against the resolved template', () => {
+    const child = template('fix', 'Stray text\n{{#block title}}Fix {{FEATURE_NAME}}{{/block}}', 'base');
+    const issues = validateTemplate({ ...child, variables: ['FEATURE_NAME'] }, { templates: [base], partials: {} });
+
+    expect(issues).toEqual([
+      { severity: 'warning', message: 'text outside {{#block}} sections is ignored because the template extends base' },
+      { severity: 'error', message: 'Unknown partial: {{> rules}}' }
+    ]);
+  });
+});
+
+describe('renderTemplateLogic', () => {
+  const data = {
+    values: { API_DIFF: '- GET /users', UI_COMPONENTS: '', FEATURE_NAME: 'Search' },
+    lists: { ACCEPTANCE_CRITERIA: ['Fast', 'Case-insensitive'], UI_COMPONENTS: [] }
+  };
+
+  it('should evaluate conditionals on values and lists', () => {
+    const body = `{{#if API_DIFF}}
+API: {{API_DIFF}}
+{{/if}}
+{{#if UI_COMPONENTS}}
+UI: {{UI_COMPONENTS}}
+{{else}}
+No UI changes
+{{/if}}
+{{#unless TECH_STACK}}
+No tech stack
+{{/unless}}`;
+
+    expect(renderTemplateLogic(body, data)).toBe('API: {{API_DIFF}}\nNo UI changes\nNo tech stack\n');
+  });
+
+  it('should loop over ticket lists', () => {
+    const body = `Criteria for {{FEATURE_NAME}}:
+{{#each ACCEPTANCE_CRITERIA}}
+{{@number}}. {{this}}{{#if API_DIFF}} (check the API){{/if}}
+{{/each}}
+{{#each UI_COMPONENTS}}
+- {{this}}
+{{else}}
+No components
+{{/each}}`;
+
+    expect(renderTemplateLogic(body, data)).toBe(
+      'Criteria for {{FEATURE_NAME}}:\n1. Fast (check the API)\n2. Case-insensitive (check the API)\nNo components\n'
+    );
+  });
+
+  it('should report broken nesting', () => {
+    expect(() => renderTemplateLogic('{{#if API_DIFF}}open', data)).toThrow('{{#if API_DIFF}} is never closed');
+    expect(() => renderTemplateLogic('{{#if API_DIFF}}x{{/each}}', data)).toThrow('{{/each}} without a matching {{#each}}');
+    expect(() => renderTemplateLogic('{{else}}', data)).toThrow('{{else}} outside');
+  });
+});
\ No newline at end of file
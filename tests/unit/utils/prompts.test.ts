@@ -4,6 +4,7 @@ import * as path from 'path';
 import * as os from 'os';
 import { fileExists, writeJson, readJson, ensureDir } from '../../../src/utils/fs.js';
 import { PromptManager, PromptTemplate } from '../../../src/utils/prompts.js';
+import { parseTemplateMarkdown } from '../../../src/utils/prompt-templates.js';
 
 // Mock the context manager
 vi.mock('../../../src/utils/context.js', () => ({
@@ -72,16 +73,16 @@ describe('PromptManager', () => {
       await promptManager.initializePrompts();
 
       // Check default templates were created
-      const featureTemplate = path.join('.sherpa/prompts/templates/feature-implementation.json');
-      const bugFixTemplate = path.join('.sherpa/prompts/templates/bug-fix.json');
-      const refactorTemplate = path.join('.sherpa/prompts/templates/refactor.json');
+      const featureTemplate = path.join('.sherpa/prompts/templates/feature-implementation.md');
+      const bugFixTemplate = path.join('.sherpa/prompts/templates/bug-fix.md');
+      const refactorTemplate = path.join('.sherpa/prompts/templates/refactor.md');
 
       expect(await fileExists(featureTemplate)).toBe(true);
       expect(await fileExists(bugFixTemplate)).toBe(true);
       expect(await fileExists(refactorTemplate)).toBe(true);
 
       // Verify template content
-      const template = await readJson<PromptTemplate>(featureTemplate);
+      const template = parseTemplateMarkdown(await fs.readFile(featureTemplate, 'utf-8'), 'feature-implementation.md');
       expect(template.id).toBe('feature-implementation');
       expect(template.name).toBe('Feature Implementation');
       expect(template.category).toBe('feature');
@@ -114,6 +115,8 @@ describe('PromptManager', () => {
       const savedTemplate = await readJson<PromptTemplate>(templatePath);
       expect(savedTemplate.name).toBe('Custom Feature Template');
       expect(savedTemplate.template).toBe('Custom template content');
+      expect(await fileExists('.sherpa/prompts/templates/feature-implementation.md')).toBe(false);
+      expect((await promptManager.getTemplate('feature-implementation'))?.name).toBe('Custom Feature Template');
     });
   });
 
@@ -216,6 +219,54 @@ describe('PromptManager', () => {
     });
   });
 
+  describe('token budget', () => {
+    beforeEach(async () => {
+      await promptManager.initializePrompts();
+      await fs.writeFile('.sherpa/standards/testing-standards.md', `# Testing Standards\n${'- Every module needs unit tests covering edge cases\n'.repeat(400)}`);
+    });
+
+    it('should trim standards to fit the budget but keep the ticket', async () => {
+      const ticket = {
+        ticket_id: 'BUDGET-001',
+        title: 'Add user search functionality',
+        outcome: 'Users can search for other users',
+        acceptance_criteria: ['Search is case-insensitive'],
+        test_plan: { unit: ['Test search logic'], e2e: [] },
+        timebox_hours: 4
+      };
+
+      const unlimited = await promptManager.generateBudgetedPrompt(ticket, undefined, { budget: 100000 });
+      const fitted = await promptManager.generateBudgetedPrompt(ticket, undefined, { budget: 1200 });
+
+      expect(unlimited.budget.totalTokens).toBeGreaterThan(1200);
+      expect(fitted.budget.totalTokens).toBeLessThanOrEqual(1200);
+      expect(fitted.budget.sections.find(section => section.id === 'testing-standards')?.action).not.toBe('kept');
+      expect(fitted.content).toContain('Search is case-insensitive');
+      expect(fitted.content).toContain('Add user search functionality');
+      expect(fitted.content.length).toBeLessThan(unlimited.content.length);
+    });
+
+    it('should place leading sections before the template', async () => {
+      const ticket = {
+        ticket_id: 'BUDGET-002',
+        title: 'Add export',
+        outcome: 'Users can export data',
+        acceptance_criteria: ['CSV export works'],
+        test_plan: { unit: [], e2e: [] },
+        timebox_hours: 2
+      };
+
+      const generated = await promptManager.generateBudgetedPrompt(ticket, undefined, {
+        model: 'gpt-4o',
+        leadingSections: [{ id: 'context:summary', content: '# Codebase Context', priority: 85 }]
+      });
+
+      expect(generated.content.startsWith('# Codebase Context\n\n---\n\n')).toBe(true);
+      expect(generated.budget).toMatchObject({ model: 'gpt-4o', budget: 24000, overBudget: false });
+      expect(generated.budget.sections[0]).toMatchObject({ id: 'context:summary', action: 'kept' });
+    });
+  });
+
   describe('template management', () => {
     beforeEach(async () => {
       await promptManager.initializePrompts();
@@ -283,6 +334,55 @@ describe('PromptManager', () => {
       expect(updatedVersion.metadata.feedback).toBe('Worked perfectly');
     });
 
+    it('should keep new versions pending until an outcome is recorded once', async () => {
+      const ticket = {
+        ticket_id: 'OUT-002',
+        title: 'Add pending outcomes',
+        outcome: 'Outcomes start pending',
+        acceptance_criteria: ['Pending by default'],
+        test_plan: { unit: [], e2e: [] },
+        timebox_hours: 1
+      };
+
+      const generated = await promptManager.generateBudgetedPrompt(ticket);
+      const [version] = await promptManager.listPromptVersions();
+      expect(version?.id).toBe(generated.versionId);
+      expect(version?.metadata).toMatchObject({ outcome: 'pending', usedFor: 'OUT-002', category: 'feature' });
+      expect(await promptManager.analyzePromptPerformance()).toEqual([]);
+
+      const recorded = await promptManager.recordPromptOutcome(generated.versionId, 'partial', 'Needed a second pass');
+      expect(recorded?.metadata).toMatchObject({ outcome: 'partial', feedback: 'Needed a second pass' });
+      expect(recorded?.metadata.recordedAt).toBeDefined();
+      await expect(promptManager.recordPromptOutcome(generated.versionId, 'success', ''))
+        .rejects.toThrow('already has an outcome: partial');
+      expect(await promptManager.recordPromptOutcome('missing-version', 'success', '')).toBeNull();
+
+      const [performance] = await promptManager.analyzePromptPerformance();
+      expect(performance).toMatchObject({ templateId: 'feature-implementation', totalUses: 1, successCount: 0 });
+    });
+
+    it('should give prompts generated in the same millisecond their own versions', async () => {
+      const ticket = {
+        ticket_id: 'VER-002',
+        title: 'Add parallel prompts',
+        outcome: 'Both prompts are tracked',
+        acceptance_criteria: ['Each prompt has a version'],
+        test_plan: { unit: [], e2e: [] },
+        timebox_hours: 1
+      };
+      vi.spyOn(Date, 'now').mockReturnValue(1700000000000);
+
+      const first = await promptManager.generateBudgetedPrompt(ticket);
+      const second = await promptManager.generateBudgetedPrompt(ticket);
+      vi.mocked(Date.now).mockRestore();
+
+      expect(first.versionId).not.toBe(second.versionId);
+      await promptManager.recordPromptOutcome(first.versionId, 'success', '');
+      await promptManager.recordPromptOutcome(second.versionId, 'failure', '');
+      const outcomes = (await promptManager.listPromptVersions()).map(version => version.metadata.outcome).sort();
+      expect(outcomes).toEqual(['failure', 'success']);
+    });
+
     it('should update template performance metrics', async () => {
       // Generate multiple prompts and record outcomes
       const tickets = [
@@ -367,6 +467,109 @@ describe('PromptManager', () => {
       expect(prompt).toBeDefined();
       expect(prompt.length).toBeGreaterThan(100);
     });
+
+    it('should move away from a template that keeps failing for similar tickets', async () => {
+      await fs.writeFile('.sherpa/prompts/templates/bug-fix-minimal.md', '---\ncategory: bugfix\n---\n# Minimal Bug Fix\n{{BUG_DESCRIPTION}}');
+      const bugTicket = (id: string) => ({
+        ticket_id: id,
+        title: `Fix bug ${id}`,
+        outcome: 'Bug is fixed',
+        acceptance_criteria: [],
+        test_plan: { unit: [], e2e: [] },
+        timebox_hours: 1
+      });
+
+      for (const id of ['BUG-1', 'BUG-2', 'BUG-3']) {
+        await promptManager.generatePrompt(bugTicket(id), undefined, { templateId: 'bug-fix' });
+      }
+      for (const file of await fs.readdir('.sherpa/prompts/versions')) {
+        const version = await readJson<any>(path.join('.sherpa/prompts/versions', file));
+        expect(version.metadata.category).toBe('bugfix');
+        await promptManager.recordPromptOutcome(version.id, 'failure', 'Missed the root cause');
+      }
+
+      const performance = await readJson<any>('.sherpa/prompts/performance.json');
+      expect(performance['bug-fix'].byCategory).toEqual({ bugfix: { totalUses: 3, successCount: 0, failureCount: 3 } });
+
+      const generated = await promptManager.generateBudgetedPrompt(bugTicket('BUG-4'));
+      expect(generated.templateId).toBe('bug-fix-minimal');
+      expect(generated.templateReason).toContain('rarely used, so worth trying');
+    });
+
+    it('should share partials across the default templates', async () => {
+      await fs.writeFile('.sherpa/prompts/partials/house-rules.md', '## House Rules\n- Always run the linter before committing');
+      const ticket = (title: string) => ({
+        ticket_id: 'RULES-001',
+        title,
+        outcome: 'Done',
+        acceptance_criteria: ['Works', 'Is tested'],
+        test_plan: { unit: [], e2e: [] },
+        timebox_hours: 1
+      });
+
+      const feature = await promptManager.generatePrompt(ticket('Add export'));
+      const bugfix = await promptManager.generatePrompt(ticket('Fix export'));
+      const refactor = await promptManager.generatePrompt(ticket('Refactor export'));
+
+      for (const prompt of [feature, bugfix, refactor]) {
+        expect(prompt).toContain('Always run the linter before committing');
+        expect(prompt).toContain('Framework: Vitest');
+        expect(prompt).not.toMatch(/{{[#/>]/);
+      }
+      expect(refactor).toContain('**Success Criteria**:\n1. Works\n2. Is tested');
+      expect(feature).not.toContain('**API Changes**');
+    });
+
+    it('should use the requested template over the ticket heuristics', async () => {
+      await fs.writeFile('.sherpa/prompts/templates/spike.md', `---
+id: spike
+category: docs
+variables: [FEATURE_NAME]
+---
+
+# Spike: {{FEATURE_NAME}}`);
+      const bugTicket = {
+        ticket_id: 'BUG-002',
+        title: 'Fix login bug',
+        outcome: 'Bug is fixed',
+        acceptance_criteria: [],
+        test_plan: { unit: [], e2e: [] },
+        timebox_hours: 1
+      };
+
+      const generated = await promptManager.generateBudgetedPrompt(bugTicket, undefined, { templateId: 'spike' });
+      expect(generated.templateId).toBe('spike');
+      expect(generated.content).toBe('# Spike: Fix login bug');
+      expect(generated.templateIssues).toEqual([]);
+
+      await expect(promptManager.generatePrompt(bugTicket, undefined, { templateId: 'missing' }))
+        .rejects.toThrow('Prompt template not found: missing');
+    });
+
+    it('should fill variables written with spaces inside the braces', async () => {
+      await fs.writeFile('.sherpa/prompts/templates/spaced.md', `---
+id: spaced
+category: docs
+variables: [FEATURE_NAME, EXPECTED_OUTCOME]
+---
+
+# {{ FEATURE_NAME }}
+
+{{#if EXPECTED_OUTCOME}}Outcome: {{  EXPECTED_OUTCOME}}{{/if}}`);
+      const ticket = {
+        ticket_id: 'DOC-001',
+        title: 'Document the API',
+        outcome: 'Every endpoint is described',
+        acceptance_criteria: [],
+        test_plan: { unit: [], e2e: [] },
+        timebox_hours: 1
+      };
+
+      const generated = await promptManager.generateBudgetedPrompt(ticket, undefined, { templateId: 'spaced' });
+      expect(generated.content).toBe('# Document the API\n\nOutcome: Every endpoint is described');
+      expect(generated.templateIssues).toEqual([]);
+      expect(generated.budget.sections.map(section => section.id)).toEqual(expect.arrayContaining(['feature-name', 'expected-outcome']));
+    });
   });
 
   describe('error handling', () => {
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { parsePythonSource } from '../../../src/utils/python-source.js';
+
+const source = `"""Users API.
+
+def not_a_function(): this is a docstring
+"""
+import os, sys as system
+from typing import (
+    Optional,
+    List as ListType,
+)
+from .models import User
+
+# class Commented: pass
+
+@router.get("/users/{user_id}")
+async def get_user(user_id: int, db=Depends(get_db, use_cache=True)) -> Optional[User]:
+    def helper(x):
+        return x
+    return helper(db)
+
+
+class UserService(BaseService, metaclass=ABCMeta):
+    def __init__(self, repo):
+        self.repo = repo
+
+    @classmethod
+    def create(cls, *args, **kwargs):
+        return cls(*args)
+
+    async def find(self, name: str = "a, b"):
+        def matches(user):
+            return user.name == name
+        return None
+
+
+def make_handler():
+    class Handler:
+        def handle(self):
+            pass
+    return Handler
+
+
+def main():
+    pass
+`;
+
+describe('parsePythonSource', () => {
+  const parsed = parsePythonSource(source);
+
+  it('should read module-level functions with their parameters, ignoring self and cls', () => {
+    expect(parsed.functions.map(fn => fn.name)).toEqual(['get_user', 'make_handler', 'main']);
+
+    const getUser = parsed.functions[0];
+    expect(getUser).toMatchObject({
+      params: ['user_id', 'db'],
+      isAsync: true,
+      hasTypeHints: true,
+      decorators: ['router.get'],
+      line: 15
+    });
+    expect(parsed.functions[2]).toMatchObject({ params: [], isAsync: false, hasTypeHints: false });
+  });
+
+  it('should read classes and their methods by indentation', () => {
+    expect(parsed.classes).toHaveLength(1);
+    const service = parsed.classes[0];
+
+    expect(service?.bases).toEqual(['BaseService', 'metaclass=ABCMeta']);
+    expect(service?.methods.map(method => method.name)).toEqual(['__init__', 'create', 'find']);
+    expect(service?.methods[1]).toMatchObject({ params: ['args', 'kwargs'], decorators: ['classmethod'] });
+    expect(service?.methods[2]).toMatchObject({ params: ['name'], isAsync: true, hasTypeHints: true });
+  });
+
+  it('should read plain, from and relative imports', () => {
+    expect(parsed.imports.map(({ module, names, isRelative, isFrom }) => ({ module, names, isRelative, isFrom }))).toEqual([
+      { module: 'os', names: [], isRelative: false, isFrom: false },
+      { module: 'sys', names: [], isRelative: false, isFrom: false },
+      { module: 'typing', names: ['Optional', 'List'], isRelative: false, isFrom: true },
+      { module: '.models', names: ['User'], isRelative: true, isFrom: true }
+    ]);
+  });
+});
\ No newline at end of file
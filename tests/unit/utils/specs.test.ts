@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseSpecification,
+  extractListItems,
+  reviewSpecification,
+  isTestableCriterion,
+  appendClarifications
+} from '../../../src/utils/specs.js';
+
+const completeSpec = `---
+title: Password Reset
+status: approved
+priority: high
+effort: 12
+type: feature
+owner: sam
+target_date: 2025-10-01
+links:
+  - title: Support tickets
+    url: https://example.com/support
+dependencies:
+  - email-service
+---
+
+# Password Reset
+
+## Overview
+Let users reset a forgotten password by email.
+
+## Problem Statement
+Locked-out users currently have to contact support.
+
+## Requirements
+
+### Functional Requirements
+1. **FR-001**: Users can request a reset link from the login page
+
+## User Stories
+- **As a** registered user **I want** to reset my password **so that** I can log in again
+
+## Acceptance Criteria
+- [ ] **AC-001**: Given a registered email When a reset is requested Then a link is sent within 1 minute
+- [ ] **AC-002**: Reset links expire after 24 hours
+
+## Testing Strategy
+- **Unit Tests**: token generation and expiry
+
+## Questions & Assumptions
+- [ ] Do we rate-limit reset requests?
+- [x] Emails are sent through the existing mailer
+
+---
+*Specification created with Sherpa OS - 2025-08-29*`;
+
+describe('specs utilities', () => {
+  describe('parseSpecification', () => {
+    it('should read metadata from YAML frontmatter', () => {
+      const spec = parseSpecification(completeSpec, 'password-reset.md');
+
+      expect(spec.warnings).toEqual([]);
+      expect(spec.priority).toBe('high');
+      expect(spec.effort).toBe(12);
+      expect(spec.metadata).toMatchObject({
+        title: 'Password Reset',
+        status: 'approved',
+        owner: 'sam',
+        target_date: '2025-10-01',
+        links: [{ title: 'Support tickets', url: 'https://example.com/support' }],
+        dependencies: ['email-service']
+      });
+      expect(spec.acceptanceCriteria).toHaveLength(2);
+    });
+
+    it('should still read legacy bold-label specs', () => {
+      const legacy = `# Legacy\n\n**Status**: Draft  \n**Priority**: High  \n**Effort**: 5 hours  \n**Type**: api\n\n## Overview\nOld style.`;
+      const spec = parseSpecification(legacy, 'legacy.md');
+
+      expect(spec.warnings).toEqual([]);
+      expect(spec.metadata).toMatchObject({ title: 'Legacy', status: 'draft', priority: 'high', effort: 5, type: 'api' });
+    });
+
+    it('should warn about every field that fell back to a default', () => {
+      const drifted = `# Drifted\n\nPriority: high\n**Effort**: a few hours\n\n## Overview\nLabels drifted.`;
+      const spec = parseSpecification(drifted, 'drifted.md');
+
+      expect(spec.priority).toBe('medium');
+      expect(spec.effort).toBe(8);
+      expect(spec.type).toBe('feature');
+      expect(spec.warnings).toEqual([
+        'No priority set, defaulting to "medium"',
+        'Could not read effort "a few hours", defaulting to 8 hours',
+        'No type set, defaulting to "feature"',
+        'No YAML frontmatter found - add one to set priority, effort and type explicitly'
+      ]);
+    });
+
+    it('should warn about invalid frontmatter values', () => {
+      const spec = parseSpecification(completeSpec.replace('priority: high', 'priority: urgent'), 'password-reset.md');
+      expect(spec.priority).toBe('medium');
+      expect(spec.warnings).toEqual(['Unknown priority "urgent", defaulting to "medium"']);
+    });
+
+    it('should fall back to bold labels when the frontmatter is not valid YAML', () => {
+      const broken = `---\ntitle: [unclosed\n---\n\n# Broken\n\n**Priority**: High\n**Effort**: 5 hours\n**Type**: api\n\n## Overview\nStill readable.`;
+      const spec = parseSpecification(broken, 'broken.md');
+
+      expect(spec.metadata).toMatchObject({ title: 'Broken', priority: 'high', effort: 5, type: 'api' });
+      expect(spec.overview).toBe('Still readable.');
+      expect(spec.warnings).toHaveLength(1);
+      expect(spec.warnings[0]).toMatch(/^broken\.md: Invalid YAML frontmatter: .+ - reading \*\*Label\*\*: values instead$/);
+
+      expect(reviewSpecification(broken, 'broken.md').filter(issue => issue.section === 'Frontmatter')).toHaveLength(1);
+    });
+  });
+
+  describe('extractListItems', () => {
+    it('should strip checkbox markers from list items', () => {
+      const items = extractListItems(completeSpec, 'Acceptance Criteria');
+      expect(items[0]).toBe('**AC-001**: Given a registered email When a reset is requested Then a link is sent within 1 minute');
+    });
+  });
+
+  describe('isTestableCriterion', () => {
+    it('should accept Given/When/Then criteria', () => {
+      expect(isTestableCriterion('Given a user When they log in Then the dashboard loads')).toBe(true);
+    });
+
+    it('should reject vague criteria', () => {
+      expect(isTestableCriterion('The page is fast and user-friendly')).toBe(false);
+      expect(isTestableCriterion('Login works correctly')).toBe(false);
+    });
+
+    it('should reject criteria without an observable outcome', () => {
+      expect(isTestableCriterion('Password reset')).toBe(false);
+    });
+  });
+
+  describe('reviewSpecification', () => {
+    it('should only raise open questions for a complete spec', () => {
+      const issues = reviewSpecification(completeSpec);
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ severity: 'info', question: 'Do we rate-limit reset requests?' });
+    });
+
+    it('should flag missing and empty sections', () => {
+      const spec = completeSpec
+        .replace(/## Testing Strategy\n.*\n/, '')
+        .replace('Locked-out users currently have to contact support.', '');
+
+      const issues = reviewSpecification(spec);
+      expect(issues).toContainEqual(expect.objectContaining({ severity: 'error', message: 'Missing section "Testing Strategy"' }));
+      expect(issues).toContainEqual(expect.objectContaining({ severity: 'error', message: 'Section "Problem Statement" is empty' }));
+    });
+
+    it('should flag template placeholders with their section and line', () => {
+      const spec = completeSpec.replace(
+        '- **As a** registered user **I want** to reset my password **so that** I can log in again',
+        '- **As a** [user type] **I want** [functionality] **so that** [benefit]'
+      );
+
+      const placeholder = reviewSpecification(spec).find(issue => issue.message.startsWith('Template placeholder'));
+      expect(placeholder?.section).toBe('User Stories');
+      expect(placeholder?.line).toBe(30);
+    });
+
+    it('should flag untestable acceptance criteria', () => {
+      const spec = completeSpec.replace('Reset links expire after 24 hours', 'Reset flow feels intuitive');
+      const issues = reviewSpecification(spec);
+      expect(issues).toContainEqual(expect.objectContaining({
+        section: 'Acceptance Criteria',
+        message: expect.stringContaining('Reset flow feels intuitive')
+      }));
+    });
+  });
+
+  describe('appendClarifications', () => {
+    const qa = [{ question: 'Do we rate-limit reset requests?', answer: 'Yes, 3 per hour' }];
+
+    it('should add a Clarifications section before the footer', () => {
+      const updated = appendClarifications(completeSpec, qa, '2025-09-01');
+      expect(updated).toContain('## Clarifications\n\n### 2025-09-01\n- **Q**: Do we rate-limit reset requests?\n  **A**: Yes, 3 per hour');
+      expect(updated.indexOf('## Clarifications')).toBeLessThan(updated.indexOf('*Specification created'));
+    });
+
+    it('should append to an existing Clarifications section', () => {
+      const once = appendClarifications(completeSpec, qa, '2025-09-01');
+      const twice = appendClarifications(once, [{ question: 'Which mailer?', answer: 'SES' }], '2025-09-02');
+
+      expect(twice.match(/## Clarifications/g)).toHaveLength(1);
+      expect(twice.indexOf('### 2025-09-01')).toBeLessThan(twice.indexOf('### 2025-09-02'));
+      expect(twice.indexOf('### 2025-09-02')).toBeLessThan(twice.indexOf('*Specification created'));
+    });
+
+    it('should leave the spec alone when there is nothing to add', () => {
+      expect(appendClarifications(completeSpec, [], '2025-09-01')).toBe(completeSpec);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ensureDir, writeYaml, writeMarkdown, readJson, readYaml } from '../../../src/utils/fs.js';
+import { SprintManager, SprintCandidate, selectSprintTickets } from '../../../src/utils/sprints.js';
+import { buildDependencyGraph } from '../../../src/utils/backlog-graph.js';
+import { Sprint, Ticket } from '../../../src/types/index.js';
+import { makeTicket } from '../../helpers/tickets.js';
+
+function candidatesFor(tickets: Ticket[], priorities: Record<string, SprintCandidate['priority']> = {}): SprintCandidate[] {
+  return tickets.map(ticket => ({ ticket, priority: priorities[ticket.ticket_id] || 'medium', carriedOver: false }));
+}
+
+describe('sprint planning', () => {
+  describe('selectSprintTickets', () => {
+    it('should fill capacity with higher priority tickets first', () => {
+      const tickets = [makeTicket('TKT-1'), makeTicket('TKT-2'), makeTicket('TKT-3', { timebox_hours: 2 })];
+      const graph = buildDependencyGraph({ epics: [], stories: [], tickets });
+
+      const selection = selectSprintTickets(candidatesFor(tickets, { 'TKT-2': 'high', 'TKT-1': 'low' }), graph, 6);
+
+      expect(selection.selected.map(c => c.ticket.ticket_id)).toEqual(['TKT-2', 'TKT-3']);
+      expect(selection.hours).toBe(6);
+      expect(selection.skipped).toEqual([expect.objectContaining({ reason: 'over capacity' })]);
+    });
+
+    it('should only take a ticket once its dependencies are done or planned', () => {
+      const tickets = [
+        makeTicket('TKT-1', { depends_on: ['TKT-2'] }),
+        makeTicket('TKT-2', { timebox_hours: 8 }),
+        makeTicket('TKT-3', { depends_on: ['TKT-4'] }),
+        makeTicket('TKT-4', { status: 'blocked' })
+      ];
+      const graph = buildDependencyGraph({ epics: [], stories: [], tickets });
+
+      const selection = selectSprintTickets(candidatesFor(tickets, { 'TKT-1': 'high' }), graph, 40);
+
+      expect(selection.selected.map(c => c.ticket.ticket_id)).toEqual(['TKT-2', 'TKT-1']);
+      expect(selection.skipped.map(s => s.reason)).toEqual(['waiting on TKT-4', 'ticket is blocked']);
+    });
+
+    it('should put rolled-over tickets ahead of everything else', () => {
+      const tickets = [makeTicket('TKT-1'), makeTicket('TKT-2')];
+      const candidates = candidatesFor(tickets, { 'TKT-1': 'high', 'TKT-2': 'low' });
+      candidates[1]!.carriedOver = true;
+
+      const selection = selectSprintTickets(candidates, buildDependencyGraph({ epics: [], stories: [], tickets }), 4);
+
+      expect(selection.selected.map(c => c.ticket.ticket_id)).toEqual(['TKT-2']);
+    });
+  });
+
+  describe('SprintManager', () => {
+    let tempDir: string;
+    let originalCwd: string;
+    let sherpaDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sherpa-sprints-test-'));
+      originalCwd = process.cwd();
+      process.chdir(tempDir);
+
+      sherpaDir = path.join(tempDir, '.sherpa');
+      await ensureDir(path.join(sherpaDir, 'backlog/tickets'));
+      await writeMarkdown(path.join(sherpaDir, 'specs/urgent.md'), '---\ntitle: Urgent\npriority: high\neffort: 4\ntype: feature\n---\n\n# Urgent');
+      await writeMarkdown(path.join(sherpaDir, 'specs/later.md'), '---\ntitle: Later\npriority: low\neffort: 4\ntype: feature\n---\n\n# Later');
+
+      const tickets = [
+        makeTicket('TKT-1', { source: { spec: 'later.md', key: 'later/story-1/ticket-1' } }),
+        makeTicket('TKT-2', { source: { spec: 'urgent.md', key: 'urgent/story-1/ticket-1' } }),
+        makeTicket('TKT-3', { source: { spec: 'urgent.md', key: 'urgent/story-1/ticket-2' } })
+      ];
+      for (const ticket of tickets) {
+        await writeYaml(path.join(sherpaDir, 'backlog/tickets', `${ticket.ticket_id}.yml`), ticket);
+      }
+    });
+
+    afterEach(async () => {
+      process.chdir(originalCwd);
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should plan by spec priority and record the sprint in state.json', async () => {
+      const manager = new SprintManager();
+      const { sprint } = await manager.planSprint({ capacityHours: 8, startDate: '2025-03-03', days: 14 });
+
+      expect(sprint).toMatchObject({
+        sprint_id: 'sprint-1',
+        status: 'active',
+        start_date: '2025-03-03',
+        end_date: '2025-03-16',
+        committed: ['TKT-2', 'TKT-3'],
+        committed_hours: 8
+      });
+      expect((await readJson<any>(path.join(sherpaDir, 'state.json'))).current_sprint).toBe('sprint-1');
+      await expect(manager.planSprint({ capacityHours: 8 })).rejects.toThrow('still active');
+    });
+
+    it('should record delivery on close and roll unfinished tickets into the next sprint', async () => {
+      const manager = new SprintManager();
+      await manager.planSprint({ capacityHours: 8, startDate: '2025-03-03' });
+
+      const ticketPath = path.join(sherpaDir, 'backlog/tickets/TKT-2.yml');
+      await writeYaml(ticketPath, { ...await readYaml<Ticket>(ticketPath), status: 'done' });
+
+      const closed = await manager.closeSprint();
+      expect(closed).toMatchObject({ status: 'closed', delivered: ['TKT-2'], delivered_hours: 4, rolled_over: ['TKT-3'] });
+
+      const state = await readJson<any>(path.join(sherpaDir, 'state.json'));
+      expect(state.current_sprint).toBeUndefined();
+      expect(state.tickets_completed).toBe(1);
+
+      const { sprint } = await manager.planSprint({ capacityHours: 4, startDate: '2025-03-17' });
+      expect(sprint.sprint_id).toBe('sprint-2');
+      expect(sprint.committed).toEqual(['TKT-3']);
+      expect(sprint.rolled_over_from).toBe('sprint-1');
+
+      const saved = await readYaml<Sprint>(path.join(sherpaDir, 'sprints/sprint-1.yml'));
+      expect(saved.status).toBe('closed');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { inferTicketCategory, scoreTemplates, selectTemplate } from '../../../src/utils/template-selection.js';
+import { PromptTemplate, PromptPerformance } from '../../../src/utils/prompts.js';
+
+const template = (id: string, category: PromptTemplate['category'], extra: Partial<PromptTemplate> = {}): PromptTemplate => ({
+  id,
+  name: id,
+  category,
+  template: `# ${id}`,
+  variables: [],
+  successRate: 0,
+  usageCount: 0,
+  lastUsed: '',
+  aiModel: 'any',
+  ...extra
+});
+
+const record = (templateId: string, totalUses: number, successCount: number, byCategory?: PromptPerformance['byCategory']): PromptPerformance => ({
+  templateId,
+  totalUses,
+  successCount,
+  failureCount: totalUses - successCount,
+  averageRating: successCount / totalUses,
+  commonIssues: [],
+  lastAnalyzed: '2024-05-01T10:00:00.000Z',
+  ...(byCategory ? { byCategory } : {})
+});
+
+const templates = [
+  template('base', 'feature', { abstract: true }),
+  template('feature-implementation', 'feature'),
+  template('bug-fix', 'bugfix'),
+  template('refactor', 'refactor')
+];
+
+describe('inferTicketCategory', () => {
+  it('should read the title before the outcome', () => {
+    expect(inferTicketCategory({ title: 'Fix login crash', outcome: 'Users can log in' })).toEqual({ category: 'bugfix', keyword: 'fix' });
+    expect(inferTicketCategory({ title: 'Auth module', outcome: 'Improve readability' })).toEqual({ category: 'refactor', keyword: 'improve' });
+    expect(inferTicketCategory({ title: 'Add prefix search', outcome: 'Users can search' })).toEqual({ category: 'feature' });
+    expect(inferTicketCategory({ title: 'Raise coverage of parser', outcome: '' }).category).toBe('test');
+  });
+});
+
+describe('selectTemplate', () => {
+  it('should pick by category when there is no history', () => {
+    const selection = selectTemplate(templates, { title: 'Fix login bug', outcome: 'Login works' }, []);
+
+    expect(selection.template.id).toBe('bug-fix');
+    expect(selection.reason).toBe('bugfix template, the ticket mentions "fix"; no recorded outcomes yet');
+    expect(selection.scores.map(score => score.templateId)).not.toContain('base');
+  });
+
+  it('should fall back to a feature template for categories without one', () => {
+    const selection = selectTemplate(templates, { title: 'Update the README', outcome: 'Docs are current' }, []);
+
+    expect(selection.template.id).toBe('feature-implementation');
+    expect(selection.reason).toMatch(/^no docs template, falling back to a feature template/);
+  });
+
+  it('should prefer the template that succeeds on similar tickets', () => {
+    const bugTemplates = [...templates, template('bug-fix-detailed', 'bugfix')];
+    const performance = [
+      record('bug-fix', 10, 3, { bugfix: { totalUses: 8, successCount: 2, failureCount: 6 } }),
+      record('bug-fix-detailed', 10, 6, { bugfix: { totalUses: 6, successCount: 5, failureCount: 1 } })
+    ];
+
+    const selection = selectTemplate(bugTemplates, { title: 'Fix export bug', outcome: 'Exports work' }, performance);
+
+    expect(selection.template.id).toBe('bug-fix-detailed');
+    expect(selection.reason).toContain('75% success over 6 bugfix tickets');
+  });
+
+  it('should favour templates written for the target model', () => {
+    const modelTemplates = [...templates, template('feature-gpt', 'feature', { aiModel: 'gpt-4o' })];
+
+    expect(selectTemplate(modelTemplates, { title: 'Add export', outcome: '' }, [], 'gpt-4o-mini').template.id).toBe('feature-gpt');
+    expect(selectTemplate(modelTemplates, { title: 'Add export', outcome: '' }, [], 'claude-sonnet').template.id).toBe('feature-implementation');
+  });
+
+  it('should keep trying a new template alongside a proven one', () => {
+    const newTemplates = [...templates, template('feature-new', 'feature')];
+    const performance = [record('feature-implementation', 20, 14)];
+
+    const scores = scoreTemplates(newTemplates.filter(t => !t.abstract), 'feature', performance);
+    const proven = scores.find(score => score.templateId === 'feature-implementation');
+    const fresh = scores.find(score => score.templateId === 'feature-new');
+
+    expect(fresh!.exploration).toBeGreaterThan(proven!.exploration);
+    expect(scores[0]?.templateId).toBe('feature-new');
+    expect(selectTemplate(newTemplates, { title: 'Add export', outcome: '' }, performance).reason).toContain('rarely used, so worth trying');
+
+    // A poor record eventually outweighs the exploration bonus
+    const tried = [...performance, record('feature-new', 10, 2)];
+    expect(selectTemplate(newTemplates, { title: 'Add export', outcome: '' }, tried).template.id).toBe('feature-implementation');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ensureDir, writeJson } from '../../../src/utils/fs.js';
+import {
+  parseJestJsonReport,
+  parseCoverageSummary,
+  parseJUnitXml,
+  parseCoveragePyJson,
+  parseCoverageTarget,
+  checkCoverageGate,
+  readFreshJson,
+  saveTestResult,
+  getLatestTestResult,
+  TestRunResult
+} from '../../../src/utils/test-results.js';
+
+const report = {
+  numTotalTests: 3,
+  numPassedTests: 2,
+  numFailedTests: 1,
+  numPendingTests: 0,
+  numTodoTests: 0,
+  testResults: [
+    {
+      name: '/project/tests/math.test.ts',
+      status: 'failed',
+      assertionResults: [
+        { fullName: 'math adds', status: 'passed', failureMessages: [] },
+        { fullName: ' math subtracts', status: 'failed', failureMessages: ['\u001b[31mAssertionError: expected 2 to be 3\u001b[39m\n    at tests/math.test.ts:5:10'] },
+        { fullName: 'math divides', status: 'skipped', failureMessages: [] }
+      ]
+    },
+    {
+      name: '/project/tests/broken.test.ts',
+      status: 'failed',
+      message: 'SyntaxError: Unexpected token',
+      assertionResults: []
+    }
+  ]
+};
+
+describe('test results', () => {
+  describe('parseJestJsonReport', () => {
+    it('should count results and collect failing test names', () => {
+      const { tests, failures } = parseJestJsonReport(report);
+
+      expect(tests).toEqual({ total: 3, passed: 1, failed: 1, skipped: 1 });
+      expect(failures).toEqual([
+        { name: 'math subtracts', file: '/project/tests/math.test.ts', message: 'AssertionError: expected 2 to be 3' },
+        { name: 'broken.test.ts', file: '/project/tests/broken.test.ts', message: 'SyntaxError: Unexpected token' }
+      ]);
+    });
+
+    it('should fall back to the report totals when there are no assertion results', () => {
+      const { tests } = parseJestJsonReport({ numTotalTests: 4, numPassedTests: 3, numFailedTests: 0, numPendingTests: 1, testResults: [] });
+      expect(tests).toEqual({ total: 4, passed: 3, failed: 0, skipped: 1 });
+    });
+
+    it('should ignore fields that do not have the expected shape', () => {
+      const { tests, failures } = parseJestJsonReport({
+        testResults: [
+          'not a file',
+          { name: 42, assertionResults: 'none', status: 'failed', message: { text: 'oops' } },
+          { name: 'a.test.ts', assertionResults: [{ status: 'failed', title: 'breaks', failureMessages: [null, 'Error: boom'] }] }
+        ]
+      });
+
+      expect(tests).toEqual({ total: 1, passed: 0, failed: 1, skipped: 0 });
+      expect(failures).toEqual([{ name: 'breaks', file: 'a.test.ts', message: 'Error: boom' }]);
+      expect(parseJestJsonReport('garbage').tests).toEqual({ total: 0, passed: 0, failed: 0, skipped: 0 });
+    });
+  });
+
+  describe('parseJUnitXml', () => {
+    it('should count pytest results and collect failures', () => {
+      const xml = `<?xml version="1.0" encoding="utf-8"?>
+<testsuites><testsuite name="pytest" errors="1" failures="1" skipped="1" tests="4">
+<testcase classname="tests.test_users" name="test_create" file="tests/test_users.py" line="3" time="0.01" />
+<testcase classname="tests.test_users" name="test_delete" time="0.02"><failure message="assert 1 == 2&#10;  where 1 = len([])">def test_delete():
+&gt;       assert 1 == 2</failure></testcase>
+<testcase classname="tests.test_users" name="test_later" time="0"><skipped type="pytest.skip" message="not yet">skipped</skipped></testcase>
+<testcase classname="tests.test_db" name="test_connect" time="0"><error message="fixture &apos;db&apos; not found" /></testcase>
+</testsuite></testsuites>`;
+
+      const { tests, failures } = parseJUnitXml(xml);
+
+      expect(tests).toEqual({ total: 4, passed: 1, failed: 2, skipped: 1 });
+      expect(failures).toEqual([
+        { name: 'tests.test_users::test_delete', file: 'tests/test_users.py', message: 'assert 1 == 2' },
+        { name: 'tests.test_db::test_connect', file: 'tests/test_db.py', message: "fixture 'db' not found" }
+      ]);
+    });
+  });
+
+  describe('coverage', () => {
+    it('should read totals from coverage.py json', () => {
+      const report = {
+        meta: { version: '7.4.0', branch_coverage: true },
+        totals: { covered_lines: 85, num_statements: 100, percent_covered: 83.1, num_branches: 40, covered_branches: 30 }
+      };
+
+      expect(parseCoveragePyJson(report)).toEqual({ lines: 85, branches: 75, functions: null, statements: 85 });
+      expect(parseCoveragePyJson({ totals: { covered_lines: 2, num_statements: 3 } })?.branches).toBe(100);
+      expect(parseCoveragePyJson({})).toBeNull();
+    });
+
+
+    it('should read totals from coverage-summary.json', () => {
+      const summary = {
+        total: {
+          lines: { total: 100, covered: 72, pct: 72 },
+          branches: { pct: 60.5 },
+          functions: { pct: 80 },
+          statements: { pct: 71.2 }
+        }
+      };
+
+      expect(parseCoverageSummary(summary)).toEqual({ lines: 72, branches: 60.5, functions: 80, statements: 71.2 });
+      expect(parseCoverageSummary({})).toBeNull();
+      expect(parseCoverageSummary(null)).toBeNull();
+    });
+
+    it('should read the target from testing standards', () => {
+      expect(parseCoverageTarget('## Framework & Tools\n- **Coverage Target**: 85%\n')).toBe(85);
+      expect(parseCoverageTarget('# Testing Standards\nNo target here')).toBeNull();
+    });
+
+    it('should gate on line coverage', () => {
+      const coverage = { lines: 72, branches: 90, functions: 90, statements: 90 };
+      expect(checkCoverageGate(coverage, 80)).toEqual({ target: 80, actual: 72, passed: false });
+      expect(checkCoverageGate(coverage, 70)?.passed).toBe(true);
+      expect(checkCoverageGate(coverage, null)).toBeNull();
+      expect(checkCoverageGate(null, 80)).toBeNull();
+    });
+  });
+
+  describe('storage', () => {
+    let tempDir: string;
+    let originalCwd: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sherpa-test-results-test-'));
+      originalCwd = process.cwd();
+      process.chdir(tempDir);
+      await ensureDir(path.join(tempDir, '.sherpa'));
+    });
+
+    afterEach(async () => {
+      process.chdir(originalCwd);
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should save each run and keep the latest', async () => {
+      const result: TestRunResult = {
+        runner: 'vitest',
+        command: 'npx vitest run',
+        timestamp: '2025-03-01T10:00:00.000Z',
+        durationMs: 1200,
+        success: true,
+        tests: { total: 1, passed: 1, failed: 0, skipped: 0 },
+        failures: [],
+        coverage: null,
+        gate: null
+      };
+
+      const savedPath = await saveTestResult(result);
+
+      expect(path.basename(savedPath)).toBe('2025-03-01T10-00-00-000Z.json');
+      expect(await getLatestTestResult()).toEqual(result);
+    });
+
+    it('should ignore reports older than the current run', async () => {
+      const reportPath = path.join(tempDir, 'report.json');
+      await writeJson(reportPath, { ok: true });
+
+      expect(await readFreshJson(reportPath, Date.now() - 5000)).toEqual({ ok: true });
+      expect(await readFreshJson(reportPath, Date.now() + 60000)).toBeNull();
+      expect(await readFreshJson(path.join(tempDir, 'missing.json'), 0)).toBeNull();
+    });
+  });
+});
\ No newline at end of file
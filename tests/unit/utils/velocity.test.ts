@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { writeJson } from '../../../src/utils/fs.js';
+import { calculateVelocity, getTicketTimeline, percentiles, readCoveragePercent } from '../../../src/utils/velocity.js';
+import { SessionState } from '../../../src/utils/session.js';
+import { TicketTransition } from '../../../src/types/index.js';
+import { makeTicket } from '../../helpers/tickets.js';
+
+function history(...steps: Array<[TicketTransition['from'], TicketTransition['to'], string]>): TicketTransition[] {
+  return steps.map(([from, to, at]) => ({ from, to, at }));
+}
+
+function makeSession(ticketId: string, startTime: string, hours: number): SessionState {
+  return {
+    id: `session-${startTime}`,
+    startTime,
+    lastUpdated: new Date(Date.parse(startTime) + hours * 60 * 60 * 1000).toISOString(),
+    currentTicket: ticketId,
+    workingFiles: [],
+    decisions: [],
+    blockers: [],
+    progress: [],
+    aiInteractions: [],
+    status: 'completed'
+  };
+}
+
+describe('velocity', () => {
+  const doneTicket = makeTicket('TKT-1', {
+    created_at: '2025-03-01T09:00:00.000Z',
+    status: 'done',
+    status_history: history(
+      ['todo', 'in_progress', '2025-03-03T09:00:00.000Z'],
+      ['in_progress', 'done', '2025-03-04T09:00:00.000Z'],
+      ['done', 'in_progress', '2025-03-05T09:00:00.000Z'],
+      ['in_progress', 'done', '2025-03-05T21:00:00.000Z']
+    )
+  });
+
+  describe('getTicketTimeline', () => {
+    it('should read start, finish, reopens and worked hours', () => {
+      const timeline = getTicketTimeline(doneTicket, [
+        makeSession('TKT-1', '2025-03-03T09:00:00.000Z', 3),
+        makeSession('TKT-1', '2025-03-05T09:00:00.000Z', 3),
+        makeSession('TKT-2', '2025-03-05T09:00:00.000Z', 8)
+      ]);
+
+      expect(timeline).toMatchObject({
+        startedAt: '2025-03-03T09:00:00.000Z',
+        completedAt: '2025-03-05T21:00:00.000Z',
+        reopenCount: 1,
+        workedHours: 6
+      });
+    });
+
+    it('should leave completedAt empty for reopened tickets', () => {
+      const reopened = { ...doneTicket, status: 'in_progress' as const };
+      expect(getTicketTimeline(reopened, []).completedAt).toBeUndefined();
+    });
+  });
+
+  describe('percentiles', () => {
+    it('should use nearest-rank values', () => {
+      expect(percentiles([1, 2, 3, 4, 5, 6, 7, 8, 9, 10])).toEqual({ count: 10, p50: 5, p85: 9, p95: 10 });
+      expect(percentiles([])).toBeNull();
+    });
+  });
+
+  describe('calculateVelocity', () => {
+    it('should only count tickets completed within the period', () => {
+      const oldTicket = makeTicket('TKT-2', {
+        status: 'done',
+        status_history: history(['todo', 'done', '2025-01-10T09:00:00.000Z'])
+      });
+      const openTicket = makeTicket('TKT-3', { status: 'in_progress', status_history: history(['todo', 'in_progress', '2025-03-06T09:00:00.000Z']) });
+
+      const week = calculateVelocity([doneTicket, oldTicket, openTicket], [], 'week', '2025-03-07');
+      expect(week.from).toBe('2025-03-01');
+      expect(week.to).toBe('2025-03-07');
+      expect(week.ticketsCompleted).toBe(1);
+      expect(week.throughputPerWeek).toBe(1);
+      expect(week.cycleTimeDays).toEqual({ count: 1, p50: 2.5, p85: 2.5, p95: 2.5 });
+      expect(week.leadTimeDays?.p50).toBe(4.5);
+      expect(week.reopenRate).toBe(100);
+
+      const quarter = calculateVelocity([doneTicket, oldTicket, openTicket], [], 'quarter', '2025-03-07');
+      expect(quarter.ticketsCompleted).toBe(2);
+      expect(quarter.throughput).toHaveLength(13);
+      expect(quarter.throughput.reduce((sum, w) => sum + w.completed, 0)).toBe(2);
+    });
+
+    it('should compare worked hours with timebox estimates', () => {
+      const metrics = calculateVelocity([doneTicket], [makeSession('TKT-1', '2025-03-03T09:00:00.000Z', 6)], 'week', '2025-03-07');
+
+      expect(metrics.estimateAccuracy).toEqual({
+        tickets: 1,
+        estimatedHours: 4,
+        actualHours: 6,
+        ratio: 1.5,
+        withinTimeboxPercent: 0
+      });
+      expect(metrics.sessions).toEqual({ count: 1, hours: 6 });
+    });
+
+    it('should reject invalid dates', () => {
+      expect(() => calculateVelocity([], [], 'week', 'yesterday')).toThrow('Invalid date');
+    });
+  });
+
+  describe('readCoveragePercent', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sherpa-velocity-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should read line coverage from coverage-summary.json', async () => {
+      expect(await readCoveragePercent(tempDir)).toBeNull();
+
+      await writeJson(path.join(tempDir, 'coverage/coverage-summary.json'), { total: { lines: { pct: 83.4 } } });
+      expect(await readCoveragePercent(tempDir)).toBe(83.4);
+    });
+  });
+});
\ No newline at end of file